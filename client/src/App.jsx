@@ -3,8 +3,9 @@ import Header from './components/Header';
 import EvaluationPanel from './components/EvaluationPanel';
 import ResultsPanel from './components/ResultsPanel';
 import HistoryPanel from './components/HistoryPanel';
+import ReviewQueuePanel from './components/ReviewQueuePanel';
 import SettingsDrawer from './components/SettingsDrawer';
-import { fetchConfig, evaluateContent } from './services/api';
+import { fetchConfig, evaluateContentStream } from './services/api';
 import './App.css';
 
 const App = () => {
@@ -39,7 +40,15 @@ const App = () => {
       setEvaluating(true);
       setEvaluationResult(null);
       const policy = options.customPolicy || null;
-      const result = await evaluateContent(content, policy);
+      // Show rule results as they arrive, then replace with the final verdict
+      const result = await evaluateContentStream(content, policy, options.policyId, {
+        onStart: (start) => setEvaluationResult({ ...start, streaming: true, rule_results: [] }),
+        onRule: (ruleResult) => setEvaluationResult(prev => (
+          prev?.streaming
+            ? { ...prev, rule_results: [...prev.rule_results, ruleResult] }
+            : prev
+        )),
+      });
       setEvaluationResult(result);
     } catch (err) {
       console.error('Evaluation failed:', err);
@@ -107,6 +116,13 @@ const App = () => {
             <span className="tab-icon">📜</span>
             History
           </button>
+          <button
+            className={`tab-btn ${activeTab === 'reviews' ? 'active' : ''}`}
+            onClick={() => setActiveTab('reviews')}
+          >
+            <span className="tab-icon">🧑‍⚖️</span>
+            Reviews
+          </button>
         </div>
 
         {activeTab === 'evaluate' ? (
@@ -119,10 +135,14 @@ const App = () => {
               <ResultsPanel result={evaluationResult} />
             </div>
           </div>
-        ) : (
+        ) : activeTab === 'history' ? (
           <div className="history-container">
             <HistoryPanel onRerunResult={handleRerunResult} />
           </div>
+        ) : (
+          <div className="history-container">
+            <ReviewQueuePanel />
+          </div>
         )}
       </main>
 
@@ -1,13 +1,22 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { fetchPolicies } from '../services/api';
 import './EvaluationPanel.css';
 
 const EvaluationPanel = ({ onEvaluate, evaluating }) => {
   const [content, setContent] = useState('');
+  const [policies, setPolicies] = useState([]);
+  const [policyId, setPolicyId] = useState('');
+
+  useEffect(() => {
+    fetchPolicies()
+      .then((data) => setPolicies(data.policies || []))
+      .catch((err) => console.error('Failed to fetch policies:', err));
+  }, []);
 
   const handleSubmit = (e) => {
     e.preventDefault();
     if (!content.trim()) return;
-    onEvaluate(content, {});
+    onEvaluate(content, policyId ? { policyId } : {});
   };
 
   const clearForm = () => {
@@ -37,6 +46,25 @@ const EvaluationPanel = ({ onEvaluate, evaluating }) => {
     <div className="panel evaluation-panel evaluation-panel-centered">
       <div className="panel-content">
         <form onSubmit={handleSubmit}>
+          {policies.length > 1 && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="eval-policy">Policy</label>
+              <select
+                id="eval-policy"
+                className="form-select"
+                value={policyId}
+                onChange={(e) => setPolicyId(e.target.value)}
+              >
+                <option value="">Default policy</option>
+                {policies.filter((p) => !p.isDefault).map((p) => (
+                  <option key={p.policyId} value={p.policyId}>
+                    {p.name} ({p.policyId})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="form-group">
             <label className="form-label" htmlFor="eval-content">Content to Evaluate</label>
             <textarea
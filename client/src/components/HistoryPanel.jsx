@@ -219,6 +219,12 @@ const HistoryPanel = ({ onRerunResult, onViewDetails }) => {
               <span className="stat-number">{stats.recentEvaluations}</span>
               <span className="stat-label">Last 24h</span>
             </div>
+            {stats.spend && (
+              <div className="stat-item" title={`${stats.spend.total.total_tokens} judge tokens`}>
+                <span className="stat-number">${stats.spend.total.cost_usd.toFixed(2)}</span>
+                <span className="stat-label">Spend (30d)</span>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -5,18 +5,141 @@ import './PolicyPanel.css';
 const DEFAULT_RULE = {
   id: '',
   description: '',
+  type: 'llm',
   judge_prompt: '',
   on_fail: 'warn',
-  weight: 1.0
+  weight: 1.0,
+  provider: '',
+  model: '',
+  mask_style: 'placeholder',
+  pattern: '',
+  flags: '',
+  keywords: '',
+  case_sensitive: false,
+  pii_types: []
 };
 
 const ACTION_OPTIONS = ['block', 'redact', 'warn', 'allow'];
+const RULE_TYPE_OPTIONS = [
+  { value: 'llm', label: 'LLM judge' },
+  { value: 'regex', label: 'Regex pattern' },
+  { value: 'keyword', label: 'Keyword list' },
+  { value: 'pii', label: 'PII detector' },
+];
+const PII_TYPE_OPTIONS = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'credit_card', label: 'Credit card' },
+  { value: 'ssn', label: 'SSN' },
+  { value: 'api_key', label: 'API key' },
+];
+const PROVIDER_OPTIONS = [
+  { value: '', label: 'Default (judge setting)' },
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'azure_openai', label: 'Azure OpenAI' },
+  { value: 'openai_compatible', label: 'OpenAI-compatible (self-hosted)' },
+];
+const MASK_STYLE_OPTIONS = [
+  { value: 'placeholder', label: '[REDACTED] placeholder' },
+  { value: 'category', label: 'Category tag, e.g. [EMAIL]' },
+  { value: 'hash', label: 'Category + hash, e.g. [EMAIL:3f2a…]' },
+];
 const STRATEGY_OPTIONS = [
   { value: 'all', label: 'All rules must pass' },
   { value: 'any', label: 'At least one rule must pass' },
   { value: 'weighted_threshold', label: 'Weighted score threshold' },
+  { value: 'priority', label: 'First failing rule decides (priority)' },
+  { value: 'expression', label: 'Boolean rule expression' },
 ];
 
+const countRules = (group) =>
+  (group.rules || []).length + (group.groups || []).reduce((total, child) => total + countRules(child), 0);
+
+const getStrategyLabel = (value) => STRATEGY_OPTIONS.find(opt => opt.value === value)?.label || value;
+
+// Grouped rules are shown read-only with their group's strategy
+const RuleGroupTree = ({ group, getActionColor }) => (
+  <div className="rule-group">
+    <div className="rule-group-header">
+      <span className="rule-id">{group.id}</span>
+      <span className="rule-group-strategy" title={group.expression || group.description || ''}>
+        {getStrategyLabel(group.evaluation_strategy)}
+        {group.evaluation_strategy === 'weighted_threshold' && group.threshold !== undefined
+          && ` (${(group.threshold * 100).toFixed(0)}%)`}
+      </span>
+    </div>
+    {(group.rules || []).map(rule => (
+      <div key={rule.id} className="rule-card rule-card-static">
+        <div className="rule-header">
+          <div className="rule-info">
+            <span className="rule-id">{rule.id}</span>
+          </div>
+          <div className="rule-badges">
+            <span
+              className="rule-action"
+              style={{
+                background: `${getActionColor(rule.on_fail)}20`,
+                color: getActionColor(rule.on_fail)
+              }}
+            >
+              {rule.on_fail}
+            </span>
+            <span className="rule-weight">
+              {((rule.weight ?? 1) * 100).toFixed(0)}%
+            </span>
+          </div>
+        </div>
+      </div>
+    ))}
+    {(group.groups || []).map(child => (
+      <RuleGroupTree key={child.id} group={child} getActionColor={getActionColor} />
+    ))}
+  </div>
+);
+
+const inheritsRules = (policy) => !!policy.extends || (policy.library_rules || []).length > 0;
+
+// Base policy and shared library rules are resolved by the server and shown read-only
+const InheritedRules = ({ policy, getActionColor }) => (
+  <div className="rule-group">
+    <div className="rule-group-header">
+      <span className="rule-id">Inherited</span>
+      {policy.extends && (
+        <span className="rule-group-strategy">extends {policy.extends}</span>
+      )}
+    </div>
+    {(policy.library_rules || []).map(ref => (
+      <div key={ref.id} className="rule-card rule-card-static">
+        <div className="rule-header">
+          <div className="rule-info">
+            <span className="rule-id">{ref.id}</span>
+          </div>
+          <div className="rule-badges">
+            {ref.on_fail && (
+              <span
+                className="rule-action"
+                style={{
+                  background: `${getActionColor(ref.on_fail)}20`,
+                  color: getActionColor(ref.on_fail)
+                }}
+              >
+                {ref.on_fail}
+              </span>
+            )}
+            {ref.weight !== undefined && (
+              <span className="rule-weight">
+                {(ref.weight * 100).toFixed(0)}%
+              </span>
+            )}
+            <span className="rule-group-strategy">library</span>
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
 const PolicySettingsContent = ({ config, onConfigUpdate }) => {
   const [expandedRule, setExpandedRule] = useState(null);
   const [showRuleForm, setShowRuleForm] = useState(false);
@@ -26,6 +149,8 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState(null);
   const [policySaving, setPolicySaving] = useState(false);
+  const [expressionDraft, setExpressionDraft] = useState(null);
+  const [expressionError, setExpressionError] = useState(null);
 
   if (!config) {
     return (
@@ -51,8 +176,12 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
     const value = e.target.value;
     setPolicySaving(true);
     try {
+      // Start a new expression as "every rule must pass"
+      const expression = value === 'expression' && !config.policy.expression
+        ? [...config.policy.rules, ...(config.policy.groups || [])].map(member => member.id).join(' AND ')
+        : config.policy.expression;
       await updateConfig({
-        policy: { ...config.policy, evaluation_strategy: value },
+        policy: { ...config.policy, evaluation_strategy: value, expression },
       });
       if (onConfigUpdate) onConfigUpdate();
     } catch (err) {
@@ -92,6 +221,53 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
     }
   };
 
+  const handleExpressionSave = async () => {
+    if (expressionDraft === null || expressionDraft === policy.expression) return;
+    setPolicySaving(true);
+    setExpressionError(null);
+    try {
+      await updateConfig({
+        policy: { ...config.policy, expression: expressionDraft },
+      });
+      setExpressionDraft(null);
+      if (onConfigUpdate) onConfigUpdate();
+    } catch (err) {
+      setExpressionError(err.message || 'Invalid expression');
+    } finally {
+      setPolicySaving(false);
+    }
+  };
+
+  const handleMinConfidenceChange = async (e) => {
+    const value = parseFloat(e.target.value);
+    setPolicySaving(true);
+    try {
+      await updateConfig({
+        policy: { ...config.policy, min_confidence: value },
+      });
+      if (onConfigUpdate) onConfigUpdate();
+    } catch (err) {
+      console.error('Failed to update minimum confidence:', err);
+    } finally {
+      setPolicySaving(false);
+    }
+  };
+
+  const handleConfidenceWeightedChange = async (e) => {
+    const checked = e.target.checked;
+    setPolicySaving(true);
+    try {
+      await updateConfig({
+        policy: { ...config.policy, confidence_weighted: checked },
+      });
+      if (onConfigUpdate) onConfigUpdate();
+    } catch (err) {
+      console.error('Failed to update confidence weighting:', err);
+    } finally {
+      setPolicySaving(false);
+    }
+  };
+
   const handleOpenAddForm = () => {
     setEditingRule(null);
     setFormData(DEFAULT_RULE);
@@ -105,9 +281,18 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
     setFormData({
       id: rule.id,
       description: rule.description || '',
-      judge_prompt: rule.judge_prompt,
+      type: rule.type || 'llm',
+      judge_prompt: rule.judge_prompt || '',
       on_fail: rule.on_fail,
-      weight: rule.weight
+      weight: rule.weight,
+      provider: rule.provider || '',
+      model: rule.model || '',
+      mask_style: rule.redaction?.mask_style || 'placeholder',
+      pattern: rule.pattern || '',
+      flags: rule.flags || '',
+      keywords: (rule.keywords || []).join(', '),
+      case_sensitive: !!rule.case_sensitive,
+      pii_types: rule.pii_types || []
     });
     setFormError(null);
     setShowRuleForm(true);
@@ -125,26 +310,61 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
     setFormError(null);
   };
 
+  const handleTogglePiiType = (piiType) => {
+    setFormData(prev => ({
+      ...prev,
+      pii_types: prev.pii_types.includes(piiType)
+        ? prev.pii_types.filter(t => t !== piiType)
+        : [...prev.pii_types, piiType]
+    }));
+    setFormError(null);
+  };
+
   const handleSubmitForm = async (e) => {
     e.preventDefault();
     if (!formData.id.trim()) {
       setFormError('Rule ID is required');
       return;
     }
-    if (!formData.judge_prompt.trim()) {
+    const keywords = formData.keywords.split(',').map(k => k.trim()).filter(Boolean);
+    if (formData.type === 'llm' && !formData.judge_prompt.trim()) {
       setFormError('Judge Prompt is required');
       return;
     }
+    if (formData.type === 'regex' && !formData.pattern.trim()) {
+      setFormError('Pattern is required for regex rules');
+      return;
+    }
+    if (formData.type === 'keyword' && keywords.length === 0) {
+      setFormError('At least one keyword is required');
+      return;
+    }
     setIsSubmitting(true);
     setFormError(null);
     try {
       const ruleData = {
         id: formData.id.trim(),
         description: formData.description.trim(),
-        judge_prompt: formData.judge_prompt.trim(),
+        type: formData.type,
         on_fail: formData.on_fail,
-        weight: parseFloat(formData.weight)
+        weight: parseFloat(formData.weight),
+        redaction: formData.on_fail === 'redact'
+          ? { mask_style: formData.mask_style }
+          : undefined
       };
+      if (formData.type === 'llm') {
+        ruleData.judge_prompt = formData.judge_prompt.trim();
+        ruleData.provider = formData.provider || undefined;
+        ruleData.model = formData.model.trim() || undefined;
+      } else if (formData.type === 'regex') {
+        ruleData.pattern = formData.pattern.trim();
+        ruleData.flags = formData.flags.trim() || undefined;
+      } else if (formData.type === 'keyword') {
+        ruleData.keywords = keywords;
+        ruleData.case_sensitive = formData.case_sensitive;
+      } else if (formData.type === 'pii') {
+        ruleData.pii_types = formData.pii_types.length ? formData.pii_types : undefined;
+      }
       if (editingRule) {
         await updateRule(editingRule, ruleData);
       } else {
@@ -218,8 +438,47 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
                 disabled={policySaving}
                 className="form-range"
               />
+              <label className="inline-checkbox">
+                <input
+                  type="checkbox"
+                  checked={!!policy.confidence_weighted}
+                  onChange={handleConfidenceWeightedChange}
+                  disabled={policySaving}
+                />
+                Weight rules by verdict confidence
+              </label>
+            </div>
+          )}
+          {policy.evaluation_strategy === 'expression' && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="settings-expression">Rule Expression</label>
+              <input
+                id="settings-expression"
+                type="text"
+                value={expressionDraft !== null ? expressionDraft : policy.expression || ''}
+                onChange={(e) => setExpressionDraft(e.target.value)}
+                onBlur={handleExpressionSave}
+                disabled={policySaving}
+                placeholder="(no_pii AND no_toxicity) OR approved_domain"
+              />
+              {expressionError && <span className="field-hint">{expressionError}</span>}
             </div>
           )}
+          <div className="form-group">
+            <label className="form-label">
+              Minimum Confidence ({policy.min_confidence ? `${Math.round(policy.min_confidence * 100)}%` : 'off'})
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={policy.min_confidence || 0}
+              onChange={handleMinConfidenceChange}
+              disabled={policySaving}
+              className="form-range"
+            />
+          </div>
           <div className="form-group">
             <label className="form-label" htmlFor="settings-default-action">Default Action</label>
             <select
@@ -243,7 +502,7 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
         <div className="section-header">
           <h3 className="section-title">
             <span>Policy Rules</span>
-            <span className="rule-count">{policy.rules.length}</span>
+            <span className="rule-count">{countRules(policy)}</span>
           </h3>
           <button
             type="button"
@@ -331,15 +590,47 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
                     <span className="detail-label">Description</span>
                     <p>{rule.description || 'No description provided'}</p>
                   </div>
-                  <div className="rule-prompt">
-                    <span className="detail-label">Judge Prompt</span>
-                    <code className="code-block">{rule.judge_prompt}</code>
-                  </div>
+                  {(!rule.type || rule.type === 'llm') && (
+                    <div className="rule-prompt">
+                      <span className="detail-label">Judge Prompt</span>
+                      <code className="code-block">{rule.judge_prompt}</code>
+                    </div>
+                  )}
+                  {rule.type === 'regex' && (
+                    <div className="rule-prompt">
+                      <span className="detail-label">Pattern</span>
+                      <code className="code-block">/{rule.pattern}/{rule.flags || ''}</code>
+                    </div>
+                  )}
+                  {rule.type === 'keyword' && (
+                    <div className="rule-prompt">
+                      <span className="detail-label">Keywords{rule.case_sensitive ? ' (case-sensitive)' : ''}</span>
+                      <code className="code-block">{(rule.keywords || []).join(', ')}</code>
+                    </div>
+                  )}
+                  {rule.type === 'pii' && (
+                    <div className="rule-description">
+                      <span className="detail-label">PII Detectors</span>
+                      <p>{rule.pii_types?.length ? rule.pii_types.join(', ') : 'All detectors'}</p>
+                    </div>
+                  )}
+                  {(rule.provider || rule.model) && (
+                    <div className="rule-description">
+                      <span className="detail-label">Judge</span>
+                      <p>{[rule.provider, rule.model].filter(Boolean).join(' / ')}</p>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           ))}
-          {policy.rules.length === 0 && (
+          {(policy.groups || []).map(group => (
+            <RuleGroupTree key={group.id} group={group} getActionColor={getActionColor} />
+          ))}
+          {inheritsRules(policy) && (
+            <InheritedRules policy={policy} getActionColor={getActionColor} />
+          )}
+          {countRules(policy) === 0 && !inheritsRules(policy) && (
             <div className="empty-rules">
               <span className="empty-icon">📭</span>
               <p>No rules configured</p>
@@ -389,15 +680,94 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
                 />
               </div>
               <div className="form-group">
-                <label htmlFor="rule-prompt">Judge Prompt *</label>
-                <textarea
-                  id="rule-prompt"
-                  value={formData.judge_prompt}
-                  onChange={(e) => handleFormChange('judge_prompt', e.target.value)}
-                  placeholder="The prompt sent to the AI judge to evaluate the content..."
-                  rows={4}
-                />
+                <label htmlFor="rule-type">Rule Type</label>
+                <select
+                  id="rule-type"
+                  value={formData.type}
+                  onChange={(e) => handleFormChange('type', e.target.value)}
+                >
+                  {RULE_TYPE_OPTIONS.map(opt => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+                {formData.type !== 'llm' && (
+                  <span className="field-hint">Evaluated locally without calling the judge; any match fails the rule</span>
+                )}
               </div>
+              {formData.type === 'llm' && (
+                <div className="form-group">
+                  <label htmlFor="rule-prompt">Judge Prompt *</label>
+                  <textarea
+                    id="rule-prompt"
+                    value={formData.judge_prompt}
+                    onChange={(e) => handleFormChange('judge_prompt', e.target.value)}
+                    placeholder="The prompt sent to the AI judge to evaluate the content..."
+                    rows={4}
+                  />
+                </div>
+              )}
+              {formData.type === 'regex' && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="rule-pattern">Pattern *</label>
+                    <input
+                      id="rule-pattern"
+                      type="text"
+                      value={formData.pattern}
+                      onChange={(e) => handleFormChange('pattern', e.target.value)}
+                      placeholder="e.g., \bproject\s+falcon\b"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="rule-flags">Flags</label>
+                    <input
+                      id="rule-flags"
+                      type="text"
+                      value={formData.flags}
+                      onChange={(e) => handleFormChange('flags', e.target.value)}
+                      placeholder="e.g., i"
+                    />
+                  </div>
+                </div>
+              )}
+              {formData.type === 'keyword' && (
+                <div className="form-group">
+                  <label htmlFor="rule-keywords">Keywords *</label>
+                  <input
+                    id="rule-keywords"
+                    type="text"
+                    value={formData.keywords}
+                    onChange={(e) => handleFormChange('keywords', e.target.value)}
+                    placeholder="Comma-separated, e.g., confidential, internal only"
+                  />
+                  <label className="inline-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={formData.case_sensitive}
+                      onChange={(e) => handleFormChange('case_sensitive', e.target.checked)}
+                    />
+                    Case-sensitive
+                  </label>
+                </div>
+              )}
+              {formData.type === 'pii' && (
+                <div className="form-group">
+                  <label>PII Detectors</label>
+                  <div className="pii-type-options">
+                    {PII_TYPE_OPTIONS.map(opt => (
+                      <label key={opt.value} className="inline-checkbox">
+                        <input
+                          type="checkbox"
+                          checked={formData.pii_types.includes(opt.value)}
+                          onChange={() => handleTogglePiiType(opt.value)}
+                        />
+                        {opt.label}
+                      </label>
+                    ))}
+                  </div>
+                  <span className="field-hint">Leave all unchecked to use every detector</span>
+                </div>
+              )}
               <div className="form-row">
                 <div className="form-group">
                   <label htmlFor="rule-action">On Fail Action</label>
@@ -426,6 +796,46 @@ const PolicySettingsContent = ({ config, onConfigUpdate }) => {
                   />
                 </div>
               </div>
+              {formData.on_fail === 'redact' && (
+                <div className="form-group">
+                  <label htmlFor="rule-mask-style">Redaction Mask</label>
+                  <select
+                    id="rule-mask-style"
+                    value={formData.mask_style}
+                    onChange={(e) => handleFormChange('mask_style', e.target.value)}
+                  >
+                    {MASK_STYLE_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {formData.type === 'llm' && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor="rule-provider">Judge Provider</label>
+                    <select
+                      id="rule-provider"
+                      value={formData.provider}
+                      onChange={(e) => handleFormChange('provider', e.target.value)}
+                    >
+                      {PROVIDER_OPTIONS.map(opt => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="rule-model">Judge Model</label>
+                    <input
+                      id="rule-model"
+                      type="text"
+                      value={formData.model}
+                      onChange={(e) => handleFormChange('model', e.target.value)}
+                      placeholder="Default model"
+                    />
+                  </div>
+                </div>
+              )}
               <div className="form-actions">
                 <button type="button" className="btn btn-secondary" onClick={handleCloseForm}>
                   Cancel
@@ -29,6 +29,8 @@ const ResultsPanel = ({ result }) => {
       WARN: 'verdict-warn',
       REDACT: 'verdict-redact',
       UNCERTAIN: 'verdict-uncertain',
+      SKIPPED: 'verdict-skipped',
+      NOT_APPLICABLE: 'verdict-not-applicable',
       ERROR: 'verdict-error',
     };
     return classes[verdict] || '';
@@ -43,6 +45,7 @@ const ResultsPanel = ({ result }) => {
       WARN: '⚠',
       REDACT: '◐',
       UNCERTAIN: '?',
+      NOT_APPLICABLE: '–',
       ERROR: '!',
     };
     return icons[verdict] || '•';
@@ -53,6 +56,13 @@ const ResultsPanel = ({ result }) => {
     return `${(ms / 1000).toFixed(2)}s`;
   };
 
+  const formatCost = (usd) => `$${usd < 0.01 ? usd.toFixed(6) : usd.toFixed(4)}`;
+
+  // While streaming, rules without a result yet are still being evaluated
+  const pendingRules = result.streaming
+    ? (result.rules || []).filter(rule => !result.rule_results.some(r => r.rule_id === rule.id))
+    : [];
+
   return (
     <div className="results-panel fade-in">
       <div className="results-header">
@@ -60,30 +70,52 @@ const ResultsPanel = ({ result }) => {
           <span className="results-icon">📊</span>
           Evaluation Results
         </h2>
-        <div className="results-meta">
-          <span className="meta-timestamp">
-            {new Date(result.evaluated_at).toLocaleTimeString()}
-          </span>
-          <span className="meta-latency">
-            {formatLatency(result.total_latency_ms)}
-          </span>
-        </div>
+        {!result.streaming && (
+          <div className="results-meta">
+            <span className="meta-timestamp">
+              {new Date(result.evaluated_at).toLocaleTimeString()}
+            </span>
+            <span className="meta-latency">
+              {formatLatency(result.total_latency_ms)}
+            </span>
+            {result.usage && (
+              <span className="meta-latency" title={`${result.usage.total_tokens} judge tokens`}>
+                {formatCost(result.usage.cost_usd)}
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="results-content">
-        {/* Final Verdict Card */}
-        <div className={`verdict-card ${getVerdictClass(result.final_verdict)}`}>
-          <div className="verdict-icon">
-            {getVerdictIcon(result.final_verdict)}
-          </div>
-          <div className="verdict-info">
-            <div className="verdict-label">Final Verdict</div>
-            <div className="verdict-value">{result.final_verdict}</div>
+        {/* Live Progress Card */}
+        {result.streaming && (
+          <div className="verdict-card verdict-pending">
+            <div className="verdict-icon">…</div>
+            <div className="verdict-info">
+              <div className="verdict-label">Evaluating</div>
+              <div className="verdict-value">
+                {result.rule_results.length} / {result.total_rules} rules
+              </div>
+            </div>
           </div>
-          <div className={`verdict-status ${result.passed ? 'passed' : 'failed'}`}>
-            {result.passed ? 'Content Accepted' : 'Content Rejected'}
+        )}
+
+        {/* Final Verdict Card */}
+        {!result.streaming && (
+          <div className={`verdict-card ${getVerdictClass(result.final_verdict)}`}>
+            <div className="verdict-icon">
+              {getVerdictIcon(result.final_verdict)}
+            </div>
+            <div className="verdict-info">
+              <div className="verdict-label">Final Verdict</div>
+              <div className="verdict-value">{result.final_verdict}</div>
+            </div>
+            <div className={`verdict-status ${result.passed ? 'passed' : 'failed'}`}>
+              {result.passed ? 'Content Accepted' : 'Content Rejected'}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Summary Stats */}
         {result.summary && (
@@ -124,6 +156,32 @@ const ResultsPanel = ({ result }) => {
                   </span>
                 </div>
               )}
+              {result.summary.skipped > 0 && (
+                <div className="detail-row">
+                  <span className="detail-label">Short-Circuit</span>
+                  <span className="detail-value">
+                    {result.summary.skipped} rule(s) skipped, {result.summary.calls_saved} judge call(s) saved
+                  </span>
+                </div>
+              )}
+              {result.summary.not_applicable > 0 && (
+                <div className="detail-row">
+                  <span className="detail-label">Not Applicable</span>
+                  <span className="detail-value">
+                    {result.summary.not_applicable} rule(s) did not apply to this request
+                  </span>
+                </div>
+              )}
+              {result.group_results?.length > 0 && (
+                <div className="detail-row">
+                  <span className="detail-label">Groups</span>
+                  <span className="detail-value">
+                    {result.group_results
+                      .map(group => `${group.path.join(' / ')}: ${group.final_verdict}`)
+                      .join(', ')}
+                  </span>
+                </div>
+              )}
               <div className="detail-row">
                 <span className="detail-label">Reason</span>
                 <span className="detail-value reason">{result.summary.reason}</span>
@@ -132,8 +190,26 @@ const ResultsPanel = ({ result }) => {
           </div>
         )}
 
+        {/* Redacted Content */}
+        {result.redacted_content !== undefined && (
+          <div className="redaction-section">
+            <h3 className="section-title">Redacted Content</h3>
+            <pre className="redacted-content">{result.redacted_content}</pre>
+          </div>
+        )}
+
+        {/* Redacted Transcript */}
+        {result.redacted_messages && (
+          <div className="redaction-section">
+            <h3 className="section-title">Redacted Transcript</h3>
+            <pre className="redacted-content">
+              {result.redacted_messages.map(message => `${message.role}: ${message.content}`).join('\n\n')}
+            </pre>
+          </div>
+        )}
+
         {/* Rule Results */}
-        {result.rule_results && result.rule_results.length > 0 && (
+        {result.rule_results && (result.rule_results.length > 0 || pendingRules.length > 0) && (
           <div className="rules-section">
             <h3 className="section-title">Individual Rule Results</h3>
             <div className="rule-results">
@@ -145,7 +221,9 @@ const ResultsPanel = ({ result }) => {
                   <div className="rule-result-header">
                     <div className="rule-result-info">
                       <span className="rule-result-index">{index + 1}</span>
-                      <span className="rule-result-id">{rule.rule_id}</span>
+                      <span className="rule-result-id">
+                        {[...(rule.group_path || []), rule.rule_id].join(' / ')}
+                      </span>
                     </div>
                     <div className="rule-result-badges">
                       <span className={`badge badge-${rule.verdict.toLowerCase()}`}>
@@ -157,6 +235,11 @@ const ResultsPanel = ({ result }) => {
                       <span className="latency-badge">
                         {formatLatency(rule.latency_ms)}
                       </span>
+                      {rule.usage && (
+                        <span className="latency-badge" title={formatCost(rule.usage.cost_usd)}>
+                          {rule.usage.input_tokens + rule.usage.output_tokens} tok
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div className="rule-result-body">
@@ -164,6 +247,44 @@ const ResultsPanel = ({ result }) => {
                       <span className="reasoning-label">Reasoning:</span>
                       <span className="reasoning-text">{rule.reasoning}</span>
                     </div>
+                    {rule.spans && rule.spans.length > 0 && (
+                      <div className="rule-reasoning">
+                        <span className="reasoning-label">Redacted Spans:</span>
+                        <span className="reasoning-text">
+                          {rule.spans
+                            .map(span => `${span.category || 'SENSITIVE'} [${span.start}-${span.end}]`)
+                            .join(', ')}
+                        </span>
+                      </div>
+                    )}
+                    {rule.downgraded_from && (
+                      <div className="rule-reasoning">
+                        <span className="reasoning-label">Low Confidence:</span>
+                        <span className="reasoning-text">
+                          Judge returned {rule.downgraded_from}, treated as UNCERTAIN
+                        </span>
+                      </div>
+                    )}
+                    {rule.votes && rule.votes.length > 0 && (
+                      <div className="rule-reasoning">
+                        <span className="reasoning-label">Judge Votes:</span>
+                        <span className="reasoning-text">
+                          {rule.votes
+                            .map(vote => `${vote.model || vote.provider || 'judge'}: ${vote.verdict} (${(vote.confidence * 100).toFixed(0)}%)`)
+                            .join(', ')}
+                        </span>
+                      </div>
+                    )}
+                    {rule.chunks && rule.chunks.length > 0 && (
+                      <div className="rule-reasoning">
+                        <span className="reasoning-label">Flagged Chunks:</span>
+                        <span className="reasoning-text">
+                          {rule.chunks
+                            .map(chunk => `${chunk.index + 1}/${rule.chunk_count} ${chunk.verdict} [${chunk.start}-${chunk.end}]`)
+                            .join(', ')}
+                        </span>
+                      </div>
+                    )}
                     {rule.action && (
                       <div className="rule-action-info">
                         <span className="action-label">On Fail:</span>
@@ -175,6 +296,19 @@ const ResultsPanel = ({ result }) => {
                   </div>
                 </div>
               ))}
+              {pendingRules.map((rule, index) => (
+                <div key={rule.id} className="rule-result rule-pending">
+                  <div className="rule-result-header">
+                    <div className="rule-result-info">
+                      <span className="rule-result-index">{result.rule_results.length + index + 1}</span>
+                      <span className="rule-result-id">{rule.id}</span>
+                    </div>
+                    <div className="rule-result-badges">
+                      <span className="badge badge-pending">EVALUATING</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -0,0 +1,520 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchReviews,
+  fetchReviewStats,
+  claimReview,
+  releaseReview,
+  resolveReview,
+  getEvaluation
+} from '../services/api';
+import './HistoryPanel.css';
+import './ReviewQueuePanel.css';
+
+const REVIEWER_STORAGE_KEY = 'trustwise-reviewer';
+
+const OVERRIDE_VERDICTS = ['ALLOW', 'BLOCK', 'WARN', 'REDACT'];
+
+const ReviewQueuePanel = () => {
+  const [items, setItems] = useState([]);
+  const [stats, setStats] = useState(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [filters, setFilters] = useState({
+    status: 'pending',
+    trigger: '',
+    overdue: false,
+  });
+  const [reviewer, setReviewer] = useState(() => {
+    try {
+      return localStorage.getItem(REVIEWER_STORAGE_KEY) || '';
+    } catch {
+      return '';
+    }
+  });
+  const [busy, setBusy] = useState(null);
+  const [resolution, setResolution] = useState(null);
+  const [selectedEvaluation, setSelectedEvaluation] = useState(null);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const options = {
+        page,
+        limit: 10,
+      };
+
+      if (filters.status) {
+        options.status = filters.status;
+      }
+      if (filters.trigger) {
+        options.trigger = filters.trigger;
+      }
+      if (filters.overdue) {
+        options.overdue = true;
+      }
+
+      const result = await fetchReviews(options);
+      setItems(result.items || []);
+      setTotalPages(result.totalPages || 1);
+
+    } catch (err) {
+      console.error('Failed to load reviews:', err);
+      setError(err.message || 'Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, filters]);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const result = await fetchReviewStats();
+      setStats(result);
+    } catch (err) {
+      console.error('Failed to load review stats:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const handleReviewerChange = (e) => {
+    const { value } = e.target;
+    setReviewer(value);
+    try {
+      localStorage.setItem(REVIEWER_STORAGE_KEY, value);
+    } catch {
+      // Ignore storage errors
+    }
+  };
+
+  const handleFilterChange = (e) => {
+    const { name, value, type, checked } = e.target;
+    setFilters(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+    setPage(1); // Reset to first page on filter change
+  };
+
+  // Run a claim, release or resolve, then refresh the queue
+  const runAction = async (reviewId, action) => {
+    if (!reviewer.trim()) {
+      setError('Enter your reviewer name first');
+      return;
+    }
+
+    try {
+      setBusy(reviewId);
+      await action(reviewer.trim());
+      await loadReviews();
+      await loadStats();
+    } catch (err) {
+      console.error('Review action failed:', err);
+      setError(err.message || 'Review action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleClaim = (reviewId) => runAction(reviewId, (name) => claimReview(reviewId, name));
+
+  const handleRelease = (reviewId) => runAction(reviewId, (name) => releaseReview(reviewId, name));
+
+  const handleResolve = (e) => {
+    e.preventDefault();
+    const { reviewId, decision, verdict, rationale } = resolution;
+    const body = decision === 'override'
+      ? { decision, verdict, rationale }
+      : { decision, ...(rationale ? { rationale } : {}) };
+    runAction(reviewId, async (name) => {
+      await resolveReview(reviewId, name, body);
+      setResolution(null);
+    });
+  };
+
+  const startResolution = (item, decision) => {
+    setResolution({
+      reviewId: item.reviewId,
+      decision,
+      verdict: OVERRIDE_VERDICTS.find(verdict => verdict !== item.verdict),
+      rationale: '',
+    });
+  };
+
+  const handleViewEvaluation = async (evaluationId) => {
+    try {
+      const evaluation = await getEvaluation(evaluationId);
+      setSelectedEvaluation(evaluation);
+    } catch (err) {
+      console.error('Failed to get evaluation details:', err);
+      setError(err.message || 'Failed to load evaluation details');
+    }
+  };
+
+  const getVerdictClass = (verdict) => {
+    const classes = {
+      ALLOW: 'verdict-allow',
+      BLOCK: 'verdict-block',
+      WARN: 'verdict-warn',
+      REDACT: 'verdict-redact',
+      ERROR: 'verdict-error',
+    };
+    return classes[verdict] || '';
+  };
+
+  const formatDate = (dateString) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatDuration = (ms) => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    return `${(minutes / 60).toFixed(1)}h`;
+  };
+
+  const isMine = (item) => item.status === 'claimed' && item.assignee === reviewer.trim();
+
+  return (
+    <div className="history-panel review-panel">
+      <div className="history-header">
+        <div className="history-title-row">
+          <h2 className="history-title">
+            <span className="history-icon">🧑‍⚖️</span>
+            Review Queue
+          </h2>
+          <button
+            className="btn btn-ghost refresh-btn"
+            onClick={() => { loadReviews(); loadStats(); }}
+            disabled={loading}
+          >
+            🔄 Refresh
+          </button>
+        </div>
+
+        {/* Stats Summary */}
+        {stats && (
+          <div className="history-stats">
+            <div className="stat-item stat-warn">
+              <span className="stat-number">{stats.counts.pending}</span>
+              <span className="stat-label">Pending</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-number">{stats.counts.claimed}</span>
+              <span className="stat-label">Claimed</span>
+            </div>
+            <div className="stat-item stat-block">
+              <span className="stat-number">{stats.overdue}</span>
+              <span className="stat-label">Overdue</span>
+            </div>
+            <div className="stat-item stat-allow">
+              <span className="stat-number">{stats.resolved.total}</span>
+              <span className="stat-label">Resolved</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-number">{stats.resolved.overridden}</span>
+              <span className="stat-label">Overridden</span>
+            </div>
+            {stats.resolved.total > 0 && (
+              <div className="stat-item" title={`SLA ${formatDuration(stats.slaMs)}, ${stats.resolved.breached} breached`}>
+                <span className="stat-number">{formatDuration(stats.resolved.avgResolveMs)}</span>
+                <span className="stat-label">Avg Resolve</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="history-filters">
+        <input
+          type="text"
+          className="search-input reviewer-input"
+          placeholder="Your reviewer name"
+          value={reviewer}
+          onChange={handleReviewerChange}
+        />
+        <select
+          name="status"
+          className="filter-select"
+          value={filters.status}
+          onChange={handleFilterChange}
+        >
+          <option value="">All Statuses</option>
+          <option value="pending">Pending</option>
+          <option value="claimed">Claimed</option>
+          <option value="resolved">Resolved</option>
+        </select>
+        <select
+          name="trigger"
+          className="filter-select"
+          value={filters.trigger}
+          onChange={handleFilterChange}
+        >
+          <option value="">All Triggers</option>
+          <option value="warn">⚠ WARN</option>
+          <option value="uncertain">? UNCERTAIN</option>
+        </select>
+        <label className="overdue-filter">
+          <input
+            type="checkbox"
+            name="overdue"
+            checked={filters.overdue}
+            onChange={handleFilterChange}
+          />
+          Overdue only
+        </label>
+      </div>
+
+      {/* Content */}
+      <div className="history-content">
+        {loading && (
+          <div className="history-loading">
+            <div className="loading-spinner"></div>
+            <p>Loading review queue...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="history-error">
+            <span className="error-icon">⚠</span>
+            <p>{error}</p>
+            <button
+              className="btn btn-secondary"
+              onClick={() => { setError(null); loadReviews(); }}
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        {!loading && !error && items.length === 0 && (
+          <div className="history-empty">
+            <span className="empty-icon">✅</span>
+            <h3>Nothing to review</h3>
+            <p>WARN and UNCERTAIN evaluations saved to history appear here</p>
+          </div>
+        )}
+
+        {!loading && !error && items.length > 0 && (
+          <div className="history-list">
+            {items.map((item) => (
+              <div key={item.reviewId} className={`history-item ${item.overdue ? 'review-overdue' : ''}`}>
+                <div className="history-item-header">
+                  <div className="review-badges">
+                    <div className={`verdict-badge ${getVerdictClass(item.verdict)}`}>
+                      {item.verdict}
+                    </div>
+                    {item.triggers.map(trigger => (
+                      <span key={trigger} className="tag-badge">{trigger}</span>
+                    ))}
+                    <span className={`review-status review-status-${item.status}`}>
+                      {item.status === 'claimed' ? `claimed by ${item.assignee}` : item.status}
+                    </span>
+                  </div>
+                  <div className="history-item-meta">
+                    <span className="meta-date" title={`Queued ${formatDate(item.createdAt)}`}>
+                      Due {formatDate(item.dueAt)}
+                    </span>
+                    {item.overdue && <span className="overdue-badge">Overdue</span>}
+                  </div>
+                </div>
+
+                <div className="history-item-body">
+                  <div className="history-content-preview">
+                    {item.contentPreview}
+                  </div>
+                  <div className="history-item-info">
+                    <span className="policy-badge">
+                      {item.policyName} v{item.policyVersion}
+                    </span>
+                    {item.uncertainRules.length > 0 && (
+                      <span className="rules-count">
+                        Uncertain: {item.uncertainRules.join(', ')}
+                      </span>
+                    )}
+                  </div>
+                  {item.reason && (
+                    <p className="review-reason">{item.reason}</p>
+                  )}
+                  {item.resolution && (
+                    <div className="review-resolution">
+                      <strong>
+                        {item.resolution.decision === 'override'
+                          ? `Overridden to ${item.resolution.verdict}`
+                          : 'Approved'}
+                      </strong>
+                      {' '}by {item.resolution.reviewer}, {formatDate(item.resolution.resolvedAt)}
+                      {item.resolution.rationale && (
+                        <p className="review-reason">{item.resolution.rationale}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* Resolution Form */}
+                {resolution?.reviewId === item.reviewId && (
+                  <form className="review-form" onSubmit={handleResolve}>
+                    {resolution.decision === 'override' && (
+                      <select
+                        className="filter-select"
+                        value={resolution.verdict}
+                        onChange={(e) => setResolution(prev => ({ ...prev, verdict: e.target.value }))}
+                      >
+                        {OVERRIDE_VERDICTS.filter(verdict => verdict !== item.verdict).map(verdict => (
+                          <option key={verdict} value={verdict}>{verdict}</option>
+                        ))}
+                      </select>
+                    )}
+                    <textarea
+                      className="review-rationale"
+                      placeholder={resolution.decision === 'override' ? 'Rationale (required)' : 'Rationale (optional)'}
+                      maxLength={2000}
+                      value={resolution.rationale}
+                      onChange={(e) => setResolution(prev => ({ ...prev, rationale: e.target.value }))}
+                      required={resolution.decision === 'override'}
+                    />
+                    <div className="review-form-actions">
+                      <button type="submit" className="btn btn-primary action-btn" disabled={busy === item.reviewId}>
+                        {resolution.decision === 'override' ? 'Override Verdict' : 'Approve Verdict'}
+                      </button>
+                      <button type="button" className="btn btn-ghost action-btn" onClick={() => setResolution(null)}>
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                <div className="history-item-actions">
+                  <button
+                    className="btn btn-ghost action-btn"
+                    onClick={() => handleViewEvaluation(item.evaluationId)}
+                    title="View Evaluation"
+                  >
+                    👁 View
+                  </button>
+                  {item.status === 'pending' && (
+                    <button
+                      className="btn btn-primary action-btn"
+                      onClick={() => handleClaim(item.reviewId)}
+                      disabled={busy === item.reviewId}
+                    >
+                      ✋ Claim
+                    </button>
+                  )}
+                  {isMine(item) && !resolution && (
+                    <>
+                      <button
+                        className="btn btn-primary action-btn"
+                        onClick={() => startResolution(item, 'approve')}
+                      >
+                        ✓ Approve
+                      </button>
+                      <button
+                        className="btn btn-secondary action-btn"
+                        onClick={() => startResolution(item, 'override')}
+                      >
+                        ✎ Override
+                      </button>
+                      <button
+                        className="btn btn-ghost action-btn"
+                        onClick={() => handleRelease(item.reviewId)}
+                        disabled={busy === item.reviewId}
+                      >
+                        ↩ Release
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {!loading && items.length > 0 && totalPages > 1 && (
+        <div className="history-pagination">
+          <button
+            className="btn btn-ghost pagination-btn"
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+          >
+            ← Previous
+          </button>
+          <span className="pagination-info">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            className="btn btn-ghost pagination-btn"
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+          >
+            Next →
+          </button>
+        </div>
+      )}
+
+      {/* Evaluation Modal */}
+      {selectedEvaluation && (
+        <div className="details-modal-overlay" onClick={() => setSelectedEvaluation(null)}>
+          <div className="details-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="details-modal-header">
+              <h3>Evaluation Under Review</h3>
+              <button
+                className="btn btn-ghost close-btn"
+                onClick={() => setSelectedEvaluation(null)}
+              >
+                ✕
+              </button>
+            </div>
+            <div className="details-modal-body">
+              <div className="detail-section">
+                <h4>Content</h4>
+                <pre className="detail-content">{selectedEvaluation.content}</pre>
+              </div>
+
+              <div className="detail-section">
+                <h4>Rule Results</h4>
+                <div className="detail-rules">
+                  {selectedEvaluation.result?.rule_results?.map((rule, idx) => (
+                    <div key={idx} className="detail-rule">
+                      <div className="detail-rule-header">
+                        <span className="rule-id">{rule.rule_id}</span>
+                        <span className={`badge badge-${rule.verdict.toLowerCase()}`}>
+                          {rule.verdict}
+                        </span>
+                      </div>
+                      <p className="rule-reasoning">{rule.reasoning}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="details-modal-footer">
+              <button
+                className="btn btn-secondary"
+                onClick={() => setSelectedEvaluation(null)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueuePanel;
@@ -4,6 +4,17 @@
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3002';
 
+// Sent as X-API-Key when the server runs with AUTH_ENABLED=true
+const API_KEY = import.meta.env.VITE_API_KEY || '';
+
+// Sent as X-Tenant-Id; only used when auth is disabled (keys carry their own tenant)
+const TENANT_ID = import.meta.env.VITE_TENANT_ID || '';
+
+const authHeaders = () => ({
+  ...(API_KEY ? { 'X-API-Key': API_KEY } : {}),
+  ...(TENANT_ID ? { 'X-Tenant-Id': TENANT_ID } : {}),
+});
+
 /**
  * Generic fetch wrapper with error handling
  */
@@ -13,6 +24,7 @@ const apiFetch = async (endpoint, options = {}) => {
   const defaultOptions = {
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
     },
   };
 
@@ -63,11 +75,14 @@ export const reloadConfig = async () => {
  * Evaluate content against policy
  * @param {string} content - Content to evaluate
  * @param {Object} policy - Optional custom policy to use
+ * @param {string} policyId - Optional named policy to evaluate against
  */
-export const evaluateContent = async (content, policy = null) => {
+export const evaluateContent = async (content, policy = null, policyId = null) => {
   const body = { content };
   if (policy) {
     body.policy = policy;
+  } else if (policyId) {
+    body.policyId = policyId;
   }
 
   return apiFetch('/api/policy/evaluate', {
@@ -76,6 +91,86 @@ export const evaluateContent = async (content, policy = null) => {
   });
 };
 
+/**
+ * Evaluate content against policy, receiving rule results as they complete
+ * (Server-Sent Events read from a POST response)
+ * @param {string} content - Content to evaluate
+ * @param {Object} policy - Optional custom policy to use
+ * @param {string} policyId - Optional named policy to evaluate against
+ * @param {Object} handlers - { onStart(start), onRule(ruleResult) }
+ * @returns {Promise<Object>} Final verdict
+ */
+export const evaluateContentStream = async (content, policy = null, policyId = null, handlers = {}) => {
+  const body = { content };
+  if (policy) {
+    body.policy = policy;
+  } else if (policyId) {
+    body.policyId = policyId;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/policy/evaluate/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `API Error: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result = null;
+
+  const handleEvent = (raw) => {
+    let event = 'message';
+    let data = '';
+    for (const line of raw.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data += line.slice(5).trim();
+      }
+    }
+    if (!data) return;
+
+    const payload = JSON.parse(data);
+    if (event === 'start') {
+      handlers.onStart?.(payload);
+    } else if (event === 'rule') {
+      handlers.onRule?.(payload);
+    } else if (event === 'result') {
+      result = payload;
+    } else if (event === 'error') {
+      throw new Error(payload.message || 'Evaluation failed');
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      handleEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (!result) {
+    throw new Error('Evaluation stream ended before a result was received');
+  }
+
+  return result;
+};
+
 /**
  * Validate a policy configuration
  */
@@ -119,6 +214,17 @@ export const deleteRule = async (ruleId) => {
   });
 };
 
+// ============================================
+// Named Policy API Endpoints
+// ============================================
+
+/**
+ * List named policies
+ */
+export const fetchPolicies = async () => {
+  return apiFetch('/api/policies');
+};
+
 // ============================================
 // History API Endpoints
 // ============================================
@@ -225,6 +331,84 @@ export const updateEvaluationNotes = async (evaluationId, notes) => {
   });
 };
 
+// ============================================
+// Review Queue API Endpoints
+// ============================================
+
+// Reviewer sent as X-Author; the server uses the API key's principal when auth is enabled
+const reviewerHeaders = (reviewer) => (reviewer ? { 'X-Author': reviewer } : {});
+
+/**
+ * Fetch review items, oldest first
+ * @param {Object} options - Query options
+ * @param {number} options.page - Page number (default: 1)
+ * @param {number} options.limit - Items per page (default: 20)
+ * @param {string} options.status - Filter by status (pending, claimed, resolved)
+ * @param {string} options.trigger - Filter by trigger (warn, uncertain)
+ * @param {string} options.assignee - Filter by reviewer holding the item
+ * @param {boolean} options.overdue - Only open items past their due date
+ */
+export const fetchReviews = async (options = {}) => {
+  const params = new URLSearchParams();
+
+  if (options.page) params.append('page', options.page.toString());
+  if (options.limit) params.append('limit', options.limit.toString());
+  if (options.status) params.append('status', options.status);
+  if (options.trigger) params.append('trigger', options.trigger);
+  if (options.assignee) params.append('assignee', options.assignee);
+  if (options.overdue) params.append('overdue', 'true');
+
+  const queryString = params.toString();
+  const endpoint = queryString ? `/api/reviews?${queryString}` : '/api/reviews';
+
+  return apiFetch(endpoint);
+};
+
+/**
+ * Get review queue sizes and SLA statistics
+ */
+export const fetchReviewStats = async () => {
+  return apiFetch('/api/reviews/stats');
+};
+
+/**
+ * Claim a review item
+ * @param {string} reviewId - The review ID
+ * @param {string} reviewer - Reviewer name
+ */
+export const claimReview = async (reviewId, reviewer) => {
+  return apiFetch(`/api/reviews/${encodeURIComponent(reviewId)}/claim`, {
+    method: 'POST',
+    headers: reviewerHeaders(reviewer),
+  });
+};
+
+/**
+ * Return a claimed review item to the queue
+ * @param {string} reviewId - The review ID
+ * @param {string} reviewer - Reviewer name
+ */
+export const releaseReview = async (reviewId, reviewer) => {
+  return apiFetch(`/api/reviews/${encodeURIComponent(reviewId)}/release`, {
+    method: 'POST',
+    headers: reviewerHeaders(reviewer),
+  });
+};
+
+/**
+ * Approve or override the verdict of a review item
+ * @param {string} reviewId - The review ID
+ * @param {string} reviewer - Reviewer name
+ * @param {Object} resolution - { decision: 'approve' | 'override', verdict, rationale }
+ */
+export const resolveReview = async (reviewId, reviewer, resolution) => {
+  return apiFetch(`/api/reviews/${encodeURIComponent(reviewId)}/resolve`, {
+    method: 'POST',
+    headers: reviewerHeaders(reviewer),
+    body: JSON.stringify(resolution),
+  });
+};
+
 export default {
   fetchConfig,
   updateConfig,
@@ -243,6 +427,12 @@ export default {
   deleteEvaluations,
   updateEvaluationTags,
   updateEvaluationNotes,
+  // Review queue endpoints
+  fetchReviews,
+  fetchReviewStats,
+  claimReview,
+  releaseReview,
+  resolveReview,
 };
 
 
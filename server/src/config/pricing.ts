@@ -0,0 +1,91 @@
+/**
+ * Judge Model Pricing
+ *
+ * USD per million input and output tokens, used to put a cost on every judge
+ * call. Prices default to the table below and can be overridden or extended
+ * with MODEL_PRICING, e.g.
+ *
+ *   MODEL_PRICING={"gpt-4o-mini":{"input":0.15,"output":0.6},"llama3.1":{"input":0,"output":0}}
+ *
+ * A model matches its own entry or, failing that, the longest entry it starts
+ * with, so dated snapshots such as gpt-4o-mini-2024-07-18 use the gpt-4o-mini price.
+ * Models without a price cost 0.
+ */
+
+import type { ModelPrice, TokenUsage } from '../types';
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+};
+
+/**
+ * Parse MODEL_PRICING (JSON object keyed by model name)
+ */
+export const parseModelPricing = (raw: string | undefined): Record<string, ModelPrice> => {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object keyed by model name');
+    }
+
+    const prices: Record<string, ModelPrice> = {};
+    for (const [model, value] of Object.entries(parsed as Record<string, Record<string, unknown>>)) {
+      if (typeof value?.['input'] === 'number' && typeof value?.['output'] === 'number') {
+        prices[model] = { input: value['input'], output: value['output'] };
+      }
+    }
+    return prices;
+  } catch (error) {
+    console.warn('[Pricing] Ignoring invalid MODEL_PRICING', { error: (error as Error).message });
+    return {};
+  }
+};
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  ...DEFAULT_MODEL_PRICES,
+  ...parseModelPricing(process.env['MODEL_PRICING'])
+};
+
+/**
+ * Price of a model, or null when it has none
+ */
+export const getModelPrice = (model: string, prices: Record<string, ModelPrice> = MODEL_PRICES): ModelPrice | null => {
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix]! : null;
+};
+
+/**
+ * Cost in USD of a judge call's token usage
+ */
+export const calculateCost = (
+  model: string | undefined,
+  usage: TokenUsage,
+  prices: Record<string, ModelPrice> = MODEL_PRICES
+): number => {
+  const price = model ? getModelPrice(model, prices) : null;
+  if (!price) {
+    return 0;
+  }
+
+  const cost = (usage.input_tokens * price.input + usage.output_tokens * price.output) / 1_000_000;
+  return Math.round(cost * 1e8) / 1e8;
+};
@@ -18,7 +18,7 @@ const options: swaggerJsdoc.Options = {
 Trustwise is a configurable content moderation system that evaluates requests against rules using LLM-powered judges.
 
 ### Features
-- **LLM-Powered Evaluation**: Uses OpenAI GPT models to intelligently evaluate content
+- **LLM-Powered Evaluation**: Uses OpenAI, Anthropic, Azure OpenAI or self-hosted OpenAI-compatible models to evaluate content
 - **Configurable Policies**: Define policies with multiple rules and evaluation strategies
 - **Multiple Strategies**: \`all\`, \`any\`, \`weighted_threshold\`
 - **Evaluation History**: Track and replay past evaluations
@@ -39,6 +39,23 @@ Trustwise is a configurable content moderation system that evaluates requests ag
 | \`WARN\` | Content allowed with warning |
 | \`REDACT\` | Content needs redaction |
 | \`ERROR\` | Evaluation failed |
+
+### Authentication
+When the server runs with \`AUTH_ENABLED=true\`, requests need an API key (\`X-API-Key\` header) or an HS256 JWT (\`Authorization: Bearer\`) with \`sub\` and \`role\` claims.
+
+| Role | Can |
+|------|-----|
+| \`evaluator\` | Evaluate content (evaluate, batch, stream, jobs) |
+| \`editor\` | Evaluator, plus read config/history and manage rules and named policies |
+| \`admin\` | Editor, plus update/reload/reset config, delete history and manage API keys |
+
+Missing or invalid credentials return 401; an insufficient role returns 403.
+
+### Tenants
+Every caller belongs to a tenant: the tenant of its API key or the JWT \`tenant\` claim (with auth disabled, the \`X-Tenant-Id\` header). Configuration, named policies, revisions, history, jobs and API keys are isolated per tenant. Each tenant has its own request rate limit and judge-token quota; exceeding either returns 429.
+
+### Rate limits
+Requests are counted per tenant and per API key. Evaluate, batch, stream and job requests also count the judge tokens they are estimated to use (one judge call per LLM rule, each sending the rule and the full content), so large policies and long documents use up the limit faster. Limit state is returned in the \`RateLimit-Policy\`, \`RateLimit-Limit\`, \`RateLimit-Remaining\` and \`RateLimit-Reset\` headers; a 429 also sets \`Retry-After\`.
       `,
       contact: {
         name: 'Trustwise Support',
@@ -58,6 +75,10 @@ Trustwise is a configurable content moderation system that evaluates requests ag
         name: 'Evaluation',
         description: 'Content evaluation endpoints',
       },
+      {
+        name: 'Jobs',
+        description: 'Asynchronous evaluation jobs with webhook callbacks',
+      },
       {
         name: 'Configuration',
         description: 'Policy configuration management',
@@ -66,22 +87,58 @@ Trustwise is a configurable content moderation system that evaluates requests ag
         name: 'Rules',
         description: 'Rule CRUD operations',
       },
+      {
+        name: 'Policies',
+        description: 'Named policy management',
+      },
+      {
+        name: 'Library',
+        description: 'Rules shared between policies',
+      },
       {
         name: 'History',
         description: 'Evaluation history management',
       },
+      {
+        name: 'Reviews',
+        description: 'Human review queue for WARN and UNCERTAIN evaluations',
+      },
+      {
+        name: 'Test Suites',
+        description: 'Labeled test suites and regression runs for policies',
+      },
+      {
+        name: 'Auth',
+        description: 'API key management',
+      },
       {
         name: 'Health',
         description: 'Health check and utility endpoints',
       },
     ],
+    security: [
+      { ApiKeyAuth: [] },
+      { BearerAuth: [] },
+    ],
     components: {
+      securitySchemes: {
+        ApiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+        },
+        BearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key or HS256 JWT signed with JWT_SECRET',
+        },
+      },
       schemas: {
         // Core Types
         Verdict: {
           type: 'string',
-          enum: ['PASS', 'FAIL', 'UNCERTAIN'],
-          description: 'Individual rule verdict',
+          enum: ['PASS', 'FAIL', 'UNCERTAIN', 'SKIPPED', 'NOT_APPLICABLE'],
+          description: 'Individual rule verdict (SKIPPED when short-circuit evaluation stopped early, NOT_APPLICABLE when the rule\'s applies_when did not match the request)',
         },
         FinalVerdict: {
           type: 'string',
@@ -95,14 +152,29 @@ Trustwise is a configurable content moderation system that evaluates requests ag
         },
         EvaluationStrategy: {
           type: 'string',
-          enum: ['all', 'any', 'weighted_threshold'],
-          description: 'Strategy for aggregating rule results',
+          enum: ['all', 'any', 'weighted_threshold', 'priority', 'expression'],
+          description: 'Strategy for aggregating rule results. priority: the first failing rule in policy order decides the action. expression: policy.expression over rule ids decides the verdict.',
+        },
+        JudgeProvider: {
+          type: 'string',
+          enum: ['openai', 'anthropic', 'azure_openai', 'openai_compatible'],
+          description: 'LLM provider used by the judge',
+        },
+        RuleType: {
+          type: 'string',
+          enum: ['llm', 'regex', 'keyword', 'pii'],
+          default: 'llm',
+          description: 'llm rules call the judge; regex, keyword and pii rules are evaluated locally',
+        },
+        PiiType: {
+          type: 'string',
+          enum: ['email', 'phone', 'credit_card', 'ssn', 'api_key'],
         },
 
         // Rule Schema
         Rule: {
           type: 'object',
-          required: ['id', 'judge_prompt', 'on_fail'],
+          required: ['id', 'on_fail'],
           properties: {
             id: {
               type: 'string',
@@ -114,9 +186,12 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               description: 'Human-readable description',
               example: 'Detect and prevent hate speech',
             },
+            type: {
+              $ref: '#/components/schemas/RuleType',
+            },
             judge_prompt: {
               type: 'string',
-              description: 'LLM evaluation prompt',
+              description: 'LLM evaluation prompt (required for llm rules). May reference the request\'s guardrail fields as {{input}}, {{output}} and {{context}}',
               example: 'Evaluate if the content contains hate speech, discrimination, or harmful stereotypes.',
             },
             on_fail: {
@@ -129,13 +204,236 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               description: 'Rule weight for scoring',
               example: 1.0,
             },
+            provider: {
+              $ref: '#/components/schemas/JudgeProvider',
+            },
+            model: {
+              type: 'string',
+              description: 'Optional model override for this rule',
+              example: 'llama3.1',
+            },
+            redaction: {
+              $ref: '#/components/schemas/RedactionConfig',
+            },
+            pattern: {
+              type: 'string',
+              description: 'Regular expression for regex rules; a match fails the rule',
+              example: '\\bproject\\s+falcon\\b',
+            },
+            flags: {
+              type: 'string',
+              description: 'RegExp flags for regex rules',
+              example: 'i',
+            },
+            keywords: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Whole-word keywords for keyword rules; any match fails the rule',
+            },
+            case_sensitive: {
+              type: 'boolean',
+              default: false,
+            },
+            pii_types: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/PiiType' },
+              description: 'Detectors for pii rules (defaults to all)',
+            },
+            ensemble: {
+              $ref: '#/components/schemas/EnsembleConfig',
+            },
+            min_confidence: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: 'Overrides the policy min_confidence for this rule',
+            },
+            applies_when: {
+              $ref: '#/components/schemas/RuleConditions',
+            },
+            scope: {
+              $ref: '#/components/schemas/RuleScope',
+            },
+          },
+        },
+
+        // Conditional Rules
+        RuleConditions: {
+          type: 'object',
+          description: 'The rule only runs when every listed condition matches; otherwise its result is NOT_APPLICABLE and strategies ignore it',
+          properties: {
+            metadata: {
+              type: 'object',
+              additionalProperties: {
+                oneOf: [
+                  { type: 'string' },
+                  { type: 'number' },
+                  { type: 'boolean' },
+                  { type: 'array', items: { oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }] } },
+                ],
+              },
+              description: 'Request metadata key to the required value, or a list of accepted values',
+              example: { channel: ['web', 'mobile'], user_tier: 'free' },
+            },
+            min_length: { type: 'integer', minimum: 0, description: 'Minimum content length in characters' },
+            max_length: { type: 'integer', minimum: 0, description: 'Maximum content length in characters' },
+            language: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Detected content language codes (\'und\' when undetermined)',
+              example: ['en', 'fr'],
+            },
+            content_type: {
+              type: 'array',
+              items: { type: 'string', enum: ['text', 'code', 'json', 'html', 'url'] },
+              description: 'Detected content type',
+            },
+          },
+        },
+        EvaluationMetadata: {
+          type: 'object',
+          additionalProperties: {
+            oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }],
+          },
+          description: 'Request metadata checked by rule applies_when conditions',
+          example: { channel: 'web', locale: 'en-US', user_tier: 'free' },
+        },
+
+        // Chat Transcripts
+        ChatMessage: {
+          type: 'object',
+          required: ['role', 'content'],
+          properties: {
+            role: { type: 'string', enum: ['system', 'user', 'assistant'] },
+            content: { type: 'string' },
+          },
+        },
+        EvaluationContent: {
+          oneOf: [
+            { type: 'string' },
+            { type: 'array', minItems: 1, items: { $ref: '#/components/schemas/ChatMessage' } },
+          ],
+          description: 'Content to evaluate: a string, or a chat transcript of messages',
+          example: 'This is sample text to evaluate for policy compliance.',
+        },
+        RuleScope: {
+          type: 'string',
+          enum: ['conversation', 'last_message', 'user_messages', 'assistant_messages'],
+          default: 'conversation',
+          description: 'Which transcript messages the rule judges. last_message is judged with the earlier turns as context. Ignored for string content.',
+        },
+
+        // Judge Ensembles
+        EnsembleConfig: {
+          type: 'object',
+          description: 'Judge the rule with several judges or samples and combine their votes. Judges that disagree yield UNCERTAIN.',
+          properties: {
+            judges: {
+              type: 'array',
+              description: 'One vote per judge; defaults to the rule\'s own provider and model',
+              items: {
+                type: 'object',
+                properties: {
+                  provider: { $ref: '#/components/schemas/JudgeProvider' },
+                  model: { type: 'string', example: 'gpt-4o' },
+                },
+              },
+            },
+            samples: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Votes per judge; repeated samples skip the verdict cache. At most 15 votes in total.',
+            },
+            voting: {
+              type: 'string',
+              enum: ['majority', 'unanimous', 'weighted_mean'],
+              default: 'majority',
+            },
+            threshold: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              default: 0.5,
+              description: 'weighted_mean only: minimum absolute score for PASS or FAIL',
+            },
+            temperature: {
+              type: 'number',
+              minimum: 0,
+              maximum: 2,
+              description: 'Sampling temperature for repeated samples',
+            },
+          },
+        },
+        JudgeVote: {
+          type: 'object',
+          properties: {
+            provider: { type: 'string', example: 'openai' },
+            model: { type: 'string', example: 'gpt-4o-mini' },
+            verdict: { $ref: '#/components/schemas/Verdict' },
+            confidence: { type: 'number' },
+            reasoning: { type: 'string' },
+            latency_ms: { type: 'integer' },
+            error: { type: 'string' },
+            cached: { type: 'boolean' },
+            usage: {
+              type: 'object',
+              properties: {
+                input_tokens: { type: 'integer' },
+                output_tokens: { type: 'integer' },
+              },
+            },
+            cost_usd: { type: 'number' },
+          },
+        },
+        ChunkResult: {
+          type: 'object',
+          description: 'A chunk of long content that did not pass',
+          properties: {
+            index: { type: 'integer', example: 2 },
+            start: { type: 'integer', description: 'Character offset of the chunk in the judged content', example: 63200 },
+            end: { type: 'integer', example: 95200 },
+            verdict: { $ref: '#/components/schemas/Verdict' },
+            confidence: { type: 'number' },
+            reasoning: { type: 'string' },
+            error: { type: 'string' },
+          },
+        },
+
+        // Redaction
+        RedactionConfig: {
+          type: 'object',
+          description: 'Mask settings used when a redact rule fails',
+          properties: {
+            mask_style: {
+              type: 'string',
+              enum: ['placeholder', 'category', 'hash'],
+              default: 'placeholder',
+            },
+            placeholder: {
+              type: 'string',
+              example: '[REDACTED]',
+            },
+            category: {
+              type: 'string',
+              example: 'PII',
+            },
+          },
+        },
+        RedactionSpan: {
+          type: 'object',
+          properties: {
+            start: { type: 'integer' },
+            end: { type: 'integer' },
+            text: { type: 'string' },
+            category: { type: 'string' },
           },
         },
 
         // Rule Input
         RuleInput: {
           type: 'object',
-          required: ['id', 'judge_prompt'],
+          required: ['id'],
           properties: {
             id: {
               type: 'string',
@@ -144,6 +442,9 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             description: {
               type: 'string',
             },
+            type: {
+              $ref: '#/components/schemas/RuleType',
+            },
             judge_prompt: {
               type: 'string',
             },
@@ -155,6 +456,44 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               minimum: 0,
               maximum: 1,
             },
+            provider: {
+              $ref: '#/components/schemas/JudgeProvider',
+            },
+            model: {
+              type: 'string',
+            },
+            pattern: {
+              type: 'string',
+            },
+            flags: {
+              type: 'string',
+            },
+            keywords: {
+              type: 'array',
+              items: { type: 'string' },
+            },
+            case_sensitive: {
+              type: 'boolean',
+            },
+            pii_types: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/PiiType' },
+            },
+            ensemble: {
+              $ref: '#/components/schemas/EnsembleConfig',
+            },
+            min_confidence: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: 'Overrides the policy min_confidence for this rule',
+            },
+            applies_when: {
+              $ref: '#/components/schemas/RuleConditions',
+            },
+            scope: {
+              $ref: '#/components/schemas/RuleScope',
+            },
           },
         },
 
@@ -192,6 +531,147 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               description: 'Threshold for weighted_threshold strategy',
               example: 0.7,
             },
+            min_confidence: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: 'PASS or FAIL verdicts below this confidence become UNCERTAIN (rules may override it)',
+              example: 0.7,
+            },
+            confidence_weighted: {
+              type: 'boolean',
+              default: false,
+              description: 'weighted_threshold only: scale each rule weight by the verdict confidence',
+            },
+            expression: {
+              type: 'string',
+              description: 'expression strategy only: AND, OR, NOT and parentheses over rule ids. PASS is true, FAIL is false, UNCERTAIN is unknown.',
+              example: '(no_pii AND no_toxicity) OR approved_domain',
+            },
+            groups: {
+              type: 'array',
+              description: 'Named rule groups, each aggregated with its own strategy; their verdicts roll up into evaluation_strategy',
+              items: {
+                $ref: '#/components/schemas/RuleGroup',
+              },
+            },
+            extends: {
+              type: 'string',
+              description: 'Id of a base policy whose rules and groups are inherited. Local rules with the same id replace inherited ones.',
+              example: 'safety-base',
+            },
+            library_rules: {
+              type: 'array',
+              description: 'Rules from the shared rule library, applied after the base policy\'s rules and before local rules',
+              items: {
+                $ref: '#/components/schemas/LibraryRuleRef',
+              },
+            },
+          },
+        },
+
+        // Library Rule Reference Schema
+        LibraryRuleRef: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Rule id in the rule library',
+              example: 'no_pii',
+            },
+            on_fail: {
+              $ref: '#/components/schemas/Action',
+            },
+            weight: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: 'Overrides the library rule\'s weight in this policy',
+            },
+          },
+        },
+
+        // Rule Group Schema
+        RuleGroup: {
+          type: 'object',
+          required: ['id', 'evaluation_strategy'],
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Group id, unique among the rules and groups of the policy',
+              example: 'safety',
+            },
+            description: {
+              type: 'string',
+            },
+            evaluation_strategy: {
+              $ref: '#/components/schemas/EvaluationStrategy',
+            },
+            threshold: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+            },
+            confidence_weighted: {
+              type: 'boolean',
+            },
+            expression: {
+              type: 'string',
+              description: 'expression strategy: over the ids of the group\'s own rules and sub-groups',
+            },
+            default_action: {
+              $ref: '#/components/schemas/Action',
+            },
+            weight: {
+              type: 'number',
+              minimum: 0,
+              default: 1,
+              description: 'Weight of the group in its parent\'s strategy',
+            },
+            rules: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/Rule',
+              },
+            },
+            groups: {
+              type: 'array',
+              description: 'Nested sub-groups (at most 5 levels deep)',
+              items: {
+                $ref: '#/components/schemas/RuleGroup',
+              },
+            },
+          },
+        },
+
+        // Rule Group Result
+        RuleGroupResult: {
+          type: 'object',
+          properties: {
+            group_id: {
+              type: 'string',
+            },
+            path: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Group ids from the top-level group down to this one',
+              example: ['quality', 'tone'],
+            },
+            verdict: {
+              type: 'string',
+              enum: ['PASS', 'FAIL', 'UNCERTAIN'],
+              description: 'How the parent strategy counted the group',
+            },
+            final_verdict: {
+              $ref: '#/components/schemas/FinalVerdict',
+            },
+            passed: {
+              type: 'boolean',
+            },
+            summary: {
+              $ref: '#/components/schemas/AggregationSummary',
+            },
           },
         },
 
@@ -199,6 +679,9 @@ Trustwise is a configurable content moderation system that evaluates requests ag
         JudgeConfig: {
           type: 'object',
           properties: {
+            provider: {
+              $ref: '#/components/schemas/JudgeProvider',
+            },
             model: {
               type: 'string',
               example: 'gpt-4o-mini',
@@ -223,6 +706,16 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               type: 'integer',
               example: 1000,
             },
+            chunkTokens: {
+              type: 'integer',
+              description: 'Content tokens per judge call; longer content is judged in overlapping chunks',
+              example: 8000,
+            },
+            chunkOverlapTokens: {
+              type: 'integer',
+              description: 'Tokens shared by consecutive chunks',
+              example: 200,
+            },
           },
         },
 
@@ -234,6 +727,11 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               type: 'boolean',
               example: true,
             },
+            shortCircuit: {
+              type: 'boolean',
+              example: false,
+              description: 'Stop evaluating once the all/any verdict is settled',
+            },
             debugLog: {
               type: 'boolean',
               example: false,
@@ -241,12 +739,28 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             cacheResults: {
               type: 'boolean',
               example: false,
+              description: 'Cache judge verdicts for repeated content',
             },
-          },
-        },
-
-        // Full Config
-        Config: {
+            cacheTtlMs: {
+              type: 'integer',
+              example: 300000,
+              description: 'Time-to-live for cached verdicts',
+            },
+            cacheMaxEntries: {
+              type: 'integer',
+              example: 1000,
+              description: 'Maximum number of cached verdicts (LRU eviction)',
+            },
+            batchConcurrency: {
+              type: 'integer',
+              example: 5,
+              description: 'Global cap on batch items evaluated at once',
+            },
+          },
+        },
+
+        // Full Config
+        Config: {
           type: 'object',
           properties: {
             policy: {
@@ -288,6 +802,59 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             latency_ms: {
               type: 'integer',
             },
+            spans: {
+              type: 'array',
+              description: 'Offending spans for failed redact rules',
+              items: {
+                $ref: '#/components/schemas/RedactionSpan',
+              },
+            },
+            usage: {
+              type: 'object',
+              description: 'Judge token usage and cost (absent for local rules and cached verdicts)',
+              properties: {
+                input_tokens: { type: 'integer' },
+                output_tokens: { type: 'integer' },
+                provider: { type: 'string', example: 'openai' },
+                model: { type: 'string', example: 'gpt-4o-mini' },
+                cost_usd: { type: 'number', example: 0.000123 },
+              },
+            },
+            votes: {
+              type: 'array',
+              description: 'Individual judge votes of an ensemble rule',
+              items: {
+                $ref: '#/components/schemas/JudgeVote',
+              },
+            },
+            agreement: {
+              type: 'number',
+              description: 'Share of ensemble votes matching the combined verdict',
+              example: 0.67,
+            },
+            downgraded_from: {
+              type: 'string',
+              enum: ['PASS', 'FAIL'],
+              description: 'Judge verdict turned UNCERTAIN because its confidence was below min_confidence',
+            },
+            group_path: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Ids of the groups containing the rule, outermost first',
+              example: ['safety'],
+            },
+            chunks: {
+              type: 'array',
+              description: 'Chunks that did not pass, when long content was judged in chunks',
+              items: {
+                $ref: '#/components/schemas/ChunkResult',
+              },
+            },
+            chunk_count: {
+              type: 'integer',
+              description: 'Chunks the content was split into',
+              example: 4,
+            },
           },
         },
 
@@ -321,6 +888,34 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               type: 'number',
               description: 'For weighted_threshold strategy',
             },
+            skipped: {
+              type: 'integer',
+              description: 'Rules skipped by short-circuit evaluation',
+            },
+            calls_saved: {
+              type: 'integer',
+              description: 'Judge calls avoided or abandoned by short-circuit evaluation',
+            },
+            downgraded: {
+              type: 'integer',
+              description: 'Verdicts turned UNCERTAIN by min_confidence',
+            },
+            confidence_weighted: {
+              type: 'boolean',
+              description: 'Whether the weighted score scaled rule weights by confidence',
+            },
+            decided_by: {
+              type: 'string',
+              description: 'priority strategy: the rule whose failure decided the verdict',
+            },
+            expression: {
+              type: 'string',
+              description: 'expression strategy: the expression that decided the verdict',
+            },
+            not_applicable: {
+              type: 'integer',
+              description: 'Rules left out because their applies_when did not match the request',
+            },
           },
         },
 
@@ -334,6 +929,10 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             policy_version: {
               type: 'string',
             },
+            policy_id: {
+              type: 'string',
+              description: 'Named policy used for the evaluation (when policyId was given)',
+            },
             final_verdict: {
               $ref: '#/components/schemas/FinalVerdict',
             },
@@ -357,12 +956,38 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             summary: {
               $ref: '#/components/schemas/AggregationSummary',
             },
+            group_results: {
+              type: 'array',
+              description: 'Grouped policies: the outcome of every rule group, parents before sub-groups',
+              items: {
+                $ref: '#/components/schemas/RuleGroupResult',
+              },
+            },
+            redacted_content: {
+              type: 'string',
+              description: 'Content with offending spans masked (present when a redact rule failed)',
+            },
+            redacted_messages: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ChatMessage' },
+              description: 'Transcript with offending spans masked in each message (present when a redact rule failed on a transcript)',
+            },
             error: {
               type: 'string',
             },
             total_latency_ms: {
               type: 'integer',
             },
+            usage: {
+              type: 'object',
+              description: 'Judge token usage and cost summed over the rule results',
+              properties: {
+                input_tokens: { type: 'integer' },
+                output_tokens: { type: 'integer' },
+                total_tokens: { type: 'integer' },
+                cost_usd: { type: 'number', example: 0.000512 },
+              },
+            },
           },
         },
 
@@ -376,6 +1001,12 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             },
             content: {
               type: 'string',
+              description: 'Evaluated content; transcripts are stored as "role: content" turns',
+            },
+            messages: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ChatMessage' },
+              description: 'The evaluated transcript (transcript evaluations only)',
             },
             policySnapshot: {
               $ref: '#/components/schemas/Policy',
@@ -452,10 +1083,184 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           },
         },
 
+        // Batch Evaluation
+        BatchItemResult: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            status: { type: 'string', enum: ['completed', 'error'] },
+            verdict: { $ref: '#/components/schemas/PolicyVerdict' },
+            error: { type: 'string' },
+            evaluationId: { type: 'string', format: 'uuid' },
+          },
+        },
+        BatchEvaluationResponse: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/BatchItemResult' },
+            },
+            summary: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                completed: { type: 'integer' },
+                errors: { type: 'integer' },
+                passed: { type: 'integer' },
+                verdicts: {
+                  type: 'object',
+                  additionalProperties: { type: 'integer' },
+                  example: { ALLOW: 940, BLOCK: 12, WARN: 40, REDACT: 8, ERROR: 0 },
+                },
+                concurrency: { type: 'integer' },
+                rate_limit_waits: { type: 'integer' },
+                total_latency_ms: { type: 'number' },
+              },
+            },
+            historySaved: { type: 'boolean' },
+          },
+        },
+
+        // Auth
+        ApiKey: {
+          type: 'object',
+          properties: {
+            keyId: { type: 'string', format: 'uuid' },
+            name: { type: 'string', example: 'moderation-service' },
+            role: { type: 'string', enum: ['evaluator', 'editor', 'admin'] },
+            tenantId: { type: 'string', example: 'default' },
+            prefix: { type: 'string', example: 'tw_9fK2xQ' },
+            createdBy: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            lastUsedAt: { type: 'string', format: 'date-time' },
+            revokedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Async Jobs
+        EvaluationJob: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed'] },
+            policyId: { type: 'string' },
+            policyName: { type: 'string' },
+            shortCircuit: { type: 'boolean' },
+            result: { $ref: '#/components/schemas/PolicyVerdict' },
+            evaluationId: { type: 'string', format: 'uuid' },
+            error: { type: 'string' },
+            callback: {
+              type: 'object',
+              properties: {
+                url: { type: 'string' },
+                status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+                attempts: { type: 'integer' },
+                nextAttemptAt: { type: 'string', format: 'date-time' },
+                lastError: { type: 'string' },
+                lastStatusCode: { type: 'integer' },
+                deliveredAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            startedAt: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
+        // Policy Revisions
+        PolicyRevision: {
+          type: 'object',
+          properties: {
+            configId: { type: 'string' },
+            revision: { type: 'integer', example: 3 },
+            version: { type: 'string', example: '1.2.0' },
+            change: {
+              type: 'string',
+              enum: ['create', 'baseline', 'update_config', 'add_rule', 'update_rule', 'delete_rule', 'reset', 'rollback'],
+            },
+            author: { type: 'string', example: 'alice@example.com' },
+            message: { type: 'string', example: 'added rule no_pii' },
+            policy: { $ref: '#/components/schemas/Policy' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        PolicyRevisionListResponse: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/PolicyRevision',
+              },
+            },
+            total: { type: 'integer' },
+            page: { type: 'integer' },
+            limit: { type: 'integer' },
+            totalPages: { type: 'integer' },
+          },
+        },
+        PolicyDiff: {
+          type: 'object',
+          properties: {
+            configId: { type: 'string' },
+            from: {
+              type: 'object',
+              properties: {
+                revision: { type: 'integer' },
+                version: { type: 'string' },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            to: {
+              type: 'object',
+              properties: {
+                revision: { type: 'integer' },
+                version: { type: 'string' },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            bump: {
+              type: 'string',
+              enum: ['major', 'minor', 'patch'],
+              nullable: true,
+              description: 'Semver bump implied by the changes',
+            },
+            policy_changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  before: {},
+                  after: {},
+                },
+              },
+            },
+            rule_changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  rule_id: { type: 'string' },
+                  change: { type: 'string', enum: ['added', 'removed', 'modified'] },
+                  fields: { type: 'array', items: { type: 'string' } },
+                  before: { $ref: '#/components/schemas/Rule' },
+                  after: { $ref: '#/components/schemas/Rule' },
+                },
+              },
+            },
+          },
+        },
+
         // History Stats
         HistoryStats: {
           type: 'object',
           properties: {
+            tenantId: {
+              type: 'string',
+              example: 'default',
+            },
             totalEvaluations: {
               type: 'integer',
             },
@@ -475,6 +1280,70 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             uniquePolicies: {
               type: 'integer',
             },
+            spend: {
+              $ref: '#/components/schemas/SpendStats',
+            },
+          },
+        },
+
+        // Judge token spend
+        SpendTotals: {
+          type: 'object',
+          properties: {
+            evaluations: { type: 'integer' },
+            input_tokens: { type: 'integer' },
+            output_tokens: { type: 'integer' },
+            total_tokens: { type: 'integer' },
+            cost_usd: { type: 'number' },
+          },
+        },
+        SpendStats: {
+          type: 'object',
+          description: 'Judge token usage and cost over the requested period',
+          properties: {
+            since: {
+              type: 'string',
+              format: 'date-time',
+            },
+            total: {
+              $ref: '#/components/schemas/SpendTotals',
+            },
+            byPolicy: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/SpendTotals' },
+                  { type: 'object', properties: { policyName: { type: 'string' } } },
+                ],
+              },
+            },
+            byRule: {
+              type: 'array',
+              description: 'Most expensive rules first (top 100)',
+              items: {
+                type: 'object',
+                properties: {
+                  policyName: { type: 'string' },
+                  ruleId: { type: 'string' },
+                  calls: { type: 'integer' },
+                  input_tokens: { type: 'integer' },
+                  output_tokens: { type: 'integer' },
+                  total_tokens: { type: 'integer' },
+                  cost_usd: { type: 'number' },
+                  avg_cost_usd: { type: 'number' },
+                },
+              },
+            },
+            byDay: {
+              type: 'array',
+              description: 'One entry per UTC day with usage, oldest first',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/SpendTotals' },
+                  { type: 'object', properties: { date: { type: 'string', example: '2025-01-31' } } },
+                ],
+              },
+            },
           },
         },
 
@@ -509,6 +1378,10 @@ Trustwise is a configurable content moderation system that evaluates requests ag
                     failures: { type: 'integer' },
                     averageLatency: { type: 'string' },
                     successRate: { type: 'string' },
+                    cacheHits: { type: 'integer' },
+                    cacheMisses: { type: 'integer' },
+                    cacheHitRate: { type: 'string' },
+                    cacheSize: { type: 'integer' },
                   },
                 },
               },
@@ -550,6 +1423,222 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           },
         },
 
+        // Review Queue
+        ReviewItem: {
+          type: 'object',
+          properties: {
+            reviewId: { type: 'string' },
+            evaluationId: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'claimed', 'resolved'] },
+            triggers: {
+              type: 'array',
+              items: { type: 'string', enum: ['warn', 'uncertain'] },
+              description: 'warn: the final verdict was WARN; uncertain: rules the judge was UNCERTAIN about',
+            },
+            policyName: { type: 'string' },
+            policyVersion: { type: 'string' },
+            verdict: { type: 'string', enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT', 'ERROR'], description: 'Engine verdict' },
+            reason: { type: 'string' },
+            uncertainRules: { type: 'array', items: { type: 'string' } },
+            contentPreview: { type: 'string', description: 'First 500 characters of the content' },
+            assignee: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            claimedAt: { type: 'string', format: 'date-time' },
+            dueAt: { type: 'string', format: 'date-time', description: 'SLA deadline (REVIEW_SLA_MS after createdAt)' },
+            overdue: { type: 'boolean', description: 'Open past dueAt, or resolved after it' },
+            resolution: {
+              type: 'object',
+              properties: {
+                decision: { type: 'string', enum: ['approve', 'override'] },
+                verdict: { type: 'string', enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT', 'ERROR'], description: 'Final verdict after review' },
+                rationale: { type: 'string' },
+                reviewer: { type: 'string' },
+                resolvedAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+        ReviewResolutionInput: {
+          type: 'object',
+          required: ['decision'],
+          properties: {
+            decision: { type: 'string', enum: ['approve', 'override'] },
+            verdict: { type: 'string', enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT'], description: 'Required to override; must differ from the engine verdict' },
+            rationale: { type: 'string', maxLength: 2000, description: 'Required to override' },
+          },
+        },
+        ReviewStats: {
+          type: 'object',
+          properties: {
+            tenantId: { type: 'string', example: 'default' },
+            slaMs: { type: 'integer', example: 86400000 },
+            counts: {
+              type: 'object',
+              properties: {
+                pending: { type: 'integer' },
+                claimed: { type: 'integer' },
+                resolved: { type: 'integer' },
+              },
+            },
+            overdue: { type: 'integer', description: 'Open items past their due date' },
+            resolved: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                approved: { type: 'integer' },
+                overridden: { type: 'integer' },
+                breached: { type: 'integer', description: 'Resolved after their due date' },
+                avgClaimMs: { type: 'integer' },
+                avgResolveMs: { type: 'integer' },
+              },
+            },
+          },
+        },
+
+        // Test Suites
+        TestCase: {
+          type: 'object',
+          required: ['id', 'expected_verdict'],
+          properties: {
+            id: { type: 'string', description: 'Unique within the suite; runs are diffed by case id' },
+            description: { type: 'string' },
+            content: {
+              oneOf: [
+                { type: 'string' },
+                { type: 'array', items: { $ref: '#/components/schemas/ChatMessage' } },
+              ],
+              description: 'Defaults to output',
+            },
+            input: { type: 'string' },
+            output: { type: 'string' },
+            context: { type: 'string' },
+            metadata: { type: 'object', additionalProperties: true },
+            expected_verdict: { type: 'string', enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT'] },
+            expected_rules: {
+              type: 'object',
+              additionalProperties: { type: 'string', enum: ['PASS', 'FAIL', 'UNCERTAIN', 'NOT_APPLICABLE'] },
+              description: 'Rule id to expected rule verdict',
+            },
+            evaluationId: { type: 'string', description: 'History record the case was promoted from' },
+          },
+        },
+        TestSuite: {
+          type: 'object',
+          properties: {
+            suiteId: { type: 'string' },
+            name: { type: 'string', description: 'Unique per tenant' },
+            description: { type: 'string' },
+            cases: { type: 'array', items: { $ref: '#/components/schemas/TestCase' } },
+            author: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        TestSuiteInput: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Required to create' },
+            description: { type: 'string' },
+            cases: { type: 'array', maxItems: 1000, items: { $ref: '#/components/schemas/TestCase' } },
+          },
+        },
+        TestRun: {
+          type: 'object',
+          properties: {
+            runId: { type: 'string' },
+            suiteId: { type: 'string' },
+            suiteName: { type: 'string' },
+            policy: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'Named policy the suite ran against' },
+                name: { type: 'string' },
+                version: { type: 'string' },
+                draft: { type: 'boolean', description: 'Ran against a policy supplied with the request' },
+              },
+            },
+            summary: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                passed: { type: 'integer' },
+                failed: { type: 'integer' },
+                errors: { type: 'integer', description: 'Cases whose evaluation failed' },
+                pass_rate: { type: 'number', example: 0.9 },
+              },
+            },
+            confusion_matrix: {
+              type: 'object',
+              description: 'Expected final verdict -> actual final verdict -> number of cases',
+              additionalProperties: { type: 'object', additionalProperties: { type: 'integer' } },
+              example: { BLOCK: { ALLOW: 1, BLOCK: 8, WARN: 1, REDACT: 0, ERROR: 0 } },
+            },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  passed: { type: 'boolean' },
+                  expected_verdict: { type: 'string', enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT'] },
+                  actual_verdict: { type: 'string', enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT', 'ERROR'] },
+                  rule_mismatches: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        rule_id: { type: 'string' },
+                        expected: { type: 'string', enum: ['PASS', 'FAIL', 'UNCERTAIN', 'NOT_APPLICABLE'] },
+                        actual: { type: 'string', nullable: true, description: 'null when the policy has no such rule' },
+                      },
+                    },
+                  },
+                  reason: { type: 'string' },
+                  error: { type: 'string' },
+                },
+              },
+            },
+            diff: {
+              type: 'object',
+              description: 'Changes since the previous run of the suite (absent for the first run)',
+              properties: {
+                previousRunId: { type: 'string' },
+                previousRunAt: { type: 'string', format: 'date-time' },
+                previous_policy_version: { type: 'string' },
+                pass_rate_delta: { type: 'number' },
+                fixed: { type: 'array', items: { type: 'string' }, description: 'Cases that failed before and pass now' },
+                regressed: { type: 'array', items: { type: 'string' }, description: 'Cases that passed before and fail now' },
+                changed: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      before: { type: 'string' },
+                      after: { type: 'string' },
+                    },
+                  },
+                },
+                added: { type: 'array', items: { type: 'string' } },
+                removed: { type: 'array', items: { type: 'string' } },
+              },
+            },
+            usage: {
+              type: 'object',
+              description: 'Judge token usage and cost summed over the run',
+              properties: {
+                input_tokens: { type: 'integer' },
+                output_tokens: { type: 'integer' },
+                total_tokens: { type: 'integer' },
+                cost_usd: { type: 'number' },
+              },
+            },
+            total_latency_ms: { type: 'integer' },
+            author: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+
         // Error Response
         ErrorResponse: {
           type: 'object',
@@ -602,17 +1691,29 @@ Trustwise is a configurable content moderation system that evaluates requests ag
               'application/json': {
                 schema: {
                   type: 'object',
-                  required: ['content'],
                   properties: {
                     content: {
-                      type: 'string',
-                      description: 'Content to evaluate',
-                      example: 'This is sample text to evaluate for policy compliance.',
+                      $ref: '#/components/schemas/EvaluationContent',
                     },
+                    input: { type: 'string', description: 'Prompt sent to the guarded LLM ({{input}} in judge prompts)' },
+                    output: { type: 'string', description: 'The guarded LLM\'s response ({{output}}); evaluated as the content when content is omitted' },
+                    context: { type: 'string', description: 'Retrieved context the response should be grounded in ({{context}})' },
                     policy: {
                       $ref: '#/components/schemas/Policy',
                       description: 'Optional policy override',
                     },
+                    policyId: {
+                      type: 'string',
+                      description: 'Evaluate against a named policy (cannot be combined with policy)',
+                      example: 'strict',
+                    },
+                    short_circuit: {
+                      type: 'boolean',
+                      description: 'Override settings.shortCircuit for this request',
+                    },
+                    metadata: {
+                      $ref: '#/components/schemas/EvaluationMetadata',
+                    },
                   },
                 },
               },
@@ -639,6 +1740,9 @@ Trustwise is a configurable content moderation system that evaluates requests ag
                 },
               },
             },
+            429: {
+              description: 'Request or token rate limit (tenant or API key), or judge-token quota, exceeded',
+            },
             500: {
               description: 'Server error',
               content: {
@@ -652,6 +1756,247 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           },
         },
       },
+      '/api/policy/evaluate/batch': {
+        post: {
+          tags: ['Evaluation'],
+          summary: 'Evaluate a batch of items',
+          description: 'Evaluate many items against one policy. Items share a global concurrency cap (settings.batchConcurrency) and pause while the judge is rate limited.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['items'],
+                  properties: {
+                    items: {
+                      type: 'array',
+                      maxItems: 5000,
+                      items: {
+                        type: 'object',
+                        required: ['id'],
+                        properties: {
+                          id: { type: 'string', example: 'msg_1' },
+                          content: { $ref: '#/components/schemas/EvaluationContent' },
+                          input: { type: 'string', description: 'Prompt sent to the guarded LLM ({{input}} in judge prompts)' },
+                          output: { type: 'string', description: 'The guarded LLM\'s response ({{output}}); evaluated as the content when content is omitted' },
+                          context: { type: 'string', description: 'Retrieved context the response should be grounded in ({{context}})' },
+                          metadata: {
+                            $ref: '#/components/schemas/EvaluationMetadata',
+                            description: 'Merged over the batch metadata',
+                          },
+                        },
+                      },
+                    },
+                    policy: {
+                      $ref: '#/components/schemas/Policy',
+                    },
+                    policyId: {
+                      type: 'string',
+                    },
+                    short_circuit: {
+                      type: 'boolean',
+                    },
+                    metadata: {
+                      $ref: '#/components/schemas/EvaluationMetadata',
+                    },
+                    concurrency: {
+                      type: 'integer',
+                      minimum: 1,
+                      description: 'Per-batch cap (never above settings.batchConcurrency)',
+                    },
+                    save_history: {
+                      type: 'boolean',
+                      default: false,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Batch evaluated',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/BatchEvaluationResponse',
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid request',
+            },
+            404: {
+              description: 'Named policy not found',
+            },
+            429: {
+              description: 'Request or token rate limit (tenant or API key), or judge-token quota, exceeded',
+            },
+          },
+        },
+      },
+
+      '/api/policy/evaluate/stream': {
+        post: {
+          tags: ['Evaluation'],
+          summary: 'Evaluate content, streaming rule results',
+          description: 'Same request body as /api/policy/evaluate. Responds with Server-Sent Events: `start` (policy and rules), one `rule` event per RuleResult as each judge returns, then `result` (the PolicyVerdict with evaluationId) or `error`.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    content: { $ref: '#/components/schemas/EvaluationContent' },
+                    input: { type: 'string', description: 'Prompt sent to the guarded LLM ({{input}} in judge prompts)' },
+                    output: { type: 'string', description: 'The guarded LLM\'s response ({{output}}); evaluated as the content when content is omitted' },
+                    context: { type: 'string', description: 'Retrieved context the response should be grounded in ({{context}})' },
+                    policy: { $ref: '#/components/schemas/Policy' },
+                    policyId: { type: 'string' },
+                    short_circuit: { type: 'boolean' },
+                    metadata: { $ref: '#/components/schemas/EvaluationMetadata' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Event stream',
+              content: {
+                'text/event-stream': {
+                  schema: { type: 'string' },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid request',
+            },
+            404: {
+              description: 'Named policy not found',
+            },
+            429: {
+              description: 'Request or token rate limit (tenant or API key), or judge-token quota, exceeded',
+            },
+          },
+        },
+        get: {
+          tags: ['Evaluation'],
+          summary: 'Evaluate content, streaming rule results (EventSource)',
+          description: 'Query-string variant of the POST endpoint for use with EventSource. Custom policies are not supported.',
+          parameters: [
+            { name: 'content', in: 'query', description: 'Defaults to output', schema: { type: 'string' } },
+            { name: 'policyId', in: 'query', schema: { type: 'string' } },
+            { name: 'short_circuit', in: 'query', schema: { type: 'boolean' } },
+            { name: 'metadata', in: 'query', description: 'JSON-encoded EvaluationMetadata', schema: { type: 'string', example: '{"channel":"web"}' } },
+            { name: 'input', in: 'query', schema: { type: 'string' } },
+            { name: 'output', in: 'query', schema: { type: 'string' } },
+            { name: 'context', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Event stream',
+              content: {
+                'text/event-stream': {
+                  schema: { type: 'string' },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid request',
+            },
+            404: {
+              description: 'Named policy not found',
+            },
+            429: {
+              description: 'Request or token rate limit (tenant or API key), or judge-token quota, exceeded',
+            },
+          },
+        },
+      },
+
+      // ========== Async Jobs ==========
+      '/api/policy/jobs': {
+        post: {
+          tags: ['Jobs'],
+          summary: 'Queue an evaluation job',
+          description: 'Queue an evaluation (persisted in MongoDB) and return its id immediately. If callback_url is given, the finished job is POSTed to it with an `X-Trustwise-Signature: sha256=<hex>` HMAC of `<X-Trustwise-Timestamp>.<raw body>` keyed by JOB_WEBHOOK_SECRET. Failed deliveries are retried with exponential backoff.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    content: { $ref: '#/components/schemas/EvaluationContent' },
+                    input: { type: 'string', description: 'Prompt sent to the guarded LLM ({{input}} in judge prompts)' },
+                    output: { type: 'string', description: 'The guarded LLM\'s response ({{output}}); evaluated as the content when content is omitted' },
+                    context: { type: 'string', description: 'Retrieved context the response should be grounded in ({{context}})' },
+                    policy: { $ref: '#/components/schemas/Policy' },
+                    policyId: { type: 'string' },
+                    short_circuit: { type: 'boolean' },
+                    metadata: { $ref: '#/components/schemas/EvaluationMetadata' },
+                    callback_url: { type: 'string', example: 'https://example.com/hooks/trustwise' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Job queued',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      message: { type: 'string' },
+                      jobId: { type: 'string', format: 'uuid' },
+                      status: { type: 'string', example: 'queued' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid request, or callback_url without JOB_WEBHOOK_SECRET',
+            },
+            404: {
+              description: 'Named policy not found',
+            },
+            429: {
+              description: 'Request or token rate limit (tenant or API key), or judge-token quota, exceeded',
+            },
+          },
+        },
+      },
+      '/api/policy/jobs/{jobId}': {
+        get: {
+          tags: ['Jobs'],
+          summary: 'Get job status',
+          description: 'Poll a job. result is present once status is completed.',
+          parameters: [
+            { name: 'jobId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Job',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/EvaluationJob' },
+                },
+              },
+            },
+            404: {
+              description: 'Job not found',
+            },
+          },
+        },
+      },
 
       // ========== Configuration ==========
       '/api/policy/config': {
@@ -760,15 +2105,1066 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           description: 'Reset configuration to default values',
           responses: {
             200: {
-              description: 'Configuration reset',
+              description: 'Configuration reset',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      message: { type: 'string' },
+                      config: { $ref: '#/components/schemas/Config' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+
+      // ========== Rules ==========
+      '/api/policy/rules': {
+        post: {
+          tags: ['Rules'],
+          summary: 'Add a new rule',
+          description: 'Add a new rule to the policy',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/RuleInput',
+                },
+                example: {
+                  id: 'no_profanity',
+                  description: 'Detect profane language',
+                  judge_prompt: 'Evaluate if the content contains profanity or vulgar language.',
+                  on_fail: 'warn',
+                  weight: 0.8,
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Rule added',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      message: { type: 'string' },
+                      rule: { $ref: '#/components/schemas/Rule' },
+                      config: { $ref: '#/components/schemas/Config' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid rule',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErrorResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/policy/rules/{ruleId}': {
+        put: {
+          tags: ['Rules'],
+          summary: 'Update a rule',
+          description: 'Update an existing rule',
+          parameters: [
+            {
+              name: 'ruleId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Rule identifier',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    description: { type: 'string' },
+                    judge_prompt: { type: 'string' },
+                    on_fail: { $ref: '#/components/schemas/Action' },
+                    weight: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Rule updated',
+            },
+            404: {
+              description: 'Rule not found',
+            },
+          },
+        },
+        delete: {
+          tags: ['Rules'],
+          summary: 'Delete a rule',
+          description: 'Delete a rule from the policy',
+          parameters: [
+            {
+              name: 'ruleId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Rule identifier',
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Rule deleted',
+            },
+            404: {
+              description: 'Rule not found',
+            },
+          },
+        },
+      },
+
+      // ========== Policies ==========
+      '/api/policies': {
+        get: {
+          tags: ['Policies'],
+          summary: 'List named policies',
+          description: 'List every loaded policy, including the primary policy',
+          responses: {
+            200: {
+              description: 'Policy list',
+            },
+          },
+        },
+      },
+      '/api/policies/{configId}': {
+        get: {
+          tags: ['Policies'],
+          summary: 'Get a named policy',
+          description: 'Returns the resolved policy. A policy that extends a base or uses library rules also returns its stored definition.',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Policy found',
+            },
+            404: {
+              description: 'Policy not found',
+            },
+          },
+        },
+        post: {
+          tags: ['Policies'],
+          summary: 'Create a named policy',
+          description: 'Create a new policy stored in MongoDB under the given configId',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string', pattern: '^[a-zA-Z0-9_-]{1,64}$' },
+              description: 'Policy identifier',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['policy'],
+                  properties: {
+                    policy: {
+                      $ref: '#/components/schemas/Policy',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Policy created',
+            },
+            400: {
+              description: 'Invalid policy or policy already exists',
+            },
+          },
+        },
+        put: {
+          tags: ['Policies'],
+          summary: 'Update a named policy',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['policy'],
+                  properties: {
+                    policy: {
+                      $ref: '#/components/schemas/Policy',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Policy updated',
+            },
+            404: {
+              description: 'Policy not found',
+            },
+          },
+        },
+        delete: {
+          tags: ['Policies'],
+          summary: 'Delete a named policy',
+          description: 'Delete a named policy. The primary policy cannot be deleted.',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Policy deleted',
+            },
+            400: {
+              description: 'Primary policy cannot be deleted',
+            },
+            404: {
+              description: 'Policy not found',
+            },
+            409: {
+              description: 'Policy is the base of another policy',
+            },
+          },
+        },
+      },
+      '/api/policies/{configId}/revisions': {
+        get: {
+          tags: ['Policies'],
+          summary: 'List policy revisions',
+          description: 'Every policy mutation is stored as an immutable revision with author, timestamp and auto-bumped semver. Mutating endpoints record the X-Author header as the author.',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+            {
+              name: 'page',
+              in: 'query',
+              schema: { type: 'integer', default: 1 },
+            },
+            {
+              name: 'limit',
+              in: 'query',
+              schema: { type: 'integer', default: 20, maximum: 100 },
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Revisions, newest first',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/PolicyRevisionListResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/policies/{configId}/revisions/as-of': {
+        get: {
+          tags: ['Policies'],
+          summary: 'Get the revision in effect at a date',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+            {
+              name: 'date',
+              in: 'query',
+              required: true,
+              schema: { type: 'string', format: 'date-time' },
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Revision in effect at the date',
+            },
+            400: {
+              description: 'Invalid date',
+            },
+            404: {
+              description: 'No revision existed at the date',
+            },
+          },
+        },
+      },
+      '/api/policies/{configId}/revisions/diff': {
+        get: {
+          tags: ['Policies'],
+          summary: 'Diff two revisions',
+          description: 'Compare two revisions rule by rule',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+            {
+              name: 'from',
+              in: 'query',
+              required: true,
+              schema: { type: 'integer' },
+              description: 'Base revision',
+            },
+            {
+              name: 'to',
+              in: 'query',
+              schema: { type: 'integer' },
+              description: 'Target revision (default: latest)',
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Revision diff',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      diff: { $ref: '#/components/schemas/PolicyDiff' },
+                    },
+                  },
+                },
+              },
+            },
+            404: {
+              description: 'Revision not found',
+            },
+          },
+        },
+      },
+      '/api/policies/{configId}/revisions/{revision}': {
+        get: {
+          tags: ['Policies'],
+          summary: 'Get a policy revision',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+            {
+              name: 'revision',
+              in: 'path',
+              required: true,
+              schema: { type: 'integer' },
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Revision found',
+            },
+            404: {
+              description: 'Revision not found',
+            },
+          },
+        },
+      },
+      '/api/policies/{configId}/rollback': {
+        post: {
+          tags: ['Policies'],
+          summary: 'Roll back to a revision',
+          description: 'Restore the policy of a past revision. The rollback is recorded as a new revision with a bumped version.',
+          parameters: [
+            {
+              name: 'configId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Policy identifier',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['revision'],
+                  properties: {
+                    revision: { type: 'integer', example: 2 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Policy rolled back',
+            },
+            400: {
+              description: 'Invalid revision',
+            },
+            404: {
+              description: 'Policy or revision not found',
+            },
+          },
+        },
+      },
+
+      // ========== Library ==========
+      '/api/library/rules': {
+        get: {
+          tags: ['Library'],
+          summary: 'List library rules',
+          description: 'List the shared rule library, with the ids of the policies using each rule (directly or through a base policy)',
+          responses: {
+            200: {
+              description: 'Library rules with used_by',
+            },
+          },
+        },
+        post: {
+          tags: ['Library'],
+          summary: 'Add a library rule',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/RuleInput',
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Library rule created',
+            },
+            400: {
+              description: 'Invalid rule',
+            },
+            409: {
+              description: 'A library rule with this id already exists',
+            },
+          },
+        },
+      },
+      '/api/library/rules/{ruleId}': {
+        get: {
+          tags: ['Library'],
+          summary: 'Get a library rule',
+          parameters: [
+            { name: 'ruleId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Library rule with used_by',
+            },
+            404: {
+              description: 'Library rule not found',
+            },
+          },
+        },
+        put: {
+          tags: ['Library'],
+          summary: 'Update a library rule',
+          description: 'The change applies to every policy using the rule; they are listed as affected_policies. The rule id cannot change.',
+          parameters: [
+            { name: 'ruleId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/RuleInput',
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Library rule updated, with affected_policies',
+            },
+            400: {
+              description: 'Invalid rule',
+            },
+            404: {
+              description: 'Library rule not found',
+            },
+          },
+        },
+        delete: {
+          tags: ['Library'],
+          summary: 'Delete a library rule',
+          parameters: [
+            { name: 'ruleId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Library rule deleted',
+            },
+            404: {
+              description: 'Library rule not found',
+            },
+            409: {
+              description: 'Library rule is used by a policy (affected_policies lists them)',
+            },
+          },
+        },
+      },
+
+      // ========== History ==========
+      '/api/history': {
+        get: {
+          tags: ['History'],
+          summary: 'List evaluation history',
+          description: 'List evaluation history with pagination and filters',
+          parameters: [
+            {
+              name: 'page',
+              in: 'query',
+              schema: { type: 'integer', default: 1 },
+              description: 'Page number',
+            },
+            {
+              name: 'limit',
+              in: 'query',
+              schema: { type: 'integer', default: 20, maximum: 100 },
+              description: 'Items per page',
+            },
+            {
+              name: 'policyName',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'Filter by policy name',
+            },
+            {
+              name: 'verdict',
+              in: 'query',
+              schema: { $ref: '#/components/schemas/FinalVerdict' },
+              description: 'Filter by verdict',
+            },
+            {
+              name: 'startDate',
+              in: 'query',
+              schema: { type: 'string', format: 'date-time' },
+              description: 'Filter from date',
+            },
+            {
+              name: 'endDate',
+              in: 'query',
+              schema: { type: 'string', format: 'date-time' },
+              description: 'Filter to date',
+            },
+            {
+              name: 'search',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'Search content/policy',
+            },
+          ],
+          responses: {
+            200: {
+              description: 'History list',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/HistoryListResponse',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/history/stats': {
+        get: {
+          tags: ['History'],
+          summary: 'Get statistics',
+          description: 'Get aggregated evaluation statistics for the caller\'s tenant, including judge token spend by policy, rule and day. Costs use the per-model price table (MODEL_PRICING).',
+          parameters: [
+            {
+              name: 'days',
+              in: 'query',
+              description: 'Days of spend to report (1-366)',
+              schema: {
+                type: 'integer',
+                default: 30,
+              },
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Statistics retrieved',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/HistoryStats',
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid days',
+            },
+          },
+        },
+      },
+      '/api/history/{evaluationId}': {
+        get: {
+          tags: ['History'],
+          summary: 'Get evaluation',
+          description: 'Get details of a specific evaluation',
+          parameters: [
+            {
+              name: 'evaluationId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Evaluation ID',
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Evaluation details',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/EvaluationHistory',
+                  },
+                },
+              },
+            },
+            404: {
+              description: 'Evaluation not found',
+            },
+          },
+        },
+        delete: {
+          tags: ['History'],
+          summary: 'Delete evaluation',
+          description: 'Delete an evaluation from history',
+          parameters: [
+            {
+              name: 'evaluationId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Evaluation ID',
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Evaluation deleted',
+            },
+            404: {
+              description: 'Evaluation not found',
+            },
+          },
+        },
+      },
+      '/api/history/{evaluationId}/rerun': {
+        post: {
+          tags: ['History'],
+          summary: 'Re-run evaluation',
+          description: 'Re-run evaluation with original policy and content',
+          parameters: [
+            {
+              name: 'evaluationId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Evaluation ID to re-run',
+            },
+          ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    saveToHistory: {
+                      type: 'boolean',
+                      default: true,
+                      description: 'Save result to history',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Evaluation re-run',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      originalEvaluationId: { type: 'string' },
+                      newEvaluationId: { type: 'string' },
+                      result: { $ref: '#/components/schemas/PolicyVerdict' },
+                    },
+                  },
+                },
+              },
+            },
+            404: {
+              description: 'Original evaluation not found',
+            },
+          },
+        },
+      },
+
+      '/api/history/{evaluationId}/promote': {
+        post: {
+          tags: ['History'],
+          summary: 'Promote an evaluation to a test case',
+          description: 'Adds the evaluation\'s content, guardrail fields and request metadata to a test suite, expecting the recorded final verdict unless another is given',
+          parameters: [
+            {
+              name: 'evaluationId',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['suiteId'],
+                  properties: {
+                    suiteId: { type: 'string' },
+                    case_id: { type: 'string', description: 'Defaults to the evaluation ID' },
+                    description: { type: 'string' },
+                    expected_verdict: { type: 'string', enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT'], description: 'Defaults to the recorded final verdict' },
+                    expected_rules: {
+                      type: 'object',
+                      additionalProperties: { type: 'string', enum: ['PASS', 'FAIL', 'UNCERTAIN', 'NOT_APPLICABLE'] },
+                    },
+                    include_rules: { type: 'boolean', description: 'Expect the recorded rule verdicts (SKIPPED rules are left out)' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Case added',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      message: { type: 'string' },
+                      suiteId: { type: 'string' },
+                      caseCount: { type: 'integer' },
+                      case: { $ref: '#/components/schemas/TestCase' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Missing suiteId, or invalid case (e.g. a recorded ERROR verdict)',
+            },
+            404: {
+              description: 'Evaluation or test suite not found',
+            },
+            409: {
+              description: 'The suite already has a case with this ID',
+            },
+          },
+        },
+      },
+
+      // ========== Reviews ==========
+      '/api/reviews': {
+        get: {
+          tags: ['Reviews'],
+          summary: 'List review items',
+          description: 'WARN and UNCERTAIN evaluations queued for human review, oldest first',
+          parameters: [
+            { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20, maximum: 100 } },
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'claimed', 'resolved'] } },
+            { name: 'trigger', in: 'query', schema: { type: 'string', enum: ['warn', 'uncertain'] } },
+            { name: 'assignee', in: 'query', schema: { type: 'string' } },
+            { name: 'overdue', in: 'query', description: 'Only open items past their SLA due date', schema: { type: 'boolean' } },
+          ],
+          responses: {
+            200: {
+              description: 'Paginated review items',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      items: { type: 'array', items: { $ref: '#/components/schemas/ReviewItem' } },
+                      total: { type: 'integer' },
+                      page: { type: 'integer' },
+                      limit: { type: 'integer' },
+                      totalPages: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid status or trigger',
+            },
+          },
+        },
+      },
+      '/api/reviews/stats': {
+        get: {
+          tags: ['Reviews'],
+          summary: 'Review queue statistics',
+          description: 'Queue sizes by status, open items past their SLA, and for resolved items the SLA breaches and average time to claim and resolve',
+          responses: {
+            200: {
+              description: 'Review statistics',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ReviewStats',
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/api/reviews/{reviewId}': {
+        get: {
+          tags: ['Reviews'],
+          summary: 'Get a review item',
+          parameters: [
+            { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Review item',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ReviewItem',
+                  },
+                },
+              },
+            },
+            404: {
+              description: 'Review not found',
+            },
+          },
+        },
+      },
+      '/api/reviews/{reviewId}/claim': {
+        post: {
+          tags: ['Reviews'],
+          summary: 'Claim a review item',
+          description: 'Assigns a pending item to the reviewer (the authenticated principal, or X-Author when auth is disabled). Claiming an item the reviewer already holds succeeds again.',
+          parameters: [
+            { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Updated review item',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      item: { $ref: '#/components/schemas/ReviewItem' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'No reviewer: authenticate or send X-Author',
+            },
+            404: {
+              description: 'Review not found',
+            },
+            409: {
+              description: 'Review is claimed by another reviewer or already resolved',
+            },
+          },
+        },
+      },
+      '/api/reviews/{reviewId}/release': {
+        post: {
+          tags: ['Reviews'],
+          summary: 'Release a review item',
+          description: 'Returns an item the reviewer claimed to the queue',
+          parameters: [
+            { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Updated review item',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      item: { $ref: '#/components/schemas/ReviewItem' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'No reviewer: authenticate or send X-Author',
+            },
+            404: {
+              description: 'Review not found',
+            },
+            409: {
+              description: 'Review is claimed by another reviewer or already resolved',
+            },
+          },
+        },
+      },
+      '/api/reviews/{reviewId}/resolve': {
+        post: {
+          tags: ['Reviews'],
+          summary: 'Resolve a review item',
+          description: 'Approve keeps the engine verdict; override replaces it and requires a rationale. The item must be unclaimed or held by the reviewer.',
+          parameters: [
+            { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/ReviewResolutionInput',
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Updated review item',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      item: { $ref: '#/components/schemas/ReviewItem' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid resolution, or no reviewer',
+            },
+            404: {
+              description: 'Review not found',
+            },
+            409: {
+              description: 'Review is claimed by another reviewer or already resolved',
+            },
+          },
+        },
+      },
+      // ========== Test Suites ==========
+      '/api/test-suites': {
+        get: {
+          tags: ['Test Suites'],
+          summary: 'List test suites',
+          responses: {
+            200: {
+              description: 'Test suites by name, without their cases',
               content: {
                 'application/json': {
                   schema: {
                     type: 'object',
                     properties: {
                       success: { type: 'boolean' },
-                      message: { type: 'string' },
-                      config: { $ref: '#/components/schemas/Config' },
+                      count: { type: 'integer' },
+                      suites: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            suiteId: { type: 'string' },
+                            name: { type: 'string' },
+                            description: { type: 'string' },
+                            caseCount: { type: 'integer' },
+                            updatedAt: { type: 'string', format: 'date-time' },
+                          },
+                        },
+                      },
                     },
                   },
                 },
@@ -776,34 +3172,22 @@ Trustwise is a configurable content moderation system that evaluates requests ag
             },
           },
         },
-      },
-
-      // ========== Rules ==========
-      '/api/policy/rules': {
         post: {
-          tags: ['Rules'],
-          summary: 'Add a new rule',
-          description: 'Add a new rule to the policy',
+          tags: ['Test Suites'],
+          summary: 'Create a test suite',
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
-                  $ref: '#/components/schemas/RuleInput',
-                },
-                example: {
-                  id: 'no_profanity',
-                  description: 'Detect profane language',
-                  judge_prompt: 'Evaluate if the content contains profanity or vulgar language.',
-                  on_fail: 'warn',
-                  weight: 0.8,
+                  $ref: '#/components/schemas/TestSuiteInput',
                 },
               },
             },
           },
           responses: {
             200: {
-              description: 'Rule added',
+              description: 'Test suite created',
               content: {
                 'application/json': {
                   schema: {
@@ -811,165 +3195,179 @@ Trustwise is a configurable content moderation system that evaluates requests ag
                     properties: {
                       success: { type: 'boolean' },
                       message: { type: 'string' },
-                      rule: { $ref: '#/components/schemas/Rule' },
-                      config: { $ref: '#/components/schemas/Config' },
+                      suite: { $ref: '#/components/schemas/TestSuite' },
                     },
                   },
                 },
               },
             },
             400: {
-              description: 'Invalid rule',
+              description: 'Invalid suite or case',
+            },
+            409: {
+              description: 'A suite with this name already exists',
+            },
+          },
+        },
+      },
+      '/api/test-suites/{suiteId}': {
+        get: {
+          tags: ['Test Suites'],
+          summary: 'Get a test suite',
+          parameters: [
+            { name: 'suiteId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Test suite with its cases',
               content: {
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/ErrorResponse',
+                    $ref: '#/components/schemas/TestSuite',
                   },
                 },
               },
             },
+            404: {
+              description: 'Test suite not found',
+            },
           },
         },
-      },
-      '/api/policy/rules/{ruleId}': {
         put: {
-          tags: ['Rules'],
-          summary: 'Update a rule',
-          description: 'Update an existing rule',
+          tags: ['Test Suites'],
+          summary: 'Update a test suite',
+          description: 'Updates the fields given; cases are replaced as a whole',
           parameters: [
-            {
-              name: 'ruleId',
-              in: 'path',
-              required: true,
-              schema: { type: 'string' },
-              description: 'Rule identifier',
-            },
+            { name: 'suiteId', in: 'path', required: true, schema: { type: 'string' } },
           ],
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
-                  type: 'object',
-                  properties: {
-                    description: { type: 'string' },
-                    judge_prompt: { type: 'string' },
-                    on_fail: { $ref: '#/components/schemas/Action' },
-                    weight: { type: 'number' },
-                  },
+                  $ref: '#/components/schemas/TestSuiteInput',
                 },
               },
             },
           },
           responses: {
             200: {
-              description: 'Rule updated',
+              description: 'Test suite updated',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      message: { type: 'string' },
+                      suite: { $ref: '#/components/schemas/TestSuite' },
+                    },
+                  },
+                },
+              },
+            },
+            400: {
+              description: 'Invalid suite or case',
             },
             404: {
-              description: 'Rule not found',
+              description: 'Test suite not found',
+            },
+            409: {
+              description: 'A suite with this name already exists',
             },
           },
         },
         delete: {
-          tags: ['Rules'],
-          summary: 'Delete a rule',
-          description: 'Delete a rule from the policy',
+          tags: ['Test Suites'],
+          summary: 'Delete a test suite',
+          description: 'Deletes the suite and its runs',
           parameters: [
-            {
-              name: 'ruleId',
-              in: 'path',
-              required: true,
-              schema: { type: 'string' },
-              description: 'Rule identifier',
-            },
+            { name: 'suiteId', in: 'path', required: true, schema: { type: 'string' } },
           ],
           responses: {
             200: {
-              description: 'Rule deleted',
+              description: 'Test suite deleted',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/SuccessResponse',
+                  },
+                },
+              },
             },
             404: {
-              description: 'Rule not found',
+              description: 'Test suite not found',
             },
           },
         },
       },
-
-      // ========== History ==========
-      '/api/history': {
-        get: {
-          tags: ['History'],
-          summary: 'List evaluation history',
-          description: 'List evaluation history with pagination and filters',
+      '/api/test-suites/{suiteId}/run': {
+        post: {
+          tags: ['Test Suites'],
+          summary: 'Run a test suite',
+          description: 'Evaluates every case against the active policy, a named policy (policyId) or a draft policy, with short-circuiting off. Reports pass/fail per case, a confusion matrix and a diff against the previous run. Runs are not saved to evaluation history.',
           parameters: [
-            {
-              name: 'page',
-              in: 'query',
-              schema: { type: 'integer', default: 1 },
-              description: 'Page number',
-            },
-            {
-              name: 'limit',
-              in: 'query',
-              schema: { type: 'integer', default: 20, maximum: 100 },
-              description: 'Items per page',
-            },
-            {
-              name: 'policyName',
-              in: 'query',
-              schema: { type: 'string' },
-              description: 'Filter by policy name',
-            },
-            {
-              name: 'verdict',
-              in: 'query',
-              schema: { $ref: '#/components/schemas/FinalVerdict' },
-              description: 'Filter by verdict',
-            },
-            {
-              name: 'startDate',
-              in: 'query',
-              schema: { type: 'string', format: 'date-time' },
-              description: 'Filter from date',
-            },
-            {
-              name: 'endDate',
-              in: 'query',
-              schema: { type: 'string', format: 'date-time' },
-              description: 'Filter to date',
-            },
-            {
-              name: 'search',
-              in: 'query',
-              schema: { type: 'string' },
-              description: 'Search content/policy',
-            },
+            { name: 'suiteId', in: 'path', required: true, schema: { type: 'string' } },
           ],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    policy: { $ref: '#/components/schemas/Policy' },
+                    policyId: { type: 'string', description: 'Named policy to run against' },
+                    concurrency: { type: 'integer', minimum: 1, description: 'Cases evaluated at once (never above settings.batchConcurrency)' },
+                  },
+                },
+              },
+            },
+          },
           responses: {
             200: {
-              description: 'History list',
+              description: 'Test run',
               content: {
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/HistoryListResponse',
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      run: { $ref: '#/components/schemas/TestRun' },
+                    },
                   },
                 },
               },
             },
+            400: {
+              description: 'Invalid policy, empty suite, or a case missing a judge_prompt placeholder field',
+            },
+            404: {
+              description: 'Test suite or policy not found',
+            },
           },
         },
       },
-      '/api/history/stats': {
+      '/api/test-suites/{suiteId}/runs': {
         get: {
-          tags: ['History'],
-          summary: 'Get statistics',
-          description: 'Get aggregated evaluation statistics',
+          tags: ['Test Suites'],
+          summary: 'List test runs',
+          description: 'Runs of the suite, newest first, without per-case results',
+          parameters: [
+            { name: 'suiteId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 20, maximum: 100 } },
+          ],
           responses: {
             200: {
-              description: 'Statistics retrieved',
+              description: 'Test runs',
               content: {
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/HistoryStats',
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      count: { type: 'integer' },
+                      runs: { type: 'array', items: { $ref: '#/components/schemas/TestRun' } },
+                    },
                   },
                 },
               },
@@ -977,84 +3375,87 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           },
         },
       },
-      '/api/history/{evaluationId}': {
+      '/api/test-suites/{suiteId}/runs/{runId}': {
         get: {
-          tags: ['History'],
-          summary: 'Get evaluation',
-          description: 'Get details of a specific evaluation',
+          tags: ['Test Suites'],
+          summary: 'Get a test run',
           parameters: [
-            {
-              name: 'evaluationId',
-              in: 'path',
-              required: true,
-              schema: { type: 'string' },
-              description: 'Evaluation ID',
-            },
+            { name: 'suiteId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'runId', in: 'path', required: true, schema: { type: 'string' } },
           ],
           responses: {
             200: {
-              description: 'Evaluation details',
+              description: 'Test run with per-case results',
               content: {
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/EvaluationHistory',
+                    $ref: '#/components/schemas/TestRun',
                   },
                 },
               },
             },
             404: {
-              description: 'Evaluation not found',
+              description: 'Test run not found',
             },
           },
         },
-        delete: {
-          tags: ['History'],
-          summary: 'Delete evaluation',
-          description: 'Delete an evaluation from history',
-          parameters: [
-            {
-              name: 'evaluationId',
-              in: 'path',
-              required: true,
-              schema: { type: 'string' },
-              description: 'Evaluation ID',
-            },
-          ],
+      },
+
+      // ========== Auth ==========
+      '/api/auth/me': {
+        get: {
+          tags: ['Auth'],
+          summary: 'Current principal',
+          description: 'Returns the principal (null when auth is disabled), its tenant, the tenant\'s limits and judge-token usage in the current quota window.',
           responses: {
             200: {
-              description: 'Evaluation deleted',
+              description: 'Authenticated principal, tenant and quota',
             },
-            404: {
-              description: 'Evaluation not found',
+            401: {
+              description: 'Missing or invalid credentials',
             },
           },
         },
       },
-      '/api/history/{evaluationId}/rerun': {
-        post: {
-          tags: ['History'],
-          summary: 'Re-run evaluation',
-          description: 'Re-run evaluation with original policy and content',
-          parameters: [
-            {
-              name: 'evaluationId',
-              in: 'path',
-              required: true,
-              schema: { type: 'string' },
-              description: 'Evaluation ID to re-run',
+      '/api/auth/keys': {
+        get: {
+          tags: ['Auth'],
+          summary: 'List API keys',
+          description: 'Requires the admin role. Lists the caller\'s tenant\'s keys; key hashes are never returned.',
+          responses: {
+            200: {
+              description: 'API keys',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      keys: { type: 'array', items: { $ref: '#/components/schemas/ApiKey' } },
+                      total: { type: 'integer' },
+                    },
+                  },
+                },
+              },
             },
-          ],
+            401: { description: 'Missing or invalid credentials' },
+            403: { description: 'Requires admin' },
+          },
+        },
+        post: {
+          tags: ['Auth'],
+          summary: 'Create an API key',
+          description: 'Requires the admin role. The key is returned only in this response; only its SHA-256 hash is stored. Keys belong to the caller\'s tenant unless an admin of the default tenant sets tenantId.',
           requestBody: {
+            required: true,
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
+                  required: ['name', 'role'],
                   properties: {
-                    saveToHistory: {
-                      type: 'boolean',
-                      default: true,
-                      description: 'Save result to history',
-                    },
+                    name: { type: 'string' },
+                    role: { type: 'string', enum: ['evaluator', 'editor', 'admin'] },
+                    tenantId: { type: 'string', description: 'Tenant for the key (default tenant admins only)' },
                   },
                 },
               },
@@ -1062,24 +3463,39 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           },
           responses: {
             200: {
-              description: 'Evaluation re-run',
+              description: 'Key created',
               content: {
                 'application/json': {
                   schema: {
                     type: 'object',
                     properties: {
                       success: { type: 'boolean' },
-                      originalEvaluationId: { type: 'string' },
-                      newEvaluationId: { type: 'string' },
-                      result: { $ref: '#/components/schemas/PolicyVerdict' },
+                      message: { type: 'string' },
+                      key: { type: 'string', example: 'tw_9fK2xQ...' },
+                      apiKey: { $ref: '#/components/schemas/ApiKey' },
                     },
                   },
                 },
               },
             },
-            404: {
-              description: 'Original evaluation not found',
-            },
+            400: { description: 'Invalid name, role or tenantId' },
+            401: { description: 'Missing or invalid credentials' },
+            403: { description: 'Requires admin (of the default tenant for other tenants)' },
+          },
+        },
+      },
+      '/api/auth/keys/{keyId}': {
+        delete: {
+          tags: ['Auth'],
+          summary: 'Revoke an API key',
+          parameters: [
+            { name: 'keyId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: {
+            200: { description: 'Key revoked' },
+            401: { description: 'Missing or invalid credentials' },
+            403: { description: 'Requires admin' },
+            404: { description: 'Key not found' },
           },
         },
       },
@@ -1090,6 +3506,7 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           tags: ['Health'],
           summary: 'Health check',
           description: 'Check system health including database and LLM service',
+          security: [],
           responses: {
             200: {
               description: 'System healthy',
@@ -1130,6 +3547,11 @@ Trustwise is a configurable content moderation system that evaluates requests ag
                     policy: {
                       $ref: '#/components/schemas/Policy',
                     },
+                    fields: {
+                      type: 'array',
+                      items: { type: 'string', enum: ['input', 'output', 'context'] },
+                      description: 'Guardrail fields requests will supply; judge_prompt placeholders for other fields are errors',
+                    },
                   },
                 },
               },
@@ -1154,6 +3576,7 @@ Trustwise is a configurable content moderation system that evaluates requests ag
           tags: ['Health'],
           summary: 'Quick health check',
           description: 'Quick health check endpoint',
+          security: [],
           responses: {
             200: {
               description: 'System healthy',
@@ -0,0 +1,120 @@
+/**
+ * Tenant Configuration
+ *
+ * Every team using the deployment is a tenant with its own policies, history,
+ * rate limits and judge-token quota. Limits default to the values below and can
+ * be overridden per tenant with TENANT_LIMITS, e.g.
+ *
+ *   TENANT_LIMITS={"search-team":{"rateLimit":120,"tokenRateLimit":200000,"tokenQuota":2000000}}
+ *
+ * With authentication disabled, the X-Tenant-Id header may only name a configured
+ * tenant: the default tenant, one listed in TENANT_IDS (comma separated) or one
+ * with TENANT_LIMITS overrides.
+ *
+ * Each API key (or JWT subject) can additionally be held to its own request and
+ * token rate limits with KEY_RATE_LIMIT_MAX_PER_WINDOW and KEY_RATE_LIMIT_TOKENS_PER_WINDOW.
+ * Calls without valid credentials are limited per client IP with
+ * CLIENT_RATE_LIMIT_MAX_PER_WINDOW and CLIENT_RATE_LIMIT_TOKENS_PER_WINDOW.
+ */
+
+import type { TenantLimits, RateLimitStoreType } from '../types';
+
+export const DEFAULT_TENANT_ID = 'default';
+
+// Tenant ids are used in storage keys and headers
+const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export const RATE_LIMIT_WINDOW_MS = parseInt(process.env['RATE_LIMIT_WINDOW_MS'] ?? '60000', 10); // 1 minute default
+export const TOKEN_QUOTA_WINDOW_MS = parseInt(process.env['TOKEN_QUOTA_WINDOW_MS'] ?? '86400000', 10); // 1 day default
+
+// Where rate limit counters live: 'memory' (per process) or 'mongo' (shared by replicas)
+export const RATE_LIMIT_STORE: RateLimitStoreType = process.env['RATE_LIMIT_STORE'] === 'mongo' ? 'mongo' : 'memory';
+
+const DEFAULT_TENANT_LIMITS: TenantLimits = {
+  rateLimit: parseInt(process.env['RATE_LIMIT_MAX_PER_WINDOW'] ?? '60', 10), // 60 requests per window default
+  tokenRateLimit: parseInt(process.env['RATE_LIMIT_TOKENS_PER_WINDOW'] ?? '0', 10), // Unlimited by default
+  tokenQuota: parseInt(process.env['TOKEN_QUOTA_PER_WINDOW'] ?? '0', 10) // Unlimited by default
+};
+
+// Per API key limits (0 = only the tenant limits apply)
+export const KEY_RATE_LIMITS: Pick<TenantLimits, 'rateLimit' | 'tokenRateLimit'> = {
+  rateLimit: parseInt(process.env['KEY_RATE_LIMIT_MAX_PER_WINDOW'] ?? '0', 10),
+  tokenRateLimit: parseInt(process.env['KEY_RATE_LIMIT_TOKENS_PER_WINDOW'] ?? '0', 10)
+};
+
+// Per client IP limits for calls without valid credentials (0 = unlimited)
+export const CLIENT_RATE_LIMITS: Pick<TenantLimits, 'rateLimit' | 'tokenRateLimit'> = {
+  rateLimit: parseInt(process.env['CLIENT_RATE_LIMIT_MAX_PER_WINDOW'] ?? process.env['RATE_LIMIT_MAX_PER_WINDOW'] ?? '60', 10),
+  tokenRateLimit: parseInt(process.env['CLIENT_RATE_LIMIT_TOKENS_PER_WINDOW'] ?? '0', 10)
+};
+
+export const isValidTenantId = (value: unknown): value is string => {
+  return typeof value === 'string' && TENANT_ID_PATTERN.test(value);
+};
+
+/**
+ * Parse TENANT_LIMITS (JSON object keyed by tenant id)
+ */
+export const parseTenantLimits = (raw: string | undefined): Record<string, Partial<TenantLimits>> => {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object keyed by tenant id');
+    }
+
+    const limits: Record<string, Partial<TenantLimits>> = {};
+    for (const [tenantId, value] of Object.entries(parsed as Record<string, Record<string, unknown>>)) {
+      const entry: Partial<TenantLimits> = {};
+      if (typeof value?.['rateLimit'] === 'number') {
+        entry.rateLimit = value['rateLimit'];
+      }
+      if (typeof value?.['tokenRateLimit'] === 'number') {
+        entry.tokenRateLimit = value['tokenRateLimit'];
+      }
+      if (typeof value?.['tokenQuota'] === 'number') {
+        entry.tokenQuota = value['tokenQuota'];
+      }
+      limits[tenantId] = entry;
+    }
+    return limits;
+  } catch (error) {
+    console.warn('[Tenants] Ignoring invalid TENANT_LIMITS', { error: (error as Error).message });
+    return {};
+  }
+};
+
+const TENANT_LIMIT_OVERRIDES = parseTenantLimits(process.env['TENANT_LIMITS']);
+
+/**
+ * Parse TENANT_IDS (comma-separated tenant ids). Invalid ids are ignored.
+ */
+export const parseTenantIds = (raw: string | undefined): string[] => {
+  return (raw || '')
+    .split(',')
+    .map(tenantId => tenantId.trim())
+    .filter(isValidTenantId);
+};
+
+const CONFIGURED_TENANT_IDS = new Set([
+  DEFAULT_TENANT_ID,
+  ...parseTenantIds(process.env['TENANT_IDS']),
+  ...Object.keys(TENANT_LIMIT_OVERRIDES).filter(isValidTenantId)
+]);
+
+/**
+ * Whether a tenant is configured for this deployment (used when auth is disabled)
+ */
+export const isConfiguredTenant = (tenantId: string): boolean => {
+  return CONFIGURED_TENANT_IDS.has(tenantId);
+};
+
+/**
+ * Limits that apply to a tenant
+ */
+export const getTenantLimits = (tenantId: string): TenantLimits => {
+  return { ...DEFAULT_TENANT_LIMITS, ...TENANT_LIMIT_OVERRIDES[tenantId] };
+};
@@ -4,35 +4,127 @@
  * A configurable Policy Engine that evaluates content against rules using LLM Judges.
  * Supports multiple evaluation strategies: all, any, weighted_threshold
  * Uses MongoDB for configuration and history storage.
+ * Each tenant gets its own engine, configuration, history, rate limits and token quota.
  */
 
 import { PolicyEngine } from '../services/PolicyEngine';
 import { JudgeService } from '../services/JudgeService';
 import { HistoryService } from '../services/HistoryService';
 import { ConfigService } from '../services/ConfigService';
+import { RuleLibraryService } from '../services/RuleLibraryService';
+import { ReviewService, getReviewTriggers } from '../services/ReviewService';
+import {
+  TestSuiteService,
+  scoreTestCase,
+  buildConfusionMatrix,
+  diffTestRuns
+} from '../services/TestSuiteService';
+import { JobService, signWebhookPayload, findTenantsWithPendingJobs, DEFAULT_JOB_LEASE_MS } from '../services/JobService';
+import { AuthService, hasRole, hashApiKey } from '../services/AuthService';
+import { TenantRegistry, TenantFactory, assignUntenantedRecords } from '../services/TenantRegistry';
+import { TokenQuota } from '../services/TokenQuota';
+import { RateLimiter, createRateLimitStore, estimateJudgeTokens } from '../services/RateLimiter';
+import { createAuthorize, allowAll } from '../middleware/auth';
+import {
+  createTenantResolver,
+  createTenantDispatcher,
+  createQuotaGuard,
+  getTenantId
+} from '../middleware/tenant';
+import { createRequestRateLimiter, createTokenRateLimiter } from '../middleware/rateLimiter';
+import { DEFAULT_TENANT_ID, RATE_LIMIT_STORE, getTenantLimits } from '../config/tenants';
+import {
+  PolicyRevisionService,
+  diffPolicies,
+  bumpVersion
+} from '../services/PolicyRevisionService';
 import { 
   createStrategy, 
   getAvailableStrategies,
   AllStrategy,
   AnyStrategy,
   WeightedThresholdStrategy,
+  PriorityStrategy,
+  ExpressionStrategy,
   BaseStrategy,
-  ACTION_PRIORITY
+  ACTION_PRIORITY,
+  aggregateApplicable
 } from '../services/AggregationStrategy';
+import { parseExpression, validateExpression } from '../services/RuleExpression';
+import { flattenRules, aggregateRuleGroups, validateRuleGroups } from '../services/RuleGroups';
+import { resolvePolicy, validateInheritance } from '../services/PolicyInheritance';
+import { getContentFeatures, checkConditions, validateConditions } from '../services/RuleConditions';
+import { formatTranscript, scopeContent, validateContent } from '../services/Transcript';
+import { fillPlaceholders, getPlaceholders, findMissingPlaceholders } from '../services/PromptTemplate';
+import { splitIntoChunks, combineChunkResults } from '../services/Chunker';
+import {
+  createProvider,
+  getAvailableProviders,
+  BaseJudgeProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  AzureOpenAIProvider,
+  OpenAICompatibleProvider
+} from '../services/JudgeProvider';
+import {
+  evaluateLocalRule,
+  getAvailableRuleTypes,
+  getAvailablePiiTypes
+} from '../services/LocalRuleEvaluator';
+import { combineVotes, getAvailableVotingMethods } from '../services/JudgeEnsemble';
 import { createPolicyRoutes } from '../routes/PolicyRoutes';
 import { createHistoryRoutes } from '../routes/HistoryRoutes';
+import { createPoliciesRoutes } from '../routes/PoliciesRoutes';
+import { createLibraryRoutes } from '../routes/LibraryRoutes';
+import { createReviewRoutes } from '../routes/ReviewRoutes';
+import { createTestSuiteRoutes } from '../routes/TestSuiteRoutes';
+import { createJobRoutes } from '../routes/JobRoutes';
+import { createAuthRoutes } from '../routes/AuthRoutes';
 import type {
   Logger,
   InitializeOptions,
   InitializeResult,
-  PolicyEngineInterface
+  PolicyEngineInterface,
+  TokenUsage
 } from '../types';
-import type { Router } from 'express';
+import type { Router, RequestHandler } from 'express';
+
+export interface TenantRoutes {
+  routes: RequestHandler;
+  historyRoutes: RequestHandler;
+  policiesRoutes: RequestHandler;
+  libraryRoutes: RequestHandler;
+  reviewRoutes: RequestHandler;
+  testSuiteRoutes: RequestHandler;
+  jobRoutes: RequestHandler;
+}
 
+/**
+ * The top-level services and routes belong to the default tenant;
+ * tenantRoutes dispatch each request to the resolved tenant's routes.
+ */
 export interface InitializeResultExtended extends InitializeResult {
   historyService: HistoryService;
   historyRoutes: Router;
+  policiesRoutes: Router;
+  libraryRoutes: Router;
+  reviewRoutes: Router;
+  testSuiteRoutes: Router;
   configService: ConfigService;
+  ruleLibraryService: RuleLibraryService;
+  reviewService: ReviewService;
+  testSuiteService: TestSuiteService;
+  revisionService: PolicyRevisionService;
+  jobService: JobService;
+  jobRoutes: Router;
+  authService: AuthService;
+  authRoutes: Router;
+  tenantRegistry: TenantRegistry;
+  tokenQuota: TokenQuota;
+  rateLimiter: RateLimiter;
+  tenantResolver: RequestHandler;
+  requestRateLimiter: RequestHandler;
+  tenantRoutes: TenantRoutes;
   initializeAsync: () => Promise<void>;
 }
 
@@ -45,25 +137,160 @@ export const initialize = (options: InitializeOptions = {}): InitializeResultExt
   
   logger.info('[Trustwise] Creating Policy Engine services...');
   
-  // Create ConfigService for MongoDB-based config management
-  const configService = new ConfigService({ logger });
+  // Create AuthService; routes check roles only when auth is enabled
+  const authService = new AuthService({ logger });
+  const authEnabled = options.authEnabled ?? process.env['AUTH_ENABLED'] === 'true';
+  const authorize = authEnabled ? createAuthorize(authService, { logger }) : allowAll;
+  
+  // Judge tokens are counted per tenant; evaluations stop once a tenant's quota is spent
+  const tokenQuota = new TokenQuota();
+  const quotaGuard = createQuotaGuard(tokenQuota, { logger });
+  
+  // Requests and estimated judge tokens are rate limited per tenant and per API key
+  const rateLimiter = new RateLimiter({ store: createRateLimitStore(RATE_LIMIT_STORE), logger });
+  
+  /**
+   * Create the services and routes of one tenant
+   */
+  const createTenant: TenantFactory = (tenantId) => {
+    // Create PolicyRevisionService for policy revision history
+    const revisionService = new PolicyRevisionService({ logger, tenantId });
+
+    // Create ConfigService for MongoDB-based config management
+    const configService = new ConfigService({ logger, tenantId, revisionService });
+
+    // Create ReviewService for the human review queue
+    const reviewService = new ReviewService({ logger, tenantId });
+
+    // Create HistoryService, which queues WARN and UNCERTAIN evaluations for review
+    const historyService = new HistoryService({ logger, tenantId, reviewService });
+    
+    // Create RuleLibraryService for rules shared between policies
+    const ruleLibraryService = new RuleLibraryService({ logger, tenantId });
+    
+    // Create JudgeService that reports its token usage to the tenant's quota
+    const judgeService = new JudgeService({
+      logger,
+      mockMode: options.mockMode || false,
+      mockResponses: options.mockResponses || {}
+    });
+    judgeService.on('judge:usage', (event: { usage: TokenUsage }) => {
+      tokenQuota.record(tenantId, event.usage);
+    });
+    
+    // Create PolicyEngine instance with ConfigService
+    const policyEngine: PolicyEngineInterface = new PolicyEngine({
+      logger,
+      configService,
+      ruleLibraryService,
+      judgeService,
+      mockMode: options.mockMode || false,
+      mockResponses: options.mockResponses || {}
+    }) as PolicyEngineInterface;
+    
+    // Estimated judge tokens are counted once the request's policy is known
+    const tokenRateLimiter = createTokenRateLimiter(rateLimiter, policyEngine, { logger, authEnabled });
+    
+    // Create routes with services
+    const routes = createPolicyRoutes(policyEngine, {
+      logger,
+      historyService,
+      configService,
+      authorize,
+      quotaGuard,
+      tokenRateLimiter
+    });
+    
+    // Create TestSuiteService for labeled test suites and their runs
+    const testSuiteService = new TestSuiteService(policyEngine, { logger, tenantId });
+    
+    // Create history routes, which promote evaluations into test suites
+    const historyRoutes = createHistoryRoutes(historyService, policyEngine, { logger, authorize, quotaGuard, testSuiteService });
+    
+    // Create named policy routes
+    const policiesRoutes = createPoliciesRoutes(policyEngine, { logger, revisionService, authorize });
+    
+    // Create shared rule library routes
+    const libraryRoutes = createLibraryRoutes(policyEngine, { logger, authorize });
+
+    // Create review queue routes
+    const reviewRoutes = createReviewRoutes(reviewService, { logger, authorize });
+
+    // Create test suite routes
+    const testSuiteRoutes = createTestSuiteRoutes(testSuiteService, policyEngine, { logger, authorize, quotaGuard });
 
-  // Create HistoryService instance
-  const historyService = new HistoryService({ logger });
+    // Create async job worker and routes
+    const jobService = new JobService(policyEngine, { logger, tenantId, historyService });
+    const jobRoutes = createJobRoutes(jobService, policyEngine, { logger, authorize, quotaGuard, tokenRateLimiter });
+
+    return {
+      tenantId,
+      policyEngine,
+      configService,
+      ruleLibraryService,
+      historyService,
+      reviewService,
+      testSuiteService,
+      revisionService,
+      jobService,
+      routes,
+      historyRoutes,
+      policiesRoutes,
+      libraryRoutes,
+      reviewRoutes,
+      testSuiteRoutes,
+      jobRoutes,
+      initialize: async () => {
+        // Load config from MongoDB; the job worker starts when a job is queued
+        await (policyEngine as PolicyEngine).initialize();
+      }
+    };
+  };
   
-  // Create PolicyEngine instance with ConfigService
-  const policyEngine: PolicyEngineInterface = new PolicyEngine({
-    logger,
+  const tenantRegistry = new TenantRegistry(createTenant, { logger });
+  const defaultTenant = tenantRegistry.create(DEFAULT_TENANT_ID);
+  const {
+    policyEngine,
     configService,
-    mockMode: options.mockMode || false,
-    mockResponses: options.mockResponses || {}
-  }) as PolicyEngineInterface;
-  
-  // Create routes with services
-  const routes = createPolicyRoutes(policyEngine, { logger, historyService, configService });
+    ruleLibraryService,
+    historyService,
+    reviewService,
+    testSuiteService,
+    revisionService,
+    jobService,
+    routes,
+    historyRoutes,
+    policiesRoutes,
+    libraryRoutes,
+    reviewRoutes,
+    testSuiteRoutes,
+    jobRoutes
+  } = defaultTenant;
   
-  // Create history routes
-  const historyRoutes = createHistoryRoutes(historyService, policyEngine, { logger });
+  // Resolve the tenant of each /api request and route it to that tenant's services
+  const tenantResolver = createTenantResolver({ logger, ...(authEnabled ? { authService } : {}) });
+  const requestRateLimiter = createRequestRateLimiter(rateLimiter, { logger, authEnabled });
+  const tenantRoutes: TenantRoutes = {
+    routes: createTenantDispatcher(tenantRegistry, tenant => tenant.routes, { logger }),
+    historyRoutes: createTenantDispatcher(tenantRegistry, tenant => tenant.historyRoutes, { logger }),
+    policiesRoutes: createTenantDispatcher(tenantRegistry, tenant => tenant.policiesRoutes, { logger }),
+    libraryRoutes: createTenantDispatcher(tenantRegistry, tenant => tenant.libraryRoutes, { logger }),
+    reviewRoutes: createTenantDispatcher(tenantRegistry, tenant => tenant.reviewRoutes, { logger }),
+    testSuiteRoutes: createTenantDispatcher(tenantRegistry, tenant => tenant.testSuiteRoutes, { logger }),
+    jobRoutes: createTenantDispatcher(tenantRegistry, tenant => tenant.jobRoutes, { logger })
+  };
+
+  // Create API key management routes
+  const authRoutes = createAuthRoutes(authService, { logger, authorize, tokenQuota, authEnabled });
+
+  /**
+   * Start the job workers of tenants with queued or running jobs or pending callbacks
+   */
+  const resumeJobWorkers = async (): Promise<void> => {
+    for (const tenantId of await findTenantsWithPendingJobs()) {
+      await (await tenantRegistry.get(tenantId)).jobService.start();
+    }
+  };
 
   /**
    * Async initialization - call this after MongoDB is connected
@@ -71,15 +298,38 @@ export const initialize = (options: InitializeOptions = {}): InitializeResultExt
   const initializeAsync = async (): Promise<void> => {
     logger.info('[Trustwise] Initializing Policy Engine with MongoDB config...');
     
-    // Initialize PolicyEngine (loads config from MongoDB)
-    await (policyEngine as PolicyEngine).initialize();
+    // Records from before multi-tenancy belong to the default tenant
+    await assignUntenantedRecords(logger);
+    
+    // Initialize the default tenant (loads config from MongoDB)
+    await tenantRegistry.get(DEFAULT_TENANT_ID);
+    
+    // Resume tenants that still have queued jobs or pending callbacks, and keep
+    // checking so jobs left running by a stopped replica are picked up again
+    await resumeJobWorkers();
+    setInterval(() => {
+      resumeJobWorkers().catch(error => {
+        logger.warn('[Trustwise] Could not resume job workers', { error: (error as Error).message });
+      });
+    }, DEFAULT_JOB_LEASE_MS).unref();
+    
+    // Register the operator-supplied admin key so keys can be managed over the API
+    const bootstrapKey = process.env['AUTH_BOOTSTRAP_KEY'];
+    if (bootstrapKey) {
+      await authService.ensureBootstrapKey(bootstrapKey);
+    }
+    
+    if (!authEnabled) {
+      logger.warn('[Trustwise] Authentication is disabled (set AUTH_ENABLED=true to require API keys or JWTs)');
+    }
     
     const config = policyEngine.getConfig();
     
     logger.info('[Trustwise] Policy Engine initialized successfully', {
       policyName: config.policy.name,
       rulesCount: config.policy.rules.length,
-      strategy: config.policy.evaluation_strategy
+      strategy: config.policy.evaluation_strategy,
+      policies: policyEngine.listPolicies().length
     });
   };
   
@@ -88,7 +338,25 @@ export const initialize = (options: InitializeOptions = {}): InitializeResultExt
     routes,
     historyService,
     historyRoutes,
+    policiesRoutes,
+    libraryRoutes,
+    reviewRoutes,
+    testSuiteRoutes,
     configService,
+    ruleLibraryService,
+    reviewService,
+    testSuiteService,
+    revisionService,
+    jobService,
+    jobRoutes,
+    authService,
+    authRoutes,
+    tenantRegistry,
+    tokenQuota,
+    rateLimiter,
+    tenantResolver,
+    requestRateLimiter,
+    tenantRoutes,
     initializeAsync
   };
 };
@@ -100,6 +368,15 @@ export {
   JudgeService,
   HistoryService,
   ConfigService,
+  RuleLibraryService,
+  ReviewService,
+  TestSuiteService,
+  PolicyRevisionService,
+  JobService,
+  AuthService,
+  TenantRegistry,
+  TokenQuota,
+  RateLimiter,
   
   // Strategies
   createStrategy,
@@ -108,11 +385,101 @@ export {
   AllStrategy,
   AnyStrategy,
   WeightedThresholdStrategy,
+  PriorityStrategy,
+  ExpressionStrategy,
   ACTION_PRIORITY,
+  aggregateApplicable,
+  parseExpression,
+  validateExpression,
+  
+  // Rule groups
+  flattenRules,
+  aggregateRuleGroups,
+  validateRuleGroups,
+  
+  // Policy inheritance
+  resolvePolicy,
+  validateInheritance,
+  
+  // Conditional rules
+  getContentFeatures,
+  checkConditions,
+  validateConditions,
+  
+  // Chat transcripts
+  formatTranscript,
+  scopeContent,
+  validateContent,
+  
+  // Guardrail prompt placeholders
+  fillPlaceholders,
+  getPlaceholders,
+  findMissingPlaceholders,
+  
+  // Long content chunking
+  splitIntoChunks,
+  combineChunkResults,
+  
+  // Judge providers
+  createProvider,
+  getAvailableProviders,
+  BaseJudgeProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  AzureOpenAIProvider,
+  OpenAICompatibleProvider,
+  
+  // Local rule types
+  evaluateLocalRule,
+  getAvailableRuleTypes,
+  getAvailablePiiTypes,
+  
+  // Judge ensembles
+  combineVotes,
+  getAvailableVotingMethods,
+  
+  // Policy revisions
+  diffPolicies,
+  bumpVersion,
+  
+  // Async jobs
+  signWebhookPayload,
+  
+  // Auth
+  createAuthorize,
+  hasRole,
+  hashApiKey,
+  
+  // Tenants
+  createTenantResolver,
+  createQuotaGuard,
+  getTenantId,
+  getTenantLimits,
+  DEFAULT_TENANT_ID,
+  
+  // Rate limits
+  createRateLimitStore,
+  createRequestRateLimiter,
+  createTokenRateLimiter,
+  estimateJudgeTokens,
+  
+  // Review queue
+  getReviewTriggers,
+  
+  // Test suites
+  scoreTestCase,
+  buildConfusionMatrix,
+  diffTestRuns,
   
   // Routes
   createPolicyRoutes,
-  createHistoryRoutes
+  createHistoryRoutes,
+  createPoliciesRoutes,
+  createLibraryRoutes,
+  createReviewRoutes,
+  createTestSuiteRoutes,
+  createJobRoutes,
+  createAuthRoutes
 };
 
 // Re-export types
@@ -20,7 +20,6 @@ import swaggerUi from 'swagger-ui-express';
 import { initialize } from './engine';
 import { connectDatabase, getDatabaseStatus } from './config/database';
 import { swaggerSpec } from './config/swagger';
-import { apiRateLimiter } from './middleware/rateLimiter';
 
 const app: Application = express();
 
@@ -51,14 +50,12 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Author', 'X-API-Key', 'X-Tenant-Id'],
+  exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
 }));
-app.use(express.json());
+app.use(express.json({ limit: process.env['JSON_BODY_LIMIT'] || '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-// IP-based rate limiting for /api (applied before API routes)
-app.use('/api', apiRateLimiter);
-
 // Swagger API Documentation
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   customCss: '.swagger-ui .topbar { display: none }',
@@ -72,13 +69,41 @@ app.get('/api-docs.json', (_req: Request, res: Response) => {
 });
 
 // Initialize Policy Engine (returns services and routes, but requires async init after DB connect)
-const { policyEngine, routes, historyRoutes, initializeAsync } = initialize({ logger: console });
+const {
+  policyEngine,
+  tenantRoutes,
+  tenantResolver,
+  requestRateLimiter,
+  authRoutes,
+  initializeAsync
+} = initialize({ logger: console });
+
+// Resolve the caller's tenant, then rate limit per tenant and API key (applied before API routes)
+app.use('/api', tenantResolver, requestRateLimiter);
 
 // Mount Policy Engine routes
-app.use('/api/policy', routes);
+app.use('/api/policy', tenantRoutes.routes);
+
+// Mount async evaluation job routes
+app.use('/api/policy/jobs', tenantRoutes.jobRoutes);
 
 // Mount History routes
-app.use('/api/history', historyRoutes);
+app.use('/api/history', tenantRoutes.historyRoutes);
+
+// Mount named policy routes
+app.use('/api/policies', tenantRoutes.policiesRoutes);
+
+// Mount shared rule library routes
+app.use('/api/library', tenantRoutes.libraryRoutes);
+
+// Mount human review queue routes
+app.use('/api/reviews', tenantRoutes.reviewRoutes);
+
+// Mount labeled test suite routes
+app.use('/api/test-suites', tenantRoutes.testSuiteRoutes);
+
+// Mount API key management routes
+app.use('/api/auth', authRoutes);
 
 // Root endpoint
 app.get('/', (_req: Request, res: Response) => {
@@ -91,6 +116,10 @@ app.get('/', (_req: Request, res: Response) => {
     endpoints: {
       // Evaluation
       evaluate: 'POST /api/policy/evaluate',
+      evaluateBatch: 'POST /api/policy/evaluate/batch',
+      evaluateStream: 'GET/POST /api/policy/evaluate/stream',
+      createJob: 'POST /api/policy/jobs',
+      getJob: 'GET /api/policy/jobs/:jobId',
       
       // Configuration (MongoDB-backed)
       config: 'GET /api/policy/config',
@@ -103,6 +132,25 @@ app.get('/', (_req: Request, res: Response) => {
       updateRule: 'PUT /api/policy/rules/:ruleId',
       deleteRule: 'DELETE /api/policy/rules/:ruleId',
       
+      // Named policies (MongoDB-backed)
+      listPolicies: 'GET /api/policies',
+      getPolicy: 'GET /api/policies/:configId',
+      createPolicy: 'POST /api/policies/:configId',
+      updatePolicy: 'PUT /api/policies/:configId',
+      deletePolicy: 'DELETE /api/policies/:configId',
+      listRevisions: 'GET /api/policies/:configId/revisions',
+      revisionAsOf: 'GET /api/policies/:configId/revisions/as-of?date=',
+      diffRevisions: 'GET /api/policies/:configId/revisions/diff?from=&to=',
+      getRevision: 'GET /api/policies/:configId/revisions/:revision',
+      rollbackPolicy: 'POST /api/policies/:configId/rollback',
+
+      // Shared rule library (MongoDB-backed)
+      listLibraryRules: 'GET /api/library/rules',
+      getLibraryRule: 'GET /api/library/rules/:ruleId',
+      createLibraryRule: 'POST /api/library/rules',
+      updateLibraryRule: 'PUT /api/library/rules/:ruleId',
+      deleteLibraryRule: 'DELETE /api/library/rules/:ruleId',
+      
       // Health & Validation
       health: 'GET /api/policy/health',
       validate: 'POST /api/policy/validate',
@@ -112,7 +160,32 @@ app.get('/', (_req: Request, res: Response) => {
       historyStats: 'GET /api/history/stats',
       getEvaluation: 'GET /api/history/:id',
       rerunEvaluation: 'POST /api/history/:id/rerun',
-      deleteEvaluation: 'DELETE /api/history/:id'
+      deleteEvaluation: 'DELETE /api/history/:id',
+      promoteEvaluation: 'POST /api/history/:id/promote',
+      
+      // Review queue (MongoDB-backed)
+      reviews: 'GET /api/reviews',
+      reviewStats: 'GET /api/reviews/stats',
+      getReview: 'GET /api/reviews/:reviewId',
+      claimReview: 'POST /api/reviews/:reviewId/claim',
+      releaseReview: 'POST /api/reviews/:reviewId/release',
+      resolveReview: 'POST /api/reviews/:reviewId/resolve',
+      
+      // Test suites (MongoDB-backed)
+      listTestSuites: 'GET /api/test-suites',
+      createTestSuite: 'POST /api/test-suites',
+      getTestSuite: 'GET /api/test-suites/:suiteId',
+      updateTestSuite: 'PUT /api/test-suites/:suiteId',
+      deleteTestSuite: 'DELETE /api/test-suites/:suiteId',
+      runTestSuite: 'POST /api/test-suites/:suiteId/run',
+      listTestRuns: 'GET /api/test-suites/:suiteId/runs',
+      getTestRun: 'GET /api/test-suites/:suiteId/runs/:runId',
+      
+      // API keys (admin)
+      me: 'GET /api/auth/me',
+      listKeys: 'GET /api/auth/keys',
+      createKey: 'POST /api/auth/keys',
+      revokeKey: 'DELETE /api/auth/keys/:keyId'
     },
     database: {
       connected: dbStatus.connected,
@@ -140,7 +213,8 @@ app.get('/api/docs', (_req: Request, res: Response) => {
         description: 'Evaluate content against the configured policy',
         body: {
           content: 'string (required) - Content to evaluate',
-          policy: 'object (optional) - Override policy for this request'
+          policy: 'object (optional) - Override policy for this request',
+          policyId: 'string (optional) - Evaluate against a named policy'
         },
         response: {
           policy_name: 'string',
@@ -153,6 +227,58 @@ app.get('/api/docs', (_req: Request, res: Response) => {
           evaluationId: 'string - ID for the saved evaluation history'
         }
       },
+      {
+        method: 'POST',
+        path: '/api/policy/evaluate/batch',
+        description: 'Evaluate many items under a global concurrency cap',
+        body: {
+          items: 'array (required) - Up to 5000 { id, content } objects',
+          policy: 'object (optional) - Override policy for the batch',
+          policyId: 'string (optional) - Evaluate against a named policy',
+          concurrency: 'number (optional) - Per-batch cap, never above settings.batchConcurrency',
+          save_history: 'boolean (optional) - Save each verdict to history'
+        },
+        response: {
+          items: 'array of { id, status, verdict?, error?, evaluationId? }',
+          summary: 'object with per-verdict counts and latency'
+        }
+      },
+      {
+        method: 'POST',
+        path: '/api/policy/evaluate/stream',
+        description: 'Evaluate content, streaming results as Server-Sent Events (GET takes content, policyId and short_circuit as query parameters)',
+        body: {
+          content: 'string (required) - Content to evaluate',
+          policy: 'object (optional) - Override policy',
+          policyId: 'string (optional) - Evaluate against a named policy'
+        },
+        response: {
+          start: 'event - policy name/version and rules to evaluate',
+          rule: 'event - one rule result as each rule finishes',
+          result: 'event - final verdict with evaluationId',
+          error: 'event - evaluation failed'
+        }
+      },
+      {
+        method: 'POST',
+        path: '/api/policy/jobs',
+        description: 'Queue an evaluation job and return its id immediately',
+        body: {
+          content: 'string (required) - Content to evaluate',
+          policy: 'object (optional) - Override policy',
+          policyId: 'string (optional) - Evaluate against a named policy',
+          callback_url: 'string (optional) - Receives the signed result when the job finishes (requires JOB_WEBHOOK_SECRET)'
+        },
+        response: {
+          jobId: 'string',
+          status: 'queued'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/policy/jobs/:jobId',
+        description: 'Poll a job (status, result once completed, callback delivery state)'
+      },
       {
         method: 'GET',
         path: '/api/policy/config',
@@ -198,9 +324,15 @@ app.get('/api/docs', (_req: Request, res: Response) => {
         body: {
           id: 'string (required) - Unique rule identifier',
           description: 'string (optional) - Rule description',
-          judge_prompt: 'string (required) - Prompt for LLM judge',
+          type: 'string (optional) - Rule type: llm|regex|keyword|pii (default llm)',
+          judge_prompt: 'string (required for llm rules) - Prompt for LLM judge',
+          pattern: 'string (regex rules) - Regular expression; a match fails the rule',
+          keywords: 'string[] (keyword rules) - Whole-word keywords; any match fails the rule',
+          pii_types: 'string[] (optional, pii rules) - email|phone|credit_card|ssn|api_key (default all)',
+          ensemble: 'object (optional, llm rules) - { judges: [{ provider, model }], samples, voting: majority|unanimous|weighted_mean, threshold, temperature }',
           on_fail: 'string (optional) - Action on fail: allow|block|warn|redact',
-          weight: 'number (optional) - Rule weight 0-1'
+          weight: 'number (optional) - Rule weight 0-1',
+          min_confidence: 'number (optional) - PASS/FAIL below this confidence becomes UNCERTAIN (overrides the policy setting)'
         }
       },
       {
@@ -213,6 +345,101 @@ app.get('/api/docs', (_req: Request, res: Response) => {
         path: '/api/policy/rules/:ruleId',
         description: 'Delete a rule (saved to MongoDB)'
       },
+      {
+        method: 'GET',
+        path: '/api/policies',
+        description: 'List named policies'
+      },
+      {
+        method: 'GET',
+        path: '/api/policies/:configId',
+        description: 'Get a named policy'
+      },
+      {
+        method: 'POST',
+        path: '/api/policies/:configId',
+        description: 'Create a named policy (saved to MongoDB)',
+        body: {
+          policy: 'object (required) - Policy definition with name and rules; extends (base policy id) and library_rules ([{ id, on_fail, weight }]) inherit shared rules'
+        }
+      },
+      {
+        method: 'PUT',
+        path: '/api/policies/:configId',
+        description: 'Update a named policy (saved to MongoDB)'
+      },
+      {
+        method: 'DELETE',
+        path: '/api/policies/:configId',
+        description: 'Delete a named policy (the primary policy cannot be deleted)'
+      },
+      {
+        method: 'GET',
+        path: '/api/policies/:configId/revisions',
+        description: 'List policy revisions (newest first)',
+        queryParams: {
+          page: 'number (default: 1)',
+          limit: 'number (default: 20, max: 100)'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/policies/:configId/revisions/as-of',
+        description: 'Get the revision that was in effect at a date',
+        queryParams: {
+          date: 'ISO date (required)'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/policies/:configId/revisions/diff',
+        description: 'Diff two revisions rule by rule',
+        queryParams: {
+          from: 'number (required) - Base revision',
+          to: 'number (optional) - Target revision (default: latest)'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/policies/:configId/revisions/:revision',
+        description: 'Get a single policy revision'
+      },
+      {
+        method: 'POST',
+        path: '/api/policies/:configId/rollback',
+        description: 'Roll back to a past revision (recorded as a new revision)',
+        body: {
+          revision: 'number (required) - Revision to restore'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/library/rules',
+        description: 'List shared library rules with the policies using each'
+      },
+      {
+        method: 'GET',
+        path: '/api/library/rules/:ruleId',
+        description: 'Get a shared library rule'
+      },
+      {
+        method: 'POST',
+        path: '/api/library/rules',
+        description: 'Add a rule to the shared library (saved to MongoDB)',
+        body: {
+          rule: 'object (required) - Rule definition, same fields as POST /api/policy/rules'
+        }
+      },
+      {
+        method: 'PUT',
+        path: '/api/library/rules/:ruleId',
+        description: 'Update a library rule; the response lists affected_policies'
+      },
+      {
+        method: 'DELETE',
+        path: '/api/library/rules/:ruleId',
+        description: 'Delete a library rule that no policy uses'
+      },
       {
         method: 'GET',
         path: '/api/history',
@@ -227,7 +454,10 @@ app.get('/api/docs', (_req: Request, res: Response) => {
       {
         method: 'GET',
         path: '/api/history/stats',
-        description: 'Get evaluation statistics'
+        description: 'Get evaluation statistics and judge spend (by policy, rule and day) for the caller\'s tenant',
+        query: {
+          days: 'number - Days of spend to report (default: 30)'
+        }
       },
       {
         method: 'GET',
@@ -246,17 +476,175 @@ app.get('/api/docs', (_req: Request, res: Response) => {
         method: 'DELETE',
         path: '/api/history/:id',
         description: 'Delete an evaluation from history'
+      },
+      {
+        method: 'POST',
+        path: '/api/history/:id/promote',
+        description: 'Add an evaluation to a test suite as a labeled case',
+        body: {
+          suiteId: 'string (required) - Test suite to add the case to',
+          case_id: 'string - Case ID (default: the evaluation ID)',
+          expected_verdict: 'ALLOW | BLOCK | WARN | REDACT (default: the recorded verdict)',
+          expected_rules: 'object - Rule id to expected verdict',
+          include_rules: 'boolean - Expect the recorded rule verdicts'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/reviews',
+        description: 'List the review queue of WARN and UNCERTAIN evaluations, oldest first',
+        queryParams: {
+          page: 'number (default: 1)',
+          limit: 'number (default: 20, max: 100)',
+          status: 'string - pending | claimed | resolved',
+          trigger: 'string - warn | uncertain',
+          assignee: 'string - Reviewer holding the item',
+          overdue: 'boolean - Only open items past their SLA due date'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/reviews/stats',
+        description: 'Get queue sizes, SLA breaches and average time to claim and resolve'
+      },
+      {
+        method: 'GET',
+        path: '/api/reviews/:reviewId',
+        description: 'Get a review item'
+      },
+      {
+        method: 'POST',
+        path: '/api/reviews/:reviewId/claim',
+        description: 'Claim a pending item (reviewer: authenticated principal or X-Author)'
+      },
+      {
+        method: 'POST',
+        path: '/api/reviews/:reviewId/release',
+        description: 'Return a claimed item to the queue'
+      },
+      {
+        method: 'POST',
+        path: '/api/reviews/:reviewId/resolve',
+        description: 'Approve or override the verdict of an unclaimed or claimed item',
+        body: {
+          decision: 'approve | override (required)',
+          verdict: 'ALLOW | BLOCK | WARN | REDACT (required to override)',
+          rationale: 'string (required to override)'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/test-suites',
+        description: 'List labeled test suites'
+      },
+      {
+        method: 'POST',
+        path: '/api/test-suites',
+        description: 'Create a test suite',
+        body: {
+          name: 'string (required) - Unique per tenant',
+          description: 'string',
+          cases: 'array - { id, content, expected_verdict, expected_rules?, metadata?, input?, output?, context? }'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/test-suites/:suiteId',
+        description: 'Get a test suite with its cases'
+      },
+      {
+        method: 'PUT',
+        path: '/api/test-suites/:suiteId',
+        description: 'Update a test suite (cases are replaced as a whole)'
+      },
+      {
+        method: 'DELETE',
+        path: '/api/test-suites/:suiteId',
+        description: 'Delete a test suite and its runs'
+      },
+      {
+        method: 'POST',
+        path: '/api/test-suites/:suiteId/run',
+        description: 'Run a suite; reports pass/fail, a confusion matrix and a diff against the previous run',
+        body: {
+          policy: 'object - Draft policy to run against (default: active policy)',
+          policyId: 'string - Named policy to run against',
+          concurrency: 'number - Cases evaluated at once'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/test-suites/:suiteId/runs',
+        description: 'List a suite\'s runs, newest first, without per-case results',
+        queryParams: {
+          limit: 'number (default: 20, max: 100)'
+        }
+      },
+      {
+        method: 'GET',
+        path: '/api/test-suites/:suiteId/runs/:runId',
+        description: 'Get a run with its per-case results'
+      },
+      {
+        method: 'GET',
+        path: '/api/auth/me',
+        description: 'Get the authenticated principal, tenant, limits and token usage'
+      },
+      {
+        method: 'GET',
+        path: '/api/auth/keys',
+        description: 'List the tenant\'s API keys (admin)'
+      },
+      {
+        method: 'POST',
+        path: '/api/auth/keys',
+        description: 'Create an API key (admin). The key is only returned once',
+        body: {
+          name: 'string (required)',
+          role: 'evaluator | editor | admin (required)',
+          tenantId: 'string (optional) - Another tenant; only admins of the default tenant'
+        }
+      },
+      {
+        method: 'DELETE',
+        path: '/api/auth/keys/:keyId',
+        description: 'Revoke an API key (admin)'
       }
     ],
+    authentication: {
+      enabled: 'Set AUTH_ENABLED=true to require credentials on /api/policy (including /api/policy/jobs), /api/policies, /api/history, /api/library, /api/reviews, /api/test-suites and /api/auth',
+      credentials: 'X-API-Key: <key>, Authorization: Bearer <key>, or Authorization: Bearer <HS256 JWT with sub and role claims>',
+      roles: {
+        evaluator: 'Evaluate content (evaluate, batch, stream, jobs)',
+        editor: 'Evaluator, plus read configuration/history and manage rules, named policies, the rule library and test suites, and work the review queue',
+        admin: 'Editor, plus update/reload/reset configuration, delete history and manage API keys'
+      }
+    },
+    tenancy: {
+      tenant: 'Taken from the API key or the JWT tenant claim; X-Tenant-Id header when auth is disabled; otherwise "default"',
+      configuredTenants: 'Without auth, X-Tenant-Id must be "default", listed in TENANT_IDS (comma separated) or a TENANT_LIMITS key',
+      isolation: 'Configuration, named policies, revisions, history, jobs and API keys are scoped to the tenant',
+      rateLimit: 'RATE_LIMIT_MAX_PER_WINDOW requests per RATE_LIMIT_WINDOW_MS, counted per tenant',
+      tokenRateLimit: 'RATE_LIMIT_TOKENS_PER_WINDOW estimated judge tokens per RATE_LIMIT_WINDOW_MS per tenant (0 = unlimited)',
+      keyLimits: 'KEY_RATE_LIMIT_MAX_PER_WINDOW and KEY_RATE_LIMIT_TOKENS_PER_WINDOW per API key or JWT subject (0 = tenant limits only)',
+      clientLimits: 'CLIENT_RATE_LIMIT_MAX_PER_WINDOW and CLIENT_RATE_LIMIT_TOKENS_PER_WINDOW per client IP for calls without valid credentials; with auth enabled these do not count against any tenant',
+      rateLimitStore: 'RATE_LIMIT_STORE=memory (per process) or mongo (shared across replicas)',
+      rateLimitHeaders: 'RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset; Retry-After on 429',
+      tokenQuota: 'TOKEN_QUOTA_PER_WINDOW judge tokens per TOKEN_QUOTA_WINDOW_MS per tenant (0 = unlimited); 429 once spent',
+      overrides: 'TENANT_LIMITS={"<tenant>":{"rateLimit":120,"tokenRateLimit":200000,"tokenQuota":2000000}}'
+    },
     evaluationStrategies: {
       all: 'All rules must pass for content to be allowed',
       any: 'At least one rule must pass for content to be allowed',
-      weighted_threshold: 'Weighted sum of passed rules must exceed threshold'
+      weighted_threshold: 'Weighted sum of passed rules must exceed threshold (confidence_weighted: weights scaled by confidence)',
+      priority: 'Rules checked in policy order; the first failing rule decides the action',
+      expression: 'policy.expression over rule ids decides, e.g. (no_pii AND no_toxicity) OR approved_domain'
     },
+    ruleGroups: 'policy.groups: named groups with their own strategy; each group counts as one rule of its parent',
     verdicts: {
       PASS: 'Rule passed - content meets criteria',
       FAIL: 'Rule failed - content violates criteria',
-      UNCERTAIN: 'Cannot determine with confidence'
+      UNCERTAIN: 'Cannot determine with confidence, or PASS/FAIL below min_confidence'
     },
     actions: {
       allow: 'Allow content to proceed',
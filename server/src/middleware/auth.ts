@@ -0,0 +1,94 @@
+/**
+ * Authentication and role-based access middleware.
+ * Accepts an API key (X-API-Key header, or Authorization: Bearer tw_...) or an
+ * HS256 JWT (Authorization: Bearer <token>). The authenticated principal is
+ * stored on res.locals.principal; when the tenant resolver already
+ * authenticated the request its principal is reused.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthService, hasRole } from '../services/AuthService';
+import type { Authorize, AuthPrincipal, Logger } from '../types';
+
+export interface AuthorizeOptions {
+  logger?: Logger;
+}
+
+/**
+ * Authorize used when authentication is disabled: every request is let through
+ */
+export const allowAll: Authorize = () => (_req: Request, _res: Response, next: NextFunction): void => {
+  next();
+};
+
+/**
+ * Principal authenticated for this request, if any
+ */
+export const getPrincipal = (res: Response): AuthPrincipal | undefined => {
+  return res.locals['principal'] as AuthPrincipal | undefined;
+};
+
+/**
+ * Author recorded for mutations: the authenticated principal when there is
+ * one, otherwise the self-reported X-Author header
+ */
+export const getAuthor = (req: Pick<Request, 'get'>, res: Response): string | undefined => {
+  const principal = getPrincipal(res);
+  return principal ? principal.name || principal.id : req.get('X-Author');
+};
+
+/**
+ * Create an Authorize that checks credentials with the AuthService
+ */
+export const createAuthorize = (authService: AuthService, options: AuthorizeOptions = {}): Authorize => {
+  const logger: Logger = options.logger || console;
+
+  return (role) => async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const apiKey = req.get('X-API-Key');
+      const bearer = /^Bearer\s+(.+)$/i.exec(req.get('Authorization') || '')?.[1]?.trim();
+
+      if (!apiKey && !bearer) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Missing credentials: send X-API-Key or Authorization: Bearer <token>'
+        });
+        return;
+      }
+
+      const principal = getPrincipal(res) || await authService.authenticate({ apiKey, bearer });
+      if (!principal) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid, expired or revoked credentials'
+        });
+        return;
+      }
+
+      if (!hasRole(principal.role, role)) {
+        logger.warn('[Auth] Access denied', {
+          principal: principal.id,
+          role: principal.role,
+          required: role,
+          path: req.originalUrl
+        });
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `Role '${principal.role}' cannot perform this action (requires '${role}')`
+        });
+        return;
+      }
+
+      res.locals['principal'] = principal;
+      next();
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[Auth] Authentication error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  };
+};
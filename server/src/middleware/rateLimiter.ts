@@ -1,28 +1,222 @@
 /**
- * IP-based API rate limiter middleware.
- * Limits the number of requests per client IP within a sliding window.
- * Uses express-rate-limit; key is derived from req.ip (set correctly when trust proxy is enabled).
+ * Request and judge-token rate limiting middleware.
+ * Requests are counted per tenant and per API key on every /api route, after the
+ * tenant has been resolved. Calls without a principal are counted per client IP;
+ * with auth enabled they are not counted against the tenant, so requests with
+ * missing or invalid credentials cannot use up the default tenant's budget. Evaluation routes also count the judge tokens the
+ * request is estimated to use, once the policy it runs is known.
+ * Limit state is reported in the standard RateLimit-Policy, RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset headers.
  */
 
-import rateLimit from 'express-rate-limit';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimiter, RateLimitCheck, RateLimitResult, estimateJudgeTokens } from '../services/RateLimiter';
+import { flattenRules } from '../services/RuleGroups';
+import { getContentText } from '../services/Transcript';
+import { KEY_RATE_LIMITS, CLIENT_RATE_LIMITS, getTenantLimits } from '../config/tenants';
+import { getTenantId } from './tenant';
+import { getPrincipal } from './auth';
+import type {
+  Logger,
+  Policy,
+  PolicyEngineInterface,
+  EvaluationContent,
+  TenantLimits,
+  RateLimitDimension,
+  RateLimitScope,
+  RateLimitOutcome
+} from '../types';
 
-const RATE_LIMIT_WINDOW_MS = parseInt(process.env['RATE_LIMIT_WINDOW_MS'] ?? '60000', 10); // 1 minute default
-const RATE_LIMIT_MAX_PER_WINDOW = parseInt(process.env['RATE_LIMIT_MAX_PER_WINDOW'] ?? '60', 10); // 60 requests per window default
+type RateLimits = Pick<TenantLimits, 'rateLimit' | 'tokenRateLimit'>;
 
-const rateLimiterConfig = {
-  windowMs: RATE_LIMIT_WINDOW_MS,
-  max: RATE_LIMIT_MAX_PER_WINDOW,
-  message: {
+export interface RateLimitMiddlewareOptions {
+  logger?: Logger;
+  getLimits?: (tenantId: string, scope: RateLimitScope) => RateLimits; // Defaults to TENANT_LIMITS, KEY_RATE_LIMIT_* and CLIENT_RATE_LIMIT_*
+  authEnabled?: boolean; // Calls without a principal then skip the tenant limit
+}
+
+const defaultLimits = (tenantId: string, scope: RateLimitScope): RateLimits => {
+  if (scope === 'tenant') {
+    return getTenantLimits(tenantId);
+  }
+  return scope === 'key' ? KEY_RATE_LIMITS : CLIENT_RATE_LIMITS;
+};
+
+const secondsUntil = (date: Date): number => {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+};
+
+/**
+ * Tenant and API key checks for one dimension. Calls without a principal are
+ * limited by client IP, and also by tenant when auth is disabled.
+ */
+const buildChecks = (
+  req: Request,
+  res: Response,
+  dimension: RateLimitDimension,
+  cost: number,
+  getLimits: (tenantId: string, scope: RateLimitScope) => RateLimits,
+  authEnabled: boolean
+): RateLimitCheck[] => {
+  const tenantId = getTenantId(res);
+  const principal = getPrincipal(res);
+  const field = dimension === 'requests' ? 'rateLimit' : 'tokenRateLimit';
+  const tenantCheck: RateLimitCheck = { dimension, scope: 'tenant', id: tenantId, limit: getLimits(tenantId, 'tenant')[field], cost };
+
+  if (principal) {
+    return [
+      tenantCheck,
+      { dimension, scope: 'key', id: `${tenantId}:${principal.id}`, limit: getLimits(tenantId, 'key')[field], cost }
+    ];
+  }
+
+  const clientCheck: RateLimitCheck = { dimension, scope: 'client', id: req.ip || 'unknown', limit: getLimits(tenantId, 'client')[field], cost };
+  return authEnabled ? [clientCheck] : [tenantCheck, clientCheck];
+};
+
+/**
+ * Set the standard headers from every limit counted for this request.
+ * Limit, Remaining and Reset describe the limit closest to being reached.
+ */
+const setRateLimitHeaders = (res: Response, result: RateLimitResult, windowMs: number): void => {
+  const outcomes = [...((res.locals['rateLimit'] as RateLimitOutcome[] | undefined) || []), ...result.outcomes];
+  res.locals['rateLimit'] = outcomes;
+
+  if (outcomes.length === 0) {
+    return;
+  }
+
+  const windowSeconds = Math.ceil(windowMs / 1000);
+  const closest = outcomes.reduce((current, outcome) =>
+    outcome.remaining / outcome.limit < current.remaining / current.limit ? outcome : current
+  );
+
+  res.set('RateLimit-Policy', outcomes
+    .map(outcome => `${outcome.limit};w=${windowSeconds};comment="${outcome.scope} ${outcome.dimension}"`)
+    .join(', '));
+  res.set('RateLimit-Limit', String(closest.limit));
+  res.set('RateLimit-Remaining', String(closest.remaining));
+  res.set('RateLimit-Reset', String(secondsUntil(closest.resetAt)));
+};
+
+/**
+ * Answer 429 for the first limit the request would exceed
+ */
+const rejectRequest = (res: Response, result: RateLimitResult, windowMs: number, cost: number, logger: Logger): void => {
+  const tenantId = getTenantId(res);
+  const exceeded = result.outcomes.find(outcome => outcome.used > outcome.limit);
+  if (!exceeded) {
+    return;
+  }
+
+  const retryAfter = secondsUntil(exceeded.resetAt);
+  const windowSeconds = Math.ceil(windowMs / 1000);
+  const holder = exceeded.scope === 'tenant' ? `tenant '${tenantId}'` : exceeded.scope === 'key' ? 'this API key' : 'this client';
+  const message = exceeded.dimension === 'requests'
+    ? `Rate limit exceeded. Maximum ${exceeded.limit} requests per ${windowSeconds} seconds for ${holder}.`
+    : `Judge token rate limit exceeded. This request needs about ${cost} tokens; maximum ${exceeded.limit} estimated tokens per ${windowSeconds} seconds for ${holder}.`;
+
+  logger.warn('[RateLimiter] Limit exceeded', {
+    tenantId,
+    dimension: exceeded.dimension,
+    scope: exceeded.scope,
+    limit: exceeded.limit
+  });
+
+  res.set('Retry-After', String(retryAfter));
+  res.status(429).json({
     error: 'Too Many Requests',
-    message: `Rate limit exceeded. Maximum ${RATE_LIMIT_MAX_PER_WINDOW} requests per ${RATE_LIMIT_WINDOW_MS / 1000} seconds per IP.`,
-    retryAfter: Math.ceil(RATE_LIMIT_WINDOW_MS / 1000),
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
+    message,
+    retryAfter
+  });
+};
+
+/**
+ * Estimate the judge tokens of an evaluate, batch, stream or job request.
+ * Unknown and malformed policies count as 0; the request has not been
+ * validated yet, and the route itself answers 400/404.
+ */
+export const estimateRequestTokens = (req: Request, policyEngine: PolicyEngineInterface): number => {
+  const source = (req.method === 'GET' ? req.query : req.body || {}) as Record<string, unknown>;
+  const { policy, policyId, items } = source;
+
+  try {
+    let resolved: Policy | null;
+    if (policy && typeof policy === 'object' && Array.isArray((policy as Policy).rules)) {
+      resolved = policyEngine.resolve(policy as Policy);
+    } else if (typeof policyId === 'string' && policyId) {
+      resolved = policyEngine.getPolicyById(policyId);
+    } else {
+      resolved = policyEngine.getActivePolicy();
+    }
+
+    if (!resolved) {
+      return 0;
+    }
+
+    const rules = flattenRules(resolved);
+    const requests = (Array.isArray(items) ? items : [source]) as Array<Record<string, unknown> | null>;
+
+    return requests.reduce((total, request) => {
+      // Requests may send only the guardrail output, which is then the content
+      const content = request?.['content'] ?? request?.['output'];
+      if (typeof content !== 'string' && !Array.isArray(content)) {
+        return total;
+      }
+      // Input and context are sent along when judge prompts reference them
+      const length = [getContentText(content as EvaluationContent), request?.['input'], request?.['context']]
+        .reduce<number>((sum, value) => sum + (typeof value === 'string' ? value.length : 0), 0);
+      return total + estimateJudgeTokens(rules, length);
+    }, 0);
+  } catch {
+    return 0;
+  }
 };
 
 /**
- * Rate limiter applied to /api/* routes.
- * Identifies clients by IP (req.ip; use app.set('trust proxy', 1) behind a reverse proxy).
+ * Create the middleware that counts requests per tenant and per API key, or
+ * per client IP for calls without valid credentials
  */
-export const apiRateLimiter = rateLimit(rateLimiterConfig);
+export const createRequestRateLimiter = (rateLimiter: RateLimiter, options: RateLimitMiddlewareOptions = {}): RequestHandler => {
+  const logger: Logger = options.logger || console;
+  const getLimits = options.getLimits || defaultLimits;
+
+  const authEnabled = !!options.authEnabled;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const result = await rateLimiter.consume(buildChecks(req, res, 'requests', 1, getLimits, authEnabled));
+    setRateLimitHeaders(res, result, rateLimiter.getWindowMs());
+
+    if (!result.allowed) {
+      rejectRequest(res, result, rateLimiter.getWindowMs(), 1, logger);
+      return;
+    }
+    next();
+  };
+};
+
+/**
+ * Create the middleware that counts the estimated judge tokens of evaluations
+ * run against the given tenant's engine
+ */
+export const createTokenRateLimiter = (
+  rateLimiter: RateLimiter,
+  policyEngine: PolicyEngineInterface,
+  options: RateLimitMiddlewareOptions = {}
+): RequestHandler => {
+  const logger: Logger = options.logger || console;
+  const getLimits = options.getLimits || defaultLimits;
+  const authEnabled = !!options.authEnabled;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const cost = estimateRequestTokens(req, policyEngine);
+    const result = await rateLimiter.consume(buildChecks(req, res, 'tokens', cost, getLimits, authEnabled));
+    setRateLimitHeaders(res, result, rateLimiter.getWindowMs());
+
+    if (!result.allowed) {
+      rejectRequest(res, result, rateLimiter.getWindowMs(), cost, logger);
+      return;
+    }
+    next();
+  };
+};
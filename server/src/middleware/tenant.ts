@@ -0,0 +1,148 @@
+/**
+ * Tenant resolution, dispatch and token quota middleware.
+ * The tenant comes from the authenticated principal (API key tenant or JWT
+ * `tenant` claim). When authentication is disabled it is taken from the
+ * X-Tenant-Id header, which must name a configured tenant so arbitrary ids
+ * cannot create tenant contexts. Requests without either use the default tenant.
+ * The resolved tenant is stored on res.locals.tenantId.
+ */
+
+import { Request, Response, NextFunction, RequestHandler, Router } from 'express';
+import { AuthService } from '../services/AuthService';
+import { TenantRegistry, TenantContext } from '../services/TenantRegistry';
+import { TokenQuota } from '../services/TokenQuota';
+import { DEFAULT_TENANT_ID, isValidTenantId, isConfiguredTenant } from '../config/tenants';
+import type { Logger } from '../types';
+
+export interface TenantResolverOptions {
+  logger?: Logger;
+  authService?: AuthService; // Set when authentication is enabled
+  isKnownTenant?: (tenantId: string) => boolean; // Tenants accepted in X-Tenant-Id (default: configured tenants)
+}
+
+export interface QuotaGuardOptions {
+  logger?: Logger;
+}
+
+/**
+ * Guard used when no token quota or token rate limit is enforced: every request is let through
+ */
+export const unlimitedQuota: RequestHandler = (_req: Request, _res: Response, next: NextFunction): void => {
+  next();
+};
+
+/**
+ * Tenant resolved for this request
+ */
+export const getTenantId = (res: Response): string => {
+  return (res.locals['tenantId'] as string | undefined) || DEFAULT_TENANT_ID;
+};
+
+/**
+ * Create the middleware that resolves the tenant for /api requests.
+ * Credentials that fail to authenticate are left for authorize() to reject,
+ * so public routes such as health checks keep working.
+ */
+export const createTenantResolver = (options: TenantResolverOptions = {}): RequestHandler => {
+  const logger: Logger = options.logger || console;
+  const authService = options.authService;
+  const isKnownTenant = options.isKnownTenant || isConfiguredTenant;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!authService) {
+      const tenantId = req.get('X-Tenant-Id');
+      if (tenantId !== undefined && !isValidTenantId(tenantId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'X-Tenant-Id must be 1-64 letters, digits, "_" or "-"'
+        });
+        return;
+      }
+      if (tenantId !== undefined && !isKnownTenant(tenantId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Unknown tenant '${tenantId}' (add it to TENANT_IDS to accept it)`
+        });
+        return;
+      }
+      res.locals['tenantId'] = tenantId || DEFAULT_TENANT_ID;
+      next();
+      return;
+    }
+
+    const apiKey = req.get('X-API-Key');
+    const bearer = /^Bearer\s+(.+)$/i.exec(req.get('Authorization') || '')?.[1]?.trim();
+
+    if (apiKey || bearer) {
+      try {
+        const principal = await authService.authenticate({ apiKey, bearer });
+        if (principal) {
+          res.locals['principal'] = principal;
+          res.locals['tenantId'] = principal.tenantId;
+        }
+      } catch (error) {
+        logger.warn('[Tenant] Could not resolve tenant from credentials', { error: (error as Error).message });
+      }
+    }
+
+    res.locals['tenantId'] = res.locals['tenantId'] || DEFAULT_TENANT_ID;
+    next();
+  };
+};
+
+/**
+ * Forward the request to the router of the resolved tenant
+ */
+export const createTenantDispatcher = (
+  registry: TenantRegistry,
+  select: (context: TenantContext) => Router,
+  options: { logger?: Logger } = {}
+): RequestHandler => {
+  const logger: Logger = options.logger || console;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const tenantId = getTenantId(res);
+
+    registry.get(tenantId)
+      .then(context => select(context)(req, res, next))
+      .catch((error: Error) => {
+        logger.error('[Tenant] Failed to load tenant', { tenantId, error: error.message });
+
+        if (res.headersSent) {
+          return;
+        }
+        res.status(500).json({
+          error: 'Internal Server Error',
+          message: error.message
+        });
+      });
+  };
+};
+
+/**
+ * Create the middleware that refuses evaluations once the tenant has used
+ * its judge-token quota for the current window
+ */
+export const createQuotaGuard = (tokenQuota: TokenQuota, options: QuotaGuardOptions = {}): RequestHandler => {
+  const logger: Logger = options.logger || console;
+
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    const tenantId = getTenantId(res);
+    const status = tokenQuota.getStatus(tenantId);
+
+    if (status.remaining === 0) {
+      const retryAfter = Math.max(1, Math.ceil((status.resetAt.getTime() - Date.now()) / 1000));
+      logger.warn('[Tenant] Token quota exceeded', { tenantId, used: status.total_tokens, limit: status.limit });
+
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).json({
+        error: 'Too Many Requests',
+        message: `Judge token quota exceeded for tenant '${tenantId}' (${status.limit} tokens per window). Resets at ${status.resetAt.toISOString()}.`,
+        retryAfter
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,93 @@
+/**
+ * ApiKey Model
+ *
+ * MongoDB schema for API keys
+ * Only a SHA-256 hash of each key is stored; the key itself is shown once
+ * when it is created
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import type { Role } from '../types';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface IApiKey extends Document {
+  // Public identifier used by the admin endpoints
+  keyId: string;
+
+  name: string;
+  role: Role;
+
+  // Tenant the key's caller acts for
+  tenantId: string;
+
+  // SHA-256 hex digest of the full key
+  keyHash: string;
+
+  // First characters of the key, to help identify it in listings
+  prefix: string;
+
+  createdBy?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    keyId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['evaluator', 'editor', 'admin'],
+      required: true,
+    },
+    tenantId: {
+      type: String,
+      required: true,
+      index: true,
+      default: 'default',
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    createdBy: { type: String },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastUsedAt: { type: Date },
+    revokedAt: { type: Date },
+  },
+  {
+    collection: 'api_keys',
+  }
+);
+
+// ============================================
+// Model Export
+// ============================================
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+
+export default ApiKey;
@@ -12,9 +12,27 @@ import type {
   RuleResult, 
   AggregationSummary,
   FinalVerdict,
-  Verdict,
+  RuleVerdict,
   Action,
-  EvaluationStrategy
+  EvaluationStrategy,
+  JudgeProviderName,
+  RedactionConfig,
+  RuleType,
+  PiiType,
+  RedactionSpan,
+  RuleUsage,
+  VerdictUsage,
+  EnsembleConfig,
+  JudgeVote,
+  ChunkResult,
+  Verdict,
+  RuleGroup,
+  RuleGroupResult,
+  RuleConditions,
+  RuleScope,
+  EvaluationMetadata,
+  EvaluationInputs,
+  ChatMessage
 } from '../types';
 
 // ============================================
@@ -25,8 +43,20 @@ export interface IEvaluationHistory extends Document {
   // Unique evaluation ID
   evaluationId: string;
   
-  // The content that was evaluated
+  // Tenant the evaluation was run for
+  tenantId: string;
+  
+  // The content that was evaluated (transcripts are stored formatted, as "role: content" turns)
   content: string;
+
+  // The structured transcript, when the content was a conversation
+  messages?: ChatMessage[];
+
+  // Request metadata the rules' applies_when conditions were checked against
+  requestMetadata?: EvaluationMetadata;
+
+  // Guardrail fields (input, output, context) filled into judge_prompt placeholders
+  inputs?: EvaluationInputs;
   
   // Policy snapshot at time of evaluation
   policySnapshot: {
@@ -36,12 +66,29 @@ export interface IEvaluationHistory extends Document {
     rules: Array<{
       id: string;
       description?: string;
-      judge_prompt: string;
+      type?: RuleType;
+      judge_prompt?: string;
       on_fail: Action;
       weight?: number;
+      provider?: JudgeProviderName;
+      model?: string;
+      redaction?: RedactionConfig;
+      pattern?: string;
+      flags?: string;
+      keywords?: string[];
+      case_sensitive?: boolean;
+      pii_types?: PiiType[];
+      ensemble?: EnsembleConfig;
+      min_confidence?: number;
+      applies_when?: RuleConditions;
+      scope?: RuleScope;
     }>;
     evaluation_strategy: EvaluationStrategy;
     threshold?: number;
+    min_confidence?: number;
+    confidence_weighted?: boolean;
+    expression?: string;
+    groups?: RuleGroup[];
   };
   
   // Evaluation result
@@ -50,16 +97,28 @@ export interface IEvaluationHistory extends Document {
     passed: boolean;
     rule_results: Array<{
       rule_id: string;
-      verdict: Verdict;
+      verdict: RuleVerdict;
       confidence: number;
       reasoning: string;
       action: Action;
       weight: number;
       latency_ms: number;
+      spans?: RedactionSpan[];
+      usage?: RuleUsage;
+      votes?: JudgeVote[];
+      agreement?: number;
+      downgraded_from?: Verdict;
+      group_path?: string[];
+      chunks?: ChunkResult[];
+      chunk_count?: number;
     }>;
     summary?: AggregationSummary;
+    group_results?: RuleGroupResult[];
+    redacted_content?: string;
+    redacted_messages?: ChatMessage[];
     error?: string;
     total_latency_ms: number;
+    usage?: VerdictUsage;
   };
   
   // Metadata
@@ -82,15 +141,62 @@ export interface IEvaluationHistory extends Document {
 const RuleSnapshotSchema = new Schema({
   id: { type: String, required: true },
   description: { type: String },
-  judge_prompt: { type: String, required: true },
+  type: { type: String },
+  judge_prompt: { type: String },
   on_fail: { 
     type: String, 
     enum: ['allow', 'block', 'warn', 'redact'],
     required: true 
   },
   weight: { type: Number, default: 1.0 },
+  provider: { type: String },
+  model: { type: String },
+  redaction: {
+    mask_style: { type: String },
+    placeholder: { type: String },
+    category: { type: String },
+  },
+  pattern: { type: String },
+  flags: { type: String },
+  keywords: { type: [String], default: undefined },
+  case_sensitive: { type: Boolean },
+  pii_types: { type: [String], default: undefined },
+  ensemble: {
+    judges: {
+      type: [{ _id: false, provider: { type: String }, model: { type: String } }],
+      default: undefined
+    },
+    samples: { type: Number },
+    voting: { type: String },
+    threshold: { type: Number },
+    temperature: { type: Number },
+  },
+  min_confidence: { type: Number },
+  applies_when: { type: Schema.Types.Mixed },
+  scope: { type: String },
 }, { _id: false });
 
+const RuleGroupSnapshotSchema = new Schema({
+  id: { type: String, required: true },
+  description: { type: String },
+  evaluation_strategy: {
+    type: String,
+    enum: ['all', 'any', 'weighted_threshold', 'priority', 'expression'],
+    required: true
+  },
+  threshold: { type: Number },
+  confidence_weighted: { type: Boolean },
+  expression: { type: String },
+  default_action: {
+    type: String,
+    enum: ['allow', 'block', 'warn', 'redact']
+  },
+  weight: { type: Number },
+  rules: { type: [RuleSnapshotSchema], default: undefined },
+}, { _id: false });
+
+RuleGroupSnapshotSchema.add({ groups: { type: [RuleGroupSnapshotSchema], default: undefined } });
+
 const PolicySnapshotSchema = new Schema({
   name: { type: String, required: true },
   version: { type: String },
@@ -102,17 +208,72 @@ const PolicySnapshotSchema = new Schema({
   rules: [RuleSnapshotSchema],
   evaluation_strategy: { 
     type: String, 
-    enum: ['all', 'any', 'weighted_threshold'],
+    enum: ['all', 'any', 'weighted_threshold', 'priority', 'expression'],
     required: true 
   },
   threshold: { type: Number },
+  min_confidence: { type: Number },
+  confidence_weighted: { type: Boolean },
+  expression: { type: String },
+  groups: { type: [RuleGroupSnapshotSchema], default: undefined },
+}, { _id: false });
+
+const RuleUsageSchema = new Schema({
+  input_tokens: { type: Number, required: true },
+  output_tokens: { type: Number, required: true },
+  provider: { type: String },
+  model: { type: String },
+  cost_usd: { type: Number, required: true },
+}, { _id: false });
+
+const VerdictUsageSchema = new Schema({
+  input_tokens: { type: Number, required: true },
+  output_tokens: { type: Number, required: true },
+  total_tokens: { type: Number, required: true },
+  cost_usd: { type: Number, required: true },
+}, { _id: false });
+
+const TokenUsageSchema = new Schema({
+  input_tokens: { type: Number, required: true },
+  output_tokens: { type: Number, required: true },
+}, { _id: false });
+
+const JudgeVoteSchema = new Schema({
+  provider: { type: String },
+  model: { type: String },
+  verdict: {
+    type: String,
+    enum: ['PASS', 'FAIL', 'UNCERTAIN'],
+    required: true
+  },
+  confidence: { type: Number, required: true },
+  reasoning: { type: String, required: true },
+  latency_ms: { type: Number, required: true },
+  error: { type: String },
+  cached: { type: Boolean },
+  usage: { type: TokenUsageSchema, default: undefined },
+  cost_usd: { type: Number },
+}, { _id: false });
+
+const ChunkResultSchema = new Schema({
+  index: { type: Number, required: true },
+  start: { type: Number, required: true },
+  end: { type: Number, required: true },
+  verdict: {
+    type: String,
+    enum: ['PASS', 'FAIL', 'UNCERTAIN'],
+    required: true
+  },
+  confidence: { type: Number, required: true },
+  reasoning: { type: String, required: true },
+  error: { type: String },
 }, { _id: false });
 
 const RuleResultSchema = new Schema({
   rule_id: { type: String, required: true },
   verdict: { 
     type: String, 
-    enum: ['PASS', 'FAIL', 'UNCERTAIN'],
+    enum: ['PASS', 'FAIL', 'UNCERTAIN', 'SKIPPED', 'NOT_APPLICABLE'],
     required: true 
   },
   confidence: { type: Number, required: true },
@@ -124,6 +285,23 @@ const RuleResultSchema = new Schema({
   },
   weight: { type: Number, required: true },
   latency_ms: { type: Number, required: true },
+  spans: [{
+    _id: false,
+    start: { type: Number, required: true },
+    end: { type: Number, required: true },
+    text: { type: String, required: true },
+    category: { type: String },
+  }],
+  usage: { type: RuleUsageSchema, default: undefined },
+  votes: { type: [JudgeVoteSchema], default: undefined },
+  agreement: { type: Number },
+  downgraded_from: {
+    type: String,
+    enum: ['PASS', 'FAIL'],
+  },
+  group_path: { type: [String], default: undefined },
+  chunks: { type: [ChunkResultSchema], default: undefined },
+  chunk_count: { type: Number },
 }, { _id: false });
 
 const SummarySchema = new Schema({
@@ -133,12 +311,41 @@ const SummarySchema = new Schema({
   uncertain: { type: Number, required: true },
   strategy: { 
     type: String, 
-    enum: ['all', 'any', 'weighted_threshold'],
+    enum: ['all', 'any', 'weighted_threshold', 'priority', 'expression'],
     required: true 
   },
   reason: { type: String, required: true },
   score: { type: Number },
   threshold: { type: Number },
+  skipped: { type: Number },
+  calls_saved: { type: Number },
+  downgraded: { type: Number },
+  confidence_weighted: { type: Boolean },
+  decided_by: { type: String },
+  expression: { type: String },
+  not_applicable: { type: Number },
+}, { _id: false });
+
+const GroupResultSchema = new Schema({
+  group_id: { type: String, required: true },
+  path: { type: [String], required: true },
+  verdict: {
+    type: String,
+    enum: ['PASS', 'FAIL', 'UNCERTAIN', 'SKIPPED', 'NOT_APPLICABLE'],
+    required: true
+  },
+  final_verdict: {
+    type: String,
+    enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT', 'ERROR'],
+    required: true
+  },
+  passed: { type: Boolean, required: true },
+  summary: { type: SummarySchema, required: true },
+}, { _id: false });
+
+const ChatMessageSchema = new Schema({
+  role: { type: String, enum: ['system', 'user', 'assistant'], required: true },
+  content: { type: String, default: '' },
 }, { _id: false });
 
 const ResultSchema = new Schema({
@@ -150,8 +357,12 @@ const ResultSchema = new Schema({
   passed: { type: Boolean, required: true },
   rule_results: [RuleResultSchema],
   summary: SummarySchema,
+  group_results: { type: [GroupResultSchema], default: undefined },
+  redacted_content: { type: String },
+  redacted_messages: { type: [ChatMessageSchema], default: undefined },
   error: { type: String },
   total_latency_ms: { type: Number, required: true },
+  usage: { type: VerdictUsageSchema, default: undefined },
 }, { _id: false });
 
 const MetadataSchema = new Schema({
@@ -169,10 +380,25 @@ const EvaluationHistorySchema = new Schema<IEvaluationHistory>(
       unique: true,
       index: true,
     },
+    tenantId: {
+      type: String,
+      required: true,
+      default: 'default',
+    },
     content: { 
       type: String, 
       required: true,
     },
+    messages: {
+      type: [ChatMessageSchema],
+      default: undefined,
+    },
+    requestMetadata: {
+      type: Schema.Types.Mixed,
+    },
+    inputs: {
+      type: Schema.Types.Mixed,
+    },
     policySnapshot: { 
       type: PolicySnapshotSchema, 
       required: true,
@@ -196,6 +422,9 @@ const EvaluationHistorySchema = new Schema<IEvaluationHistory>(
 // Indexes
 // ============================================
 
+// Index for listing a tenant's history (every query is scoped by tenant)
+EvaluationHistorySchema.index({ tenantId: 1, 'metadata.evaluatedAt': -1 });
+
 // Index for searching by policy name and version
 EvaluationHistorySchema.index({ 'policySnapshot.name': 1, 'policySnapshot.version': 1 });
 
@@ -0,0 +1,155 @@
+/**
+ * EvaluationJob Model
+ *
+ * MongoDB schema for asynchronous evaluation jobs
+ * Jobs are persisted so queued work and pending webhook deliveries
+ * survive server restarts
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { PolicySchema } from './PolicyConfig';
+import type {
+  Policy,
+  PolicyVerdict,
+  JobStatus,
+  CallbackStatus,
+  EvaluationMetadata,
+  EvaluationContent,
+  EvaluationInputs
+} from '../types';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface IEvaluationJob extends Document {
+  // Unique job ID
+  jobId: string;
+
+  // Tenant that queued the job
+  tenantId: string;
+
+  status: JobStatus;
+
+  // Evaluation input (a string or a chat transcript)
+  content: EvaluationContent;
+  policy?: Policy;
+  policyId?: string;
+  shortCircuit?: boolean;
+  metadata?: EvaluationMetadata;
+  inputs?: EvaluationInputs; // Guardrail fields for judge_prompt placeholders
+
+  // Evaluation output
+  result?: PolicyVerdict;
+  evaluationId?: string;
+  error?: string;
+
+  // Webhook delivery state
+  callback?: {
+    url: string;
+    status: CallbackStatus;
+    attempts: number;
+    nextAttemptAt?: Date;
+    lastError?: string;
+    lastStatusCode?: number;
+    deliveredAt?: Date;
+  };
+
+  createdAt: Date;
+  startedAt?: Date;
+  heartbeatAt?: Date; // Renewed by the worker running the job; stale jobs are queued again
+  completedAt?: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const CallbackSchema = new Schema({
+  url: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ['pending', 'delivered', 'failed'],
+    default: 'pending'
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date },
+  lastError: { type: String },
+  lastStatusCode: { type: Number },
+  deliveredAt: { type: Date },
+}, { _id: false });
+
+const EvaluationJobSchema = new Schema<IEvaluationJob>(
+  {
+    jobId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    tenantId: {
+      type: String,
+      required: true,
+      default: 'default',
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed'],
+      default: 'queued',
+    },
+    content: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    policy: {
+      type: PolicySchema,
+    },
+    policyId: { type: String },
+    shortCircuit: { type: Boolean },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+    inputs: {
+      type: Schema.Types.Mixed,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    evaluationId: { type: String },
+    error: { type: String },
+    callback: {
+      type: CallbackSchema,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    startedAt: { type: Date },
+    heartbeatAt: { type: Date },
+    completedAt: { type: Date },
+  },
+  {
+    collection: 'evaluation_jobs',
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Index for claiming a tenant's oldest queued job
+EvaluationJobSchema.index({ tenantId: 1, status: 1, createdAt: 1 });
+
+// Index for finding webhook deliveries that are due
+EvaluationJobSchema.index({ tenantId: 1, 'callback.status': 1, 'callback.nextAttemptAt': 1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+export const EvaluationJob = mongoose.model<IEvaluationJob>(
+  'EvaluationJob',
+  EvaluationJobSchema
+);
+
+export default EvaluationJob;
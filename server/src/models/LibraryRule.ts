@@ -0,0 +1,61 @@
+/**
+ * LibraryRule Model
+ *
+ * MongoDB schema for the shared rule library
+ * Policies reference library rules by id (policy.library_rules) instead of
+ * copying them, so a library rule is edited once for every policy using it
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { RuleSchema } from './PolicyConfig';
+import type { Rule } from '../types';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface ILibraryRule extends Document {
+  // Tenant that owns the rule
+  tenantId: string;
+
+  // The shared rule; rule.id is unique per tenant
+  rule: Rule;
+
+  author?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const LibraryRuleSchema = new Schema<ILibraryRule>(
+  {
+    tenantId: {
+      type: String,
+      required: true,
+      default: 'default',
+      immutable: true
+    },
+    rule: {
+      type: RuleSchema,
+      required: true
+    },
+    author: { type: String }
+  },
+  {
+    timestamps: true,
+    collection: 'rule_library'
+  }
+);
+
+LibraryRuleSchema.index({ tenantId: 1, 'rule.id': 1 }, { unique: true });
+
+// ============================================
+// Model Export
+// ============================================
+
+export const LibraryRule = mongoose.model<ILibraryRule>('LibraryRule', LibraryRuleSchema);
+
+export default LibraryRule;
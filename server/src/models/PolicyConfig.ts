@@ -11,7 +11,16 @@ import type {
   JudgeConfig, 
   EngineSettings,
   Action,
-  EvaluationStrategy
+  EvaluationStrategy,
+  JudgeProviderName,
+  RedactionConfig,
+  RuleType,
+  PiiType,
+  EnsembleConfig,
+  RuleGroup,
+  LibraryRuleRef,
+  RuleConditions,
+  RuleScope
 } from '../types';
 
 // ============================================
@@ -19,7 +28,11 @@ import type {
 // ============================================
 
 export interface IPolicyConfig extends Document {
+  // Tenant that owns the config
+  tenantId: string;
+
   // Identifier for the config (e.g., 'default', 'production', etc.)
+  // Unique per tenant
   configId: string;
   
   // Policy configuration
@@ -30,16 +43,36 @@ export interface IPolicyConfig extends Document {
     rules: Array<{
       id: string;
       description?: string;
-      judge_prompt: string;
+      type?: RuleType;
+      judge_prompt?: string;
       on_fail: Action;
       weight?: number;
+      provider?: JudgeProviderName;
+      model?: string;
+      redaction?: RedactionConfig;
+      pattern?: string;
+      flags?: string;
+      keywords?: string[];
+      case_sensitive?: boolean;
+      pii_types?: PiiType[];
+      ensemble?: EnsembleConfig;
+      min_confidence?: number;
+      applies_when?: RuleConditions;
+      scope?: RuleScope;
     }>;
     evaluation_strategy: EvaluationStrategy;
     threshold?: number;
+    min_confidence?: number;
+    confidence_weighted?: boolean;
+    expression?: string;
+    groups?: RuleGroup[];
+    extends?: string;
+    library_rules?: LibraryRuleRef[];
   };
   
   // Judge configuration
   judge: {
+    provider?: JudgeProviderName;
     model: string;
     temperature: number;
     maxTokens: number;
@@ -50,13 +83,19 @@ export interface IPolicyConfig extends Document {
     backoffMultiplier?: number;
     circuitBreakerThreshold?: number;
     circuitBreakerResetMs?: number;
+    chunkTokens?: number;
+    chunkOverlapTokens?: number;
   };
   
   // Engine settings
   settings: {
     parallelEvaluation: boolean;
+    shortCircuit?: boolean;
     debugLog: boolean;
     cacheResults: boolean;
+    cacheTtlMs?: number;
+    cacheMaxEntries?: number;
+    batchConcurrency?: number;
   };
   
   // Metadata
@@ -69,19 +108,127 @@ export interface IPolicyConfig extends Document {
 // Schema Definition
 // ============================================
 
-const RuleSchema = new Schema({
+const RedactionSchema = new Schema({
+  mask_style: {
+    type: String,
+    enum: ['placeholder', 'category', 'hash'],
+    default: 'placeholder'
+  },
+  placeholder: { type: String },
+  category: { type: String },
+}, { _id: false });
+
+const EnsembleSchema = new Schema({
+  judges: {
+    type: [{
+      _id: false,
+      provider: {
+        type: String,
+        enum: ['openai', 'anthropic', 'azure_openai', 'openai_compatible']
+      },
+      model: { type: String },
+    }],
+    default: undefined
+  },
+  samples: { type: Number, min: 1 },
+  voting: {
+    type: String,
+    enum: ['majority', 'unanimous', 'weighted_mean']
+  },
+  threshold: { type: Number, min: 0, max: 1 },
+  temperature: { type: Number, min: 0, max: 2 },
+}, { _id: false });
+
+const RuleConditionsSchema = new Schema({
+  // Request metadata key -> required value (or list of accepted values)
+  metadata: { type: Schema.Types.Mixed },
+  min_length: { type: Number, min: 0 },
+  max_length: { type: Number, min: 0 },
+  language: { type: [String], default: undefined },
+  content_type: {
+    type: [String],
+    enum: ['text', 'code', 'json', 'html', 'url'],
+    default: undefined
+  },
+}, { _id: false });
+
+export const RuleSchema = new Schema({
   id: { type: String, required: true },
   description: { type: String, default: '' },
-  judge_prompt: { type: String, required: true },
+  type: {
+    type: String,
+    enum: ['llm', 'regex', 'keyword', 'pii'],
+    default: 'llm'
+  },
+  judge_prompt: {
+    type: String,
+    required: function (this: { type?: RuleType }) {
+      return !this.type || this.type === 'llm';
+    }
+  },
   on_fail: { 
     type: String, 
     enum: ['allow', 'block', 'warn', 'redact'],
     default: 'warn'
   },
   weight: { type: Number, default: 1.0, min: 0, max: 1 },
+  provider: {
+    type: String,
+    enum: ['openai', 'anthropic', 'azure_openai', 'openai_compatible']
+  },
+  model: { type: String },
+  redaction: { type: RedactionSchema },
+  pattern: { type: String },
+  flags: { type: String },
+  keywords: { type: [String], default: undefined },
+  case_sensitive: { type: Boolean },
+  pii_types: {
+    type: [String],
+    enum: ['email', 'phone', 'credit_card', 'ssn', 'api_key'],
+    default: undefined
+  },
+  ensemble: { type: EnsembleSchema },
+  min_confidence: { type: Number, min: 0, max: 1 },
+  applies_when: { type: RuleConditionsSchema },
+  scope: {
+    type: String,
+    enum: ['conversation', 'last_message', 'user_messages', 'assistant_messages']
+  },
+}, { _id: false });
+
+const RuleGroupSchema = new Schema({
+  id: { type: String, required: true },
+  description: { type: String },
+  evaluation_strategy: {
+    type: String,
+    enum: ['all', 'any', 'weighted_threshold', 'priority', 'expression'],
+    required: true
+  },
+  threshold: { type: Number, min: 0, max: 1 },
+  confidence_weighted: { type: Boolean },
+  expression: { type: String },
+  default_action: {
+    type: String,
+    enum: ['allow', 'block', 'warn', 'redact']
+  },
+  weight: { type: Number, min: 0 },
+  rules: { type: [RuleSchema], default: undefined },
+}, { _id: false });
+
+// Groups nest recursively
+RuleGroupSchema.add({ groups: { type: [RuleGroupSchema], default: undefined } });
+
+const LibraryRuleRefSchema = new Schema({
+  id: { type: String, required: true },
+  on_fail: {
+    type: String,
+    enum: ['allow', 'block', 'warn', 'redact']
+  },
+  weight: { type: Number, min: 0, max: 1 },
 }, { _id: false });
 
-const PolicySchema = new Schema({
+// Annotated because the recursive group schema is too deep to infer
+export const PolicySchema: Schema = new Schema({
   name: { type: String, required: true },
   version: { type: String, default: '1.0.0' },
   default_action: { 
@@ -92,13 +239,24 @@ const PolicySchema = new Schema({
   rules: [RuleSchema],
   evaluation_strategy: { 
     type: String, 
-    enum: ['all', 'any', 'weighted_threshold'],
+    enum: ['all', 'any', 'weighted_threshold', 'priority', 'expression'],
     default: 'all'
   },
   threshold: { type: Number, min: 0, max: 1 },
+  min_confidence: { type: Number, min: 0, max: 1 },
+  confidence_weighted: { type: Boolean },
+  expression: { type: String },
+  groups: { type: [RuleGroupSchema], default: undefined },
+  extends: { type: String },
+  library_rules: { type: [LibraryRuleRefSchema], default: undefined },
 }, { _id: false });
 
 const JudgeConfigSchema = new Schema({
+  provider: {
+    type: String,
+    enum: ['openai', 'anthropic', 'azure_openai', 'openai_compatible'],
+    default: 'openai'
+  },
   model: { type: String, default: 'gpt-4o-mini' },
   temperature: { type: Number, default: 0.1, min: 0, max: 2 },
   maxTokens: { type: Number, default: 500 },
@@ -109,21 +267,31 @@ const JudgeConfigSchema = new Schema({
   backoffMultiplier: { type: Number, default: 2 },
   circuitBreakerThreshold: { type: Number, default: 5 },
   circuitBreakerResetMs: { type: Number, default: 60000 },
+  chunkTokens: { type: Number, default: 8000, min: 1 },
+  chunkOverlapTokens: { type: Number, default: 200, min: 0 },
 }, { _id: false });
 
 const SettingsSchema = new Schema({
   parallelEvaluation: { type: Boolean, default: true },
+  shortCircuit: { type: Boolean, default: false },
   debugLog: { type: Boolean, default: false },
   cacheResults: { type: Boolean, default: false },
+  cacheTtlMs: { type: Number, default: 300000, min: 1000 },
+  cacheMaxEntries: { type: Number, default: 1000, min: 1 },
+  batchConcurrency: { type: Number, default: 5, min: 1, max: 100 },
 }, { _id: false });
 
 const PolicyConfigSchema = new Schema<IPolicyConfig>(
   {
+    tenantId: {
+      type: String,
+      required: true,
+      index: true,
+      default: 'default'
+    },
     configId: { 
       type: String, 
       required: true, 
-      unique: true,
-      index: true,
       default: 'default'
     },
     policy: { 
@@ -150,11 +318,19 @@ const PolicyConfigSchema = new Schema<IPolicyConfig>(
   }
 );
 
+// ============================================
+// Indexes
+// ============================================
+
+// One config per id within a tenant
+PolicyConfigSchema.index({ tenantId: 1, configId: 1 }, { unique: true });
+
 // ============================================
 // Default Configuration
 // ============================================
 
 export const DEFAULT_CONFIG: Omit<IPolicyConfig, keyof Document> = {
+  tenantId: 'default',
   configId: 'default',
   policy: {
     name: 'content_safety_policy',
@@ -187,6 +363,7 @@ export const DEFAULT_CONFIG: Omit<IPolicyConfig, keyof Document> = {
     threshold: 0.7
   },
   judge: {
+    provider: 'openai',
     model: 'gpt-4o-mini',
     temperature: 0.1,
     maxTokens: 500,
@@ -196,12 +373,18 @@ export const DEFAULT_CONFIG: Omit<IPolicyConfig, keyof Document> = {
     maxRetryDelay: 10000,
     backoffMultiplier: 2,
     circuitBreakerThreshold: 5,
-    circuitBreakerResetMs: 60000
+    circuitBreakerResetMs: 60000,
+    chunkTokens: 8000,
+    chunkOverlapTokens: 200
   },
   settings: {
     parallelEvaluation: true,
+    shortCircuit: false,
     debugLog: false,
-    cacheResults: false
+    cacheResults: false,
+    cacheTtlMs: 300000,
+    cacheMaxEntries: 1000,
+    batchConcurrency: 5
   },
   isActive: true,
   createdAt: new Date(),
@@ -0,0 +1,120 @@
+/**
+ * PolicyRevision Model
+ *
+ * MongoDB schema for immutable policy revisions
+ * Every policy mutation appends a revision so past policies can be audited,
+ * diffed and restored
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { PolicySchema } from './PolicyConfig';
+import type {
+  Policy,
+  RevisionChange
+} from '../types';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface IPolicyRevision extends Document {
+  // Tenant and configuration the revision belongs to
+  tenantId: string;
+  configId: string;
+
+  // Sequential revision number per configId (starts at 1)
+  revision: number;
+
+  // Policy version after the change
+  version: string;
+
+  // What produced the revision
+  change: RevisionChange;
+  author: string;
+  message?: string;
+
+  // Full policy as of this revision
+  policy: Policy;
+
+  createdAt: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const PolicyRevisionSchema = new Schema<IPolicyRevision>(
+  {
+    tenantId: {
+      type: String,
+      required: true,
+      default: 'default',
+      immutable: true
+    },
+    configId: {
+      type: String,
+      required: true,
+      immutable: true
+    },
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+      immutable: true
+    },
+    version: {
+      type: String,
+      required: true,
+      immutable: true
+    },
+    change: {
+      type: String,
+      enum: ['create', 'baseline', 'update_config', 'add_rule', 'update_rule', 'delete_rule', 'reset', 'rollback'],
+      required: true,
+      immutable: true
+    },
+    author: {
+      type: String,
+      required: true,
+      immutable: true
+    },
+    message: {
+      type: String,
+      immutable: true
+    },
+    policy: {
+      type: PolicySchema,
+      required: true,
+      immutable: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      immutable: true
+    },
+  },
+  {
+    collection: 'policy_revisions',
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// One revision number per configuration
+PolicyRevisionSchema.index({ tenantId: 1, configId: 1, revision: -1 }, { unique: true });
+
+// Index for point-in-time lookups
+PolicyRevisionSchema.index({ tenantId: 1, configId: 1, createdAt: -1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+export const PolicyRevision = mongoose.model<IPolicyRevision>(
+  'PolicyRevision',
+  PolicyRevisionSchema
+);
+
+export default PolicyRevision;
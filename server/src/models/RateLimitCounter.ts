@@ -0,0 +1,72 @@
+/**
+ * RateLimitCounter Model
+ *
+ * MongoDB schema for rate limit counters shared by all server instances
+ * One document per key and fixed window; MongoDB removes it once the
+ * window has ended
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface IRateLimitCounter extends Document {
+  // e.g. "requests:tenant:search" or "tokens:key:key_ab12cd34"
+  key: string;
+
+  windowStart: Date;
+
+  // Requests or estimated tokens counted in the window
+  count: number;
+
+  // End of the window; the TTL index deletes the document after it
+  expiresAt: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    windowStart: {
+      type: Date,
+      required: true,
+    },
+    count: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'rate_limit_counters',
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+RateLimitCounterSchema.index({ key: 1, windowStart: 1 }, { unique: true });
+
+// Expire counters once their window has ended
+RateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ============================================
+// Model Export
+// ============================================
+
+export const RateLimitCounter = mongoose.model<IRateLimitCounter>('RateLimitCounter', RateLimitCounterSchema);
+
+export default RateLimitCounter;
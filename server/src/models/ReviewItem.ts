@@ -0,0 +1,156 @@
+/**
+ * ReviewItem Model
+ *
+ * MongoDB schema for the human review queue
+ * WARN and UNCERTAIN evaluations are queued for a reviewer to claim and
+ * resolve, with SLA timestamps for each step
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import type {
+  FinalVerdict,
+  ReviewStatus,
+  ReviewTrigger,
+  ReviewDecision
+} from '../types';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface IReviewItem extends Document {
+  // Unique review ID
+  reviewId: string;
+
+  // Tenant and evaluation under review
+  tenantId: string;
+  evaluationId: string;
+
+  status: ReviewStatus;
+  triggers: ReviewTrigger[];
+
+  // Engine verdict, copied so the queue can be listed without joining history
+  policyName: string;
+  policyVersion: string;
+  verdict: FinalVerdict;
+  reason?: string;
+  uncertainRules: string[];
+  contentPreview: string;
+
+  // Reviewer holding the item
+  assignee?: string;
+
+  // Reviewer decision
+  resolution?: {
+    decision: ReviewDecision;
+    verdict: FinalVerdict;
+    rationale?: string;
+    reviewer: string;
+    resolvedAt: Date;
+  };
+
+  // SLA timestamps
+  createdAt: Date;
+  claimedAt?: Date;
+  dueAt: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const ResolutionSchema = new Schema({
+  decision: {
+    type: String,
+    enum: ['approve', 'override'],
+    required: true
+  },
+  verdict: {
+    type: String,
+    enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT', 'ERROR'],
+    required: true
+  },
+  rationale: { type: String },
+  reviewer: { type: String, required: true },
+  resolvedAt: { type: Date, required: true },
+}, { _id: false });
+
+const ReviewItemSchema = new Schema<IReviewItem>(
+  {
+    reviewId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    tenantId: {
+      type: String,
+      required: true,
+      default: 'default',
+    },
+    evaluationId: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'claimed', 'resolved'],
+      default: 'pending',
+    },
+    triggers: {
+      type: [String],
+      enum: ['warn', 'uncertain'],
+      required: true,
+    },
+    policyName: { type: String, required: true },
+    policyVersion: { type: String, required: true },
+    verdict: {
+      type: String,
+      enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT', 'ERROR'],
+      required: true,
+    },
+    reason: { type: String },
+    uncertainRules: { type: [String], default: [] },
+    contentPreview: { type: String, default: '' },
+    assignee: { type: String },
+    resolution: {
+      type: ResolutionSchema,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    claimedAt: { type: Date },
+    dueAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'review_items',
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Index for listing a tenant's queue, oldest first
+ReviewItemSchema.index({ tenantId: 1, status: 1, createdAt: 1 });
+
+// Index for finding items past their SLA
+ReviewItemSchema.index({ tenantId: 1, status: 1, dueAt: 1 });
+
+// One review per evaluation
+ReviewItemSchema.index({ tenantId: 1, evaluationId: 1 }, { unique: true });
+
+// ============================================
+// Model Export
+// ============================================
+
+export const ReviewItem = mongoose.model<IReviewItem>(
+  'ReviewItem',
+  ReviewItemSchema
+);
+
+export default ReviewItem;
@@ -0,0 +1,136 @@
+/**
+ * TestRun Model
+ *
+ * MongoDB schema for test suite runs
+ * Every run of a suite is kept with its per-case results, so the next run
+ * can be diffed against it
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import type {
+  TestRunSummary,
+  TestCaseResult,
+  ConfusionMatrix,
+  TestRunDiff,
+  VerdictUsage
+} from '../types';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface ITestRun extends Document {
+  // Unique run ID
+  runId: string;
+
+  // Tenant and suite that was run
+  tenantId: string;
+  suiteId: string;
+  suiteName: string;
+
+  // Policy the suite ran against
+  policy: {
+    id?: string;
+    name: string;
+    version?: string;
+    draft: boolean;
+  };
+
+  summary: TestRunSummary;
+  confusion_matrix: ConfusionMatrix;
+  results: TestCaseResult[];
+  diff?: TestRunDiff;
+  usage?: VerdictUsage;
+  total_latency_ms: number;
+
+  author?: string;
+  createdAt: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const RuleMismatchSchema = new Schema({
+  rule_id: { type: String, required: true },
+  expected: { type: String, required: true },
+  actual: { type: String, default: null },
+}, { _id: false });
+
+const CaseResultSchema = new Schema({
+  id: { type: String, required: true },
+  passed: { type: Boolean, required: true },
+  expected_verdict: { type: String, required: true },
+  actual_verdict: { type: String, required: true },
+  rule_mismatches: { type: [RuleMismatchSchema], default: [] },
+  reason: { type: String },
+  error: { type: String },
+}, { _id: false });
+
+const TestRunSchema = new Schema<ITestRun>(
+  {
+    runId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    tenantId: {
+      type: String,
+      required: true,
+      default: 'default',
+    },
+    suiteId: {
+      type: String,
+      required: true,
+    },
+    suiteName: { type: String, required: true },
+    policy: {
+      id: { type: String },
+      name: { type: String, required: true },
+      version: { type: String },
+      draft: { type: Boolean, default: false },
+    },
+    summary: {
+      total: { type: Number, required: true },
+      passed: { type: Number, required: true },
+      failed: { type: Number, required: true },
+      errors: { type: Number, required: true },
+      pass_rate: { type: Number, required: true },
+    },
+    confusion_matrix: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    results: {
+      type: [CaseResultSchema],
+      default: [],
+    },
+    diff: { type: Schema.Types.Mixed },
+    usage: { type: Schema.Types.Mixed },
+    total_latency_ms: { type: Number, default: 0 },
+    author: { type: String },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    collection: 'test_runs',
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// Index for a suite's runs, newest first (and the previous run to diff against)
+TestRunSchema.index({ tenantId: 1, suiteId: 1, createdAt: -1 });
+
+// ============================================
+// Model Export
+// ============================================
+
+export const TestRun = mongoose.model<ITestRun>('TestRun', TestRunSchema);
+
+export default TestRun;
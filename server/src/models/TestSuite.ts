@@ -0,0 +1,101 @@
+/**
+ * TestSuite Model
+ *
+ * MongoDB schema for labeled policy test suites
+ * Each suite holds content samples with the final verdict (and optionally the
+ * per-rule verdicts) a policy is expected to give them
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import type { TestCase } from '../types';
+
+// ============================================
+// Document Interface
+// ============================================
+
+export interface ITestSuite extends Document {
+  // Unique suite ID
+  suiteId: string;
+
+  // Tenant that owns the suite
+  tenantId: string;
+
+  // Suite name, unique per tenant
+  name: string;
+  description?: string;
+
+  // Labeled content samples
+  cases: TestCase[];
+
+  author?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Schema Definition
+// ============================================
+
+const TestCaseSchema = new Schema({
+  id: { type: String, required: true },
+  description: { type: String },
+  // A string, or a chat transcript of { role, content } messages
+  content: { type: Schema.Types.Mixed },
+  input: { type: String },
+  output: { type: String },
+  context: { type: String },
+  metadata: { type: Schema.Types.Mixed },
+  expected_verdict: {
+    type: String,
+    enum: ['ALLOW', 'BLOCK', 'WARN', 'REDACT'],
+    required: true
+  },
+  expected_rules: { type: Schema.Types.Mixed },
+  evaluationId: { type: String },
+}, { _id: false });
+
+const TestSuiteSchema = new Schema<ITestSuite>(
+  {
+    suiteId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    tenantId: {
+      type: String,
+      required: true,
+      default: 'default',
+      immutable: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: { type: String },
+    cases: {
+      type: [TestCaseSchema],
+      default: [],
+    },
+    author: { type: String },
+  },
+  {
+    timestamps: true,
+    collection: 'test_suites',
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+// One suite per name within a tenant
+TestSuiteSchema.index({ tenantId: 1, name: 1 }, { unique: true });
+
+// ============================================
+// Model Export
+// ============================================
+
+export const TestSuite = mongoose.model<ITestSuite>('TestSuite', TestSuiteSchema);
+
+export default TestSuite;
@@ -6,4 +6,11 @@
 
 export { EvaluationHistory, type IEvaluationHistory } from './EvaluationHistory';
 export { PolicyConfig, type IPolicyConfig, DEFAULT_CONFIG } from './PolicyConfig';
-
+export { PolicyRevision, type IPolicyRevision } from './PolicyRevision';
+export { EvaluationJob, type IEvaluationJob } from './EvaluationJob';
+export { ApiKey, type IApiKey } from './ApiKey';
+export { RateLimitCounter, type IRateLimitCounter } from './RateLimitCounter';
+export { LibraryRule, type ILibraryRule } from './LibraryRule';
+export { ReviewItem, type IReviewItem } from './ReviewItem';
+export { TestSuite, type ITestSuite } from './TestSuite';
+export { TestRun, type ITestRun } from './TestRun';
@@ -0,0 +1,201 @@
+/**
+ * AuthRoutes - REST API endpoints for API key management
+ *
+ * Endpoints:
+ * - GET /api/auth/me - Current principal, tenant and token quota
+ * - GET /api/auth/keys - List the tenant's API keys (admin)
+ * - POST /api/auth/keys - Create an API key (admin)
+ * - DELETE /api/auth/keys/:keyId - Revoke one of the tenant's API keys (admin)
+ *
+ * Admins manage their own tenant's keys. Admins of the default tenant may
+ * also create keys for other tenants, which is how new tenants are onboarded.
+ * The key routes answer 403 while authentication is disabled, since anyone
+ * could otherwise mint admin keys that keep working once it is enabled; the
+ * first admin key comes from AUTH_BOOTSTRAP_KEY.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { AuthService, isRole, ROLES } from '../services/AuthService';
+import { TokenQuota } from '../services/TokenQuota';
+import { allowAll, getAuthor, getPrincipal } from '../middleware/auth';
+import { getTenantId } from '../middleware/tenant';
+import { DEFAULT_TENANT_ID, isValidTenantId, getTenantLimits } from '../config/tenants';
+import type { Logger, Authorize, Role } from '../types';
+
+export interface AuthRoutesOptions {
+  logger?: Logger;
+  authorize?: Authorize;
+  tokenQuota?: TokenQuota;
+  authEnabled?: boolean; // Key management is refused unless true
+}
+
+/**
+ * Create auth routes
+ */
+export const createAuthRoutes = (
+  authService: AuthService,
+  options: AuthRoutesOptions = {}
+): Router => {
+  const router = Router();
+  const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+
+  // Keys can only be managed by authenticated admins
+  const requireAuthEnabled = (_req: Request, res: Response, next: NextFunction): void => {
+    if (!options.authEnabled) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'API keys can only be managed with AUTH_ENABLED=true (use AUTH_BOOTSTRAP_KEY for the first admin key)'
+      });
+      return;
+    }
+    next();
+  };
+
+  /**
+   * GET /api/auth/me
+   * Return the authenticated principal
+   */
+  router.get('/me', authorize('evaluator'), (_req: Request, res: Response): void => {
+    const principal = getPrincipal(res);
+    const tenantId = getTenantId(res);
+
+    res.json({
+      authenticated: !!principal,
+      principal: principal || null,
+      tenantId,
+      limits: getTenantLimits(tenantId),
+      tokenUsage: options.tokenQuota ? options.tokenQuota.getStatus(tenantId) : null
+    });
+  });
+
+  /**
+   * GET /api/auth/keys
+   * List API keys
+   */
+  router.get('/keys', requireAuthEnabled, authorize('admin'), async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const keys = await authService.listKeys(getTenantId(res));
+
+      res.json({
+        keys,
+        total: keys.length
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[AuthRoutes] List keys error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * POST /api/auth/keys
+   * Create an API key. The key is only returned in this response.
+   */
+  router.post('/keys', requireAuthEnabled, authorize('admin'), async (req: Request<object, unknown, { name?: string; role?: Role; tenantId?: string }>, res: Response): Promise<void> => {
+    try {
+      const { name, role } = req.body || {};
+      const callerTenantId = getTenantId(res);
+      const tenantId = req.body?.tenantId ?? callerTenantId;
+
+      if (!name || typeof name !== 'string') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'name is required and must be a string'
+        });
+        return;
+      }
+
+      if (!isRole(role)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `role must be one of: ${ROLES.join(', ')}`
+        });
+        return;
+      }
+
+      if (!isValidTenantId(tenantId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'tenantId must be 1-64 letters, digits, "_" or "-"'
+        });
+        return;
+      }
+
+      if (tenantId !== callerTenantId && callerTenantId !== DEFAULT_TENANT_ID) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `Only admins of the '${DEFAULT_TENANT_ID}' tenant can create keys for other tenants`
+        });
+        return;
+      }
+
+      const result = await authService.createKey({
+        name,
+        role,
+        tenantId,
+        createdBy: getAuthor(req, res)
+      });
+
+      res.json({
+        success: true,
+        message: 'API key created. Store it now - it cannot be shown again.',
+        key: result.key,
+        apiKey: result.apiKey
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[AuthRoutes] Create key error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/auth/keys/:keyId
+   * Revoke an API key
+   */
+  router.delete('/keys/:keyId', requireAuthEnabled, authorize('admin'), async (req: Request<{ keyId: string }>, res: Response): Promise<void> => {
+    try {
+      const { keyId } = req.params;
+
+      const apiKey = await authService.revokeKey(keyId, getTenantId(res));
+
+      if (!apiKey) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `API key '${keyId}' not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'API key revoked',
+        apiKey
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[AuthRoutes] Revoke key error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  return router;
+};
+
+export default createAuthRoutes;
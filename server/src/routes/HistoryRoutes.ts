@@ -3,23 +3,50 @@
  * 
  * Endpoints:
  * - GET /api/history - List all evaluations with pagination
- * - GET /api/history/stats - Get evaluation statistics
+ * - GET /api/history/stats - Get evaluation statistics and judge spend
  * - GET /api/history/:evaluationId - Get specific evaluation
  * - POST /api/history/:evaluationId/rerun - Re-run an evaluation
  * - DELETE /api/history/:evaluationId - Delete an evaluation
  * - DELETE /api/history/batch - Delete multiple evaluations
  * - PATCH /api/history/:evaluationId/tags - Update evaluation tags
  * - PATCH /api/history/:evaluationId/notes - Update evaluation notes
+ * - POST /api/history/:evaluationId/promote - Add an evaluation to a test suite
  */
 
-import { Router, Request, Response } from 'express';
-import { HistoryService, HistoryListOptions } from '../services/HistoryService';
-import type { Logger, PolicyEngineInterface, FinalVerdict } from '../types';
+import { Router, Request, Response, RequestHandler } from 'express';
+import { HistoryService, HistoryListOptions, DEFAULT_SPEND_DAYS } from '../services/HistoryService';
+import { TestSuiteService, getExpectedRules } from '../services/TestSuiteService';
+import { pickInputs } from '../services/PromptTemplate';
+import { allowAll } from '../middleware/auth';
+import { unlimitedQuota } from '../middleware/tenant';
+import type { IEvaluationHistory } from '../models/EvaluationHistory';
+import type {
+  Logger,
+  Authorize,
+  PolicyEngineInterface,
+  FinalVerdict,
+  ExpectedRuleVerdict,
+  TestCase
+} from '../types';
 
 export interface HistoryRoutesOptions {
   logger?: Logger;
+  authorize?: Authorize;
+  quotaGuard?: RequestHandler;
+  testSuiteService?: TestSuiteService;
 }
 
+interface PromoteRequest {
+  suiteId?: string;
+  case_id?: string; // Defaults to the evaluation ID
+  description?: string;
+  expected_verdict?: FinalVerdict; // Defaults to the recorded final verdict
+  expected_rules?: Record<string, ExpectedRuleVerdict>;
+  include_rules?: boolean; // Expect the recorded rule verdicts
+}
+
+const MAX_SPEND_DAYS = 366;
+
 /**
  * Create history routes
  */
@@ -30,12 +57,15 @@ export const createHistoryRoutes = (
 ): Router => {
   const router = Router();
   const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+  const quotaGuard = options.quotaGuard || unlimitedQuota;
+  const testSuiteService = options.testSuiteService;
 
   /**
    * GET /api/history
    * List all evaluations with pagination and filters
    */
-  router.get('/', async (req: Request, res: Response): Promise<void> => {
+  router.get('/', authorize('editor'), async (req: Request, res: Response): Promise<void> => {
     try {
       const {
         page = '1',
@@ -95,14 +125,25 @@ export const createHistoryRoutes = (
   });
 
   /**
-   * GET /api/history/stats
-   * Get evaluation statistics
+   * GET /api/history/stats?days=30
+   * Get evaluation statistics, with judge token spend over the last `days` days
    */
-  router.get('/stats', async (_req: Request, res: Response): Promise<void> => {
+  router.get('/stats', authorize('editor'), async (req: Request, res: Response): Promise<void> => {
     try {
-      logger.info('[HistoryRoutes] Get stats request');
+      const { days } = req.query;
+      const spendDays = days === undefined ? DEFAULT_SPEND_DAYS : Number(days);
+
+      if (!Number.isInteger(spendDays) || spendDays < 1 || spendDays > MAX_SPEND_DAYS) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `days must be an integer between 1 and ${MAX_SPEND_DAYS}`,
+        });
+        return;
+      }
+
+      logger.info('[HistoryRoutes] Get stats request', { spendDays });
 
-      const stats = await historyService.getStats();
+      const stats = await historyService.getStats({ spendDays });
 
       res.json(stats);
 
@@ -121,7 +162,7 @@ export const createHistoryRoutes = (
    * GET /api/history/:evaluationId
    * Get a specific evaluation by ID
    */
-  router.get('/:evaluationId', async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
+  router.get('/:evaluationId', authorize('editor'), async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
     try {
       const { evaluationId } = req.params;
 
@@ -154,7 +195,7 @@ export const createHistoryRoutes = (
    * POST /api/history/:evaluationId/rerun
    * Re-run an evaluation using the stored policy and content
    */
-  router.post('/:evaluationId/rerun', async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
+  router.post('/:evaluationId/rerun', authorize('editor'), quotaGuard, async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
     try {
       const { evaluationId } = req.params;
       const { saveToHistory = true } = req.body || {};
@@ -175,10 +216,10 @@ export const createHistoryRoutes = (
         return;
       }
 
-      const { policy, content } = rerunData;
+      const { policy, content, metadata, inputs } = rerunData;
 
-      // Re-run the evaluation with the original policy
-      const verdict = await policyEngine.evaluate(content, { policy });
+      // Re-run the evaluation with the original policy, request metadata and guardrail fields
+      const verdict = await policyEngine.evaluate(content, { policy, metadata, ...(inputs ? { inputs } : {}) });
 
       // Optionally save to history
       let newEvaluationId: string | null = null;
@@ -187,6 +228,8 @@ export const createHistoryRoutes = (
           content,
           policy,
           result: verdict,
+          metadata,
+          inputs,
           tags: ['rerun', `rerun-of:${evaluationId}`],
           notes: `Re-run of evaluation ${evaluationId}`,
         });
@@ -215,7 +258,7 @@ export const createHistoryRoutes = (
    * DELETE /api/history/:evaluationId
    * Delete an evaluation by ID
    */
-  router.delete('/:evaluationId', async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
+  router.delete('/:evaluationId', authorize('admin'), async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
     try {
       const { evaluationId } = req.params;
 
@@ -251,7 +294,7 @@ export const createHistoryRoutes = (
    * DELETE /api/history/batch
    * Delete multiple evaluations
    */
-  router.delete('/batch', async (req: Request, res: Response): Promise<void> => {
+  router.delete('/batch', authorize('admin'), async (req: Request, res: Response): Promise<void> => {
     try {
       const { evaluationIds } = req.body;
 
@@ -289,7 +332,7 @@ export const createHistoryRoutes = (
    * PATCH /api/history/:evaluationId/tags
    * Update tags for an evaluation
    */
-  router.patch('/:evaluationId/tags', async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
+  router.patch('/:evaluationId/tags', authorize('editor'), async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
     try {
       const { evaluationId } = req.params;
       const { tags } = req.body;
@@ -334,7 +377,7 @@ export const createHistoryRoutes = (
    * PATCH /api/history/:evaluationId/notes
    * Add or update notes for an evaluation
    */
-  router.patch('/:evaluationId/notes', async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
+  router.patch('/:evaluationId/notes', authorize('editor'), async (req: Request<{ evaluationId: string }>, res: Response): Promise<void> => {
     try {
       const { evaluationId } = req.params;
       const { notes } = req.body;
@@ -375,6 +418,95 @@ export const createHistoryRoutes = (
     }
   });
 
+  /**
+   * POST /api/history/:evaluationId/promote
+   * Add an evaluation to a test suite as a labeled case, expecting its
+   * recorded verdict unless another is given
+   */
+  router.post('/:evaluationId/promote', authorize('editor'), async (req: Request<{ evaluationId: string }, unknown, PromoteRequest>, res: Response): Promise<void> => {
+    try {
+      const { evaluationId } = req.params;
+      const { suiteId, case_id, description, expected_verdict, expected_rules, include_rules } = req.body || {};
+
+      if (!testSuiteService) {
+        res.status(503).json({
+          error: 'Service Unavailable',
+          message: 'Test suites are not available',
+        });
+        return;
+      }
+
+      if (!suiteId || typeof suiteId !== 'string') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'suiteId is required',
+        });
+        return;
+      }
+
+      if (expected_rules !== undefined && include_rules) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide either expected_rules or include_rules, not both',
+        });
+        return;
+      }
+
+      logger.info('[HistoryRoutes] Promote evaluation request', { evaluationId, suiteId });
+
+      const evaluation = await historyService.getById(evaluationId);
+
+      if (!evaluation) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Evaluation with ID '${evaluationId}' not found`,
+        });
+        return;
+      }
+
+      const record = evaluation.toObject() as IEvaluationHistory;
+      const rules = include_rules ? getExpectedRules(record.result.rule_results) : expected_rules;
+      const testCase: TestCase = {
+        id: case_id ?? evaluationId,
+        ...(description !== undefined ? { description } : {}),
+        content: record.messages?.length ? record.messages : record.content,
+        ...pickInputs(record.inputs || {}),
+        ...(record.requestMetadata ? { metadata: record.requestMetadata } : {}),
+        expected_verdict: expected_verdict ?? record.result.final_verdict,
+        ...(rules !== undefined ? { expected_rules: rules } : {}),
+        evaluationId,
+      };
+
+      const result = await testSuiteService.addCase(suiteId, testCase);
+
+      if (!result.success) {
+        res.status(result.errors ? 400 : result.notFound ? 404 : 409).json({
+          error: result.errors ? 'Bad Request' : result.notFound ? 'Not Found' : 'Conflict',
+          message: result.message,
+          ...(result.errors ? { errors: result.errors } : {}),
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Evaluation '${evaluationId}' added to test suite '${result.suite!.name}'`,
+        suiteId,
+        caseCount: result.suite!.cases.length,
+        case: testCase,
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[HistoryRoutes] Promote evaluation error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message,
+      });
+    }
+  });
+
   return router;
 };
 
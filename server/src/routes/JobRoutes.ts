@@ -0,0 +1,218 @@
+/**
+ * JobRoutes - REST API endpoints for asynchronous evaluation jobs
+ *
+ * Endpoints:
+ * - POST /api/policy/jobs - Queue an evaluation job
+ * - GET /api/policy/jobs/:jobId - Get job status and result
+ */
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { JobService } from '../services/JobService';
+import { validateMetadata } from '../services/RuleConditions';
+import { validateContent, getContentText } from '../services/Transcript';
+import { pickInputs, validateInputs, getPromptFields, findMissingPlaceholders } from '../services/PromptTemplate';
+import { flattenRules } from '../services/RuleGroups';
+import { allowAll } from '../middleware/auth';
+import { unlimitedQuota } from '../middleware/tenant';
+import type {
+  Logger,
+  Authorize,
+  PolicyEngineInterface,
+  CreateJobRequest,
+  Policy
+} from '../types';
+
+export interface JobRoutesOptions {
+  logger?: Logger;
+  authorize?: Authorize;
+  quotaGuard?: RequestHandler;
+  tokenRateLimiter?: RequestHandler;
+}
+
+/**
+ * Create job routes
+ */
+export const createJobRoutes = (
+  jobService: JobService,
+  policyEngine: PolicyEngineInterface,
+  options: JobRoutesOptions = {}
+): Router => {
+  const router = Router();
+  const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+  const quotaGuard = options.quotaGuard || unlimitedQuota;
+  const tokenRateLimiter = options.tokenRateLimiter || unlimitedQuota;
+
+  /**
+   * POST /api/policy/jobs
+   * Queue an evaluation and return the job id immediately
+   */
+  router.post('/', authorize('evaluator'), quotaGuard, tokenRateLimiter, async (req: Request<object, unknown, CreateJobRequest>, res: Response): Promise<void> => {
+    try {
+      const body = req.body || {};
+      const { policy, policyId, short_circuit, metadata, callback_url } = body;
+      const inputs = pickInputs(body);
+      // Guardrail jobs may send only the LLM output, which is then the content evaluated
+      const content = body.content ?? inputs?.output ?? '';
+
+      const contentErrors = [...validateInputs(body), ...validateContent(content)];
+      if (contentErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: contentErrors.join('; ')
+        });
+        return;
+      }
+
+      const metadataErrors = validateMetadata(metadata);
+      if (metadataErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: metadataErrors.join('; ')
+        });
+        return;
+      }
+
+      if (policy && policyId) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide either policy or policyId, not both'
+        });
+        return;
+      }
+
+      const namedPolicy = policyId ? policyEngine.getPolicyById(policyId) : null;
+      if (policyId && !namedPolicy) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Policy '${policyId}' not found`
+        });
+        return;
+      }
+
+      if (policy) {
+        const validation = policyEngine.validatePolicy(policy, undefined, getPromptFields(inputs));
+        if (!validation.valid) {
+          res.status(400).json({
+            error: 'Invalid Policy',
+            message: 'Provided policy configuration is invalid',
+            errors: validation.errors,
+            warnings: validation.warnings
+          });
+          return;
+        }
+      }
+
+      // Every judge_prompt placeholder of a stored policy must be supplied by the request
+      const placeholderErrors = policy
+        ? []
+        : findMissingPlaceholders(flattenRules(namedPolicy || policyEngine.getActivePolicy()), getPromptFields(inputs));
+      if (placeholderErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: placeholderErrors.join('; ')
+        });
+        return;
+      }
+
+      if (callback_url !== undefined) {
+        let url: URL | null = null;
+        try {
+          url = new URL(callback_url);
+        } catch {
+          url = null;
+        }
+        if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: 'callback_url must be an http(s) URL'
+          });
+          return;
+        }
+        if (!jobService.hasWebhookSecret()) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: 'Webhook callbacks are disabled: JOB_WEBHOOK_SECRET is not set'
+          });
+          return;
+        }
+        const refusal = await jobService.checkCallbackUrl(callback_url);
+        if (refusal) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: refusal
+          });
+          return;
+        }
+      }
+
+      logger.info('[JobRoutes] Create job request received', {
+        contentLength: getContentText(content).length,
+        hasCustomPolicy: !!policy,
+        policyId,
+        hasCallback: !!callback_url
+      });
+
+      const job = await jobService.create({
+        content,
+        policy: policy as Policy,
+        policyId,
+        shortCircuit: short_circuit,
+        metadata,
+        inputs,
+        callbackUrl: callback_url
+      });
+
+      res.json({
+        success: true,
+        message: 'Evaluation job queued',
+        jobId: job.jobId,
+        status: job.status
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[JobRoutes] Create job error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/policy/jobs/:jobId
+   * Poll a job; result is present once status is completed
+   */
+  router.get('/:jobId', authorize('evaluator'), async (req: Request<{ jobId: string }>, res: Response): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+
+      const job = await jobService.get(jobId);
+
+      if (!job) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Job with ID '${jobId}' not found`
+        });
+        return;
+      }
+
+      res.json(job);
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[JobRoutes] Get job error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  return router;
+};
+
+export default createJobRoutes;
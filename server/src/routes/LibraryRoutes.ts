@@ -0,0 +1,248 @@
+/**
+ * LibraryRoutes - REST API endpoints for the shared rule library
+ *
+ * Endpoints:
+ * - GET /api/library/rules - List library rules with the policies using each
+ * - GET /api/library/rules/:ruleId - Get a library rule
+ * - POST /api/library/rules - Add a rule to the library
+ * - PUT /api/library/rules/:ruleId - Update a library rule
+ * - DELETE /api/library/rules/:ruleId - Delete an unused library rule
+ *
+ * Policies use library rules through policy.library_rules. Updating a library
+ * rule changes every policy using it; the response lists them as affected_policies.
+ */
+
+import { Router, Request, Response } from 'express';
+import type {
+  Logger,
+  Authorize,
+  RuleInput,
+  PolicyEngineInterface
+} from '../types';
+import { PolicyEngine } from '../services/PolicyEngine';
+import { allowAll, getAuthor } from '../middleware/auth';
+
+export interface LibraryRoutesOptions {
+  logger?: Logger;
+  authorize?: Authorize;
+}
+
+/**
+ * Create rule library routes
+ */
+export const createLibraryRoutes = (
+  policyEngine: PolicyEngineInterface,
+  options: LibraryRoutesOptions = {}
+): Router => {
+  const router = Router();
+  const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+  const engine = policyEngine as PolicyEngine;
+
+  /**
+   * GET /api/library/rules
+   * List library rules and the policies using each
+   */
+  router.get('/rules', authorize('editor'), (_req: Request, res: Response): void => {
+    try {
+      const rules = engine.listLibraryRules().map(rule => ({
+        rule,
+        used_by: engine.getLibraryRuleUsage(rule.id)
+      }));
+
+      res.json({
+        success: true,
+        count: rules.length,
+        rules
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[LibraryRoutes] List library rules error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/library/rules/:ruleId
+   * Get a single library rule
+   */
+  router.get('/rules/:ruleId', authorize('editor'), (req: Request<{ ruleId: string }>, res: Response): void => {
+    try {
+      const { ruleId } = req.params;
+      const rule = engine.getLibraryRule(ruleId);
+
+      if (!rule) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Library rule '${ruleId}' not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        rule,
+        used_by: engine.getLibraryRuleUsage(ruleId)
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[LibraryRoutes] Get library rule error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * POST /api/library/rules
+   * Add a rule to the library (saved to MongoDB)
+   */
+  router.post('/rules', authorize('editor'), async (req: Request<object, unknown, RuleInput>, res: Response): Promise<void> => {
+    try {
+      const rule = req.body;
+
+      if (!rule || !rule.id) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Rule id is required'
+        });
+        return;
+      }
+
+      logger.info('[LibraryRoutes] Create library rule request', { ruleId: rule.id });
+
+      const result = await engine.createLibraryRuleAsync(rule, getAuthor(req, res));
+
+      if (!result.success) {
+        res.status(result.errors ? 400 : 409).json({
+          error: result.errors ? 'Invalid Rule' : 'Conflict',
+          message: result.message,
+          ...(result.errors ? { errors: result.errors } : {})
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Library rule created and saved to MongoDB',
+        rule: result.rule
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[LibraryRoutes] Create library rule error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * PUT /api/library/rules/:ruleId
+   * Update a library rule; the response lists the policies it affects
+   */
+  router.put('/rules/:ruleId', authorize('editor'), async (req: Request<{ ruleId: string }, unknown, Partial<RuleInput>>, res: Response): Promise<void> => {
+    try {
+      const { ruleId } = req.params;
+      const updates = req.body;
+
+      if (!updates || Object.keys(updates).length === 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Rule updates are required'
+        });
+        return;
+      }
+
+      logger.info('[LibraryRoutes] Update library rule request', {
+        ruleId,
+        fields: Object.keys(updates)
+      });
+
+      const result = await engine.updateLibraryRuleAsync(ruleId, updates, getAuthor(req, res));
+
+      if (!result.success) {
+        res.status(result.errors ? 400 : 404).json({
+          error: result.errors ? 'Invalid Rule' : 'Not Found',
+          message: result.message,
+          ...(result.errors ? { errors: result.errors } : {})
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Library rule updated and saved to MongoDB',
+        rule: result.rule,
+        affected_policies: result.affected_policies
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[LibraryRoutes] Update library rule error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/library/rules/:ruleId
+   * Delete a library rule that no policy uses
+   */
+  router.delete('/rules/:ruleId', authorize('editor'), async (req: Request<{ ruleId: string }>, res: Response): Promise<void> => {
+    try {
+      const { ruleId } = req.params;
+
+      logger.info('[LibraryRoutes] Delete library rule request', { ruleId });
+
+      const result = await engine.deleteLibraryRuleAsync(ruleId);
+
+      if (!result.success) {
+        const inUse = (result.affected_policies || []).length > 0;
+        res.status(inUse ? 409 : 404).json({
+          error: inUse ? 'Conflict' : 'Not Found',
+          message: result.message,
+          ...(inUse ? { affected_policies: result.affected_policies } : {})
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Library rule deleted from MongoDB',
+        ruleId
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[LibraryRoutes] Delete library rule error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  return router;
+};
+
+export default createLibraryRoutes;
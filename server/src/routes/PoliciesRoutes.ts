@@ -0,0 +1,550 @@
+/**
+ * PoliciesRoutes - REST API endpoints for named policies
+ *
+ * Endpoints:
+ * - GET /api/policies - List loaded policies
+ * - GET /api/policies/:configId - Get a policy (resolved, with its definition if it inherits)
+ * - POST /api/policies/:configId - Create a named policy
+ * - PUT /api/policies/:configId - Update a policy
+ * - DELETE /api/policies/:configId - Delete a named policy
+ * - GET /api/policies/:configId/revisions - List policy revisions
+ * - GET /api/policies/:configId/revisions/as-of?date= - Revision in effect at a date
+ * - GET /api/policies/:configId/revisions/diff?from=&to= - Diff two revisions
+ * - GET /api/policies/:configId/revisions/:revision - Get a revision
+ * - POST /api/policies/:configId/rollback - Roll back to a revision
+ *
+ * Mutations record the authenticated principal (or, with auth disabled, the
+ * X-Author request header) as the revision author.
+ * Evaluate against a named policy with POST /api/policy/evaluate { policyId }.
+ */
+
+import { Router, Request, Response } from 'express';
+import type {
+  Logger,
+  Authorize,
+  Policy,
+  PolicyInput,
+  PolicyEngineInterface
+} from '../types';
+import { PolicyEngine } from '../services/PolicyEngine';
+import { PolicyRevisionService } from '../services/PolicyRevisionService';
+import { allowAll, getAuthor } from '../middleware/auth';
+
+export interface PoliciesRoutesOptions {
+  logger?: Logger;
+  revisionService?: PolicyRevisionService;
+  authorize?: Authorize;
+}
+
+const CONFIG_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Parse a revision number (positive integer), or null if invalid
+ */
+const parseRevision = (value: unknown): number | null => {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+};
+
+/**
+ * Create named policy routes
+ */
+export const createPoliciesRoutes = (
+  policyEngine: PolicyEngineInterface,
+  options: PoliciesRoutesOptions = {}
+): Router => {
+  const router = Router();
+  const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+  const revisionService = options.revisionService || new PolicyRevisionService({ logger });
+
+  /**
+   * GET /api/policies
+   * List all loaded policies
+   */
+  router.get('/', authorize('editor'), (_req: Request, res: Response): void => {
+    try {
+      const policies = policyEngine.listPolicies();
+
+      res.json({
+        success: true,
+        count: policies.length,
+        policies
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] List policies error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/policies/:configId
+   * Get a single policy
+   */
+  router.get('/:configId', authorize('editor'), (req: Request<{ configId: string }>, res: Response): void => {
+    try {
+      const { configId } = req.params;
+      const policy = policyEngine.getPolicyById(configId);
+
+      if (!policy) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Policy '${configId}' not found`
+        });
+        return;
+      }
+
+      const definition = policyEngine.getPolicyDefinition(configId);
+
+      res.json({
+        success: true,
+        policyId: configId,
+        policy,
+        ...(definition && definition !== policy ? { definition } : {})
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Get policy error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * POST /api/policies/:configId
+   * Create a named policy (saved to MongoDB)
+   */
+  router.post('/:configId', authorize('editor'), async (req: Request<{ configId: string }, unknown, { policy?: PolicyInput }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+      const { policy } = req.body || {};
+
+      if (!CONFIG_ID_PATTERN.test(configId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'configId must be 1-64 letters, digits, underscores or hyphens'
+        });
+        return;
+      }
+
+      if (!policy) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'policy is required'
+        });
+        return;
+      }
+
+      const candidate: PolicyInput = {
+        default_action: 'warn',
+        evaluation_strategy: 'all',
+        version: '1.0.0',
+        // A policy that inherits its rules may leave out its own
+        ...(policy.extends || policy.library_rules ? { rules: [] } : {}),
+        ...policy
+      };
+
+      const validation = policyEngine.validatePolicy(candidate, configId);
+      if (!validation.valid) {
+        res.status(400).json({
+          error: 'Invalid Policy',
+          message: 'Policy configuration is invalid',
+          errors: validation.errors,
+          warnings: validation.warnings
+        });
+        return;
+      }
+
+      logger.info('[PoliciesRoutes] Create policy request', { configId });
+
+      const result = await (policyEngine as PolicyEngine).createPolicyAsync(configId, candidate as Policy, getAuthor(req, res));
+
+      if (!result.success) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: result.message
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Policy created and saved to MongoDB',
+        policyId: result.policyId,
+        policy: result.policy
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Create policy error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * PUT /api/policies/:configId
+   * Update a policy (saved to MongoDB)
+   */
+  router.put('/:configId', authorize('editor'), async (req: Request<{ configId: string }, unknown, { policy?: Partial<Policy> }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+      const { policy: updates } = req.body || {};
+
+      if (!updates || Object.keys(updates).length === 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'policy updates are required'
+        });
+        return;
+      }
+
+      // Validate the stored definition, so inherited rules are not copied into it
+      const existing = policyEngine.getPolicyDefinition(configId);
+      if (!existing) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Policy '${configId}' not found`
+        });
+        return;
+      }
+
+      const validation = policyEngine.validatePolicy({ ...existing, ...updates }, configId);
+      if (!validation.valid) {
+        res.status(400).json({
+          error: 'Invalid Policy',
+          message: 'Policy configuration is invalid',
+          errors: validation.errors,
+          warnings: validation.warnings
+        });
+        return;
+      }
+
+      logger.info('[PoliciesRoutes] Update policy request', {
+        configId,
+        fields: Object.keys(updates)
+      });
+
+      const result = await (policyEngine as PolicyEngine).updatePolicyAsync(configId, updates, getAuthor(req, res));
+
+      if (!result.success) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: result.message
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Policy updated and saved to MongoDB',
+        policyId: result.policyId,
+        policy: result.policy
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Update policy error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/policies/:configId
+   * Delete a named policy (the primary policy cannot be deleted)
+   */
+  router.delete('/:configId', authorize('editor'), async (req: Request<{ configId: string }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+
+      logger.info('[PoliciesRoutes] Delete policy request', { configId });
+
+      const engine = policyEngine as PolicyEngine;
+
+      if (configId === engine.getDefaultPolicyId()) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Policy '${configId}' is the primary policy and cannot be deleted`
+        });
+        return;
+      }
+
+      const result = await engine.deletePolicyAsync(configId);
+
+      if (!result.success) {
+        // A policy that still exists is a base of other policies
+        const exists = !!engine.getPolicyDefinition(configId);
+        res.status(exists ? 409 : 404).json({
+          error: exists ? 'Conflict' : 'Not Found',
+          message: result.message
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Policy deleted from MongoDB',
+        policyId: configId
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Delete policy error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/policies/:configId/revisions
+   * List revisions, newest first
+   */
+  router.get('/:configId/revisions', authorize('editor'), async (req: Request<{ configId: string }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+      const { page = '1', limit = '20' } = req.query;
+
+      const result = await revisionService.list(configId, {
+        page: parseInt(page as string, 10),
+        limit: Math.min(parseInt(limit as string, 10), 100), // Cap at 100
+      });
+
+      res.json(result);
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] List revisions error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/policies/:configId/revisions/as-of?date=
+   * Get the revision that was in effect at a point in time
+   */
+  router.get('/:configId/revisions/as-of', authorize('editor'), async (req: Request<{ configId: string }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+      const date = new Date(String(req.query['date'] || ''));
+
+      if (Number.isNaN(date.getTime())) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'date query parameter must be a valid date'
+        });
+        return;
+      }
+
+      const revision = await revisionService.getAt(configId, date);
+
+      if (!revision) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `No revision of '${configId}' existed at ${date.toISOString()}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        date: date.toISOString(),
+        revision
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Point-in-time lookup error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/policies/:configId/revisions/diff?from=&to=
+   * Diff two revisions rule by rule (to defaults to the latest revision)
+   */
+  router.get('/:configId/revisions/diff', authorize('editor'), async (req: Request<{ configId: string }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+      const from = parseRevision(req.query['from']);
+
+      if (from === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'from must be a positive revision number'
+        });
+        return;
+      }
+
+      let to: number | null;
+      if (req.query['to'] !== undefined) {
+        to = parseRevision(req.query['to']);
+        if (to === null) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: 'to must be a positive revision number'
+          });
+          return;
+        }
+      } else {
+        to = (await revisionService.getLatest(configId))?.revision ?? null;
+      }
+
+      const diff = to === null ? null : await revisionService.diff(configId, from, to);
+
+      if (!diff) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Revision not found for '${configId}'`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        diff
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Diff revisions error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/policies/:configId/revisions/:revision
+   * Get a single revision
+   */
+  router.get('/:configId/revisions/:revision', authorize('editor'), async (req: Request<{ configId: string; revision: string }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+      const revisionNumber = parseRevision(req.params.revision);
+
+      if (revisionNumber === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'revision must be a positive integer'
+        });
+        return;
+      }
+
+      const revision = await revisionService.get(configId, revisionNumber);
+
+      if (!revision) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Revision ${revisionNumber} of '${configId}' not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        revision
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Get revision error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * POST /api/policies/:configId/rollback
+   * Restore the policy of a past revision (recorded as a new revision)
+   */
+  router.post('/:configId/rollback', authorize('editor'), async (req: Request<{ configId: string }, unknown, { revision?: number }>, res: Response): Promise<void> => {
+    try {
+      const { configId } = req.params;
+      const revision = parseRevision(req.body?.revision);
+
+      if (revision === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'revision must be a positive integer'
+        });
+        return;
+      }
+
+      logger.info('[PoliciesRoutes] Rollback request', { configId, revision });
+
+      const result = await (policyEngine as PolicyEngine).rollbackPolicyAsync(configId, revision, getAuthor(req, res));
+
+      if (!result.success) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: result.message
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Policy rolled back to revision ${revision} and saved to MongoDB`,
+        policyId: configId,
+        revision: result.revision,
+        policy: result.policy
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PoliciesRoutes] Rollback error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  return router;
+};
+
+export default createPoliciesRoutes;
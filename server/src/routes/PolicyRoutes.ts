@@ -3,6 +3,8 @@
  * 
  * Endpoints:
  * - POST /api/policy/evaluate - Evaluate content against policy
+ * - POST /api/policy/evaluate/batch - Evaluate many items against policy
+ * - GET/POST /api/policy/evaluate/stream - Evaluate content, streaming rule results (SSE)
  * - GET /api/policy/config - Get current policy configuration
  * - POST /api/policy/config - Update policy configuration
  * - POST /api/policy/config/reload - Reload configuration from MongoDB
@@ -17,9 +19,13 @@
 import { Router, Request, Response } from 'express';
 import type {
   Logger,
+  Authorize,
   PolicyEngineInterface,
   PolicyRoutesOptions,
   EvaluateRequest,
+  EvaluateBatchRequest,
+  BatchItemResult,
+  RuleResult,
   ConfigUpdateRequest,
   ValidateRequest,
   Policy,
@@ -28,13 +34,34 @@ import type {
 import { HistoryService } from '../services/HistoryService';
 import { ConfigService } from '../services/ConfigService';
 import { PolicyEngine } from '../services/PolicyEngine';
+import { flattenRules, getGroupPaths } from '../services/RuleGroups';
+import { validateMetadata } from '../services/RuleConditions';
+import { validateContent, getContentText } from '../services/Transcript';
+import {
+  pickInputs,
+  validateInputs,
+  getPromptFields,
+  findMissingPlaceholders,
+  PROMPT_FIELDS
+} from '../services/PromptTemplate';
 import { isDatabaseConnected } from '../config/database';
+import { allowAll, getAuthor } from '../middleware/auth';
+import { unlimitedQuota } from '../middleware/tenant';
 
 export interface PolicyRoutesExtendedOptions extends PolicyRoutesOptions {
   historyService?: HistoryService;
   configService?: ConfigService;
 }
 
+const MAX_BATCH_ITEMS = 5000;
+
+/**
+ * Write one Server-Sent Event
+ */
+const writeEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
 /**
  * Create policy routes
  */
@@ -44,6 +71,9 @@ export const createPolicyRoutes = (
 ): Router => {
   const router = Router();
   const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+  const quotaGuard = options.quotaGuard || unlimitedQuota;
+  const tokenRateLimiter = options.tokenRateLimiter || unlimitedQuota;
   const historyService = options.historyService;
   const configService = options.configService;
 
@@ -51,21 +81,52 @@ export const createPolicyRoutes = (
    * POST /api/policy/evaluate
    * Evaluate content against the configured policy
    */
-  router.post('/evaluate', async (req: Request<object, unknown, EvaluateRequest>, res: Response): Promise<void> => {
+  router.post('/evaluate', authorize('evaluator'), quotaGuard, tokenRateLimiter, async (req: Request<object, unknown, EvaluateRequest>, res: Response): Promise<void> => {
     try {
-      const { content, policy } = req.body;
+      const { policy, policyId, short_circuit, metadata } = req.body;
+      const inputs = pickInputs(req.body);
+      // Guardrail requests may send only the LLM output, which is then the content evaluated
+      const content = req.body.content ?? inputs?.output ?? '';
+
+      const contentErrors = [...validateInputs(req.body), ...validateContent(content)];
+      if (contentErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: contentErrors.join('; ')
+        });
+        return;
+      }
+
+      const metadataErrors = validateMetadata(metadata);
+      if (metadataErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: metadataErrors.join('; ')
+        });
+        return;
+      }
 
-      if (!content || typeof content !== 'string') {
+      if (policy && policyId) {
         res.status(400).json({
           error: 'Bad Request',
-          message: 'content is required and must be a string'
+          message: 'Provide either policy or policyId, not both'
+        });
+        return;
+      }
+
+      // Resolve a named policy if requested
+      const namedPolicy = policyId ? policyEngine.getPolicyById(policyId) : null;
+      if (policyId && !namedPolicy) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Policy '${policyId}' not found`
         });
         return;
       }
 
-      // Validate policy if provided
+      // Validate policy if provided, including the placeholders its rules use
       if (policy) {
-        const validation = policyEngine.validatePolicy(policy);
+        const validation = policyEngine.validatePolicy(policy, undefined, getPromptFields(inputs));
         if (!validation.valid) {
           res.status(400).json({
             error: 'Invalid Policy',
@@ -77,24 +138,45 @@ export const createPolicyRoutes = (
         }
       }
 
+      // Every judge_prompt placeholder of a stored policy must be supplied by the request
+      const placeholderErrors = policy
+        ? []
+        : findMissingPlaceholders(flattenRules(namedPolicy || policyEngine.getActivePolicy()), getPromptFields(inputs));
+      if (placeholderErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: placeholderErrors.join('; ')
+        });
+        return;
+      }
+
       logger.info('[PolicyRoutes] Evaluate request received', {
-        contentLength: content.length,
-        hasCustomPolicy: !!policy
+        contentLength: getContentText(content).length,
+        hasCustomPolicy: !!policy,
+        policyId
       });
 
       // Get the active policy for saving to history
-      const activePolicy = policy ? (policy as Policy) : policyEngine.getActivePolicy();
+      const activePolicy = policy ? policyEngine.resolve(policy as Policy) : namedPolicy || policyEngine.getActivePolicy();
       
-      const verdict = await policyEngine.evaluate(content, { policy: policy as Policy });
+      const verdict = await policyEngine.evaluate(content, {
+        policy: policy as Policy,
+        policyId,
+        shortCircuit: short_circuit,
+        metadata,
+        ...(inputs ? { inputs } : {})
+      });
 
       // Save to history if database is connected and historyService is available
       let evaluationId: string | undefined;
       if (historyService && isDatabaseConnected()) {
         try {
           const historyRecord = await historyService.create({
-            content,
+            content: content,
             policy: activePolicy,
             result: verdict,
+            metadata,
+            inputs,
           });
           evaluationId = historyRecord.evaluationId;
           logger.info('[PolicyRoutes] Evaluation saved to history', { evaluationId });
@@ -125,11 +207,402 @@ export const createPolicyRoutes = (
     }
   });
 
+  /**
+   * POST /api/policy/evaluate/batch
+   * Evaluate many items against the configured (or named/provided) policy
+   */
+  router.post('/evaluate/batch', authorize('evaluator'), quotaGuard, tokenRateLimiter, async (req: Request<object, unknown, EvaluateBatchRequest>, res: Response): Promise<void> => {
+    try {
+      const { items, policy, policyId, short_circuit, metadata, concurrency, save_history } = req.body;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'items must be a non-empty array'
+        });
+        return;
+      }
+
+      if (items.length > MAX_BATCH_ITEMS) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `A batch may contain at most ${MAX_BATCH_ITEMS} items`
+        });
+        return;
+      }
+
+      const seenIds = new Set<string>();
+      for (const [index, item] of items.entries()) {
+        if (!item || typeof item.id !== 'string' || !item.id) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `items[${index}] must have a string id`
+          });
+          return;
+        }
+        const itemContentErrors = [...validateInputs(item), ...validateContent(item.content ?? item.output)];
+        if (itemContentErrors.length > 0) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `items[${index}]: ${itemContentErrors.join('; ')}`
+          });
+          return;
+        }
+        const itemMetadataErrors = validateMetadata(item.metadata);
+        if (itemMetadataErrors.length > 0) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `items[${index}]: ${itemMetadataErrors.join('; ')}`
+          });
+          return;
+        }
+        if (seenIds.has(item.id)) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `Duplicate item id '${item.id}'`
+          });
+          return;
+        }
+        seenIds.add(item.id);
+      }
+
+      const metadataErrors = validateMetadata(metadata);
+      if (metadataErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: metadataErrors.join('; ')
+        });
+        return;
+      }
+
+      if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'concurrency must be a positive integer'
+        });
+        return;
+      }
+
+      if (policy && policyId) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide either policy or policyId, not both'
+        });
+        return;
+      }
+
+      const namedPolicy = policyId ? policyEngine.getPolicyById(policyId) : null;
+      if (policyId && !namedPolicy) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Policy '${policyId}' not found`
+        });
+        return;
+      }
+
+      if (policy) {
+        const validation = policyEngine.validatePolicy(policy);
+        if (!validation.valid) {
+          res.status(400).json({
+            error: 'Invalid Policy',
+            message: 'Provided policy configuration is invalid',
+            errors: validation.errors,
+            warnings: validation.warnings
+          });
+          return;
+        }
+      }
+
+      const activePolicy = policy ? policyEngine.resolve(policy as Policy) : namedPolicy || policyEngine.getActivePolicy();
+
+      // Every judge_prompt placeholder must be supplied by each item
+      const activeRules = flattenRules(activePolicy);
+      for (const [index, item] of items.entries()) {
+        const placeholderErrors = findMissingPlaceholders(activeRules, getPromptFields(item));
+        if (placeholderErrors.length > 0) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `items[${index}]: ${placeholderErrors.join('; ')}`
+          });
+          return;
+        }
+      }
+
+      logger.info('[PolicyRoutes] Batch evaluate request received', {
+        items: items.length,
+        hasCustomPolicy: !!policy,
+        policyId,
+        saveHistory: !!save_history
+      });
+      const itemsById = new Map(items.map(item => [item.id, item]));
+      const saveToHistory = !!save_history && !!historyService && isDatabaseConnected();
+
+      const onItemComplete = async (result: BatchItemResult): Promise<void> => {
+        if (!saveToHistory || !historyService || !result.verdict) {
+          return;
+        }
+        const item = itemsById.get(result.id);
+        const historyRecord = await historyService.create({
+          content: item?.content ?? item?.output ?? '',
+          policy: activePolicy,
+          result: result.verdict,
+          metadata: item?.metadata ? { ...metadata, ...item.metadata } : metadata,
+          inputs: item ? pickInputs(item) : undefined,
+          tags: ['batch'],
+        });
+        result.evaluationId = historyRecord.evaluationId;
+      };
+
+      const result = await (policyEngine as PolicyEngine).evaluateBatch(items, {
+        policy: policy as Policy,
+        policyId,
+        shortCircuit: short_circuit,
+        metadata,
+        concurrency,
+        onItemComplete
+      });
+
+      res.json({
+        ...result,
+        historySaved: saveToHistory
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PolicyRoutes] Batch evaluation error', {
+        error: err.message
+      });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * Evaluate content and stream the results as Server-Sent Events:
+   * - start: policy and rules about to be evaluated
+   * - rule: one RuleResult as each rule finishes
+   * - result: the aggregated verdict (with evaluationId when saved)
+   * - error: evaluation failed after the stream was opened
+   * Request errors are reported as regular JSON responses before the stream opens.
+   */
+  const streamEvaluation = async (input: EvaluateRequest, res: Response): Promise<void> => {
+    try {
+      const { policy, policyId, short_circuit, metadata } = input;
+      const inputs = pickInputs(input);
+      const content = input.content ?? inputs?.output ?? '';
+
+      const contentErrors = [...validateInputs(input), ...validateContent(content)];
+      if (contentErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: contentErrors.join('; ')
+        });
+        return;
+      }
+
+      const metadataErrors = validateMetadata(metadata);
+      if (metadataErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: metadataErrors.join('; ')
+        });
+        return;
+      }
+
+      if (policy && policyId) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide either policy or policyId, not both'
+        });
+        return;
+      }
+
+      const namedPolicy = policyId ? policyEngine.getPolicyById(policyId) : null;
+      if (policyId && !namedPolicy) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Policy '${policyId}' not found`
+        });
+        return;
+      }
+
+      if (policy) {
+        const validation = policyEngine.validatePolicy(policy, undefined, getPromptFields(inputs));
+        if (!validation.valid) {
+          res.status(400).json({
+            error: 'Invalid Policy',
+            message: 'Provided policy configuration is invalid',
+            errors: validation.errors,
+            warnings: validation.warnings
+          });
+          return;
+        }
+      }
+
+      const placeholderErrors = policy
+        ? []
+        : findMissingPlaceholders(flattenRules(namedPolicy || policyEngine.getActivePolicy()), getPromptFields(inputs));
+      if (placeholderErrors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: placeholderErrors.join('; ')
+        });
+        return;
+      }
+
+      logger.info('[PolicyRoutes] Streaming evaluate request received', {
+        contentLength: getContentText(content).length,
+        hasCustomPolicy: !!policy,
+        policyId
+      });
+
+      const activePolicy = policy ? policyEngine.resolve(policy as Policy) : namedPolicy || policyEngine.getActivePolicy();
+      const activeRules = flattenRules(activePolicy);
+      const groupPaths = getGroupPaths(activePolicy);
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      // Stop writing once the client goes away; the evaluation itself still completes
+      let closed = false;
+      res.on('close', () => {
+        closed = true;
+      });
+
+      writeEvent(res, 'start', {
+        ...(namedPolicy ? { policy_id: policyId } : {}),
+        policy_name: activePolicy.name,
+        policy_version: activePolicy.version,
+        total_rules: activeRules.length,
+        rules: activeRules.map(rule => ({
+          id: rule.id,
+          description: rule.description,
+          on_fail: rule.on_fail,
+          ...(groupPaths.has(rule.id) ? { group_path: groupPaths.get(rule.id) } : {})
+        }))
+      });
+
+      let completed = 0;
+      const onRuleResult = (result: RuleResult): void => {
+        completed++;
+        if (!closed) {
+          writeEvent(res, 'rule', {
+            ...result,
+            completed,
+            total_rules: activeRules.length
+          });
+        }
+      };
+
+      try {
+        const verdict = await policyEngine.evaluate(content, {
+          policy: policy as Policy,
+          policyId,
+          shortCircuit: short_circuit,
+          metadata,
+          ...(inputs ? { inputs } : {}),
+          onRuleResult
+        });
+
+        let evaluationId: string | undefined;
+        if (historyService && isDatabaseConnected()) {
+          try {
+            const historyRecord = await historyService.create({
+              content,
+              policy: activePolicy,
+              result: verdict,
+              metadata,
+              inputs,
+            });
+            evaluationId = historyRecord.evaluationId;
+            logger.info('[PolicyRoutes] Evaluation saved to history', { evaluationId });
+          } catch (historyError) {
+            const hErr = historyError as Error;
+            logger.warn('[PolicyRoutes] Failed to save evaluation to history', {
+              error: hErr.message,
+            });
+          }
+        }
+
+        if (!closed) {
+          writeEvent(res, 'result', { ...verdict, evaluationId });
+        }
+      } catch (error) {
+        const err = error as Error;
+        logger.error('[PolicyRoutes] Streaming evaluation error', {
+          error: err.message
+        });
+        if (!closed) {
+          writeEvent(res, 'error', { error: 'Internal Server Error', message: err.message });
+        }
+      }
+
+      res.end();
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[PolicyRoutes] Streaming evaluation error', {
+        error: err.message
+      });
+
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  };
+
+  /**
+   * POST /api/policy/evaluate/stream
+   * Evaluate content, streaming each rule result as it completes
+   */
+  router.post('/evaluate/stream', authorize('evaluator'), quotaGuard, tokenRateLimiter, async (req: Request<object, unknown, EvaluateRequest>, res: Response): Promise<void> => {
+    await streamEvaluation(req.body || {}, res);
+  });
+
+  /**
+   * GET /api/policy/evaluate/stream?content=...&policyId=...&short_circuit=true&metadata={"channel":"web"}&input=...
+   * EventSource-friendly variant (no custom policy; metadata is JSON-encoded)
+   */
+  router.get('/evaluate/stream', authorize('evaluator'), quotaGuard, tokenRateLimiter, async (req: Request, res: Response): Promise<void> => {
+    const { content, policyId, short_circuit, metadata, input, output, context } = req.query;
+
+    // Unparseable metadata is passed on as-is and rejected by validation
+    let parsedMetadata: unknown = metadata;
+    if (typeof metadata === 'string') {
+      try {
+        parsedMetadata = metadata ? JSON.parse(metadata) : undefined;
+      } catch {
+        // Reported as invalid metadata
+      }
+    }
+
+    await streamEvaluation({
+      content: typeof content === 'string' ? content : undefined,
+      policyId: typeof policyId === 'string' && policyId ? policyId : undefined,
+      short_circuit: short_circuit === undefined ? undefined : short_circuit === 'true',
+      metadata: parsedMetadata as EvaluateRequest['metadata'],
+      ...pickInputs({ input, output, context } as EvaluateRequest)
+    }, res);
+  });
+
   /**
    * GET /api/policy/config
    * Get current policy configuration
    */
-  router.get('/config', (_req: Request, res: Response): void => {
+  router.get('/config', authorize('editor'), (_req: Request, res: Response): void => {
     try {
       const config = policyEngine.getConfig();
       res.json(config);
@@ -150,7 +623,7 @@ export const createPolicyRoutes = (
    * POST /api/policy/config
    * Update policy configuration (saved to MongoDB)
    */
-  router.post('/config', async (req: Request<object, unknown, ConfigUpdateRequest>, res: Response): Promise<void> => {
+  router.post('/config', authorize('admin'), async (req: Request<object, unknown, ConfigUpdateRequest>, res: Response): Promise<void> => {
     try {
       const newConfig = req.body;
 
@@ -168,7 +641,7 @@ export const createPolicyRoutes = (
           ...policyEngine.getConfig().policy,
           ...newConfig.policy
         };
-        const validation = policyEngine.validatePolicy(mergedPolicy);
+        const validation = policyEngine.validatePolicy(mergedPolicy, (policyEngine as PolicyEngine).getDefaultPolicyId());
         if (!validation.valid) {
           res.status(400).json({
             error: 'Invalid Configuration',
@@ -186,7 +659,8 @@ export const createPolicyRoutes = (
 
       // Use async method for MongoDB persistence
       const updatedConfig = await (policyEngine as PolicyEngine).updateConfigAsync(
-        newConfig as Parameters<typeof policyEngine.updateConfig>[0]
+        newConfig as Parameters<typeof policyEngine.updateConfig>[0],
+        getAuthor(req, res)
       );
 
       res.json({
@@ -212,7 +686,7 @@ export const createPolicyRoutes = (
    * POST /api/policy/config/reload
    * Reload configuration from MongoDB
    */
-  router.post('/config/reload', async (_req: Request, res: Response): Promise<void> => {
+  router.post('/config/reload', authorize('admin'), async (_req: Request, res: Response): Promise<void> => {
     try {
       logger.info('[PolicyRoutes] Config reload request');
 
@@ -241,11 +715,11 @@ export const createPolicyRoutes = (
    * POST /api/policy/config/reset
    * Reset configuration to default values
    */
-  router.post('/config/reset', async (_req: Request, res: Response): Promise<void> => {
+  router.post('/config/reset', authorize('admin'), async (req: Request, res: Response): Promise<void> => {
     try {
       logger.info('[PolicyRoutes] Config reset to default request');
 
-      const config = await (policyEngine as PolicyEngine).resetToDefault();
+      const config = await (policyEngine as PolicyEngine).resetToDefault(getAuthor(req, res));
 
       res.json({
         success: true,
@@ -299,9 +773,9 @@ export const createPolicyRoutes = (
    * POST /api/policy/validate
    * Validate a policy configuration without applying it
    */
-  router.post('/validate', (req: Request<object, unknown, ValidateRequest>, res: Response): void => {
+  router.post('/validate', authorize('editor'), (req: Request<object, unknown, ValidateRequest>, res: Response): void => {
     try {
-      const { policy } = req.body;
+      const { policy, fields } = req.body;
 
       if (!policy) {
         res.status(400).json({
@@ -311,7 +785,16 @@ export const createPolicyRoutes = (
         return;
       }
 
-      const validation = policyEngine.validatePolicy(policy);
+      if (fields !== undefined && (!Array.isArray(fields) || !fields.every(field => PROMPT_FIELDS.includes(field)))) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `fields must be an array of ${PROMPT_FIELDS.join(', ')}`
+        });
+        return;
+      }
+
+      // With fields, placeholders for guardrail fields the requests will not supply are errors
+      const validation = policyEngine.validatePolicy(policy, undefined, fields);
 
       res.json({
         valid: validation.valid,
@@ -336,21 +819,30 @@ export const createPolicyRoutes = (
    * POST /api/policy/rules
    * Add a new rule to the policy (saved to MongoDB)
    */
-  router.post('/rules', async (req: Request<object, unknown, RuleInput>, res: Response): Promise<void> => {
+  router.post('/rules', authorize('editor'), async (req: Request<object, unknown, RuleInput>, res: Response): Promise<void> => {
     try {
       const rule = req.body;
 
-      if (!rule || !rule.id || !rule.judge_prompt) {
+      if (!rule || !rule.id) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Rule must have an id field'
+        });
+        return;
+      }
+
+      const validation = (policyEngine as PolicyEngine).validatePolicyRule(rule);
+      if (!validation.valid) {
         res.status(400).json({
           error: 'Bad Request',
-          message: 'Rule must have id and judge_prompt fields'
+          message: validation.errors.join('; ')
         });
         return;
       }
 
       logger.info('[PolicyRoutes] Add rule request', { ruleId: rule.id });
 
-      const result = await (policyEngine as PolicyEngine).addRuleAsync(rule);
+      const result = await (policyEngine as PolicyEngine).addRuleAsync(rule, getAuthor(req, res));
 
       if (!result.success) {
         res.status(400).json({
@@ -384,7 +876,7 @@ export const createPolicyRoutes = (
    * PUT /api/policy/rules/:ruleId
    * Update an existing rule (saved to MongoDB)
    */
-  router.put('/rules/:ruleId', async (req: Request<{ ruleId: string }, unknown, Partial<RuleInput>>, res: Response): Promise<void> => {
+  router.put('/rules/:ruleId', authorize('editor'), async (req: Request<{ ruleId: string }, unknown, Partial<RuleInput>>, res: Response): Promise<void> => {
     try {
       const { ruleId } = req.params;
       const updates = req.body;
@@ -399,11 +891,11 @@ export const createPolicyRoutes = (
 
       logger.info('[PolicyRoutes] Update rule request', { ruleId });
 
-      const result = await (policyEngine as PolicyEngine).updateRuleAsync(ruleId, updates);
+      const result = await (policyEngine as PolicyEngine).updateRuleAsync(ruleId, updates, getAuthor(req, res));
 
       if (!result.success) {
-        res.status(404).json({
-          error: 'Not Found',
+        res.status(result.errors ? 400 : 404).json({
+          error: result.errors ? 'Bad Request' : 'Not Found',
           message: result.message
         });
         return;
@@ -433,13 +925,13 @@ export const createPolicyRoutes = (
    * DELETE /api/policy/rules/:ruleId
    * Delete a rule from the policy (saved to MongoDB)
    */
-  router.delete('/rules/:ruleId', async (req: Request<{ ruleId: string }>, res: Response): Promise<void> => {
+  router.delete('/rules/:ruleId', authorize('editor'), async (req: Request<{ ruleId: string }>, res: Response): Promise<void> => {
     try {
       const { ruleId } = req.params;
 
       logger.info('[PolicyRoutes] Delete rule request', { ruleId });
 
-      const result = await (policyEngine as PolicyEngine).deleteRuleAsync(ruleId);
+      const result = await (policyEngine as PolicyEngine).deleteRuleAsync(ruleId, getAuthor(req, res));
 
       if (!result.success) {
         res.status(404).json({
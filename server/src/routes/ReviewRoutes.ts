@@ -0,0 +1,293 @@
+/**
+ * ReviewRoutes - REST API endpoints for the human review queue
+ *
+ * Endpoints:
+ * - GET /api/reviews - List review items with pagination and filters
+ * - GET /api/reviews/stats - Get queue sizes and SLA statistics
+ * - GET /api/reviews/:reviewId - Get a review item
+ * - POST /api/reviews/:reviewId/claim - Claim an item
+ * - POST /api/reviews/:reviewId/release - Return a claimed item to the queue
+ * - POST /api/reviews/:reviewId/resolve - Approve or override the verdict
+ *
+ * WARN and UNCERTAIN evaluations are queued when they are saved to history.
+ * The reviewer is the authenticated principal, or the X-Author header when
+ * authentication is disabled.
+ */
+
+import { Router, Request, Response } from 'express';
+import { ReviewService, ReviewListOptions, ResolveReviewInput, validateResolution } from '../services/ReviewService';
+import { allowAll, getAuthor } from '../middleware/auth';
+import type { Logger, Authorize, ReviewStatus, ReviewTrigger, ReviewOperationResult } from '../types';
+
+export interface ReviewRoutesOptions {
+  logger?: Logger;
+  authorize?: Authorize;
+}
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'claimed', 'resolved'];
+const REVIEW_TRIGGERS: ReviewTrigger[] = ['warn', 'uncertain'];
+
+/**
+ * Create review queue routes
+ */
+export const createReviewRoutes = (
+  reviewService: ReviewService,
+  options: ReviewRoutesOptions = {}
+): Router => {
+  const router = Router();
+  const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+
+  /**
+   * Reviewer making the request, or null after responding with 400
+   */
+  const requireReviewer = (req: Request, res: Response): string | null => {
+    const reviewer = getAuthor(req, res);
+    if (!reviewer) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Reviewer is required: authenticate or send the X-Author header',
+      });
+      return null;
+    }
+    return reviewer;
+  };
+
+  /**
+   * Respond with the outcome of a claim, release or resolve
+   */
+  const sendResult = (res: Response, result: ReviewOperationResult): void => {
+    if (!result.success) {
+      res.status(result.errors ? 400 : result.notFound ? 404 : 409).json({
+        error: result.errors ? 'Bad Request' : result.notFound ? 'Not Found' : 'Conflict',
+        message: result.message,
+        ...(result.errors ? { errors: result.errors } : {}),
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      item: result.item,
+    });
+  };
+
+  /**
+   * GET /api/reviews
+   * List review items, oldest first, with filters
+   */
+  router.get('/', authorize('editor'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const {
+        page = '1',
+        limit = '20',
+        status,
+        trigger,
+        assignee,
+        overdue,
+      } = req.query;
+
+      if (status && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `status must be one of ${REVIEW_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      if (trigger && !REVIEW_TRIGGERS.includes(trigger as ReviewTrigger)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `trigger must be one of ${REVIEW_TRIGGERS.join(', ')}`,
+        });
+        return;
+      }
+
+      const listOptions: ReviewListOptions = {
+        page: Math.max(parseInt(page as string, 10) || 1, 1),
+        limit: Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 100), // Cap at 100
+      };
+
+      if (status) {
+        listOptions.status = status as ReviewStatus;
+      }
+
+      if (trigger) {
+        listOptions.trigger = trigger as ReviewTrigger;
+      }
+
+      if (assignee) {
+        listOptions.assignee = assignee as string;
+      }
+
+      if (overdue === 'true') {
+        listOptions.overdue = true;
+      }
+
+      logger.info('[ReviewRoutes] List reviews request', { ...listOptions });
+
+      const result = await reviewService.list(listOptions);
+
+      res.json(result);
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[ReviewRoutes] List reviews error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/reviews/stats
+   * Get queue sizes, SLA breaches and average time to claim and resolve
+   */
+  router.get('/stats', authorize('editor'), async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const stats = await reviewService.getStats();
+
+      res.json(stats);
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[ReviewRoutes] Get review stats error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/reviews/:reviewId
+   * Get a review item by ID
+   */
+  router.get('/:reviewId', authorize('editor'), async (req: Request<{ reviewId: string }>, res: Response): Promise<void> => {
+    try {
+      const { reviewId } = req.params;
+
+      const item = await reviewService.get(reviewId);
+
+      if (!item) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Review '${reviewId}' not found`,
+        });
+        return;
+      }
+
+      res.json(item);
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[ReviewRoutes] Get review error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/reviews/:reviewId/claim
+   * Claim a pending item for the reviewer
+   */
+  router.post('/:reviewId/claim', authorize('editor'), async (req: Request<{ reviewId: string }>, res: Response): Promise<void> => {
+    try {
+      const { reviewId } = req.params;
+      const reviewer = requireReviewer(req, res);
+      if (!reviewer) {
+        return;
+      }
+
+      logger.info('[ReviewRoutes] Claim review request', { reviewId, reviewer });
+
+      sendResult(res, await reviewService.claim(reviewId, reviewer));
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[ReviewRoutes] Claim review error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/reviews/:reviewId/release
+   * Return an item the reviewer claimed to the queue
+   */
+  router.post('/:reviewId/release', authorize('editor'), async (req: Request<{ reviewId: string }>, res: Response): Promise<void> => {
+    try {
+      const { reviewId } = req.params;
+      const reviewer = requireReviewer(req, res);
+      if (!reviewer) {
+        return;
+      }
+
+      logger.info('[ReviewRoutes] Release review request', { reviewId, reviewer });
+
+      sendResult(res, await reviewService.release(reviewId, reviewer));
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[ReviewRoutes] Release review error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/reviews/:reviewId/resolve
+   * Approve the engine verdict or override it, with a rationale
+   */
+  router.post('/:reviewId/resolve', authorize('editor'), async (req: Request<{ reviewId: string }, unknown, Partial<ResolveReviewInput>>, res: Response): Promise<void> => {
+    try {
+      const { reviewId } = req.params;
+      const { decision, verdict, rationale } = req.body || {};
+
+      const errors = validateResolution({ decision, verdict, rationale });
+      if (errors.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid resolution',
+          errors,
+        });
+        return;
+      }
+
+      const reviewer = requireReviewer(req, res);
+      if (!reviewer) {
+        return;
+      }
+
+      logger.info('[ReviewRoutes] Resolve review request', { reviewId, reviewer, decision, verdict });
+
+      // validateResolution has checked the decision
+      sendResult(res, await reviewService.resolve(reviewId, reviewer, { decision, verdict, rationale } as ResolveReviewInput));
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[ReviewRoutes] Resolve review error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message,
+      });
+    }
+  });
+
+  return router;
+};
+
+export default createReviewRoutes;
@@ -0,0 +1,388 @@
+/**
+ * TestSuiteRoutes - REST API endpoints for labeled policy test suites
+ *
+ * Endpoints:
+ * - GET /api/test-suites - List test suites
+ * - POST /api/test-suites - Create a test suite
+ * - GET /api/test-suites/:suiteId - Get a test suite with its cases
+ * - PUT /api/test-suites/:suiteId - Update a test suite
+ * - DELETE /api/test-suites/:suiteId - Delete a test suite and its runs
+ * - POST /api/test-suites/:suiteId/run - Run a suite against a policy
+ * - GET /api/test-suites/:suiteId/runs - List a suite's runs
+ * - GET /api/test-suites/:suiteId/runs/:runId - Get a run with per-case results
+ *
+ * History records are promoted into test cases with
+ * POST /api/history/:evaluationId/promote.
+ */
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { TestSuiteService } from '../services/TestSuiteService';
+import { flattenRules } from '../services/RuleGroups';
+import { getPromptFields, findMissingPlaceholders } from '../services/PromptTemplate';
+import { allowAll, getAuthor } from '../middleware/auth';
+import { unlimitedQuota } from '../middleware/tenant';
+import type {
+  Logger,
+  Authorize,
+  Policy,
+  PolicyEngineInterface,
+  TestSuiteInput,
+  TestSuiteOperationResult
+} from '../types';
+
+export interface TestSuiteRoutesOptions {
+  logger?: Logger;
+  authorize?: Authorize;
+  quotaGuard?: RequestHandler;
+}
+
+interface RunTestSuiteRequest {
+  policy?: Policy;
+  policyId?: string;
+  concurrency?: number;
+}
+
+/**
+ * Create test suite routes
+ */
+export const createTestSuiteRoutes = (
+  testSuiteService: TestSuiteService,
+  policyEngine: PolicyEngineInterface,
+  options: TestSuiteRoutesOptions = {}
+): Router => {
+  const router = Router();
+  const logger: Logger = options.logger || console;
+  const authorize: Authorize = options.authorize || allowAll;
+  const quotaGuard = options.quotaGuard || unlimitedQuota;
+
+  /**
+   * Respond with the outcome of a create or update
+   */
+  const sendResult = (res: Response, result: TestSuiteOperationResult, message: string): void => {
+    if (!result.success) {
+      res.status(result.errors ? 400 : result.notFound ? 404 : 409).json({
+        error: result.errors ? 'Bad Request' : result.notFound ? 'Not Found' : 'Conflict',
+        message: result.message,
+        ...(result.errors ? { errors: result.errors } : {})
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message,
+      suite: result.suite
+    });
+  };
+
+  /**
+   * GET /api/test-suites
+   * List test suites by name
+   */
+  router.get('/', authorize('editor'), async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const suites = await testSuiteService.list();
+
+      res.json({
+        success: true,
+        count: suites.length,
+        suites
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] List test suites error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * POST /api/test-suites
+   * Create a test suite
+   */
+  router.post('/', authorize('editor'), async (req: Request<object, unknown, TestSuiteInput>, res: Response): Promise<void> => {
+    try {
+      const input = req.body || {};
+
+      logger.info('[TestSuiteRoutes] Create test suite request', {
+        name: input.name,
+        cases: Array.isArray(input.cases) ? input.cases.length : 0
+      });
+
+      sendResult(res, await testSuiteService.create(input, getAuthor(req, res)), 'Test suite created');
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] Create test suite error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/test-suites/:suiteId
+   * Get a test suite with its cases
+   */
+  router.get('/:suiteId', authorize('editor'), async (req: Request<{ suiteId: string }>, res: Response): Promise<void> => {
+    try {
+      const { suiteId } = req.params;
+
+      const suite = await testSuiteService.get(suiteId);
+
+      if (!suite) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Test suite '${suiteId}' not found`
+        });
+        return;
+      }
+
+      res.json(suite);
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] Get test suite error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * PUT /api/test-suites/:suiteId
+   * Update a suite's name, description or cases (cases are replaced as a whole)
+   */
+  router.put('/:suiteId', authorize('editor'), async (req: Request<{ suiteId: string }, unknown, TestSuiteInput>, res: Response): Promise<void> => {
+    try {
+      const { suiteId } = req.params;
+
+      logger.info('[TestSuiteRoutes] Update test suite request', { suiteId });
+
+      sendResult(res, await testSuiteService.update(suiteId, req.body || {}, getAuthor(req, res)), 'Test suite updated');
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] Update test suite error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/test-suites/:suiteId
+   * Delete a test suite and its runs
+   */
+  router.delete('/:suiteId', authorize('editor'), async (req: Request<{ suiteId: string }>, res: Response): Promise<void> => {
+    try {
+      const { suiteId } = req.params;
+
+      logger.info('[TestSuiteRoutes] Delete test suite request', { suiteId });
+
+      const deleted = await testSuiteService.delete(suiteId);
+
+      if (!deleted) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Test suite '${suiteId}' not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Test suite '${suiteId}' deleted successfully`
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] Delete test suite error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * POST /api/test-suites/:suiteId/run
+   * Run a suite against the active policy, a named policy (policyId) or a draft policy
+   */
+  router.post('/:suiteId/run', authorize('editor'), quotaGuard, async (req: Request<{ suiteId: string }, unknown, RunTestSuiteRequest>, res: Response): Promise<void> => {
+    try {
+      const { suiteId } = req.params;
+      const { policy, policyId, concurrency } = req.body || {};
+
+      if (policy && policyId) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide either policy or policyId, not both'
+        });
+        return;
+      }
+
+      if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'concurrency must be a positive integer'
+        });
+        return;
+      }
+
+      const suite = await testSuiteService.get(suiteId);
+      if (!suite) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Test suite '${suiteId}' not found`
+        });
+        return;
+      }
+
+      if (suite.cases.length === 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Test suite '${suite.name}' has no cases`
+        });
+        return;
+      }
+
+      const namedPolicy = policyId ? policyEngine.getPolicyById(policyId) : null;
+      if (policyId && !namedPolicy) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Policy '${policyId}' not found`
+        });
+        return;
+      }
+
+      if (policy) {
+        const validation = policyEngine.validatePolicy(policy);
+        if (!validation.valid) {
+          res.status(400).json({
+            error: 'Invalid Policy',
+            message: 'Provided policy configuration is invalid',
+            errors: validation.errors,
+            warnings: validation.warnings
+          });
+          return;
+        }
+      }
+
+      // Every judge_prompt placeholder must be supplied by each case
+      const rules = flattenRules(policy ? policyEngine.resolve(policy) : namedPolicy || policyEngine.getActivePolicy());
+      for (const [index, testCase] of suite.cases.entries()) {
+        const placeholderErrors = findMissingPlaceholders(rules, getPromptFields(testCase));
+        if (placeholderErrors.length > 0) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `cases[${index}]: ${placeholderErrors.join('; ')}`
+          });
+          return;
+        }
+      }
+
+      logger.info('[TestSuiteRoutes] Run test suite request', {
+        suiteId,
+        cases: suite.cases.length,
+        hasDraftPolicy: !!policy,
+        policyId
+      });
+
+      const run = await testSuiteService.run(suite, {
+        policy,
+        policyId,
+        concurrency,
+        author: getAuthor(req, res)
+      });
+
+      res.json({
+        success: true,
+        run
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] Run test suite error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/test-suites/:suiteId/runs?limit=20
+   * List a suite's runs, newest first, without per-case results
+   */
+  router.get('/:suiteId/runs', authorize('editor'), async (req: Request<{ suiteId: string }>, res: Response): Promise<void> => {
+    try {
+      const { suiteId } = req.params;
+      const limit = Math.min(Math.max(parseInt(req.query['limit'] as string, 10) || 20, 1), 100); // Cap at 100
+
+      const runs = await testSuiteService.listRuns(suiteId, limit);
+
+      res.json({
+        success: true,
+        count: runs.length,
+        runs
+      });
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] List test runs error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/test-suites/:suiteId/runs/:runId
+   * Get a run with its per-case results
+   */
+  router.get('/:suiteId/runs/:runId', authorize('editor'), async (req: Request<{ suiteId: string; runId: string }>, res: Response): Promise<void> => {
+    try {
+      const { suiteId, runId } = req.params;
+
+      const run = await testSuiteService.getRun(suiteId, runId);
+
+      if (!run) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Test run '${runId}' not found`
+        });
+        return;
+      }
+
+      res.json(run);
+
+    } catch (error) {
+      const err = error as Error;
+      logger.error('[TestSuiteRoutes] Get test run error', { error: err.message });
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: err.message
+      });
+    }
+  });
+
+  return router;
+};
+
+export default createTestSuiteRoutes;
@@ -1,14 +1,21 @@
 /**
  * AggregationStrategy - Evaluation strategy implementations for policy verdicts
  * 
- * Implements three strategies:
+ * Implements five strategies:
  * - all: All rules must pass
  * - any: At least one rule must pass
- * - weighted_threshold: Weighted sum of passed rules must exceed threshold
+ * - weighted_threshold: Weighted sum of passed rules must exceed threshold,
+ *   optionally with each weight scaled by the verdict's confidence
+ * - priority: Rules in policy order; the first failing rule decides the action
+ * - expression: A boolean expression over rule ids decides the verdict
+ *
+ * Rules that don't apply to the content (NOT_APPLICABLE) are left out before
+ * any strategy sees them; see aggregateApplicable.
  */
 
 import type {
   Logger,
+  Rule,
   RuleResult,
   Policy,
   AggregationResult,
@@ -17,6 +24,14 @@ import type {
   FinalVerdict,
   Action
 } from '../types';
+import {
+  parseExpression,
+  evaluateExpression,
+  getExpressionRuleIds,
+  toExpressionValue,
+  ExpressionNode,
+  ExpressionValue
+} from './RuleExpression';
 
 /**
  * Map of actions to final verdict priorities (higher = more severe)
@@ -46,6 +61,17 @@ export abstract class BaseStrategy implements AggregationStrategyInterface {
    */
   abstract aggregate(ruleResults: RuleResult[], policy: Policy): AggregationResult;
 
+  /**
+   * Whether the final verdict is already decided, whatever the pending rules return.
+   * Used for short-circuit evaluation; strategies that cannot decide early return false.
+   * @param ruleResults - Results received so far
+   * @param pendingRules - Rules still being evaluated
+   * @param policy - Policy configuration
+   */
+  isSettled(_ruleResults: RuleResult[], _pendingRules: Rule[], _policy: Policy): boolean {
+    return false;
+  }
+
   /**
    * Determine final action based on rule results
    * @protected
@@ -132,6 +158,27 @@ export class AllStrategy extends BaseStrategy {
       }
     };
   }
+
+  /**
+   * Settled once a failure is at least as severe as anything a pending rule could add.
+   * Pending redact rules at the same severity still run so redaction stays complete.
+   */
+  override isSettled(ruleResults: RuleResult[], pendingRules: Rule[], policy: Policy): boolean {
+    const failedRules = ruleResults.filter(r => r.verdict === 'FAIL');
+    if (failedRules.length === 0) {
+      return false;
+    }
+
+    const currentPriority = Math.max(
+      ACTION_PRIORITY[policy.default_action] || 0,
+      ...failedRules.map(r => ACTION_PRIORITY[r.action] || 0)
+    );
+
+    return pendingRules.every(rule => {
+      const priority = ACTION_PRIORITY[rule.on_fail] || 0;
+      return priority < currentPriority || (priority === currentPriority && rule.on_fail !== 'redact');
+    });
+  }
 }
 
 /**
@@ -198,14 +245,25 @@ export class AnyStrategy extends BaseStrategy {
       }
     };
   }
+
+  /**
+   * Settled as soon as any rule passes
+   */
+  override isSettled(ruleResults: RuleResult[]): boolean {
+    return ruleResults.some(r => r.verdict === 'PASS');
+  }
 }
 
 /**
- * WEIGHTED_THRESHOLD Strategy - Weighted sum of passed rules must exceed threshold
+ * WEIGHTED_THRESHOLD Strategy - Weighted sum of passed rules must exceed threshold.
+ * With confidence_weighted, a rule counts for weight x confidence, so confident
+ * verdicts move the score more than hesitant ones.
  */
 export class WeightedThresholdStrategy extends BaseStrategy {
   aggregate(ruleResults: RuleResult[], policy: Policy): AggregationResult {
     const threshold = policy.threshold || 0.7;
+    const confidenceWeighted = !!policy.confidence_weighted;
+    const scoreLabel = confidenceWeighted ? 'Confidence-weighted score' : 'Weighted score';
     
     let totalWeight = 0;
     let passedWeight = 0;
@@ -214,7 +272,9 @@ export class WeightedThresholdStrategy extends BaseStrategy {
     const uncertainRules: RuleResult[] = [];
 
     for (const result of ruleResults) {
-      const weight = result.weight || 1.0;
+      if (result.verdict === 'SKIPPED') continue;
+
+      const weight = (result.weight || 1.0) * (confidenceWeighted ? result.confidence : 1);
       totalWeight += weight;
 
       if (result.verdict === 'PASS') {
@@ -237,6 +297,7 @@ export class WeightedThresholdStrategy extends BaseStrategy {
       passedWeight,
       score: score.toFixed(3),
       threshold,
+      confidenceWeighted,
       passed
     });
 
@@ -252,7 +313,8 @@ export class WeightedThresholdStrategy extends BaseStrategy {
           strategy: 'weighted_threshold',
           score: parseFloat(score.toFixed(3)),
           threshold,
-          reason: `Weighted score ${(score * 100).toFixed(1)}% >= threshold ${(threshold * 100).toFixed(1)}%`
+          ...(confidenceWeighted ? { confidence_weighted: true } : {}),
+          reason: `${scoreLabel} ${(score * 100).toFixed(1)}% >= threshold ${(threshold * 100).toFixed(1)}%`
         }
       };
     }
@@ -273,15 +335,239 @@ export class WeightedThresholdStrategy extends BaseStrategy {
         strategy: 'weighted_threshold',
         score: parseFloat(score.toFixed(3)),
         threshold,
-        reason: `Weighted score ${(score * 100).toFixed(1)}% < threshold ${(threshold * 100).toFixed(1)}%`
+        ...(confidenceWeighted ? { confidence_weighted: true } : {}),
+        reason: `${scoreLabel} ${(score * 100).toFixed(1)}% < threshold ${(threshold * 100).toFixed(1)}%`
       }
     };
   }
 }
 
+/**
+ * PRIORITY Strategy - Rules are checked in policy order and the first failing
+ * rule decides the action, whatever later rules return
+ */
+export class PriorityStrategy extends BaseStrategy {
+  aggregate(ruleResults: RuleResult[], policy: Policy): AggregationResult {
+    const ordered = this.inPolicyOrder(ruleResults, policy);
+    const passedRules = ordered.filter(r => r.verdict === 'PASS');
+    const failedRules = ordered.filter(r => r.verdict === 'FAIL');
+    const uncertainRules = ordered.filter(r => r.verdict === 'UNCERTAIN');
+    const decidingRule = failedRules[0];
+
+    this.logger.info('[PriorityStrategy] Aggregating results', {
+      total: ruleResults.length,
+      failed: failedRules.length,
+      decidedBy: decidingRule?.rule_id
+    });
+
+    const counts = {
+      total_rules: ruleResults.length,
+      passed: passedRules.length,
+      failed: failedRules.length,
+      uncertain: uncertainRules.length,
+      strategy: 'priority' as const
+    };
+
+    if (decidingRule) {
+      const position = ordered.indexOf(decidingRule) + 1;
+      const finalAction = decidingRule.action.toUpperCase() as FinalVerdict;
+
+      return {
+        final_verdict: finalAction,
+        passed: finalAction === 'ALLOW',
+        summary: {
+          ...counts,
+          decided_by: decidingRule.rule_id,
+          reason: `Rule '${decidingRule.rule_id}' (priority ${position} of ${ordered.length}) failed first - action ${finalAction}`
+        }
+      };
+    }
+
+    if (uncertainRules.length > 0) {
+      return {
+        final_verdict: 'WARN',
+        passed: true,
+        summary: {
+          ...counts,
+          reason: `No rule failed, ${uncertainRules.length} rule(s) uncertain - manual review recommended`
+        }
+      };
+    }
+
+    return {
+      final_verdict: 'ALLOW',
+      passed: true,
+      summary: {
+        ...counts,
+        reason: 'No rule failed'
+      }
+    };
+  }
+
+  /**
+   * Settled once a rule has failed and every rule ahead of it has a result.
+   * A deciding redact rule still waits for later redact rules so redaction stays complete.
+   */
+  override isSettled(ruleResults: RuleResult[], pendingRules: Rule[], policy: Policy): boolean {
+    const first = this.inPolicyOrder(ruleResults, policy).find(r => r.verdict === 'FAIL');
+    if (!first) {
+      return false;
+    }
+
+    const position = policy.rules.findIndex(rule => rule.id === first.rule_id);
+    return pendingRules.every(rule => {
+      const pendingPosition = policy.rules.findIndex(r => r.id === rule.id);
+      return pendingPosition > position && !(first.action === 'redact' && rule.on_fail === 'redact');
+    });
+  }
+
+  /**
+   * Results sorted by the position of their rule in the policy
+   */
+  private inPolicyOrder(ruleResults: RuleResult[], policy: Policy): RuleResult[] {
+    const position = (result: RuleResult): number => {
+      const index = policy.rules.findIndex(rule => rule.id === result.rule_id);
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    };
+    return [...ruleResults].sort((a, b) => position(a) - position(b));
+  }
+}
+
+/**
+ * EXPRESSION Strategy - policy.expression over rule ids decides the verdict,
+ * e.g. "(no_pii AND no_toxicity) OR approved_domain". Rules not named in the
+ * expression are reported but do not affect the verdict. Named rules without
+ * a result did not apply to the content and are left out of the expression.
+ */
+export class ExpressionStrategy extends BaseStrategy {
+  aggregate(ruleResults: RuleResult[], policy: Policy): AggregationResult {
+    const tree = this.parse(policy);
+    const ruleIds = getExpressionRuleIds(tree);
+    const referenced = ruleResults.filter(r => ruleIds.includes(r.rule_id));
+    const notApplicable = ruleIds.filter(id => !referenced.some(r => r.rule_id === id));
+    const value = evaluateExpression(tree, this.toValues(ruleResults), new Set(notApplicable));
+
+    const passedRules = ruleResults.filter(r => r.verdict === 'PASS');
+    const failedRules = ruleResults.filter(r => r.verdict === 'FAIL');
+    const uncertainRules = ruleResults.filter(r => r.verdict === 'UNCERTAIN');
+
+    this.logger.info('[ExpressionStrategy] Aggregating results', {
+      expression: policy.expression,
+      total: ruleResults.length,
+      value
+    });
+
+    const outcome = referenced.map(r => `${r.rule_id}=${r.verdict}`).join(', ');
+    const summary = {
+      total_rules: ruleResults.length,
+      passed: passedRules.length,
+      failed: failedRules.length,
+      uncertain: uncertainRules.length,
+      strategy: 'expression' as const,
+      expression: policy.expression
+    };
+
+    if (value === true) {
+      return {
+        final_verdict: 'ALLOW',
+        passed: true,
+        summary: { ...summary, reason: `Expression is true (${outcome})` }
+      };
+    }
+
+    if (value === null) {
+      return {
+        final_verdict: 'WARN',
+        passed: false,
+        summary: { ...summary, reason: `Expression is undetermined (${outcome}) - manual review required` }
+      };
+    }
+
+    // The failed rules named in the expression decide the action
+    const finalAction = this.determineFinalAction(
+      failedRules.filter(r => ruleIds.includes(r.rule_id)),
+      policy.default_action
+    );
+
+    return {
+      final_verdict: finalAction,
+      passed: false,
+      summary: { ...summary, reason: `Expression is false (${outcome})` }
+    };
+  }
+
+  /**
+   * Settled once the expression has a definite value, whatever the pending
+   * rules return. A false expression still waits for pending redact rules.
+   */
+  override isSettled(ruleResults: RuleResult[], pendingRules: Rule[], policy: Policy): boolean {
+    const tree = this.parse(policy);
+    const notApplicable = getExpressionRuleIds(tree).filter(id =>
+      !ruleResults.some(r => r.rule_id === id) && !pendingRules.some(rule => rule.id === id));
+    const value = evaluateExpression(tree, this.toValues(ruleResults), new Set(notApplicable));
+    if (value === null) {
+      return false;
+    }
+    return value || pendingRules.every(rule => rule.on_fail !== 'redact');
+  }
+
+  private parse(policy: Policy): ExpressionNode {
+    if (!policy.expression) {
+      throw new Error('expression strategy requires policy.expression');
+    }
+    return parseExpression(policy.expression);
+  }
+
+  private toValues(ruleResults: RuleResult[]): Map<string, ExpressionValue> {
+    return new Map(ruleResults.map(r => [r.rule_id, toExpressionValue(r.verdict)]));
+  }
+}
+
+/**
+ * Aggregate with a strategy, leaving out rules that don't apply to the content.
+ * When no rule applies there is nothing to object to, so the content is allowed.
+ */
+export const aggregateApplicable = (
+  strategy: AggregationStrategyInterface,
+  ruleResults: RuleResult[],
+  policy: Policy
+): AggregationResult => {
+  const applicable = ruleResults.filter(r => r.verdict !== 'NOT_APPLICABLE');
+  const notApplicable = ruleResults.length - applicable.length;
+  if (notApplicable === 0) {
+    return strategy.aggregate(ruleResults, policy);
+  }
+
+  if (applicable.length === 0) {
+    return {
+      final_verdict: 'ALLOW',
+      passed: true,
+      summary: {
+        total_rules: 0,
+        passed: 0,
+        failed: 0,
+        uncertain: 0,
+        strategy: policy.evaluation_strategy,
+        not_applicable: notApplicable,
+        reason: 'No rule applies to this content'
+      }
+    };
+  }
+
+  const aggregation = strategy.aggregate(applicable, policy);
+  return {
+    ...aggregation,
+    summary: {
+      ...aggregation.summary,
+      not_applicable: notApplicable,
+      reason: `${aggregation.summary.reason} (${notApplicable} rule(s) not applicable)`
+    }
+  };
+};
+
 /**
  * Strategy factory - returns appropriate strategy instance
- * @param strategyName - Name of strategy ('all', 'any', 'weighted_threshold')
+ * @param strategyName - Name of strategy ('all', 'any', 'weighted_threshold', 'priority', 'expression')
  * @param logger - Logger instance
  * @returns Strategy instance
  */
@@ -289,13 +575,15 @@ export const createStrategy = (strategyName: EvaluationStrategy, logger?: Logger
   const strategies: Record<EvaluationStrategy, new (logger?: Logger) => BaseStrategy> = {
     all: AllStrategy,
     any: AnyStrategy,
-    weighted_threshold: WeightedThresholdStrategy
+    weighted_threshold: WeightedThresholdStrategy,
+    priority: PriorityStrategy,
+    expression: ExpressionStrategy
   };
 
   const StrategyClass = strategies[strategyName];
   
   if (!StrategyClass) {
-    throw new Error(`Unknown evaluation strategy: ${strategyName}. Valid options: all, any, weighted_threshold`);
+    throw new Error(`Unknown evaluation strategy: ${strategyName}. Valid options: ${getAvailableStrategies().join(', ')}`);
   }
 
   return new StrategyClass(logger);
@@ -306,6 +594,6 @@ export const createStrategy = (strategyName: EvaluationStrategy, logger?: Logger
  * @returns Available strategy names
  */
 export const getAvailableStrategies = (): EvaluationStrategy[] => {
-  return ['all', 'any', 'weighted_threshold'];
+  return ['all', 'any', 'weighted_threshold', 'priority', 'expression'];
 };
 
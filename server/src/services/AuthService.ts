@@ -0,0 +1,322 @@
+/**
+ * AuthService - API key and JWT authentication
+ *
+ * Design Principles:
+ * - API keys are random, shown once, and stored only as SHA-256 hashes
+ * - JWTs are HS256 tokens signed with JWT_SECRET carrying a `role` claim
+ *   and an optional `tenant` claim
+ * - Roles are ordered: evaluator < editor < admin
+ * - Every principal belongs to a tenant; keys are managed per tenant
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, IApiKey } from '../models/ApiKey';
+import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID, isValidTenantId } from '../config/tenants';
+import type {
+  Logger,
+  Role,
+  AuthPrincipal,
+  ApiKeyInfo
+} from '../types';
+
+export const ROLES: Role[] = ['evaluator', 'editor', 'admin'];
+
+export const API_KEY_PREFIX = 'tw_';
+
+// Characters of the key kept in plain text for identification
+const KEY_PREFIX_LENGTH = 10;
+
+// Skip lastUsedAt writes when the key was used this recently
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface CreateApiKeyInput {
+  name: string;
+  role: Role;
+  tenantId: string;
+  createdBy?: string;
+}
+
+export interface CreateApiKeyResult {
+  key: string;
+  apiKey: ApiKeyInfo;
+}
+
+export interface AuthCredentials {
+  apiKey?: string;
+  bearer?: string;
+}
+
+export interface AuthServiceOptions {
+  logger?: Logger;
+  jwtSecret?: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+};
+
+/**
+ * Whether a role grants at least the required role
+ */
+export const hasRole = (role: Role, required: Role): boolean => {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+};
+
+export const hashApiKey = (key: string): string => {
+  return createHash('sha256').update(key).digest('hex');
+};
+
+export const generateApiKey = (): string => {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Verify an HS256 JWT and return its claims, or null if the signature,
+ * algorithm, exp or nbf check fails
+ */
+export const verifyJwt = (token: string, secret: string, now: number = Date.now()): Record<string, unknown> | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  const [header, payload, signature] = parts as [string, string, string];
+
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf8')) as Record<string, unknown>;
+    if (decodedHeader['alg'] !== 'HS256') {
+      return null;
+    }
+
+    const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+    if (!safeEqual(signature, expected)) {
+      return null;
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Record<string, unknown>;
+    const nowSeconds = Math.floor(now / 1000);
+    if (typeof claims['exp'] === 'number' && claims['exp'] <= nowSeconds) {
+      return null;
+    }
+    if (typeof claims['nbf'] === 'number' && claims['nbf'] > nowSeconds) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+// ============================================
+// Service Class
+// ============================================
+
+export class AuthService {
+  private logger: Logger;
+  private jwtSecret?: string;
+
+  constructor(options: AuthServiceOptions = {}) {
+    this.logger = options.logger || console;
+    this.jwtSecret = options.jwtSecret ?? process.env['JWT_SECRET'];
+  }
+
+  /**
+   * Create an API key. The returned key is not stored and cannot be recovered.
+   */
+  async createKey(input: CreateApiKeyInput): Promise<CreateApiKeyResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const key = generateApiKey();
+    const doc = new ApiKey({
+      keyId: uuidv4(),
+      name: input.name,
+      role: input.role,
+      tenantId: input.tenantId,
+      keyHash: hashApiKey(key),
+      prefix: key.slice(0, KEY_PREFIX_LENGTH),
+      createdBy: input.createdBy,
+    });
+    await doc.save();
+
+    this.logger.info('[AuthService] API key created', {
+      keyId: doc.keyId,
+      name: doc.name,
+      role: doc.role,
+      tenantId: doc.tenantId,
+      createdBy: input.createdBy
+    });
+
+    return { key, apiKey: this.toApiKeyInfo(doc) };
+  }
+
+  /**
+   * List a tenant's API keys (hashes are never returned)
+   */
+  async listKeys(tenantId: string): Promise<ApiKeyInfo[]> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const docs = await ApiKey.find({ tenantId }).sort({ createdAt: -1 });
+    return docs.map(doc => this.toApiKeyInfo(doc));
+  }
+
+  /**
+   * Revoke one of a tenant's API keys
+   * @returns The revoked key, or null if the tenant has no such key
+   */
+  async revokeKey(keyId: string, tenantId: string): Promise<ApiKeyInfo | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await ApiKey.findOneAndUpdate(
+      { keyId, tenantId },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+
+    if (doc) {
+      this.logger.info('[AuthService] API key revoked', { keyId, tenantId, name: doc.name });
+    }
+
+    return doc ? this.toApiKeyInfo(doc) : null;
+  }
+
+  /**
+   * Register a key supplied by the operator (AUTH_BOOTSTRAP_KEY) as an admin
+   * key of the default tenant, so the first real keys (for any tenant) can be
+   * created through the admin endpoints
+   */
+  async ensureBootstrapKey(key: string): Promise<void> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const keyHash = hashApiKey(key);
+    const existing = await ApiKey.findOne({ keyHash });
+    if (existing) {
+      return;
+    }
+
+    await new ApiKey({
+      keyId: uuidv4(),
+      name: 'bootstrap',
+      role: 'admin',
+      tenantId: DEFAULT_TENANT_ID,
+      keyHash,
+      prefix: key.slice(0, KEY_PREFIX_LENGTH),
+      createdBy: 'system',
+    }).save();
+
+    this.logger.info('[AuthService] Bootstrap admin key registered');
+  }
+
+  /**
+   * Resolve the principal for a request's credentials
+   */
+  async authenticate(credentials: AuthCredentials): Promise<AuthPrincipal | null> {
+    if (credentials.apiKey) {
+      return this.authenticateApiKey(credentials.apiKey);
+    }
+    if (credentials.bearer) {
+      return credentials.bearer.startsWith(API_KEY_PREFIX)
+        ? this.authenticateApiKey(credentials.bearer)
+        : this.authenticateJwt(credentials.bearer);
+    }
+    return null;
+  }
+
+  /**
+   * Look up an API key by hash
+   */
+  async authenticateApiKey(key: string): Promise<AuthPrincipal | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await ApiKey.findOne({ keyHash: hashApiKey(key) });
+    if (!doc || doc.revokedAt) {
+      return null;
+    }
+
+    if (!doc.lastUsedAt || Date.now() - doc.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      ApiKey.updateOne({ keyId: doc.keyId }, { $set: { lastUsedAt: new Date() } })
+        .catch((error: Error) => {
+          this.logger.warn('[AuthService] Failed to record key usage', { keyId: doc.keyId, error: error.message });
+        });
+    }
+
+    return {
+      id: doc.keyId,
+      name: doc.name,
+      role: doc.role,
+      method: 'api_key',
+      tenantId: doc.tenantId || DEFAULT_TENANT_ID
+    };
+  }
+
+  /**
+   * Verify a JWT (requires JWT_SECRET). The token must carry `sub` and a valid
+   * `role`; `tenant` defaults to the default tenant.
+   */
+  authenticateJwt(token: string): AuthPrincipal | null {
+    if (!this.jwtSecret) {
+      return null;
+    }
+
+    const claims = verifyJwt(token, this.jwtSecret);
+    if (!claims || typeof claims['sub'] !== 'string' || !isRole(claims['role'])) {
+      return null;
+    }
+
+    const tenantId = claims['tenant'] ?? DEFAULT_TENANT_ID;
+    if (!isValidTenantId(tenantId)) {
+      return null;
+    }
+
+    return {
+      id: claims['sub'],
+      name: typeof claims['name'] === 'string' ? claims['name'] : claims['sub'],
+      role: claims['role'],
+      method: 'jwt',
+      tenantId
+    };
+  }
+
+  /**
+   * Convert a key document to its public fields
+   */
+  private toApiKeyInfo(doc: IApiKey): ApiKeyInfo {
+    return {
+      keyId: doc.keyId,
+      name: doc.name,
+      role: doc.role,
+      tenantId: doc.tenantId,
+      prefix: doc.prefix,
+      createdBy: doc.createdBy,
+      createdAt: doc.createdAt,
+      lastUsedAt: doc.lastUsedAt,
+      revokedAt: doc.revokedAt
+    };
+  }
+}
+
+export default AuthService;
@@ -0,0 +1,186 @@
+/**
+ * Chunker - Split long content into overlapping chunks judged one at a time
+ *
+ * Content longer than judge.chunkTokens (estimated at 4 characters per
+ * token) is split into chunks that each fit one judge call. Consecutive
+ * chunks share judge.chunkOverlapTokens, so a violation straddling a chunk
+ * boundary is still seen whole by one judge. Chunks end at a paragraph,
+ * line, sentence or word break where one is near the limit.
+ *
+ * Chunk verdicts are combined into one result for the rule:
+ * - any chunk FAIL fails the rule
+ * - otherwise any UNCERTAIN chunk makes it UNCERTAIN
+ * - PASS only when every chunk passes
+ *
+ * The chunks that did not pass are reported with their character offsets.
+ */
+
+import type {
+  Verdict,
+  ChunkResult,
+  TokenUsage,
+  RedactionSpan,
+  JudgeEvaluationResult
+} from '../types';
+
+export interface ContentChunk {
+  index: number;
+  start: number; // Offset of the chunk in the content
+  end: number;
+  text: string;
+}
+
+export const CHARS_PER_TOKEN = 4;
+
+export const DEFAULT_CHUNK_TOKENS = 8000;
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = 200;
+
+// Chunks of one rule judged at once
+export const CHUNK_CONCURRENCY = 4;
+
+// Preferred chunk boundaries, best first
+const BREAKS = ['\n\n', '\n', '. ', ' '];
+
+/**
+ * End of a chunk at the last break in its final quarter, or the hard limit when there is none
+ */
+const findChunkEnd = (content: string, start: number, limit: number, minEnd: number): number => {
+  for (const separator of BREAKS) {
+    const index = content.lastIndexOf(separator, limit - separator.length);
+    if (index >= minEnd) {
+      return index + separator.length;
+    }
+  }
+  return limit;
+};
+
+/**
+ * Split content into chunks of at most chunkTokens, overlapping by overlapTokens.
+ * Content that fits is returned as a single chunk.
+ */
+export const splitIntoChunks = (
+  content: string,
+  chunkTokens: number = DEFAULT_CHUNK_TOKENS,
+  overlapTokens: number = DEFAULT_CHUNK_OVERLAP_TOKENS
+): ContentChunk[] => {
+  const maxChars = Math.max(1, Math.floor(chunkTokens * CHARS_PER_TOKEN));
+  if (content.length <= maxChars) {
+    return [{ index: 0, start: 0, end: content.length, text: content }];
+  }
+
+  // At most half a chunk overlaps, so every chunk moves the window forward
+  const overlap = Math.min(Math.max(0, Math.floor(overlapTokens * CHARS_PER_TOKEN)), Math.floor(maxChars / 2));
+
+  const chunks: ContentChunk[] = [];
+  let start = 0;
+  for (;;) {
+    const limit = Math.min(start + maxChars, content.length);
+    const end = limit < content.length
+      ? findChunkEnd(content, start, limit, start + Math.max(overlap + 1, Math.floor(maxChars * 0.75)))
+      : limit;
+    chunks.push({ index: chunks.length, start, end, text: content.slice(start, end) });
+    if (end >= content.length) {
+      return chunks;
+    }
+    start = end - overlap;
+  }
+};
+
+/**
+ * Shift spans reported for a chunk onto offsets in the whole content
+ */
+const shiftSpans = (spans: Array<Partial<RedactionSpan>>, offset: number): Array<Partial<RedactionSpan>> => {
+  return spans.map(span => Number.isInteger(span.start) && Number.isInteger(span.end)
+    ? { ...span, start: span.start! + offset, end: span.end! + offset }
+    : span);
+};
+
+const describeChunk = (chunk: ContentChunk, total: number): string => {
+  return `Chunk ${chunk.index + 1} of ${total} (characters ${chunk.start}-${chunk.end})`;
+};
+
+/**
+ * Combine the judge results of every chunk into one result for the rule
+ */
+export const combineChunkResults = (
+  chunks: ContentChunk[],
+  results: JudgeEvaluationResult[]
+): JudgeEvaluationResult => {
+  const total = chunks.length;
+  const judged = chunks.map((chunk, i) => ({ chunk, result: results[i]! }));
+
+  const byVerdict = (verdict: Verdict) => judged.filter(({ result }) => result.verdict === verdict);
+  const failed = byVerdict('FAIL');
+  const uncertain = byVerdict('UNCERTAIN');
+
+  let verdict: Verdict;
+  let confidence: number;
+  let reasoning: string;
+
+  if (failed.length > 0) {
+    // The most confident failing chunk explains the verdict
+    const worst = [...failed].sort((a, b) => b.result.confidence - a.result.confidence)[0]!;
+    verdict = 'FAIL';
+    confidence = worst.result.confidence;
+    reasoning = `${failed.length} of ${total} chunks failed. ${describeChunk(worst.chunk, total)}: ${worst.result.reasoning}`;
+  } else if (uncertain.length > 0) {
+    const first = uncertain[0]!;
+    verdict = 'UNCERTAIN';
+    confidence = Math.min(...uncertain.map(({ result }) => result.confidence));
+    reasoning = `${uncertain.length} of ${total} chunks were uncertain. ${describeChunk(first.chunk, total)}: ${first.result.reasoning}`;
+  } else {
+    verdict = 'PASS';
+    confidence = Math.min(...results.map(result => result.confidence));
+    reasoning = `All ${total} chunks passed`;
+  }
+
+  const chunkResults: ChunkResult[] = judged
+    .filter(({ result }) => result.verdict !== 'PASS')
+    .map(({ chunk, result }) => ({
+      index: chunk.index,
+      start: chunk.start,
+      end: chunk.end,
+      verdict: result.verdict,
+      confidence: result.confidence,
+      reasoning: result.reasoning,
+      ...(result.error ? { error: result.error } : {})
+    }));
+
+  // Spans found in overlapping chunks are reported once
+  const spans = new Map<string, Partial<RedactionSpan>>();
+  for (const { chunk, result } of failed) {
+    for (const span of shiftSpans(result.spans || [], chunk.start)) {
+      spans.set(`${span.start}:${span.end}:${span.text}`, span);
+    }
+  }
+
+  const usage = results.reduce<TokenUsage | undefined>((sum, result) => result.usage
+    ? {
+        input_tokens: (sum?.input_tokens || 0) + result.usage.input_tokens,
+        output_tokens: (sum?.output_tokens || 0) + result.usage.output_tokens
+      }
+    : sum, undefined);
+
+  const votes = results.flatMap(result => result.votes || []);
+  const agreements = results
+    .map(result => result.agreement)
+    .filter((agreement): agreement is number => agreement !== undefined);
+
+  const errored = results.filter(result => result.error);
+  const source = results.find(result => result.provider || result.model);
+
+  return {
+    verdict,
+    confidence,
+    reasoning,
+    ...(errored.length === total && errored[0] ? { error: errored[0].error, errorType: errored[0].errorType } : {}),
+    ...(results.every(result => result.cached) ? { cached: true } : {}),
+    ...(source?.provider ? { provider: source.provider } : {}),
+    ...(source?.model ? { model: source.model } : {}),
+    ...(spans.size > 0 ? { spans: [...spans.values()] } : {}),
+    ...(usage ? { usage } : {}),
+    ...(votes.length > 0 ? { votes, agreement: Math.min(...agreements) } : {}),
+    chunks: chunkResults,
+    chunk_count: total
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * ConcurrencyLimiter - Caps how many async tasks run at once
+ *
+ * Design Principles:
+ * - Shared by every caller, so the cap is global rather than per request
+ * - Tasks beyond the cap wait in FIFO order
+ * - The limit can be changed at runtime (e.g. when settings are updated)
+ */
+
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+
+export class ConcurrencyLimiter {
+  private limit: number;
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number = DEFAULT_BATCH_CONCURRENCY) {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  /**
+   * Change the limit. Waiting tasks start immediately if the limit grew.
+   */
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, Math.floor(limit));
+    this.drain();
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * Number of tasks currently running and waiting
+   */
+  getStats(): { active: number; waiting: number; limit: number } {
+    return { active: this.active, waiting: this.waiting.length, limit: this.limit };
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      const next = this.waiting.shift();
+      next?.();
+    }
+  }
+}
+
+export default ConcurrencyLimiter;
@@ -3,10 +3,25 @@
  * 
  * Handles all CRUD operations for policy configuration stored in MongoDB.
  * Replaces file-based configuration with database storage.
+ *
+ * The service manages one primary configuration (configId 'default') and
+ * also provides CRUD for additional named policy configurations.
+ * Every policy mutation bumps the policy version and records an immutable
+ * revision through PolicyRevisionService.
+ * Each instance is scoped to one tenant; every query filters by tenantId.
  */
 
 import { PolicyConfig, IPolicyConfig, DEFAULT_CONFIG } from '../models/PolicyConfig';
 import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
+import {
+  PolicyRevisionService,
+  diffPolicies,
+  classifyChanges,
+  bumpVersion,
+  summarizeChanges
+} from './PolicyRevisionService';
+import { flattenRules } from './RuleGroups';
 import type { 
   Logger, 
   Policy, 
@@ -14,16 +29,23 @@ import type {
   EngineSettings,
   Config,
   Rule,
-  RuleInput
+  RuleInput,
+  RuleGroup,
+  RevisionChange,
+  PolicyRevision
 } from '../types';
 
+export const DEFAULT_CONFIG_ID = 'default';
+
 // ============================================
 // Types
 // ============================================
 
 export interface ConfigServiceOptions {
   logger?: Logger;
+  tenantId?: string;
   configId?: string;
+  revisionService?: PolicyRevisionService;
 }
 
 export interface ConfigUpdateInput {
@@ -32,18 +54,75 @@ export interface ConfigUpdateInput {
   settings?: Partial<EngineSettings>;
 }
 
+export interface ConfigSummary {
+  configId: string;
+  policyName: string;
+  isActive: boolean;
+  updatedAt: Date;
+}
+
+export interface ConfigRollbackResult {
+  success: boolean;
+  config?: Config;
+  revision?: PolicyRevision;
+  message?: string;
+}
+
+interface RevisionOptions {
+  author?: string;
+  message?: string;
+  force?: boolean; // Record a revision even if the policy did not change
+  since?: Date; // When the previous policy took effect (for the baseline revision)
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Apply a partial rule update to an existing rule
+ */
+export const mergeRuleUpdates = (existingRule: Rule, updates: Partial<RuleInput>): Rule => {
+  return {
+    ...existingRule,
+    ...updates,
+    id: updates.id || existingRule.id,
+    judge_prompt: updates.judge_prompt || existingRule.judge_prompt,
+    on_fail: updates.on_fail || existingRule.on_fail,
+    weight: updates.weight !== undefined ? updates.weight : existingRule.weight
+  };
+};
+
 // ============================================
 // Service Class
 // ============================================
 
 export class ConfigService {
   private logger: Logger;
+  private tenantId: string;
   private configId: string;
   private cachedConfig: IPolicyConfig | null = null;
+  private revisionService: PolicyRevisionService;
 
   constructor(options: ConfigServiceOptions = {}) {
     this.logger = options.logger || console;
-    this.configId = options.configId || 'default';
+    this.tenantId = options.tenantId || DEFAULT_TENANT_ID;
+    this.configId = options.configId || DEFAULT_CONFIG_ID;
+    this.revisionService = options.revisionService || new PolicyRevisionService({ logger: this.logger, tenantId: this.tenantId });
+  }
+
+  /**
+   * Get the tenant whose configurations this service manages
+   */
+  getTenantId(): string {
+    return this.tenantId;
+  }
+
+  /**
+   * Get the id of the primary configuration
+   */
+  getConfigId(): string {
+    return this.configId;
   }
 
   /**
@@ -54,16 +133,29 @@ export class ConfigService {
       throw new Error('Database not connected');
     }
 
-    this.logger.info('[ConfigService] Initializing configuration', { configId: this.configId });
+    this.logger.info('[ConfigService] Initializing configuration', {
+      tenantId: this.tenantId,
+      configId: this.configId
+    });
 
     // Try to load existing config
-    const existingConfig = await PolicyConfig.findOne({ configId: this.configId });
+    const existingConfig = await PolicyConfig.findOne({ tenantId: this.tenantId, configId: this.configId });
 
     // If no config exists, seed the default
     const configDoc: IPolicyConfig = existingConfig 
       ? existingConfig 
       : await this.seedDefaultConfig();
 
+    if (!existingConfig) {
+      await this.revisionService.record({
+        configId: this.configId,
+        policy: this.snapshotPolicy(configDoc),
+        change: 'create',
+        author: 'system',
+        message: 'Seeded default configuration'
+      });
+    }
+
     this.cachedConfig = configDoc;
 
     this.logger.info('[ConfigService] Configuration loaded', {
@@ -86,12 +178,13 @@ export class ConfigService {
     this.logger.info('[ConfigService] Seeding default configuration');
 
     // Delete any existing default config
-    const deleteResult = await PolicyConfig.deleteOne({ configId: 'default' });
+    const deleteResult = await PolicyConfig.deleteOne({ tenantId: this.tenantId, configId: this.configId });
     this.logger.info('[ConfigService] Delete result', { deletedCount: deleteResult.deletedCount });
 
     // Create new default config
     const config = new PolicyConfig({
       ...DEFAULT_CONFIG,
+      tenantId: this.tenantId,
       configId: this.configId
     });
 
@@ -124,7 +217,7 @@ export class ConfigService {
       return this.toConfig(this.cachedConfig);
     }
 
-    const config = await PolicyConfig.findOne({ configId: this.configId });
+    const config = await PolicyConfig.findOne({ tenantId: this.tenantId, configId: this.configId });
     
     if (!config) {
       throw new Error(`Configuration '${this.configId}' not found`);
@@ -137,41 +230,14 @@ export class ConfigService {
   /**
    * Update configuration
    */
-  async updateConfig(updates: ConfigUpdateInput): Promise<Config> {
-    if (!isDatabaseConnected()) {
-      throw new Error('Database not connected');
-    }
-
-    this.logger.info('[ConfigService] Updating configuration', {
-      configId: this.configId,
-      sections: Object.keys(updates)
-    });
-
-    const config = await PolicyConfig.findOne({ configId: this.configId });
+  async updateConfig(updates: ConfigUpdateInput, author?: string): Promise<Config> {
+    const config = await this.updateConfigById(this.configId, updates, author);
     
     if (!config) {
       throw new Error(`Configuration '${this.configId}' not found`);
     }
 
-    // Apply updates
-    if (updates.policy) {
-      Object.assign(config.policy, updates.policy);
-    }
-    if (updates.judge) {
-      Object.assign(config.judge, updates.judge);
-    }
-    if (updates.settings) {
-      Object.assign(config.settings, updates.settings);
-    }
-
-    await config.save();
-    this.cachedConfig = config as IPolicyConfig;
-
-    this.logger.info('[ConfigService] Configuration updated', {
-      policyName: config.policy.name
-    });
-
-    return this.toConfig(config as IPolicyConfig);
+    return config;
   }
 
   /**
@@ -193,19 +259,19 @@ export class ConfigService {
   /**
    * Add a new rule to the policy
    */
-  async addRule(rule: RuleInput): Promise<{ success: boolean; rule?: Rule; message?: string }> {
+  async addRule(rule: RuleInput, author?: string): Promise<{ success: boolean; rule?: Rule; version?: string; message?: string }> {
     if (!isDatabaseConnected()) {
       throw new Error('Database not connected');
     }
 
-    const config = await PolicyConfig.findOne({ configId: this.configId });
+    const config = await PolicyConfig.findOne({ tenantId: this.tenantId, configId: this.configId });
     
     if (!config) {
       throw new Error(`Configuration '${this.configId}' not found`);
     }
 
-    // Check if rule with same ID already exists
-    const existingRule = config.policy.rules.find(r => r.id === rule.id);
+    // Check if rule with same ID already exists, including rules inside groups
+    const existingRule = flattenRules(config.policy).find(r => r.id === rule.id);
     if (existingRule) {
       return {
         success: false,
@@ -219,31 +285,49 @@ export class ConfigService {
       description: rule.description || '',
       judge_prompt: rule.judge_prompt,
       on_fail: rule.on_fail || 'warn',
-      weight: rule.weight !== undefined ? rule.weight : 1.0
+      weight: rule.weight !== undefined ? rule.weight : 1.0,
+      provider: rule.provider,
+      model: rule.model,
+      redaction: rule.redaction,
+      type: rule.type,
+      pattern: rule.pattern,
+      flags: rule.flags,
+      keywords: rule.keywords,
+      case_sensitive: rule.case_sensitive,
+      pii_types: rule.pii_types,
+      ensemble: rule.ensemble,
+      min_confidence: rule.min_confidence,
+      applies_when: rule.applies_when,
+      scope: rule.scope
     };
 
     // Add to rules array
+    const previous = this.snapshotPolicy(config);
     config.policy.rules.push(newRule);
-    await config.save();
-    this.cachedConfig = config as IPolicyConfig;
+    await this.saveWithRevision(config, previous, 'add_rule', { author });
 
     this.logger.info('[ConfigService] Rule added', {
       ruleId: newRule.id,
-      totalRules: config.policy.rules.length
+      totalRules: config.policy.rules.length,
+      version: config.policy.version
     });
 
-    return { success: true, rule: newRule };
+    return { success: true, rule: newRule, version: config.policy.version };
   }
 
   /**
    * Update an existing rule
    */
-  async updateRule(ruleId: string, updates: Partial<RuleInput>): Promise<{ success: boolean; rule?: Rule; message?: string }> {
+  async updateRule(
+    ruleId: string,
+    updates: Partial<RuleInput>,
+    author?: string
+  ): Promise<{ success: boolean; rule?: Rule; version?: string; message?: string }> {
     if (!isDatabaseConnected()) {
       throw new Error('Database not connected');
     }
 
-    const config = await PolicyConfig.findOne({ configId: this.configId });
+    const config = await PolicyConfig.findOne({ tenantId: this.tenantId, configId: this.configId });
     
     if (!config) {
       throw new Error(`Configuration '${this.configId}' not found`);
@@ -260,7 +344,7 @@ export class ConfigService {
 
     // If updating the ID, check for conflicts
     if (updates.id && updates.id !== ruleId) {
-      const conflictRule = config.policy.rules.find(r => r.id === updates.id);
+      const conflictRule = flattenRules(config.policy).find(r => r.id === updates.id);
       if (conflictRule) {
         return {
           success: false,
@@ -278,35 +362,32 @@ export class ConfigService {
       };
     }
 
-    const updatedRule: Rule = {
-      ...existingRule,
-      ...updates,
-      id: updates.id || existingRule.id,
-      judge_prompt: updates.judge_prompt || existingRule.judge_prompt,
-      on_fail: updates.on_fail || existingRule.on_fail,
-      weight: updates.weight !== undefined ? updates.weight : existingRule.weight
-    };
+    const updatedRule = mergeRuleUpdates(existingRule, updates);
 
+    const previous = this.snapshotPolicy(config);
     config.policy.rules[ruleIndex] = updatedRule;
-    await config.save();
-    this.cachedConfig = config as IPolicyConfig;
+    await this.saveWithRevision(config, previous, 'update_rule', { author });
 
     this.logger.info('[ConfigService] Rule updated', {
-      ruleId: updatedRule.id
+      ruleId: updatedRule.id,
+      version: config.policy.version
     });
 
-    return { success: true, rule: updatedRule };
+    return { success: true, rule: updatedRule, version: config.policy.version };
   }
 
   /**
    * Delete a rule from the policy
    */
-  async deleteRule(ruleId: string): Promise<{ success: boolean; deletedRule?: Rule; message?: string }> {
+  async deleteRule(
+    ruleId: string,
+    author?: string
+  ): Promise<{ success: boolean; deletedRule?: Rule; version?: string; message?: string }> {
     if (!isDatabaseConnected()) {
       throw new Error('Database not connected');
     }
 
-    const config = await PolicyConfig.findOne({ configId: this.configId });
+    const config = await PolicyConfig.findOne({ tenantId: this.tenantId, configId: this.configId });
     
     if (!config) {
       throw new Error(`Configuration '${this.configId}' not found`);
@@ -322,43 +403,259 @@ export class ConfigService {
     }
 
     // Remove the rule
+    const previous = this.snapshotPolicy(config);
     const deletedRule = config.policy.rules.splice(ruleIndex, 1)[0];
-    await config.save();
-    this.cachedConfig = config as IPolicyConfig;
+    await this.saveWithRevision(config, previous, 'delete_rule', { author });
 
     this.logger.info('[ConfigService] Rule deleted', {
       ruleId: deletedRule?.id,
-      remainingRules: config.policy.rules.length
+      remainingRules: config.policy.rules.length,
+      version: config.policy.version
     });
 
-    return { success: true, deletedRule };
+    return { success: true, deletedRule, version: config.policy.version };
   }
 
   /**
    * Reset configuration to default
    */
-  async resetToDefault(): Promise<Config> {
+  async resetToDefault(author?: string): Promise<Config> {
     if (!isDatabaseConnected()) {
       throw new Error('Database not connected');
     }
 
     this.logger.info('[ConfigService] Resetting configuration to default');
 
+    const existing = await PolicyConfig.findOne({ tenantId: this.tenantId, configId: this.configId });
+    const previous = existing ? this.snapshotPolicy(existing as IPolicyConfig) : null;
+
     const config = await this.seedDefaultConfig();
+
+    if (previous && existing) {
+      // Keep the version moving forward from the replaced policy
+      config.policy.version = previous.version || config.policy.version;
+      await this.saveWithRevision(config, previous, 'reset', {
+        author,
+        force: true,
+        since: existing.updatedAt,
+        message: 'Reset to default configuration'
+      });
+    } else {
+      await this.revisionService.record({
+        configId: this.configId,
+        policy: this.snapshotPolicy(config),
+        change: 'create',
+        author,
+        message: 'Seeded default configuration'
+      });
+    }
+
     this.cachedConfig = config;
 
     return this.toConfig(config);
   }
 
+  /**
+   * Get a configuration by id
+   */
+  async getConfigById(configId: string): Promise<Config | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    if (configId === this.configId) {
+      return this.getConfig();
+    }
+
+    const config = await PolicyConfig.findOne({ tenantId: this.tenantId, configId });
+    return config ? this.toConfig(config as IPolicyConfig) : null;
+  }
+
+  /**
+   * Create a named configuration. Judge and settings start from the defaults.
+   */
+  async createConfig(
+    configId: string,
+    input: ConfigUpdateInput & { policy: Policy },
+    author?: string
+  ): Promise<{ success: boolean; config?: Config; message?: string }> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const existing = await PolicyConfig.findOne({ tenantId: this.tenantId, configId });
+    if (existing) {
+      return {
+        success: false,
+        message: `Configuration '${configId}' already exists`
+      };
+    }
+
+    const config = new PolicyConfig({
+      tenantId: this.tenantId,
+      configId,
+      policy: input.policy,
+      judge: { ...DEFAULT_CONFIG.judge, ...input.judge },
+      settings: { ...DEFAULT_CONFIG.settings, ...input.settings },
+      isActive: true
+    });
+    await config.save();
+
+    await this.revisionService.record({
+      configId,
+      policy: this.snapshotPolicy(config as IPolicyConfig),
+      change: 'create',
+      author,
+      message: 'Policy created'
+    });
+
+    this.logger.info('[ConfigService] Configuration created', {
+      configId,
+      policyName: config.policy.name,
+      rulesCount: config.policy.rules.length
+    });
+
+    return { success: true, config: this.toConfig(config as IPolicyConfig) };
+  }
+
+  /**
+   * Update a configuration by id
+   * @returns Updated configuration, or null if it does not exist
+   */
+  async updateConfigById(configId: string, updates: ConfigUpdateInput, author?: string): Promise<Config | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    this.logger.info('[ConfigService] Updating configuration', {
+      configId,
+      sections: Object.keys(updates)
+    });
+
+    const config = await PolicyConfig.findOne({ tenantId: this.tenantId, configId });
+    
+    if (!config) {
+      return null;
+    }
+
+    // Apply updates
+    const previous = this.snapshotPolicy(config as IPolicyConfig);
+    if (updates.policy) {
+      Object.assign(config.policy, updates.policy);
+    }
+    if (updates.judge) {
+      Object.assign(config.judge, updates.judge);
+    }
+    if (updates.settings) {
+      Object.assign(config.settings, updates.settings);
+    }
+
+    await this.saveWithRevision(config as IPolicyConfig, previous, 'update_config', { author });
+
+    this.logger.info('[ConfigService] Configuration updated', {
+      configId,
+      policyName: config.policy.name
+    });
+
+    return this.toConfig(config as IPolicyConfig);
+  }
+
+  /**
+   * Delete a named configuration. The primary configuration cannot be deleted.
+   */
+  async deleteConfig(configId: string): Promise<{ success: boolean; message?: string }> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    if (configId === this.configId) {
+      return {
+        success: false,
+        message: `Configuration '${configId}' is the primary configuration and cannot be deleted`
+      };
+    }
+
+    const result = await PolicyConfig.deleteOne({ tenantId: this.tenantId, configId });
+    if (result.deletedCount === 0) {
+      return {
+        success: false,
+        message: `Configuration '${configId}' not found`
+      };
+    }
+
+    this.logger.info('[ConfigService] Configuration deleted', { configId });
+
+    return { success: true };
+  }
+
+  /**
+   * Restore the policy of a past revision. The rollback is itself recorded
+   * as a new revision; history is never rewritten.
+   */
+  async rollbackConfig(configId: string, revision: number, author?: string): Promise<ConfigRollbackResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const target = await this.revisionService.get(configId, revision);
+    if (!target) {
+      return {
+        success: false,
+        message: `Revision ${revision} of '${configId}' not found`
+      };
+    }
+
+    const config = await PolicyConfig.findOne({ tenantId: this.tenantId, configId });
+    if (!config) {
+      return {
+        success: false,
+        message: `Configuration '${configId}' not found`
+      };
+    }
+
+    this.logger.info('[ConfigService] Rolling back configuration', {
+      configId,
+      revision,
+      version: target.version
+    });
+
+    const previous = this.snapshotPolicy(config as IPolicyConfig);
+    Object.assign(config.policy, {
+      name: target.policy.name,
+      default_action: target.policy.default_action,
+      rules: target.policy.rules,
+      evaluation_strategy: target.policy.evaluation_strategy,
+      threshold: target.policy.threshold,
+      min_confidence: target.policy.min_confidence,
+      confidence_weighted: target.policy.confidence_weighted,
+      expression: target.policy.expression,
+      groups: target.policy.groups,
+      extends: target.policy.extends,
+      library_rules: target.policy.library_rules
+    });
+
+    const recorded = await this.saveWithRevision(config as IPolicyConfig, previous, 'rollback', {
+      author,
+      force: true,
+      message: `Rolled back to revision ${revision} (version ${target.version})`
+    });
+
+    return {
+      success: true,
+      config: this.toConfig(config as IPolicyConfig),
+      revision: recorded || undefined
+    };
+  }
+
   /**
    * Get all available configurations
    */
-  async listConfigs(): Promise<Array<{ configId: string; policyName: string; isActive: boolean; updatedAt: Date }>> {
+  async listConfigs(): Promise<ConfigSummary[]> {
     if (!isDatabaseConnected()) {
       throw new Error('Database not connected');
     }
 
-    const configs = await PolicyConfig.find({}, {
+    const configs = await PolicyConfig.find({ tenantId: this.tenantId }, {
       configId: 1,
       'policy.name': 1,
       isActive: 1,
@@ -381,6 +678,53 @@ export class ConfigService {
     this.logger.info('[ConfigService] Cache cleared');
   }
 
+  /**
+   * Save a configuration and record a policy revision if the policy changed.
+   * The version is auto-bumped unless the update set it explicitly.
+   */
+  private async saveWithRevision(
+    config: IPolicyConfig,
+    previous: Policy,
+    change: RevisionChange,
+    options: RevisionOptions = {}
+  ): Promise<PolicyRevision | null> {
+    const since = options.since || config.updatedAt || new Date();
+    const changes = diffPolicies(previous, this.snapshotPolicy(config));
+    const bump = classifyChanges(changes);
+
+    if (bump || options.force) {
+      if (config.policy.version === previous.version) {
+        config.policy.version = bumpVersion(previous.version, bump || 'patch');
+      }
+    }
+
+    await config.save();
+    if (config.configId === this.configId) {
+      this.cachedConfig = config;
+    }
+
+    if (!bump && !options.force) {
+      return null;
+    }
+
+    await this.revisionService.ensureBaseline(config.configId, previous, since);
+
+    return this.revisionService.record({
+      configId: config.configId,
+      policy: this.snapshotPolicy(config),
+      change,
+      author: options.author,
+      message: options.message || summarizeChanges(changes)
+    });
+  }
+
+  /**
+   * Plain copy of a configuration's policy
+   */
+  private snapshotPolicy(doc: IPolicyConfig): Policy {
+    return this.toConfig(doc.toObject() as IPolicyConfig).policy;
+  }
+
   /**
    * Convert IPolicyConfig to Config type
    */
@@ -390,17 +734,20 @@ export class ConfigService {
         name: doc.policy.name,
         version: doc.policy.version,
         default_action: doc.policy.default_action,
-        rules: doc.policy.rules.map(r => ({
-          id: r.id,
-          description: r.description,
-          judge_prompt: r.judge_prompt,
-          on_fail: r.on_fail,
-          weight: r.weight
-        })),
+        rules: doc.policy.rules.map(r => this.toRule(r)),
         evaluation_strategy: doc.policy.evaluation_strategy,
-        threshold: doc.policy.threshold
+        threshold: doc.policy.threshold,
+        min_confidence: doc.policy.min_confidence,
+        confidence_weighted: doc.policy.confidence_weighted,
+        expression: doc.policy.expression,
+        ...(doc.policy.groups ? { groups: doc.policy.groups.map(g => this.toRuleGroup(g)) } : {}),
+        ...(doc.policy.extends ? { extends: doc.policy.extends } : {}),
+        ...(doc.policy.library_rules
+          ? { library_rules: doc.policy.library_rules.map(ref => ({ id: ref.id, on_fail: ref.on_fail, weight: ref.weight })) }
+          : {})
       },
       judge: {
+        provider: doc.judge.provider,
         model: doc.judge.model,
         temperature: doc.judge.temperature,
         maxTokens: doc.judge.maxTokens,
@@ -410,15 +757,65 @@ export class ConfigService {
         maxRetryDelay: doc.judge.maxRetryDelay,
         backoffMultiplier: doc.judge.backoffMultiplier,
         circuitBreakerThreshold: doc.judge.circuitBreakerThreshold,
-        circuitBreakerResetMs: doc.judge.circuitBreakerResetMs
+        circuitBreakerResetMs: doc.judge.circuitBreakerResetMs,
+        chunkTokens: doc.judge.chunkTokens,
+        chunkOverlapTokens: doc.judge.chunkOverlapTokens
       },
       settings: {
         parallelEvaluation: doc.settings.parallelEvaluation,
+        shortCircuit: doc.settings.shortCircuit,
         debugLog: doc.settings.debugLog,
-        cacheResults: doc.settings.cacheResults
+        cacheResults: doc.settings.cacheResults,
+        cacheTtlMs: doc.settings.cacheTtlMs,
+        cacheMaxEntries: doc.settings.cacheMaxEntries,
+        batchConcurrency: doc.settings.batchConcurrency
       }
     };
   }
+
+  /**
+   * Convert a stored rule to a plain Rule
+   */
+  private toRule(r: Rule): Rule {
+    return {
+      id: r.id,
+      description: r.description,
+      judge_prompt: r.judge_prompt,
+      on_fail: r.on_fail,
+      weight: r.weight,
+      provider: r.provider,
+      model: r.model,
+      redaction: r.redaction,
+      type: r.type,
+      pattern: r.pattern,
+      flags: r.flags,
+      keywords: r.keywords,
+      case_sensitive: r.case_sensitive,
+      pii_types: r.pii_types,
+      ensemble: r.ensemble,
+      min_confidence: r.min_confidence,
+      applies_when: r.applies_when,
+      scope: r.scope
+    };
+  }
+
+  /**
+   * Convert a stored rule group (and its sub-groups) to a plain RuleGroup
+   */
+  private toRuleGroup(g: RuleGroup): RuleGroup {
+    return {
+      id: g.id,
+      description: g.description,
+      evaluation_strategy: g.evaluation_strategy,
+      threshold: g.threshold,
+      confidence_weighted: g.confidence_weighted,
+      expression: g.expression,
+      default_action: g.default_action,
+      weight: g.weight,
+      ...(g.rules ? { rules: g.rules.map(r => this.toRule(r)) } : {}),
+      ...(g.groups ? { groups: g.groups.map(child => this.toRuleGroup(child)) } : {})
+    };
+  }
 }
 
 export default ConfigService;
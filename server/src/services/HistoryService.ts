@@ -3,26 +3,36 @@
  * 
  * Provides CRUD operations for evaluation history records
  * Supports reproducible evaluations by storing policy snapshots
+ * Queues WARN and UNCERTAIN evaluations for human review
+ * Each instance reads and writes a single tenant's records
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import { EvaluationHistory, IEvaluationHistory } from '../models/EvaluationHistory';
 import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
 import type { 
   Logger, 
   Policy, 
   PolicyVerdict,
-  FinalVerdict 
+  FinalVerdict,
+  EvaluationMetadata,
+  EvaluationContent,
+  EvaluationInputs
 } from '../types';
+import { isTranscript, formatTranscript } from './Transcript';
+import type { ReviewService } from './ReviewService';
 
 // ============================================
 // Types
 // ============================================
 
 export interface CreateHistoryInput {
-  content: string;
+  content: EvaluationContent;
   policy: Policy;
   result: PolicyVerdict;
+  metadata?: EvaluationMetadata; // Request metadata, kept so re-runs see the same conditions
+  inputs?: EvaluationInputs; // Guardrail fields, kept so re-runs fill the same placeholders
   tags?: string[];
   notes?: string;
 }
@@ -48,17 +58,92 @@ export interface HistoryListResult {
 
 export interface HistoryServiceOptions {
   logger?: Logger;
+  tenantId?: string;
+  reviewService?: ReviewService; // Review queue for WARN and UNCERTAIN evaluations
 }
 
+export interface SpendTotals {
+  evaluations: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+export interface RuleSpend {
+  policyName: string;
+  ruleId: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  avg_cost_usd: number;
+}
+
+export interface SpendStats {
+  since: string; // Start of the period covered, ISO date
+  total: SpendTotals;
+  byPolicy: Array<SpendTotals & { policyName: string }>;
+  byRule: RuleSpend[]; // Most expensive first
+  byDay: Array<SpendTotals & { date: string }>; // YYYY-MM-DD (UTC), oldest first
+}
+
+export interface HistoryStats {
+  tenantId: string;
+  totalEvaluations: number;
+  verdictCounts: Record<FinalVerdict, number>;
+  recentEvaluations: number;
+  uniquePolicies: number;
+  spend: SpendStats;
+}
+
+export interface HistoryStatsOptions {
+  spendDays?: number; // Days of spend to report (default 30)
+}
+
+export const DEFAULT_SPEND_DAYS = 30;
+const MAX_RULE_SPEND_ENTRIES = 100;
+
+// Sums shared by every spend grouping
+const SPEND_SUMS = {
+  evaluations: { $sum: 1 },
+  input_tokens: { $sum: '$result.usage.input_tokens' },
+  output_tokens: { $sum: '$result.usage.output_tokens' },
+  total_tokens: { $sum: '$result.usage.total_tokens' },
+  cost_usd: { $sum: '$result.usage.cost_usd' },
+};
+
+const roundCost = (value: number): number => Math.round(value * 1e8) / 1e8;
+
+const toSpendTotals = (group: Partial<SpendTotals> | undefined): SpendTotals => ({
+  evaluations: group?.evaluations || 0,
+  input_tokens: group?.input_tokens || 0,
+  output_tokens: group?.output_tokens || 0,
+  total_tokens: group?.total_tokens || 0,
+  cost_usd: roundCost(group?.cost_usd || 0),
+});
+
 // ============================================
 // Service Class
 // ============================================
 
 export class HistoryService {
   private logger: Logger;
+  private tenantId: string;
+  private reviewService?: ReviewService;
 
   constructor(options: HistoryServiceOptions = {}) {
     this.logger = options.logger || console;
+    this.tenantId = options.tenantId || DEFAULT_TENANT_ID;
+    this.reviewService = options.reviewService;
+  }
+
+  /**
+   * Get the tenant whose history this service manages
+   */
+  getTenantId(): string {
+    return this.tenantId;
   }
 
   /**
@@ -73,13 +158,19 @@ export class HistoryService {
     
     this.logger.info('[HistoryService] Creating evaluation history', {
       evaluationId,
+      tenantId: this.tenantId,
       policyName: input.policy.name,
       verdict: input.result.final_verdict,
     });
 
     const historyRecord = new EvaluationHistory({
       evaluationId,
-      content: input.content,
+      tenantId: this.tenantId,
+      // Transcripts keep their messages; the formatted text keeps them searchable
+      content: isTranscript(input.content) ? formatTranscript(input.content) : input.content,
+      ...(isTranscript(input.content) ? { messages: input.content } : {}),
+      ...(input.metadata ? { requestMetadata: input.metadata } : {}),
+      ...(input.inputs ? { inputs: input.inputs } : {}),
       policySnapshot: {
         name: input.policy.name,
         version: input.policy.version,
@@ -90,9 +181,26 @@ export class HistoryService {
           judge_prompt: rule.judge_prompt,
           on_fail: rule.on_fail,
           weight: rule.weight,
+          provider: rule.provider,
+          model: rule.model,
+          redaction: rule.redaction,
+          type: rule.type,
+          pattern: rule.pattern,
+          flags: rule.flags,
+          keywords: rule.keywords,
+          case_sensitive: rule.case_sensitive,
+          pii_types: rule.pii_types,
+          ensemble: rule.ensemble,
+          min_confidence: rule.min_confidence,
+          applies_when: rule.applies_when,
+          scope: rule.scope,
         })),
         evaluation_strategy: input.policy.evaluation_strategy,
         threshold: input.policy.threshold,
+        min_confidence: input.policy.min_confidence,
+        confidence_weighted: input.policy.confidence_weighted,
+        expression: input.policy.expression,
+        groups: input.policy.groups,
       },
       result: {
         final_verdict: input.result.final_verdict,
@@ -105,10 +213,22 @@ export class HistoryService {
           action: r.action,
           weight: r.weight,
           latency_ms: r.latency_ms,
+          spans: r.spans,
+          usage: r.usage,
+          votes: r.votes,
+          agreement: r.agreement,
+          downgraded_from: r.downgraded_from,
+          group_path: r.group_path,
+          chunks: r.chunks,
+          chunk_count: r.chunk_count,
         })),
         summary: input.result.summary,
+        group_results: input.result.group_results,
+        redacted_content: input.result.redacted_content,
+        redacted_messages: input.result.redacted_messages,
         error: input.result.error,
         total_latency_ms: input.result.total_latency_ms,
+        usage: input.result.usage,
       },
       metadata: {
         evaluatedAt: new Date(input.result.evaluated_at),
@@ -125,6 +245,18 @@ export class HistoryService {
       id: historyRecord._id,
     });
 
+    // The record is saved either way; a failed enqueue is logged, not thrown
+    if (this.reviewService) {
+      try {
+        await this.reviewService.enqueue({ evaluationId, content: input.content, result: input.result });
+      } catch (error) {
+        this.logger.error('[HistoryService] Failed to queue evaluation for review', {
+          evaluationId,
+          error: (error as Error).message,
+        });
+      }
+    }
+
     return historyRecord;
   }
 
@@ -138,7 +270,7 @@ export class HistoryService {
 
     this.logger.info('[HistoryService] Fetching evaluation by ID', { evaluationId });
     
-    return EvaluationHistory.findOne({ evaluationId });
+    return EvaluationHistory.findOne({ tenantId: this.tenantId, evaluationId });
   }
 
   /**
@@ -151,7 +283,7 @@ export class HistoryService {
 
     this.logger.info('[HistoryService] Fetching evaluation by MongoDB ID', { id });
     
-    return EvaluationHistory.findById(id);
+    return EvaluationHistory.findOne({ _id: id, tenantId: this.tenantId });
   }
 
   /**
@@ -180,7 +312,7 @@ export class HistoryService {
     });
 
     // Build query
-    const query: Record<string, unknown> = {};
+    const query: Record<string, unknown> = { tenantId: this.tenantId };
 
     if (policyName) {
       query['policySnapshot.name'] = policyName;
@@ -252,9 +384,12 @@ export class HistoryService {
 
     this.logger.info('[HistoryService] Deleting evaluation history', { evaluationId });
 
-    const result = await EvaluationHistory.deleteOne({ evaluationId });
+    const result = await EvaluationHistory.deleteOne({ tenantId: this.tenantId, evaluationId });
     
     const deleted = result.deletedCount > 0;
+    if (deleted && this.reviewService) {
+      await this.reviewService.deleteForEvaluations([evaluationId]);
+    }
     
     this.logger.info('[HistoryService] Evaluation history deletion result', {
       evaluationId,
@@ -277,8 +412,12 @@ export class HistoryService {
     });
 
     const result = await EvaluationHistory.deleteMany({
+      tenantId: this.tenantId,
       evaluationId: { $in: evaluationIds },
     });
+    if (this.reviewService) {
+      await this.reviewService.deleteForEvaluations(evaluationIds);
+    }
 
     this.logger.info('[HistoryService] Batch deletion result', {
       requested: evaluationIds.length,
@@ -299,7 +438,7 @@ export class HistoryService {
     this.logger.info('[HistoryService] Updating tags', { evaluationId, tags });
 
     const result = await EvaluationHistory.findOneAndUpdate(
-      { evaluationId },
+      { tenantId: this.tenantId, evaluationId },
       { $set: { 'metadata.tags': tags } },
       { new: true }
     );
@@ -318,7 +457,7 @@ export class HistoryService {
     this.logger.info('[HistoryService] Adding notes', { evaluationId });
 
     const result = await EvaluationHistory.findOneAndUpdate(
-      { evaluationId },
+      { tenantId: this.tenantId, evaluationId },
       { $set: { 'metadata.notes': notes } },
       { new: true }
     );
@@ -329,34 +468,33 @@ export class HistoryService {
   /**
    * Get statistics about evaluation history
    */
-  async getStats(): Promise<{
-    totalEvaluations: number;
-    verdictCounts: Record<FinalVerdict, number>;
-    recentEvaluations: number;
-    uniquePolicies: number;
-  }> {
+  async getStats(options: HistoryStatsOptions = {}): Promise<HistoryStats> {
     if (!isDatabaseConnected()) {
       throw new Error('Database not connected');
     }
 
-    this.logger.info('[HistoryService] Fetching statistics');
+    this.logger.info('[HistoryService] Fetching statistics', { tenantId: this.tenantId });
 
     const [
       totalEvaluations,
       verdictAgg,
       recentCount,
       policyCount,
+      spend,
     ] = await Promise.all([
-      EvaluationHistory.countDocuments(),
+      EvaluationHistory.countDocuments({ tenantId: this.tenantId }),
       EvaluationHistory.aggregate([
+        { $match: { tenantId: this.tenantId } },
         { $group: { _id: '$result.final_verdict', count: { $sum: 1 } } },
       ]),
       EvaluationHistory.countDocuments({
+        tenantId: this.tenantId,
         'metadata.evaluatedAt': {
           $gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
         },
       }),
-      EvaluationHistory.distinct('policySnapshot.name'),
+      EvaluationHistory.distinct('policySnapshot.name', { tenantId: this.tenantId }),
+      this.getSpend(options.spendDays || DEFAULT_SPEND_DAYS),
     ]);
 
     const verdictCounts: Record<FinalVerdict, number> = {
@@ -372,17 +510,102 @@ export class HistoryService {
     });
 
     return {
+      tenantId: this.tenantId,
       totalEvaluations,
       verdictCounts,
       recentEvaluations: recentCount,
       uniquePolicies: policyCount.length,
+      spend,
+    };
+  }
+
+  /**
+   * Judge token usage and cost over the last days, by policy, rule and day
+   */
+  async getSpend(days: number = DEFAULT_SPEND_DAYS): Promise<SpendStats> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const [facets] = await EvaluationHistory.aggregate([
+      {
+        $match: {
+          tenantId: this.tenantId,
+          'metadata.evaluatedAt': { $gte: since },
+          'result.usage': { $exists: true },
+        },
+      },
+      {
+        $facet: {
+          total: [{ $group: { _id: null, ...SPEND_SUMS } }],
+          byPolicy: [
+            { $group: { _id: '$policySnapshot.name', ...SPEND_SUMS } },
+            { $sort: { cost_usd: -1 } },
+          ],
+          byDay: [
+            { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$metadata.evaluatedAt' } }, ...SPEND_SUMS } },
+            { $sort: { _id: 1 } },
+          ],
+          byRule: [
+            { $unwind: '$result.rule_results' },
+            { $match: { 'result.rule_results.usage': { $exists: true } } },
+            {
+              $group: {
+                _id: { policyName: '$policySnapshot.name', ruleId: '$result.rule_results.rule_id' },
+                calls: { $sum: 1 },
+                input_tokens: { $sum: '$result.rule_results.usage.input_tokens' },
+                output_tokens: { $sum: '$result.rule_results.usage.output_tokens' },
+                cost_usd: { $sum: '$result.rule_results.usage.cost_usd' },
+              },
+            },
+            { $sort: { cost_usd: -1 } },
+            { $limit: MAX_RULE_SPEND_ENTRIES },
+          ],
+        },
+      },
+    ]);
+
+    type Group<T> = Partial<SpendTotals> & { _id: T };
+    type RuleGroup = Omit<RuleSpend, 'policyName' | 'ruleId' | 'total_tokens' | 'avg_cost_usd'> & {
+      _id: { policyName: string; ruleId: string };
+    };
+
+    return {
+      since: since.toISOString(),
+      total: toSpendTotals((facets?.total as Group<null>[] | undefined)?.[0]),
+      byPolicy: ((facets?.byPolicy || []) as Group<string>[]).map(group => ({
+        policyName: group._id,
+        ...toSpendTotals(group),
+      })),
+      byRule: ((facets?.byRule || []) as RuleGroup[]).map(group => ({
+        policyName: group._id.policyName,
+        ruleId: group._id.ruleId,
+        calls: group.calls,
+        input_tokens: group.input_tokens,
+        output_tokens: group.output_tokens,
+        total_tokens: group.input_tokens + group.output_tokens,
+        cost_usd: roundCost(group.cost_usd),
+        avg_cost_usd: roundCost(group.cost_usd / group.calls),
+      })),
+      byDay: ((facets?.byDay || []) as Group<string>[]).map(group => ({
+        date: group._id,
+        ...toSpendTotals(group),
+      })),
     };
   }
 
   /**
    * Get the policy from an evaluation for re-running
    */
-  async getPolicyForRerun(evaluationId: string): Promise<{ policy: Policy; content: string } | null> {
+  async getPolicyForRerun(evaluationId: string): Promise<{
+    policy: Policy;
+    content: EvaluationContent;
+    metadata?: EvaluationMetadata;
+    inputs?: EvaluationInputs;
+  } | null> {
     if (!isDatabaseConnected()) {
       throw new Error('Database not connected');
     }
@@ -403,14 +626,33 @@ export class HistoryService {
         judge_prompt: r.judge_prompt,
         on_fail: r.on_fail,
         weight: r.weight,
+        provider: r.provider,
+        model: r.model,
+        redaction: r.redaction,
+        type: r.type,
+        pattern: r.pattern,
+        flags: r.flags,
+        keywords: r.keywords,
+        case_sensitive: r.case_sensitive,
+        pii_types: r.pii_types,
+        ensemble: r.ensemble,
+        min_confidence: r.min_confidence,
+        applies_when: r.applies_when,
+        scope: r.scope,
       })),
       evaluation_strategy: evaluation.policySnapshot.evaluation_strategy,
       threshold: evaluation.policySnapshot.threshold,
+      min_confidence: evaluation.policySnapshot.min_confidence,
+      confidence_weighted: evaluation.policySnapshot.confidence_weighted,
+      expression: evaluation.policySnapshot.expression,
+      ...(evaluation.policySnapshot.groups ? { groups: evaluation.toObject().policySnapshot.groups } : {}),
     };
 
     return {
       policy,
-      content: evaluation.content,
+      content: evaluation.messages?.length ? evaluation.toObject().messages! : evaluation.content,
+      ...(evaluation.requestMetadata ? { metadata: evaluation.requestMetadata } : {}),
+      ...(evaluation.inputs ? { inputs: evaluation.inputs } : {}),
     };
   }
 }
@@ -0,0 +1,682 @@
+/**
+ * JobService - Asynchronous evaluation jobs with webhook callbacks
+ *
+ * Jobs are queued in MongoDB and picked up by a polling worker, so queued
+ * work and pending webhook deliveries survive restarts. Finished jobs can be
+ * polled or delivered to a callback_url, signed with HMAC-SHA256:
+ *
+ *   X-Trustwise-Timestamp: <unix seconds>
+ *   X-Trustwise-Signature: sha256=<hex HMAC of "<timestamp>.<raw body>">
+ *
+ * Failed deliveries are retried with the same exponential backoff the judge
+ * uses for LLM retries. Callbacks to private, loopback and link-local
+ * addresses are refused unless the host is listed in JOB_CALLBACK_ALLOWED_HOSTS.
+ *
+ * Each tenant has its own worker that only claims that tenant's jobs. A worker
+ * renews the lease of each job it runs; jobs whose lease expired (their worker
+ * died) are queued again by any worker of the tenant. Workers start when a job
+ * is queued (or at startup for tenants with pending work) and stop once the
+ * tenant has no queued or running jobs and no pending callbacks.
+ */
+
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, isIPv4 } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { EvaluationJob, IEvaluationJob } from '../models/EvaluationJob';
+import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
+import { calculateBackoffDelay } from './JudgeService';
+import { HistoryService } from './HistoryService';
+import type {
+  Logger,
+  Policy,
+  PolicyEngineInterface,
+  RetryConfig,
+  EvaluationMetadata,
+  EvaluationContent,
+  EvaluationInputs,
+  EvaluationJob as EvaluationJobRecord
+} from '../types';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Trustwise-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Trustwise-Timestamp';
+
+// A running job whose heartbeat is older than this is considered abandoned
+export const DEFAULT_JOB_LEASE_MS = 60000;
+
+// maxRetries is the total number of delivery attempts
+const DEFAULT_WEBHOOK_RETRY: RetryConfig = {
+  maxRetries: 8,
+  initialDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  backoffMultiplier: 2,
+  jitterFactor: 0.1
+};
+
+// ============================================
+// Types
+// ============================================
+
+export interface CreateJobInput {
+  content: EvaluationContent;
+  policy?: Policy;
+  policyId?: string;
+  shortCircuit?: boolean;
+  metadata?: EvaluationMetadata;
+  inputs?: EvaluationInputs;
+  callbackUrl?: string;
+}
+
+export interface JobServiceOptions {
+  logger?: Logger;
+  tenantId?: string;
+  historyService?: HistoryService;
+  webhookSecret?: string;
+  pollIntervalMs?: number;
+  concurrency?: number;
+  webhookTimeoutMs?: number;
+  webhookRetry?: Partial<RetryConfig>;
+  leaseMs?: number;
+  callbackAllowedHosts?: string[];
+}
+
+// ============================================
+// Signature Helpers
+// ============================================
+
+/**
+ * Sign a webhook body. Receivers recompute the HMAC over
+ * "<timestamp>.<raw body>" and compare it with the signature header.
+ */
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string => {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+};
+
+// ============================================
+// Callback Target Helpers
+// ============================================
+
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local, multicast or reserved
+ * (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (dotted) {
+    return PRIVATE_NETWORKS.check(dotted[1]!, 'ipv4');
+  }
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (hex) {
+    const value = ((parseInt(hex[1]!, 16) << 16) | parseInt(hex[2]!, 16)) >>> 0;
+    return PRIVATE_NETWORKS.check([24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.'), 'ipv4');
+  }
+  return PRIVATE_NETWORKS.check(address, isIPv4(address) ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Parse JOB_CALLBACK_ALLOWED_HOSTS (comma-separated host names; subdomains match)
+ */
+export const parseAllowedHosts = (value: string | undefined): string[] => {
+  return (value || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+};
+
+/**
+ * Check where a callback would be sent. With an allowlist only listed hosts
+ * are accepted; otherwise every address the host resolves to must be public.
+ * @returns Why the target is refused, or null. Throws when the host does not resolve.
+ */
+export const checkCallbackTarget = async (callbackUrl: string, allowedHosts: string[] = []): Promise<string | null> => {
+  const hostname = new URL(callbackUrl).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (allowedHosts.length > 0) {
+    return allowedHosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+      ? null
+      : `callback_url host '${hostname}' is not in JOB_CALLBACK_ALLOWED_HOSTS`;
+  }
+
+  const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(entry => entry.address);
+  return addresses.some(isPrivateAddress)
+    ? `callback_url host '${hostname}' resolves to a private, loopback or link-local address`
+    : null;
+};
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+const parseRetryAfter = (value: string | null): number => {
+  if (!value) {
+    return 0;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? 0 : Math.max(0, date - Date.now());
+};
+
+// Jobs that still need a worker
+const PENDING_WORK_FILTER = {
+  $or: [
+    { status: { $in: ['queued', 'running'] } },
+    { 'callback.status': 'pending' }
+  ]
+};
+
+/**
+ * Tenants with queued or running jobs or pending callbacks, so their workers
+ * can be started after a restart
+ */
+export const findTenantsWithPendingJobs = async (): Promise<string[]> => {
+  if (!isDatabaseConnected()) {
+    throw new Error('Database not connected');
+  }
+
+  const tenantIds = await EvaluationJob.distinct('tenantId', PENDING_WORK_FILTER);
+  return tenantIds as string[];
+};
+
+// ============================================
+// Service Class
+// ============================================
+
+export class JobService {
+  private logger: Logger;
+  private tenantId: string;
+  private policyEngine: PolicyEngineInterface;
+  private historyService?: HistoryService;
+  private webhookSecret?: string;
+  private pollIntervalMs: number;
+  private concurrency: number;
+  private webhookTimeoutMs: number;
+  private webhookRetry: RetryConfig;
+  private leaseMs: number;
+  private callbackAllowedHosts: string[];
+
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private polling: boolean = false;
+  private active: number = 0;
+  private lastStaleCheck: number = 0;
+  private queuedCount: number = 0;
+
+  constructor(policyEngine: PolicyEngineInterface, options: JobServiceOptions = {}) {
+    this.logger = options.logger || console;
+    this.tenantId = options.tenantId || DEFAULT_TENANT_ID;
+    this.policyEngine = policyEngine;
+    this.historyService = options.historyService;
+    this.webhookSecret = options.webhookSecret ?? process.env['JOB_WEBHOOK_SECRET'];
+    this.pollIntervalMs = options.pollIntervalMs || 1000;
+    this.concurrency = Math.max(1, options.concurrency || 2);
+    this.webhookTimeoutMs = options.webhookTimeoutMs || 10000;
+    this.webhookRetry = { ...DEFAULT_WEBHOOK_RETRY, ...options.webhookRetry };
+    this.leaseMs = options.leaseMs || DEFAULT_JOB_LEASE_MS;
+    this.callbackAllowedHosts = options.callbackAllowedHosts ?? parseAllowedHosts(process.env['JOB_CALLBACK_ALLOWED_HOSTS']);
+  }
+
+  /**
+   * Whether callbacks can be signed (callback_url requires a secret)
+   */
+  hasWebhookSecret(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  /**
+   * Check a callback_url before queueing a job
+   * @returns Why the target is refused, or null
+   */
+  async checkCallbackUrl(url: string): Promise<string | null> {
+    try {
+      return await checkCallbackTarget(url, this.callbackAllowedHosts);
+    } catch {
+      return `callback_url host '${new URL(url).hostname}' could not be resolved`;
+    }
+  }
+
+  /**
+   * Queue a new evaluation job
+   */
+  async create(input: CreateJobInput): Promise<EvaluationJobRecord> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    if (input.callbackUrl && !this.webhookSecret) {
+      throw new Error('JOB_WEBHOOK_SECRET must be set to use callback_url');
+    }
+
+    const jobId = uuidv4();
+
+    const doc = new EvaluationJob({
+      jobId,
+      tenantId: this.tenantId,
+      status: 'queued',
+      content: input.content,
+      policy: input.policy,
+      policyId: input.policyId,
+      shortCircuit: input.shortCircuit,
+      metadata: input.metadata,
+      inputs: input.inputs,
+      ...(input.callbackUrl ? { callback: { url: input.callbackUrl, status: 'pending', attempts: 0 } } : {})
+    });
+    await doc.save();
+    this.queuedCount++;
+
+    this.logger.info('[JobService] Job queued', {
+      jobId,
+      tenantId: this.tenantId,
+      policyId: input.policyId,
+      hasCallback: !!input.callbackUrl
+    });
+
+    // Pick the job up right away instead of waiting for the next poll
+    if (this.running) {
+      this.schedule(0);
+    } else {
+      await this.start();
+    }
+
+    return this.toJob(doc);
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async get(jobId: string): Promise<EvaluationJobRecord | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await EvaluationJob.findOne({ tenantId: this.tenantId, jobId });
+    return doc ? this.toJob(doc) : null;
+  }
+
+  /**
+   * Start the worker. Jobs whose lease expired are queued again.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    if (isDatabaseConnected()) {
+      await this.requeueStaleJobs();
+    }
+
+    this.running = true;
+    this.schedule(0);
+
+    this.logger.info('[JobService] Worker started', {
+      tenantId: this.tenantId,
+      pollIntervalMs: this.pollIntervalMs,
+      concurrency: this.concurrency,
+      leaseMs: this.leaseMs
+    });
+  }
+
+  /**
+   * Queue again the running jobs whose worker stopped renewing their lease.
+   * Jobs still running on another instance keep a fresh heartbeat and are left alone.
+   */
+  private async requeueStaleJobs(): Promise<void> {
+    this.lastStaleCheck = Date.now();
+    const cutoff = new Date(this.lastStaleCheck - this.leaseMs);
+
+    const requeued = await EvaluationJob.updateMany(
+      {
+        tenantId: this.tenantId,
+        status: 'running',
+        $or: [
+          { heartbeatAt: { $lt: cutoff } },
+          { heartbeatAt: { $exists: false }, startedAt: { $not: { $gte: cutoff } } }
+        ]
+      },
+      { $set: { status: 'queued' }, $unset: { startedAt: 1, heartbeatAt: 1 } }
+    );
+    if (requeued.modifiedCount > 0) {
+      this.logger.warn('[JobService] Re-queued interrupted jobs', {
+        tenantId: this.tenantId,
+        count: requeued.modifiedCount
+      });
+    }
+  }
+
+  /**
+   * Stop polling. Jobs already running finish in the background.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.logger.info('[JobService] Worker stopped', { tenantId: this.tenantId });
+  }
+
+  /**
+   * Schedule the next poll
+   */
+  private schedule(delayMs: number = this.pollIntervalMs): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Claim queued jobs up to the concurrency limit and deliver due callbacks
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      if (isDatabaseConnected()) {
+        // Abandoned jobs are checked for about twice per lease
+        if (Date.now() - this.lastStaleCheck >= this.leaseMs / 2) {
+          await this.requeueStaleJobs();
+        }
+
+        while (this.running && this.active < this.concurrency) {
+          const job = await this.claimNext();
+          if (!job) {
+            break;
+          }
+          this.active++;
+          void this.runJob(job)
+            .catch(error => {
+              this.logger.error('[JobService] Job run failed', {
+                jobId: job.jobId,
+                error: (error as Error).message
+              });
+            })
+            .finally(() => {
+              this.active--;
+            });
+        }
+
+        await this.deliverDueCallbacks();
+
+        // Stop when there is nothing left to do; the next queued job starts the worker again
+        const queuedCount = this.queuedCount;
+        if (this.active === 0 && !(await this.hasPendingWork()) && queuedCount === this.queuedCount) {
+          this.stop();
+        }
+      }
+    } catch (error) {
+      this.logger.warn('[JobService] Poll failed', { error: (error as Error).message });
+    } finally {
+      this.polling = false;
+      if (!this.timer) {
+        this.schedule();
+      }
+    }
+  }
+
+  /**
+   * Whether the tenant has queued or running jobs or pending callbacks
+   */
+  private async hasPendingWork(): Promise<boolean> {
+    return (await EvaluationJob.exists({ tenantId: this.tenantId, ...PENDING_WORK_FILTER })) !== null;
+  }
+
+  /**
+   * Atomically move the tenant's oldest queued job to running
+   */
+  private async claimNext(): Promise<IEvaluationJob | null> {
+    return EvaluationJob.findOneAndUpdate(
+      { tenantId: this.tenantId, status: 'queued' },
+      { $set: { status: 'running', startedAt: new Date(), heartbeatAt: new Date() } },
+      { sort: { createdAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Evaluate a claimed job, save the result and deliver its callback
+   */
+  private async runJob(job: IEvaluationJob): Promise<void> {
+    this.logger.info('[JobService] Running job', { jobId: job.jobId });
+
+    // Renew the lease while the evaluation runs
+    const heartbeat = setInterval(() => {
+      EvaluationJob.updateOne({ _id: job._id, status: 'running' }, { $set: { heartbeatAt: new Date() } })
+        .catch(error => {
+          this.logger.warn('[JobService] Job heartbeat failed', { jobId: job.jobId, error: (error as Error).message });
+        });
+    }, Math.max(1000, Math.floor(this.leaseMs / 3)));
+    heartbeat.unref();
+
+    try {
+      const policy = job.policy ? (job.toObject().policy as Policy) : undefined;
+      const verdict = await this.policyEngine.evaluate(job.content, {
+        policy,
+        policyId: job.policyId,
+        shortCircuit: job.shortCircuit,
+        metadata: job.metadata,
+        ...(job.inputs ? { inputs: job.inputs } : {})
+      });
+
+      let evaluationId: string | undefined;
+      if (this.historyService && isDatabaseConnected()) {
+        try {
+          const historyRecord = await this.historyService.create({
+            content: job.content,
+            policy: (policy && this.policyEngine.resolve(policy)) || (job.policyId && this.policyEngine.getPolicyById(job.policyId)) || this.policyEngine.getActivePolicy(),
+            result: verdict,
+            metadata: job.metadata,
+            inputs: job.inputs,
+            tags: ['job'],
+          });
+          evaluationId = historyRecord.evaluationId;
+        } catch (historyError) {
+          this.logger.warn('[JobService] Failed to save job evaluation to history', {
+            jobId: job.jobId,
+            error: (historyError as Error).message
+          });
+        }
+      }
+
+      job.status = 'completed';
+      job.result = verdict;
+      job.evaluationId = evaluationId;
+    } catch (error) {
+      job.status = 'failed';
+      job.error = (error as Error).message;
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    job.completedAt = new Date();
+    if (job.callback) {
+      // Leased for the delivery below; picked up by a later poll if this process dies first
+      job.callback.nextAttemptAt = new Date(Date.now() + this.webhookTimeoutMs * 2);
+    }
+    job.markModified('result');
+    await job.save();
+
+    this.logger.info('[JobService] Job finished', {
+      jobId: job.jobId,
+      status: job.status,
+      finalVerdict: job.result?.final_verdict
+    });
+
+    if (job.callback) {
+      await this.deliverCallback(job);
+    }
+  }
+
+  /**
+   * Deliver callbacks whose next attempt is due
+   * @returns Number of deliveries attempted
+   */
+  async deliverDueCallbacks(): Promise<number> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    let attempted = 0;
+    for (;;) {
+      // Lease the delivery so another poll does not send it concurrently
+      const job = await EvaluationJob.findOneAndUpdate(
+        {
+          tenantId: this.tenantId,
+          status: { $in: ['completed', 'failed'] },
+          'callback.status': 'pending',
+          'callback.nextAttemptAt': { $lte: new Date() }
+        },
+        { $set: { 'callback.nextAttemptAt': new Date(Date.now() + this.webhookTimeoutMs * 2) } },
+        { sort: { 'callback.nextAttemptAt': 1 }, new: true }
+      );
+      if (!job) {
+        return attempted;
+      }
+      await this.deliverCallback(job);
+      attempted++;
+    }
+  }
+
+  /**
+   * POST the job result to its callback_url and record the outcome.
+   * Non-2xx responses and network errors are retried with backoff.
+   */
+  private async deliverCallback(job: IEvaluationJob): Promise<void> {
+    const callback = job.callback;
+    if (!callback || callback.status !== 'pending' || !this.webhookSecret) {
+      return;
+    }
+
+    const body = JSON.stringify({
+      event: job.status === 'completed' ? 'job.completed' : 'job.failed',
+      jobId: job.jobId,
+      status: job.status,
+      ...(job.result ? { result: job.result } : {}),
+      ...(job.evaluationId ? { evaluationId: job.evaluationId } : {}),
+      ...(job.error ? { error: job.error } : {})
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const attempt = callback.attempts + 1;
+
+    let statusCode: number | undefined;
+    let retryAfterMs = 0;
+    let deliveryError: string | undefined;
+    let refused = false;
+
+    try {
+      // Checked again on delivery: the host may resolve differently than when the job was queued
+      const refusal = await checkCallbackTarget(callback.url, this.callbackAllowedHosts);
+      if (refusal) {
+        refused = true;
+        throw new Error(refusal);
+      }
+
+      const response = await fetch(callback.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Trustwise-Job-Id': job.jobId,
+          'X-Trustwise-Delivery-Attempt': String(attempt),
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(this.webhookSecret, timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.webhookTimeoutMs)
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        deliveryError = `Callback responded with HTTP ${response.status}`;
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      }
+    } catch (error) {
+      deliveryError = (error as Error).message;
+    }
+
+    callback.attempts = attempt;
+    callback.lastStatusCode = statusCode;
+
+    if (!deliveryError) {
+      callback.status = 'delivered';
+      callback.deliveredAt = new Date();
+      callback.nextAttemptAt = undefined;
+      callback.lastError = undefined;
+      this.logger.info('[JobService] Callback delivered', { jobId: job.jobId, attempt });
+    } else if (refused || attempt >= this.webhookRetry.maxRetries) {
+      callback.status = 'failed';
+      callback.nextAttemptAt = undefined;
+      callback.lastError = deliveryError;
+      this.logger.error('[JobService] Callback delivery failed permanently', {
+        jobId: job.jobId,
+        attempts: attempt,
+        error: deliveryError
+      });
+    } else {
+      const delay = calculateBackoffDelay(attempt, this.webhookRetry, retryAfterMs);
+      callback.nextAttemptAt = new Date(Date.now() + delay);
+      callback.lastError = deliveryError;
+      this.logger.warn('[JobService] Callback delivery failed, will retry', {
+        jobId: job.jobId,
+        attempt,
+        delayMs: delay,
+        error: deliveryError
+      });
+    }
+
+    job.markModified('callback');
+    await job.save();
+  }
+
+  /**
+   * Convert a job document to a plain job (content is not echoed back)
+   */
+  private toJob(doc: IEvaluationJob): EvaluationJobRecord {
+    const callback = doc.callback;
+
+    return {
+      jobId: doc.jobId,
+      status: doc.status,
+      policyId: doc.policyId,
+      policyName: doc.result?.policy_name || doc.policy?.name,
+      shortCircuit: doc.shortCircuit,
+      result: doc.result,
+      evaluationId: doc.evaluationId,
+      error: doc.error,
+      ...(callback ? {
+        callback: {
+          url: callback.url,
+          status: callback.status,
+          attempts: callback.attempts,
+          nextAttemptAt: callback.nextAttemptAt,
+          lastError: callback.lastError,
+          lastStatusCode: callback.lastStatusCode,
+          deliveredAt: callback.deliveredAt
+        }
+      } : {}),
+      createdAt: doc.createdAt,
+      startedAt: doc.startedAt,
+      completedAt: doc.completedAt
+    };
+  }
+}
+
+export default JobService;
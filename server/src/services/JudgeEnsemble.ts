@@ -0,0 +1,209 @@
+/**
+ * JudgeEnsemble - Combine the votes of several judges into one rule verdict
+ *
+ * An ensemble rule is judged by every entry of ensemble.judges (different
+ * providers or models), each sampled ensemble.samples times. Votes are combined by:
+ * - majority: the verdict of more than half the votes
+ * - unanimous: the verdict every vote agrees on
+ * - weighted_mean: mean of the votes scored PASS = +1, FAIL = -1, UNCERTAIN = 0
+ *   and weighted by confidence; PASS or FAIL once |score| reaches the threshold
+ *
+ * Judges that disagree beyond what the voting method accepts yield UNCERTAIN.
+ * Failed votes count as UNCERTAIN with no confidence.
+ */
+
+import { getAvailableProviders } from './JudgeProvider';
+import type {
+  Rule,
+  Verdict,
+  JudgeVote,
+  EnsembleJudge,
+  EnsembleConfig,
+  EnsembleVoting
+} from '../types';
+
+export const DEFAULT_ENSEMBLE_VOTING: EnsembleVoting = 'majority';
+export const DEFAULT_WEIGHTED_THRESHOLD = 0.5;
+
+// Upper bound on judges x samples, so one rule cannot fan out unbounded calls
+export const MAX_ENSEMBLE_VOTES = 15;
+
+const VERDICT_SCORE: Record<Verdict, number> = {
+  PASS: 1,
+  FAIL: -1,
+  UNCERTAIN: 0
+};
+
+export interface CombinedVote {
+  verdict: Verdict;
+  confidence: number;
+  reasoning: string;
+  agreement: number;
+}
+
+/**
+ * Get list of available voting methods
+ */
+export const getAvailableVotingMethods = (): EnsembleVoting[] => {
+  return ['majority', 'unanimous', 'weighted_mean'];
+};
+
+/**
+ * Whether a rule is judged by an ensemble
+ */
+export const isEnsembleRule = (rule: Pick<Rule, 'ensemble'>): boolean => {
+  return !!rule.ensemble;
+};
+
+/**
+ * Judge calls of an ensemble rule: every judge once per sample.
+ * Judges without a provider or model use the rule's own.
+ */
+export const getEnsembleMembers = (rule: Rule): EnsembleJudge[] => {
+  const ensemble = rule.ensemble || {};
+  const judges = ensemble.judges && ensemble.judges.length > 0 ? ensemble.judges : [{}];
+  const samples = Math.max(1, Math.floor(ensemble.samples || 1));
+
+  return judges.flatMap(judge => {
+    const member: EnsembleJudge = {};
+    const provider = judge.provider || rule.provider;
+    const model = judge.model || (judge.provider ? undefined : rule.model);
+    if (provider) member.provider = provider;
+    if (model) member.model = model;
+    return Array.from({ length: samples }, () => ({ ...member }));
+  });
+};
+
+/**
+ * Validate an ensemble configuration
+ */
+export const validateEnsemble = (ensemble: EnsembleConfig): string[] => {
+  const errors: string[] = [];
+
+  if (typeof ensemble !== 'object' || ensemble === null || Array.isArray(ensemble)) {
+    return ['ensemble must be an object'];
+  }
+
+  if (ensemble.judges !== undefined) {
+    if (!Array.isArray(ensemble.judges)) {
+      errors.push('ensemble.judges must be an array');
+    } else {
+      ensemble.judges.forEach((judge, index) => {
+        if (judge.provider && !getAvailableProviders().includes(judge.provider)) {
+          errors.push(`ensemble.judges[${index}]: invalid provider ${judge.provider}. Valid: ${getAvailableProviders().join(', ')}`);
+        }
+      });
+    }
+  }
+
+  if (ensemble.samples !== undefined && (!Number.isInteger(ensemble.samples) || ensemble.samples < 1)) {
+    errors.push('ensemble.samples must be a positive integer');
+  }
+
+  if (ensemble.voting && !getAvailableVotingMethods().includes(ensemble.voting)) {
+    errors.push(`ensemble.voting must be one of: ${getAvailableVotingMethods().join(', ')}`);
+  }
+
+  if (ensemble.threshold !== undefined && (ensemble.threshold < 0 || ensemble.threshold > 1)) {
+    errors.push('ensemble.threshold must be between 0 and 1');
+  }
+
+  if (ensemble.temperature !== undefined && (ensemble.temperature < 0 || ensemble.temperature > 2)) {
+    errors.push('ensemble.temperature must be between 0 and 2');
+  }
+
+  const judgeCount = Array.isArray(ensemble.judges) && ensemble.judges.length > 0 ? ensemble.judges.length : 1;
+  const votes = judgeCount * (Number.isInteger(ensemble.samples) ? ensemble.samples! : 1);
+  if (votes > MAX_ENSEMBLE_VOTES) {
+    errors.push(`ensemble may cast at most ${MAX_ENSEMBLE_VOTES} votes (judges x samples), got ${votes}`);
+  }
+
+  return errors;
+};
+
+const average = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Tally such as "2 PASS, 1 FAIL"
+ */
+const describeTally = (votes: JudgeVote[]): string => {
+  return (['PASS', 'FAIL', 'UNCERTAIN'] as Verdict[])
+    .map(verdict => ({ verdict, count: votes.filter(vote => vote.verdict === verdict).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ verdict, count }) => `${count} ${verdict}`)
+    .join(', ');
+};
+
+/**
+ * Reasoning of the most confident vote for the verdict, if any
+ */
+const leadingReasoning = (votes: JudgeVote[], verdict: Verdict): string => {
+  const lead = votes
+    .filter(vote => vote.verdict === verdict)
+    .sort((a, b) => b.confidence - a.confidence)[0];
+  return lead ? ` ${lead.reasoning}` : '';
+};
+
+/**
+ * Combine judge votes into a single verdict
+ */
+export const combineVotes = (
+  votes: JudgeVote[],
+  voting: EnsembleVoting = DEFAULT_ENSEMBLE_VOTING,
+  threshold: number = DEFAULT_WEIGHTED_THRESHOLD
+): CombinedVote => {
+  if (votes.length === 0) {
+    return { verdict: 'UNCERTAIN', confidence: 0, reasoning: 'Ensemble cast no votes', agreement: 0 };
+  }
+
+  const tally = `${votes.length} votes (${describeTally(votes)}), ${voting}`;
+  const share = (verdict: Verdict): number => votes.filter(vote => vote.verdict === verdict).length / votes.length;
+
+  const disagreement = (detail: string): CombinedVote => {
+    const topShare = Math.max(share('PASS'), share('FAIL'), share('UNCERTAIN'));
+    return {
+      verdict: 'UNCERTAIN',
+      confidence: 0,
+      reasoning: `Judges disagree: ${tally}; ${detail}.`,
+      agreement: round(topShare)
+    };
+  };
+
+  const decided = (verdict: Verdict, confidence: number): CombinedVote => ({
+    verdict,
+    confidence: round(confidence),
+    reasoning: `${tally}.${leadingReasoning(votes, verdict)}`,
+    agreement: round(share(verdict))
+  });
+
+  switch (voting) {
+    case 'unanimous': {
+      const verdict = votes[0]!.verdict;
+      if (votes.some(vote => vote.verdict !== verdict)) {
+        return disagreement('unanimity required');
+      }
+      return decided(verdict, Math.min(...votes.map(vote => vote.confidence)));
+    }
+
+    case 'weighted_mean': {
+      const score = average(votes.map(vote => VERDICT_SCORE[vote.verdict] * vote.confidence));
+      if (Math.abs(score) < threshold) {
+        return disagreement(`weighted score ${round(score)} is within ±${threshold}`);
+      }
+      return decided(score > 0 ? 'PASS' : 'FAIL', Math.abs(score));
+    }
+
+    case 'majority':
+    default: {
+      const winner = (['PASS', 'FAIL', 'UNCERTAIN'] as Verdict[]).find(verdict => share(verdict) > 0.5);
+      if (!winner) {
+        return disagreement('no verdict has a majority');
+      }
+      return decided(winner, average(votes.filter(vote => vote.verdict === winner).map(vote => vote.confidence)));
+    }
+  }
+};
@@ -0,0 +1,331 @@
+/**
+ * JudgeProvider - LLM provider adapters for the JudgeService
+ *
+ * Implements four providers:
+ * - openai: OpenAI Chat Completions API
+ * - azure_openai: Azure OpenAI deployments
+ * - openai_compatible: Any OpenAI-compatible endpoint (Ollama, vLLM, ...)
+ * - anthropic: Anthropic Messages API
+ *
+ * Providers only perform the completion call. Retries, circuit breaking,
+ * metrics and response parsing stay in JudgeService and are shared.
+ */
+
+import https from 'https';
+import http from 'http';
+import OpenAI, { AzureOpenAI } from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  Logger,
+  JudgeProviderName,
+  JudgeProviderOptions,
+  JudgeProviderInterface,
+  JudgeCompletionRequest,
+  JudgeCompletionResponse
+} from '../types';
+
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/**
+ * Model used when a rule selects a provider other than the judge default
+ * without naming a model
+ */
+export const DEFAULT_PROVIDER_MODELS: Record<JudgeProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  azure_openai: 'gpt-4o-mini',
+  openai_compatible: 'llama3.1'
+};
+
+/**
+ * Build a keep-alive agent for connection pooling
+ */
+const createAgent = (baseURL: string | undefined, timeout: number): http.Agent => {
+  const agentConfig: https.AgentOptions = {
+    keepAlive: true,
+    maxSockets: 10,
+    maxFreeSockets: 5,
+    timeout,
+    keepAliveMsecs: 30000,
+    scheduling: 'lifo'
+  };
+
+  return baseURL?.startsWith('http://')
+    ? new http.Agent(agentConfig)
+    : new https.Agent(agentConfig);
+};
+
+/**
+ * Base provider class
+ */
+export abstract class BaseJudgeProvider implements JudgeProviderInterface {
+  abstract readonly name: JudgeProviderName;
+  protected logger: Logger;
+  protected options: JudgeProviderOptions;
+
+  constructor(options: JudgeProviderOptions, logger?: Logger) {
+    this.options = options;
+    this.logger = logger || console;
+  }
+
+  abstract isConfigured(): boolean;
+  abstract complete(request: JudgeCompletionRequest): Promise<JudgeCompletionResponse>;
+  abstract healthCheck(): Promise<void>;
+}
+
+/**
+ * OPENAI Provider - OpenAI Chat Completions with JSON mode
+ */
+export class OpenAIProvider extends BaseJudgeProvider {
+  readonly name: JudgeProviderName = 'openai';
+  protected client?: OpenAI;
+
+  constructor(options: JudgeProviderOptions, logger?: Logger) {
+    super(options, logger);
+
+    if (this.isConfigured()) {
+      this.client = this.createClient();
+      this.logger.info('[JudgeProvider] OpenAI-family client initialized with connection pooling');
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.apiKey;
+  }
+
+  protected createClient(): OpenAI {
+    return new OpenAI({
+      apiKey: this.options.apiKey,
+      baseURL: this.options.baseURL,
+      httpAgent: createAgent(this.options.baseURL, this.options.timeout),
+      maxRetries: 0, // JudgeService handles retries
+      timeout: this.options.timeout
+    });
+  }
+
+  /**
+   * Whether the endpoint supports response_format: json_object
+   */
+  protected supportsJsonMode(): boolean {
+    return true;
+  }
+
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error(`${this.name} provider not configured - cannot evaluate content`);
+    }
+    return this.client;
+  }
+
+  async complete(request: JudgeCompletionRequest): Promise<JudgeCompletionResponse> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(this.supportsJsonMode() ? { response_format: { type: 'json_object' as const } } : {})
+    }, { signal: request.signal });
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      ...(response.usage ? {
+        usage: {
+          input_tokens: response.usage.prompt_tokens,
+          output_tokens: response.usage.completion_tokens
+        }
+      } : {})
+    };
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.getClient().models.list();
+  }
+}
+
+/**
+ * AZURE_OPENAI Provider - Azure OpenAI deployments (model name is the deployment)
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  override readonly name: JudgeProviderName = 'azure_openai';
+
+  override isConfigured(): boolean {
+    return !!this.options.apiKey && !!this.options.endpoint;
+  }
+
+  protected override createClient(): OpenAI {
+    return new AzureOpenAI({
+      apiKey: this.options.apiKey,
+      endpoint: this.options.endpoint,
+      apiVersion: this.options.apiVersion || DEFAULT_AZURE_API_VERSION,
+      deployment: this.options.deployment,
+      httpAgent: createAgent(this.options.endpoint, this.options.timeout),
+      maxRetries: 0,
+      timeout: this.options.timeout
+    });
+  }
+}
+
+/**
+ * OPENAI_COMPATIBLE Provider - Self-hosted endpoints speaking the OpenAI API
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  override readonly name: JudgeProviderName = 'openai_compatible';
+
+  override isConfigured(): boolean {
+    return !!this.options.baseURL;
+  }
+
+  protected override createClient(): OpenAI {
+    return new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: this.options.apiKey || 'not-required',
+      baseURL: this.options.baseURL,
+      httpAgent: createAgent(this.options.baseURL, this.options.timeout),
+      maxRetries: 0,
+      timeout: this.options.timeout
+    });
+  }
+
+  protected override supportsJsonMode(): boolean {
+    // Not every local server implements json_object; the prompt already demands JSON
+    return false;
+  }
+}
+
+/**
+ * ANTHROPIC Provider - Anthropic Messages API
+ */
+export class AnthropicProvider extends BaseJudgeProvider {
+  readonly name: JudgeProviderName = 'anthropic';
+  private client?: Anthropic;
+
+  constructor(options: JudgeProviderOptions, logger?: Logger) {
+    super(options, logger);
+
+    if (this.isConfigured()) {
+      this.client = new Anthropic({
+        apiKey: this.options.apiKey,
+        baseURL: this.options.baseURL,
+        httpAgent: createAgent(this.options.baseURL, this.options.timeout),
+        maxRetries: 0,
+        timeout: this.options.timeout
+      });
+      this.logger.info('[JudgeProvider] Anthropic client initialized with connection pooling');
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.apiKey;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      throw new Error('anthropic provider not configured - cannot evaluate content');
+    }
+    return this.client;
+  }
+
+  async complete(request: JudgeCompletionRequest): Promise<JudgeCompletionResponse> {
+    const response = await this.getClient().messages.create({
+      model: request.model,
+      system: request.systemPrompt,
+      messages: [
+        { role: 'user', content: request.userPrompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    }, { signal: request.signal });
+
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      text,
+      usage: {
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens
+      }
+    };
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.getClient().models.list();
+  }
+}
+
+/**
+ * Resolve provider options from environment variables
+ */
+export const getProviderOptionsFromEnv = (
+  name: JudgeProviderName,
+  timeout: number
+): JudgeProviderOptions => {
+  switch (name) {
+    case 'openai':
+      return {
+        apiKey: process.env['OPENAI_API_KEY'],
+        timeout
+      };
+    case 'azure_openai':
+      return {
+        apiKey: process.env['AZURE_OPENAI_API_KEY'],
+        endpoint: process.env['AZURE_OPENAI_ENDPOINT'],
+        apiVersion: process.env['AZURE_OPENAI_API_VERSION'],
+        deployment: process.env['AZURE_OPENAI_DEPLOYMENT'],
+        timeout
+      };
+    case 'openai_compatible':
+      return {
+        apiKey: process.env['OPENAI_COMPATIBLE_API_KEY'],
+        baseURL: process.env['OPENAI_COMPATIBLE_BASE_URL'] || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        timeout
+      };
+    case 'anthropic':
+      return {
+        apiKey: process.env['ANTHROPIC_API_KEY'],
+        baseURL: process.env['ANTHROPIC_BASE_URL'],
+        timeout
+      };
+  }
+};
+
+/**
+ * Provider factory - returns appropriate provider instance
+ * @param providerName - Name of provider
+ * @param options - Provider connection options
+ * @param logger - Logger instance
+ * @returns Provider instance
+ */
+export const createProvider = (
+  providerName: JudgeProviderName,
+  options: JudgeProviderOptions,
+  logger?: Logger
+): BaseJudgeProvider => {
+  const providers: Record<JudgeProviderName, new (options: JudgeProviderOptions, logger?: Logger) => BaseJudgeProvider> = {
+    openai: OpenAIProvider,
+    anthropic: AnthropicProvider,
+    azure_openai: AzureOpenAIProvider,
+    openai_compatible: OpenAICompatibleProvider
+  };
+
+  const ProviderClass = providers[providerName];
+
+  if (!ProviderClass) {
+    throw new Error(`Unknown judge provider: ${providerName}. Valid options: ${getAvailableProviders().join(', ')}`);
+  }
+
+  return new ProviderClass(options, logger);
+};
+
+/**
+ * Get list of available providers
+ * @returns Available provider names
+ */
+export const getAvailableProviders = (): JudgeProviderName[] => {
+  return ['openai', 'anthropic', 'azure_openai', 'openai_compatible'];
+};
@@ -2,17 +2,43 @@
  * JudgeService - LLM Judge abstraction for policy rule evaluation
  * 
  * Design Principles:
- * - Uses OpenAI SDK (consistent with existing codebase pattern)
+ * - Pluggable providers (OpenAI, Anthropic, Azure OpenAI, OpenAI-compatible)
+ * - Rules may pick their own provider and model
  * - Supports configurable timeouts and retries with exponential backoff
  * - Circuit breaker pattern for graceful degradation
  * - Rate limit detection and handling
  * - Returns structured verdict responses
+ * - Reports provider token usage on each result, and as judge:usage events for per-tenant quotas
+ * - Optional verdict cache for repeated content
+ * - Ensemble rules are judged by several judges or samples and their votes combined
+ * - Content longer than chunkTokens is judged in overlapping chunks
  * - Mockable for testing
  */
 
-import OpenAI from 'openai';
-import https from 'https';
 import { EventEmitter } from 'events';
+import { VerdictCache } from './VerdictCache';
+import { fillRulePrompt } from './PromptTemplate';
+import { ConcurrencyLimiter } from './ConcurrencyLimiter';
+import {
+  splitIntoChunks,
+  combineChunkResults,
+  ContentChunk,
+  CHUNK_CONCURRENCY,
+  DEFAULT_CHUNK_TOKENS,
+  DEFAULT_CHUNK_OVERLAP_TOKENS
+} from './Chunker';
+import {
+  combineVotes,
+  getEnsembleMembers,
+  isEnsembleRule,
+  DEFAULT_ENSEMBLE_VOTING,
+  DEFAULT_WEIGHTED_THRESHOLD
+} from './JudgeEnsemble';
+import {
+  createProvider,
+  getProviderOptionsFromEnv,
+  DEFAULT_PROVIDER_MODELS
+} from './JudgeProvider';
 import type {
   Logger,
   JudgeConfig,
@@ -28,7 +54,14 @@ import type {
   JudgeMetricsReport,
   HealthCheckResult,
   Verdict,
-  JudgeServiceInterface
+  JudgeServiceInterface,
+  VerdictCacheOptions,
+  JudgeProviderName,
+  JudgeProviderInterface,
+  JudgeEvaluateOptions,
+  JudgeVote,
+  JudgeSubject,
+  TokenUsage
 } from '../types';
 import { ErrorType, CircuitState } from '../types';
 
@@ -38,17 +71,48 @@ interface ExtendedError extends Error {
   code?: string;
 }
 
+// How the judge prompt names what it is asked to evaluate
+const JUDGE_SUBJECT_LABELS: Record<JudgeSubject, string> = {
+  content: 'this content',
+  conversation: 'this conversation',
+  messages: 'these messages',
+  message: 'this message'
+};
+
+/**
+ * Exponential backoff with jitter for the given (1-based) attempt.
+ * Also used for webhook delivery retries.
+ * @param minDelayMs - Lower bound before capping (e.g. a Retry-After window)
+ */
+export const calculateBackoffDelay = (attempt: number, retryConfig: RetryConfig, minDelayMs: number = 0): number => {
+  let baseDelay = retryConfig.initialDelayMs *
+                  Math.pow(retryConfig.backoffMultiplier, attempt - 1);
+
+  baseDelay = Math.max(baseDelay, minDelayMs);
+
+  // Cap at max delay
+  baseDelay = Math.min(baseDelay, retryConfig.maxDelayMs);
+
+  // Add jitter to prevent thundering herd
+  const jitter = baseDelay * retryConfig.jitterFactor * Math.random();
+
+  return Math.floor(baseDelay + jitter);
+};
+
 export class JudgeService extends EventEmitter implements JudgeServiceInterface {
   private logger: Logger;
   private config: Partial<JudgeConfig>;
   
   // Judge configuration
+  private provider: JudgeProviderName;
   private model: string;
   private temperature: number;
   private maxTokens: number;
   private timeout: number;
   private maxRetries: number;
   private retryDelay: number;
+  private chunkTokens: number;
+  private chunkOverlapTokens: number;
   
   // Retry configuration
   private retryConfig: RetryConfig;
@@ -62,6 +126,9 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
   // Performance metrics
   private metrics: JudgeMetrics;
   
+  // Verdict cache
+  private cache: VerdictCache;
+  
   // API key
   private apiKey?: string;
   
@@ -69,8 +136,11 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
   private mockMode: boolean;
   private mockResponses: MockResponses;
   
-  // OpenAI client
-  private openai?: OpenAI;
+  // Provider adapters, created on first use
+  private providers: Partial<Record<JudgeProviderName, JudgeProviderInterface>>;
+  
+  // Options each created adapter was built with (injected adapters have none)
+  private providerOptions: Partial<Record<JudgeProviderName, string>> = {};
 
   constructor(options: JudgeServiceOptions = {}) {
     super();
@@ -78,12 +148,15 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
     this.config = options.config || {};
     
     // Judge configuration
+    this.provider = this.config.provider || 'openai';
     this.model = this.config.model || 'gpt-4o-mini';
     this.temperature = this.config.temperature ?? 0.1;
     this.maxTokens = this.config.maxTokens || 500;
     this.timeout = this.config.timeout || 30000;
     this.maxRetries = this.config.maxRetries || 3;
     this.retryDelay = this.config.retryDelay || 1000;
+    this.chunkTokens = this.config.chunkTokens || DEFAULT_CHUNK_TOKENS;
+    this.chunkOverlapTokens = this.config.chunkOverlapTokens ?? DEFAULT_CHUNK_OVERLAP_TOKENS;
     
     // Retry configuration
     this.retryConfig = {
@@ -121,9 +194,14 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
       timeouts: 0,
       rateLimits: 0,
       circuitBreakerTrips: 0,
-      totalLatency: 0
+      totalLatency: 0,
+      inputTokens: 0,
+      outputTokens: 0
     };
     
+    // Verdict cache (disabled unless settings.cacheResults is on)
+    this.cache = new VerdictCache(options.cache);
+    
     // API key
     this.apiKey = options.apiKey || process.env['OPENAI_API_KEY'];
     
@@ -131,62 +209,119 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
     this.mockMode = options.mockMode || false;
     this.mockResponses = options.mockResponses || {};
     
-    // Initialize OpenAI client if not in mock mode and API key is available
-    if (!this.mockMode && this.apiKey) {
-      this.initializeClient();
-    } else if (!this.mockMode && !this.apiKey) {
-      this.logger.warn('[JudgeService] OPENAI_API_KEY not configured - evaluations will fail until key is provided');
+    // Provider adapters (injected ones take precedence, e.g. for testing)
+    this.providers = { ...options.providers };
+    
+    // Initialize the default provider if not in mock mode
+    if (!this.mockMode) {
+      const defaultProvider = this.getProvider(this.provider);
+      if (!defaultProvider.isConfigured()) {
+        this.logger.warn(`[JudgeService] ${this.provider} provider not configured - evaluations will fail until credentials are provided`);
+      }
     }
     
     this.logger.info('[JudgeService] Initialized', {
+      provider: this.provider,
       model: this.model,
       temperature: this.temperature,
       timeout: this.timeout,
       maxRetries: this.retryConfig.maxRetries,
       circuitBreakerThreshold: this.circuitBreaker.failureThreshold,
+      cacheEnabled: this.cache.isEnabled(),
       mockMode: this.mockMode
     });
   }
 
   /**
-   * Initialize the OpenAI client with connection pooling
+   * Get (or lazily create) the adapter for a provider. Created adapters are
+   * rebuilt when their timeout, endpoint or credentials change.
    */
-  private initializeClient(): void {
-    if (!this.apiKey) {
-      this.logger.warn('[JudgeService] Cannot initialize OpenAI client - API key not configured');
-      return;
+  private getProvider(name: JudgeProviderName): JudgeProviderInterface {
+    const cached = this.providers[name];
+    
+    if (cached && this.providerOptions[name] === undefined) {
+      return cached; // Injected adapter
     }
+    
+    const providerOptions = getProviderOptionsFromEnv(name, this.timeout);
+    if (name === 'openai' && this.apiKey) {
+      providerOptions.apiKey = this.apiKey;
+    }
+    
+    const signature = JSON.stringify(providerOptions);
+    if (cached && this.providerOptions[name] === signature) {
+      return cached;
+    }
+    
+    if (cached) {
+      this.logger.info('[JudgeService] Provider options changed, rebuilding adapter', { provider: name });
+    }
+    
+    const provider = createProvider(name, providerOptions, this.logger);
+    this.providers[name] = provider;
+    this.providerOptions[name] = signature;
+    
+    return provider;
+  }
 
-    const agentConfig: https.AgentOptions = {
-      keepAlive: true,
-      maxSockets: 10,
-      maxFreeSockets: 5,
-      timeout: this.timeout,
-      keepAliveMsecs: 30000,
-      scheduling: 'lifo'
-    };
-
-    const httpAgent = new https.Agent(agentConfig);
-
-    this.openai = new OpenAI({
-      apiKey: this.apiKey,
-      httpAgent: httpAgent,
-      maxRetries: 0, // We handle retries ourselves
-      timeout: this.timeout
-    });
-
-    this.logger.info('[JudgeService] OpenAI client initialized with connection pooling');
+  /**
+   * Resolve the provider and model a rule should be judged with
+   */
+  private resolveTarget(rule: Rule): { provider: JudgeProviderName; model: string } {
+    const provider = rule.provider || this.provider;
+    const model = rule.model
+      || (provider === this.provider ? this.model : DEFAULT_PROVIDER_MODELS[provider]);
+    
+    return { provider, model };
   }
 
   /**
-   * Evaluate content against a rule using the LLM Judge
+   * Evaluate content against a rule using the LLM Judge.
+   * Aborting options.signal abandons the call without counting it as a failure.
    */
-  async evaluate(rule: Rule, content: string): Promise<JudgeEvaluationResult> {
+  async evaluate(rule: Rule, content: string, options: JudgeEvaluateOptions = {}): Promise<JudgeEvaluationResult> {
+    const chunks = splitIntoChunks(content, this.chunkTokens, this.chunkOverlapTokens);
+    if (chunks.length > 1) {
+      return this.evaluateChunked(rule, chunks, options);
+    }
+    
+    if (isEnsembleRule(rule)) {
+      return this.evaluateEnsemble(rule, content, options);
+    }
+    
+    // Fill the request's guardrail fields into the judge prompt (cache keys hash the filled prompt)
+    rule = fillRulePrompt(rule, options.inputs);
+    
     const startTime = Date.now();
+    const { signal } = options;
+    const temperature = options.temperature ?? this.temperature;
+    
+    const target = this.resolveTarget(rule);
+    
+    // Serve repeated content from the verdict cache without an LLM call
+    const cacheKey = this.cache.isEnabled() && !options.skipCache
+      ? VerdictCache.buildKey({ rule, content, ...target, temperature, context: options.context })
+      : null;
+    
+    if (cacheKey) {
+      const cached = this.cache.get(cacheKey);
+      if (cached) {
+        this.logger.debug('[JudgeService] Cache hit', { ruleId: rule.id });
+        this.emit('judge:cache-hit', { ruleId: rule.id });
+        return {
+          ...cached,
+          latency_ms: 0,
+          cached: true
+        };
+      }
+    }
+    
     this.metrics.requests++;
     
     this.logger.info('[JudgeService] Evaluating rule', {
       ruleId: rule.id,
+      provider: target.provider,
+      model: target.model,
       contentLength: content.length,
       circuitState: this.circuitBreaker.state
     });
@@ -204,9 +339,9 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
       let result: JudgeEvaluationResult;
       
       if (this.mockMode) {
-        result = await this.evaluateMock(rule, content);
+        result = await this.evaluateMock(rule, content, target.model, signal);
       } else {
-        result = await this.evaluateWithRetry(rule, content);
+        result = await this.evaluateWithRetry(rule, content, target, temperature, options, signal);
       }
       
       const latency = Date.now() - startTime;
@@ -216,6 +351,12 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
       // Record success for circuit breaker
       this.recordSuccess();
       
+      if (cacheKey) {
+        // Cache hits make no judge call, so they carry no token usage
+        const { usage: _usage, ...cacheable } = result;
+        this.cache.set(cacheKey, rule.id, { ...cacheable, ...target });
+      }
+      
       // Emit evaluation complete event
       this.emit('judge:evaluation-complete', {
         ruleId: rule.id,
@@ -225,11 +366,28 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
       
       return {
         ...result,
+        provider: target.provider,
+        model: target.model,
         latency_ms: latency
       };
       
     } catch (error) {
       const latency = Date.now() - startTime;
+      
+      // Abandoned calls (e.g. short-circuit evaluation) are not judge failures
+      if (signal?.aborted) {
+        this.logger.debug('[JudgeService] Evaluation abandoned', { ruleId: rule.id, latency });
+        this.emit('judge:evaluation-abandoned', { ruleId: rule.id, latency });
+        return {
+          verdict: 'UNCERTAIN',
+          confidence: 0,
+          reasoning: 'Evaluation abandoned',
+          provider: target.provider,
+          model: target.model,
+          latency_ms: latency
+        };
+      }
+      
       this.metrics.failures++;
       this.metrics.totalLatency += latency;
       
@@ -259,6 +417,8 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
         verdict: 'UNCERTAIN',
         confidence: 0,
         reasoning: `Evaluation failed: ${extendedError.message}`,
+        provider: target.provider,
+        model: target.model,
         latency_ms: latency,
         error: extendedError.message,
         errorType
@@ -266,6 +426,111 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
     }
   }
 
+  /**
+   * Evaluate an ensemble rule: judge it once per member and combine the votes.
+   * Repeated samples of the same judge skip the verdict cache so each is a fresh call.
+   */
+  private async evaluateEnsemble(rule: Rule, content: string, options: JudgeEvaluateOptions): Promise<JudgeEvaluationResult> {
+    const startTime = Date.now();
+    const { ensemble, ...single } = rule;
+    const members = getEnsembleMembers(rule);
+    const sampled = (ensemble?.samples || 1) > 1;
+    
+    const memberOptions: JudgeEvaluateOptions = {
+      ...options,
+      ...(sampled ? { skipCache: true } : {}),
+      ...(sampled && ensemble?.temperature !== undefined ? { temperature: ensemble.temperature } : {})
+    };
+    
+    const results = await Promise.all(members.map(member =>
+      this.evaluate({ ...single, ...member }, content, memberOptions)
+    ));
+    
+    const votes: JudgeVote[] = results.map(result => ({
+      ...(result.provider ? { provider: result.provider } : {}),
+      ...(result.model ? { model: result.model } : {}),
+      verdict: result.verdict,
+      confidence: result.confidence,
+      reasoning: result.reasoning,
+      latency_ms: result.latency_ms || 0,
+      ...(result.error ? { error: result.error } : {}),
+      ...(result.cached ? { cached: true } : {}),
+      ...(result.usage ? { usage: result.usage } : {})
+    }));
+    
+    const combined = combineVotes(
+      votes,
+      ensemble?.voting || DEFAULT_ENSEMBLE_VOTING,
+      ensemble?.threshold ?? DEFAULT_WEIGHTED_THRESHOLD
+    );
+    
+    // Redact with the spans of the most confident FAIL vote
+    const spans = combined.verdict === 'FAIL'
+      ? results
+          .filter(result => result.verdict === 'FAIL' && result.spans)
+          .sort((a, b) => b.confidence - a.confidence)[0]?.spans
+      : undefined;
+    
+    const usage = results.reduce<TokenUsage | undefined>((total, result) => result.usage
+      ? {
+          input_tokens: (total?.input_tokens || 0) + result.usage.input_tokens,
+          output_tokens: (total?.output_tokens || 0) + result.usage.output_tokens
+        }
+      : total, undefined);
+    
+    const failed = results.filter(result => result.error);
+    
+    this.logger.debug('[JudgeService] Ensemble combined', {
+      ruleId: rule.id,
+      votes: votes.length,
+      verdict: combined.verdict,
+      agreement: combined.agreement
+    });
+    
+    return {
+      verdict: combined.verdict,
+      confidence: combined.confidence,
+      reasoning: combined.reasoning,
+      latency_ms: Date.now() - startTime,
+      ...(failed.length === results.length && failed[0] ? { error: failed[0].error, errorType: failed[0].errorType } : {}),
+      ...(spans ? { spans } : {}),
+      ...(usage ? { usage } : {}),
+      votes,
+      agreement: combined.agreement
+    };
+  }
+
+  /**
+   * Judge each chunk of long content as its own call and combine the chunk verdicts
+   */
+  private async evaluateChunked(rule: Rule, chunks: ContentChunk[], options: JudgeEvaluateOptions): Promise<JudgeEvaluationResult> {
+    const startTime = Date.now();
+    const limiter = new ConcurrencyLimiter(CHUNK_CONCURRENCY);
+    
+    this.logger.info('[JudgeService] Evaluating rule in chunks', {
+      ruleId: rule.id,
+      chunks: chunks.length,
+      contentLength: chunks[chunks.length - 1]!.end
+    });
+    
+    const results = await Promise.all(chunks.map(chunk =>
+      limiter.run(() => this.evaluate(rule, chunk.text, options))
+    ));
+    
+    const combined = combineChunkResults(chunks, results);
+    
+    this.logger.debug('[JudgeService] Chunks combined', {
+      ruleId: rule.id,
+      verdict: combined.verdict,
+      flagged: combined.chunks?.length || 0
+    });
+    
+    return {
+      ...combined,
+      latency_ms: Date.now() - startTime
+    };
+  }
+
   /**
    * Check circuit breaker state before making request
    */
@@ -443,30 +708,27 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
    * Calculate delay for retry with exponential backoff and jitter
    */
   private calculateRetryDelay(attempt: number, errorType: ErrorType): number {
-    let baseDelay = this.retryConfig.initialDelayMs * 
-                    Math.pow(this.retryConfig.backoffMultiplier, attempt - 1);
-    
     // Use longer delay for rate limits
-    if (errorType === ErrorType.RATE_LIMIT && this.rateLimitState.retryAfterMs > 0) {
-      baseDelay = Math.max(baseDelay, this.rateLimitState.retryAfterMs);
-    }
-    
-    // Cap at max delay
-    baseDelay = Math.min(baseDelay, this.retryConfig.maxDelayMs);
-    
-    // Add jitter to prevent thundering herd
-    const jitter = baseDelay * this.retryConfig.jitterFactor * Math.random();
-    
-    return Math.floor(baseDelay + jitter);
+    const minDelayMs = errorType === ErrorType.RATE_LIMIT ? this.rateLimitState.retryAfterMs : 0;
+    return calculateBackoffDelay(attempt, this.retryConfig, minDelayMs);
   }
 
   /**
    * Evaluate with retry logic and improved error handling
    */
-  private async evaluateWithRetry(rule: Rule, content: string): Promise<JudgeEvaluationResult> {
-    // Check if OpenAI client is initialized
-    if (!this.openai) {
-      throw new Error('OPENAI_API_KEY not configured - cannot evaluate content');
+  private async evaluateWithRetry(
+    rule: Rule,
+    content: string,
+    target: { provider: JudgeProviderName; model: string },
+    temperature: number,
+    framing: Pick<JudgeEvaluateOptions, 'subject' | 'context'>,
+    signal?: AbortSignal
+  ): Promise<JudgeEvaluationResult> {
+    const provider = this.getProvider(target.provider);
+    
+    // Check if the provider has credentials/endpoint configured
+    if (!provider.isConfigured()) {
+      throw new Error(`${target.provider} provider not configured - cannot evaluate content`);
     }
     
     let lastError: ExtendedError = new Error('Unknown error');
@@ -474,8 +736,12 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
     
     for (let attempt = 1; attempt <= this.retryConfig.maxRetries; attempt++) {
       try {
-        return await this.evaluateLLM(rule, content);
+        return await this.evaluateLLM(rule, content, provider, target.model, temperature, framing, signal);
       } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        
         lastError = error as ExtendedError;
         lastErrorType = this.categorizeError(lastError);
         
@@ -507,7 +773,7 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
             errorType: lastErrorType
           });
           
-          await this.sleep(delay);
+          await this.sleep(delay, signal);
         }
       }
     }
@@ -516,12 +782,27 @@ export class JudgeService extends EventEmitter implements JudgeServiceInterface
   }
 
   /**
-   * Call LLM for evaluation
+   * Call LLM for evaluation. Transcripts are framed as a conversation, a set of
+   * messages, or a single message with the earlier turns as context.
    */
-  private async evaluateLLM(rule: Rule, content: string): Promise<JudgeEvaluationResult> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
-    }
+  private async evaluateLLM(
+    rule: Rule,
+    content: string,
+    provider: JudgeProviderInterface,
+    model: string,
+    temperature: number,
+    framing: Pick<JudgeEvaluateOptions, 'subject' | 'context'>,
+    signal?: AbortSignal
+  ): Promise<JudgeEvaluationResult> {
+    const redactionInstructions = rule.on_fail === 'redact'
+      ? `
+
+If the verdict is FAIL, also include a "spans" array listing every offending piece of text:
+  "spans": [{ "text": "exact offending text", "start": 0, "end": 10, "category": "EMAIL" }]
+- text: the exact substring copied from the content
+- start/end: zero-based character offsets (end exclusive)
+- category: short uppercase label for the kind of sensitive data`
+      : '';
 
     const systemPrompt = `You are a content moderation judge. Evaluate the provided content against the given rule and respond with a structured JSON verdict.
 
@@ -540,28 +821,41 @@ Guidelines:
 - FAIL: Content clearly violates the criteria
 - UNCERTAIN: Cannot determine with confidence (edge case or ambiguous)
 - confidence: How certain you are (0.0 = no confidence, 1.0 = fully certain)
-- reasoning: 1-2 sentence explanation`;
+- reasoning: 1-2 sentence explanation${redactionInstructions}`;
 
-    const userPrompt = `Evaluate this content:\n\n${content}`;
+    const subject = JUDGE_SUBJECT_LABELS[framing.subject || 'content'];
+    const userPrompt = framing.context
+      ? `Conversation so far (context only, do not judge it):\n\n${framing.context}\n\nEvaluate ${subject}:\n\n${content}`
+      : `Evaluate ${subject}:\n\n${content}`;
 
-    const response = await this.openai.chat.completions.create({
-      model: this.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      max_tokens: this.maxTokens,
-      temperature: this.temperature,
-      response_format: { type: 'json_object' }
+    const response = await provider.complete({
+      model,
+      systemPrompt,
+      userPrompt,
+      maxTokens: this.maxTokens,
+      temperature,
+      signal
     });
 
-    const responseText = response.choices[0]?.message?.content || '';
+    if (response.usage) {
+      this.metrics.inputTokens += response.usage.input_tokens;
+      this.metrics.outputTokens += response.usage.output_tokens;
+      this.emit('judge:usage', {
+        ruleId: rule.id,
+        provider: provider.name,
+        model,
+        usage: response.usage
+      });
+    }
+
+    const responseText = response.text;
     
     try {
       const parsed = JSON.parse(responseText) as {
         verdict?: string;
         confidence?: number | string;
         reasoning?: string;
+        spans?: unknown;
       };
       
       // Validate response structure
@@ -572,7 +866,9 @@ Guidelines:
       return {
         verdict,
         confidence,
-        reasoning
+        reasoning,
+        ...(Array.isArray(parsed.spans) ? { spans: parsed.spans as JudgeEvaluationResult['spans'] } : {}),
+        ...(response.usage ? { usage: response.usage } : {})
       };
       
     } catch {
@@ -582,16 +878,19 @@ Guidelines:
       });
       
       // Attempt to extract verdict from raw text
-      return this.extractVerdictFromText(responseText);
+      return {
+        ...this.extractVerdictFromText(responseText),
+        ...(response.usage ? { usage: response.usage } : {})
+      };
     }
   }
 
   /**
    * Mock evaluation for testing
    */
-  private async evaluateMock(rule: Rule, content: string): Promise<JudgeEvaluationResult> {
-    // Check if there's a specific mock response for this rule
-    const mockResponse = this.mockResponses[rule.id];
+  private async evaluateMock(rule: Rule, content: string, model: string, signal?: AbortSignal): Promise<JudgeEvaluationResult> {
+    // Check if there's a specific mock response for this rule, or for this rule and model ("ruleId@model")
+    const mockResponse = this.mockResponses[`${rule.id}@${model}`] || this.mockResponses[rule.id];
     
     if (mockResponse) {
       // If it's a function, call it with content
@@ -603,7 +902,7 @@ Guidelines:
       
       // If it's a promise rejection (for timeout testing)
       if (response.timeout) {
-        await this.sleep(response.timeout);
+        await this.sleep(response.timeout, signal);
         throw new Error('Request timeout');
       }
       
@@ -624,7 +923,8 @@ Guidelines:
       return {
         verdict: response.verdict || 'PASS',
         confidence: response.confidence || 0.9,
-        reasoning: response.reasoning || 'Mock evaluation'
+        reasoning: response.reasoning || 'Mock evaluation',
+        ...(response.spans ? { spans: response.spans } : {})
       };
     }
     
@@ -698,20 +998,39 @@ Guidelines:
   }
 
   /**
-   * Sleep utility for retry delays
+   * Sleep utility for retry delays; rejects early if the signal aborts
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Evaluation aborted'));
+        return;
+      }
+      
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(new Error('Evaluation aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
    * Update configuration at runtime
    */
   updateConfig(newConfig: Partial<JudgeConfig>): void {
+    if (newConfig.provider) this.provider = newConfig.provider;
     if (newConfig.model) this.model = newConfig.model;
     if (newConfig.temperature !== undefined) this.temperature = newConfig.temperature;
     if (newConfig.maxTokens) this.maxTokens = newConfig.maxTokens;
     if (newConfig.timeout) this.timeout = newConfig.timeout;
+    if (newConfig.chunkTokens) this.chunkTokens = newConfig.chunkTokens;
+    if (newConfig.chunkOverlapTokens !== undefined) this.chunkOverlapTokens = newConfig.chunkOverlapTokens;
     if (newConfig.maxRetries) {
       this.maxRetries = newConfig.maxRetries;
       this.retryConfig.maxRetries = newConfig.maxRetries;
@@ -728,6 +1047,7 @@ Guidelines:
     }
     
     this.logger.info('[JudgeService] Configuration updated', {
+      provider: this.provider,
       model: this.model,
       temperature: this.temperature,
       timeout: this.timeout,
@@ -748,6 +1068,29 @@ Guidelines:
     });
   }
 
+  /**
+   * Update verdict cache options at runtime
+   */
+  configureCache(options: Partial<VerdictCacheOptions>): void {
+    this.cache.configure(options);
+    
+    this.logger.info('[JudgeService] Cache configuration updated', {
+      ...this.cache.getStats()
+    });
+  }
+
+  /**
+   * Clear cached verdicts (all, or only for the given rule ids)
+   */
+  clearCache(ruleIds?: string[]): void {
+    const removed = this.cache.clear(ruleIds);
+    
+    this.logger.info('[JudgeService] Cache cleared', {
+      ruleIds: ruleIds || 'all',
+      removed
+    });
+  }
+
   /**
    * Get performance metrics
    */
@@ -755,6 +1098,8 @@ Guidelines:
     const avgLatency = this.metrics.requests > 0
       ? (this.metrics.totalLatency / this.metrics.requests).toFixed(2)
       : '0';
+    const cacheStats = this.cache.getStats();
+    const cacheLookups = cacheStats.hits + cacheStats.misses;
     
     return {
       ...this.metrics,
@@ -764,10 +1109,23 @@ Guidelines:
         : '0.00%',
       circuitState: this.circuitBreaker.state,
       circuitFailureCount: this.circuitBreaker.failureCount,
-      isRateLimited: this.rateLimitState.isLimited
+      isRateLimited: this.rateLimitState.isLimited,
+      cacheHits: cacheStats.hits,
+      cacheMisses: cacheStats.misses,
+      cacheHitRate: cacheLookups > 0
+        ? `${((cacheStats.hits / cacheLookups) * 100).toFixed(2)}%`
+        : '0.00%',
+      cacheSize: cacheStats.size
     };
   }
 
+  /**
+   * Get a copy of the current rate limit state
+   */
+  getRateLimitState(): RateLimitState {
+    return { ...this.rateLimitState };
+  }
+
   /**
    * Reset circuit breaker manually (for recovery)
    */
@@ -794,11 +1152,14 @@ Guidelines:
       };
     }
     
-    if (!this.openai) {
+    const provider = this.getProvider(this.provider);
+    
+    if (!provider.isConfigured()) {
       return {
         healthy: false,
         mode: 'live',
-        error: 'OPENAI_API_KEY not configured',
+        provider: this.provider,
+        error: `${this.provider} provider not configured`,
         circuitState: this.circuitBreaker.state,
         metrics: this.getMetrics()
       };
@@ -817,10 +1178,11 @@ Guidelines:
     
     try {
       // Simple API check
-      await this.openai.models.list();
+      await provider.healthCheck();
       return {
         healthy: true,
         mode: 'live',
+        provider: this.provider,
         model: this.model,
         circuitState: this.circuitBreaker.state,
         metrics: this.getMetrics()
@@ -830,6 +1192,7 @@ Guidelines:
       return {
         healthy: false,
         mode: 'live',
+        provider: this.provider,
         error: err.message,
         circuitState: this.circuitBreaker.state,
         metrics: this.getMetrics()
@@ -0,0 +1,403 @@
+/**
+ * LocalRuleEvaluator - Deterministic rules evaluated without an LLM call
+ *
+ * Implements three rule types:
+ * - regex: FAIL when the pattern matches the content
+ * - keyword: FAIL when any listed keyword appears as a whole word
+ * - pii: FAIL when a built-in detector finds PII (email, phone, credit card, SSN, API key)
+ *
+ * Results have the same shape as judge results (including spans), so
+ * aggregation strategies and redaction treat them exactly like LLM rules.
+ *
+ * Regex rules run synchronously on the event loop. Patterns with the common
+ * catastrophic backtracking shapes (nested quantifiers, repeated alternation)
+ * are rejected, content longer than MAX_REGEX_CONTENT_LENGTH is not matched,
+ * and matching is stopped after REGEX_TIMEOUT_MS for anything the checks miss.
+ */
+
+import { Script, createContext } from 'vm';
+import { ErrorType } from '../types';
+import type {
+  Rule,
+  RuleType,
+  PiiType,
+  RedactionSpan,
+  JudgeEvaluationResult
+} from '../types';
+
+interface PiiDetector {
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Luhn checksum used to weed out digit runs that are not card numbers
+ */
+export const passesLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+};
+
+const PII_DETECTORS: Record<PiiType, PiiDetector> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+  },
+  phone: {
+    pattern: /(?<![\w+])(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?!\w)/g
+  },
+  credit_card: {
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    validate: passesLuhn
+  },
+  ssn: {
+    pattern: /(?<!\d)(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}(?!\d)/g
+  },
+  api_key: {
+    pattern: /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})\b/g
+  }
+};
+
+/**
+ * Get list of available rule types
+ */
+export const getAvailableRuleTypes = (): RuleType[] => {
+  return ['llm', 'regex', 'keyword', 'pii'];
+};
+
+/**
+ * Get list of available PII detectors
+ */
+export const getAvailablePiiTypes = (): PiiType[] => {
+  return Object.keys(PII_DETECTORS) as PiiType[];
+};
+
+/**
+ * Whether a rule is evaluated locally rather than by the LLM judge
+ */
+export const isLocalRule = (rule: Rule): boolean => {
+  return !!rule.type && rule.type !== 'llm';
+};
+
+/**
+ * Collect every non-empty match of a global pattern
+ */
+const collectMatches = (
+  content: string,
+  pattern: RegExp,
+  category?: string,
+  validate?: (match: string) => boolean
+): RedactionSpan[] => {
+  const spans: RedactionSpan[] = [];
+
+  for (const match of content.matchAll(pattern)) {
+    const text = match[0];
+    if (!text || match.index === undefined || (validate && !validate(text))) {
+      continue;
+    }
+    spans.push({ start: match.index, end: match.index + text.length, text, category });
+  }
+
+  return spans;
+};
+
+// Longest content a regex rule is run on
+export const MAX_REGEX_CONTENT_LENGTH = 100000;
+
+// Longest a regex rule may run on one piece of content
+export const REGEX_TIMEOUT_MS = 200;
+
+// Regex matching runs in its own context so the vm timeout can interrupt it
+const REGEX_CONTEXT = createContext({});
+const MATCH_SCRIPT = new Script('Array.from(content.matchAll(regex), match => [match.index, match[0]])');
+
+/**
+ * Collect the matches of a regex rule, giving up after REGEX_TIMEOUT_MS
+ */
+const collectRegexMatches = (content: string, pattern: RegExp, category?: string): RedactionSpan[] => {
+  let matches: Array<[number, string]>;
+  try {
+    matches = MATCH_SCRIPT.runInContext(Object.assign(REGEX_CONTEXT, { content, regex: pattern }), {
+      timeout: REGEX_TIMEOUT_MS
+    }) as Array<[number, string]>;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error(`regex matching exceeded ${REGEX_TIMEOUT_MS}ms`);
+    }
+    throw error;
+  } finally {
+    Object.assign(REGEX_CONTEXT, { content: undefined, regex: undefined });
+  }
+
+  return matches
+    .filter(([, text]) => !!text)
+    .map(([start, text]) => ({ start, end: start + text.length, text, category }));
+};
+
+export interface BacktrackingRisk {
+  reason: 'nested quantifier' | 'repeated alternation';
+  part: string; // Offending part of the pattern
+}
+
+/**
+ * Length of the quantifier at a position, whether it repeats its atom more
+ * than once (*, +, {n,}, {n,m} with m > 1) and whether it has no upper bound
+ */
+const readQuantifier = (pattern: string, index: number): { length: number; repeats: boolean; unbounded: boolean } | null => {
+  const char = pattern[index];
+  if (char === '*' || char === '+') {
+    return { length: 1, repeats: true, unbounded: true };
+  }
+  if (char === '?') {
+    return { length: 1, repeats: false, unbounded: false };
+  }
+  const braces = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+  if (!braces) {
+    return null;
+  }
+  const max = braces[2] === undefined ? Number(braces[1]) : braces[3] ? Number(braces[3]) : Infinity;
+  return { length: braces[0].length, repeats: max > 1, unbounded: max === Infinity };
+};
+
+/**
+ * Find a repeated group that itself contains a repeating quantifier, e.g. (a+)+,
+ * or an unbounded repeated group with alternatives, e.g. (a|ab)*
+ * @returns What makes the pattern risky, or null
+ */
+export const findBacktrackingRisk = (pattern: string): BacktrackingRisk | null => {
+  const groups: Array<{ start: number; repeats: boolean; alternates: boolean }> = [];
+  let atom: { start: number; repeats: boolean; alternates: boolean } | null = null; // Group that just closed
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+      atom = null;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+      atom = null;
+      continue;
+    }
+    if (char === '(') {
+      groups.push({ start: i, repeats: false, alternates: false });
+      atom = null;
+      continue;
+    }
+    if (char === '|') {
+      const group = groups[groups.length - 1];
+      if (group) {
+        group.alternates = true;
+      }
+      atom = null;
+      continue;
+    }
+    if (char === ')') {
+      atom = groups.pop() || null;
+      const parent = groups[groups.length - 1];
+      if (atom?.repeats && parent) {
+        parent.repeats = true;
+      }
+      continue;
+    }
+
+    const quantifier = readQuantifier(pattern, i);
+    if (quantifier?.repeats) {
+      if (atom?.repeats) {
+        return { reason: 'nested quantifier', part: pattern.slice(atom.start, i + quantifier.length) };
+      }
+      if (atom?.alternates && quantifier.unbounded) {
+        return { reason: 'repeated alternation', part: pattern.slice(atom.start, i + quantifier.length) };
+      }
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.repeats = true;
+      }
+    }
+    if (quantifier) {
+      i += quantifier.length - 1;
+    }
+    atom = null;
+  }
+
+  return null;
+};
+
+const escapeRegExp = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+/**
+ * Build the global RegExp for a regex rule (throws on invalid or
+ * catastrophically backtracking patterns)
+ */
+export const buildRegex = (rule: Rule): RegExp => {
+  const risk = findBacktrackingRisk(rule.pattern || '');
+  if (risk) {
+    throw new Error(`${risk.reason} '${risk.part}' can backtrack catastrophically`);
+  }
+  const flags = rule.flags || '';
+  return new RegExp(rule.pattern || '', flags.includes('g') ? flags : `${flags}g`);
+};
+
+/**
+ * Find the spans a local rule flags in the content
+ */
+export const findLocalMatches = (rule: Rule, content: string): RedactionSpan[] => {
+  const category = rule.redaction?.category;
+
+  switch (rule.type) {
+    case 'regex':
+      if (content.length > MAX_REGEX_CONTENT_LENGTH) {
+        throw new Error(`content exceeds ${MAX_REGEX_CONTENT_LENGTH} characters for regex rules`);
+      }
+      return collectRegexMatches(content, buildRegex(rule), category);
+
+    case 'keyword': {
+      const keywords = (rule.keywords || []).map(k => k.trim()).filter(Boolean);
+      if (keywords.length === 0) {
+        return [];
+      }
+      const pattern = new RegExp(
+        `(?<![\\p{L}\\p{N}_])(?:${keywords.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`,
+        rule.case_sensitive ? 'gu' : 'giu'
+      );
+      return collectMatches(content, pattern, category);
+    }
+
+    case 'pii': {
+      const types = rule.pii_types?.length ? rule.pii_types : getAvailablePiiTypes();
+      const spans: RedactionSpan[] = [];
+      for (const type of types) {
+        const detector = PII_DETECTORS[type];
+        if (!detector) continue;
+        spans.push(...collectMatches(content, detector.pattern, category || type, detector.validate));
+      }
+      return spans.sort((a, b) => a.start - b.start);
+    }
+
+    default:
+      return [];
+  }
+};
+
+/**
+ * Evaluate a local rule. Matches produce FAIL with full confidence.
+ */
+export const evaluateLocalRule = (rule: Rule, content: string): JudgeEvaluationResult => {
+  const startTime = Date.now();
+
+  try {
+    const spans = findLocalMatches(rule, content);
+
+    if (spans.length === 0) {
+      return {
+        verdict: 'PASS',
+        confidence: 1,
+        reasoning: `No ${rule.type} matches found`,
+        latency_ms: Date.now() - startTime
+      };
+    }
+
+    const found = spans.map(s => (s.category ? `${s.category}: ${s.text}` : s.text));
+    const preview = found.slice(0, 5).join(', ');
+
+    return {
+      verdict: 'FAIL',
+      confidence: 1,
+      reasoning: `Found ${spans.length} ${rule.type} match${spans.length === 1 ? '' : 'es'} (${preview}${found.length > 5 ? ', ...' : ''})`,
+      latency_ms: Date.now() - startTime,
+      spans
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      verdict: 'UNCERTAIN',
+      confidence: 0,
+      reasoning: `Local rule evaluation failed: ${message}`,
+      latency_ms: Date.now() - startTime,
+      error: message,
+      errorType: ErrorType.UNKNOWN
+    };
+  }
+};
+
+/**
+ * Validate the type-specific fields of a rule
+ * @returns Validation error messages (without rule prefix)
+ */
+export const validateRuleDefinition = (rule: Partial<Rule>): string[] => {
+  const errors: string[] = [];
+  const type = rule.type || 'llm';
+
+  if (!getAvailableRuleTypes().includes(type)) {
+    errors.push(`type must be one of: ${getAvailableRuleTypes().join(', ')}`);
+    return errors;
+  }
+
+  switch (type) {
+    case 'llm':
+      if (!rule.judge_prompt) {
+        errors.push('judge_prompt is required');
+      }
+      break;
+
+    case 'regex':
+      if (!rule.pattern || typeof rule.pattern !== 'string') {
+        errors.push('pattern is required for regex rules');
+        break;
+      }
+      try {
+        buildRegex(rule as Rule);
+      } catch (error) {
+        errors.push(`invalid regex pattern: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      break;
+
+    case 'keyword':
+      if (!Array.isArray(rule.keywords) || rule.keywords.filter(k => typeof k === 'string' && k.trim()).length === 0) {
+        errors.push('keywords must contain at least one keyword for keyword rules');
+      }
+      break;
+
+    case 'pii': {
+      if (rule.pii_types !== undefined && !Array.isArray(rule.pii_types)) {
+        errors.push('pii_types must be an array');
+        break;
+      }
+      const invalid = (rule.pii_types || []).filter(t => !getAvailablePiiTypes().includes(t));
+      if (invalid.length > 0) {
+        errors.push(`pii_types contains unknown types: ${invalid.join(', ')}. Valid options: ${getAvailablePiiTypes().join(', ')}`);
+      }
+      break;
+    }
+  }
+
+  if (rule.min_confidence !== undefined && (typeof rule.min_confidence !== 'number' || rule.min_confidence < 0 || rule.min_confidence > 1)) {
+    errors.push('min_confidence must be between 0 and 1');
+  }
+
+  return errors;
+};
@@ -4,16 +4,40 @@
  * Design Principles:
  * - Accepts policy configuration and content to evaluate
  * - Dispatches each rule to JudgeService (parallel or sequential)
+ * - Evaluates regex/keyword/pii rules locally without an LLM call
  * - Aggregates judgments using configured strategy
- * - Returns structured verdict with latency metrics
+ * - Rolls nested rule groups up through each group's own strategy
+ * - Skips rules whose applies_when does not match the request (NOT_APPLICABLE)
+ * - Evaluates chat transcripts, judging the messages each rule's scope selects
+ * - Optionally short-circuits once the strategy verdict is settled
+ * - Returns structured verdict with latency metrics, judge token usage and cost
  * - Event-driven for extensibility
+ * - Produces redacted content for failed redact rules
+ * - Caches judge verdicts when settings.cacheResults is enabled
+ * - Keeps named policies loaded for per-request policy selection
+ * - Resolves base policies (extends) and shared rule library references
+ * - Records policy revisions (author, semver bump) and supports rollback
+ * - Evaluates batches under a global concurrency cap that backs off while rate limited
  * - Uses MongoDB for configuration storage via ConfigService
  */
 
 import { EventEmitter } from 'events';
 import { JudgeService } from './JudgeService';
-import { ConfigService } from './ConfigService';
-import { createStrategy, getAvailableStrategies } from './AggregationStrategy';
+import { ConfigService, DEFAULT_CONFIG_ID, mergeRuleUpdates } from './ConfigService';
+import { RuleLibraryService } from './RuleLibraryService';
+import { createStrategy, getAvailableStrategies, aggregateApplicable } from './AggregationStrategy';
+import { getAvailableProviders } from './JudgeProvider';
+import { validateEnsemble } from './JudgeEnsemble';
+import { parseExpression, getExpressionRuleIds, validateExpression } from './RuleExpression';
+import { hasRuleGroups, flattenRules, getGroupPaths, aggregateRuleGroups, validateRuleGroups } from './RuleGroups';
+import { resolvePolicy, usesInheritance, usesLibraryRule, validateInheritance, PolicySources } from './PolicyInheritance';
+import { hasConditions, getContentFeatures, checkConditions, validateConditions } from './RuleConditions';
+import { resolveSpans, applyRedactions, getAvailableMaskStyles } from './Redactor';
+import { isTranscript, getContentText, scopeContent, redactTranscript, RULE_SCOPES, ScopedContent } from './Transcript';
+import { pickInputs, validatePlaceholders, findMissingPlaceholders } from './PromptTemplate';
+import { isLocalRule, evaluateLocalRule, validateRuleDefinition } from './LocalRuleEvaluator';
+import { ConcurrencyLimiter, DEFAULT_BATCH_CONCURRENCY } from './ConcurrencyLimiter';
+import { calculateCost } from '../config/pricing';
 import type {
   Logger,
   Config,
@@ -21,36 +45,71 @@ import type {
   PolicyInput,
   Rule,
   RuleInput,
+  RulePartial,
   RuleResult,
+  RuleResultCallback,
+  EvaluationMetadata,
+  EvaluationContent,
+  EvaluationInputs,
+  PromptField,
   PolicyVerdict,
+  VerdictUsage,
   PolicyEngineOptions,
   EvaluateOptions,
+  EvaluateBatchOptions,
+  BatchItem,
+  BatchItemResult,
+  BatchEvaluationResult,
+  FinalVerdict,
   MockResponses,
   ValidationResult,
   RuleOperationResult,
+  LibraryRuleOperationResult,
+  PolicyOperationResult,
+  PolicySummary,
   PolicyEngineHealthCheck,
   EvaluationStrategy,
   JudgeServiceInterface,
   PolicyEngineInterface,
-  JudgeEvaluationResult
+  JudgeEvaluationResult,
+  VerdictCacheOptions,
+  AggregationResult,
+  AggregationStrategyInterface
 } from '../types';
 
 export interface PolicyEngineExtendedOptions extends PolicyEngineOptions {
   configService?: ConfigService;
+  ruleLibraryService?: RuleLibraryService;
+}
+
+interface ShortCircuitContext {
+  strategy: AggregationStrategyInterface;
+  policy: Policy;
 }
 
 export class PolicyEngine extends EventEmitter implements PolicyEngineInterface {
   private logger: Logger;
   private config: Config;
   private configService: ConfigService | null;
+  private ruleLibraryService: RuleLibraryService | null;
   private judgeService: JudgeServiceInterface;
   private runtimePolicy: Policy | null;
   private initialized: boolean = false;
 
+  // Named policies other than the primary config, keyed by policy id
+  private policies: Map<string, Policy> = new Map();
+
+  // Shared rule library, keyed by rule id
+  private library: Map<string, Rule> = new Map();
+
+  // Shared by all batch evaluations so the concurrency cap is global
+  private batchLimiter: ConcurrencyLimiter = new ConcurrencyLimiter(DEFAULT_BATCH_CONCURRENCY);
+
   constructor(options: PolicyEngineExtendedOptions = {}) {
     super();
     this.logger = options.logger || console;
     this.configService = options.configService || null;
+    this.ruleLibraryService = options.ruleLibraryService || null;
     
     // Initialize with provided config or empty config (will be loaded later)
     this.config = options.config || {
@@ -82,7 +141,8 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       config: this.config.judge,
       apiKey: this.config.apiKey,
       mockMode: options.mockMode || false,
-      mockResponses: options.mockResponses || {}
+      mockResponses: options.mockResponses || {},
+      cache: this.getCacheOptions()
     });
     
     // Runtime policy override (for API-provided policies)
@@ -103,7 +163,11 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       
       // Update JudgeService with loaded config
       this.judgeService.updateConfig(this.config.judge);
+      this.judgeService.configureCache(this.getCacheOptions());
+
+      await this.loadPolicies();
     }
+    await this.loadLibrary();
 
     this.initialized = true;
     
@@ -116,10 +180,436 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
   }
 
   /**
-   * Get current active policy (runtime override or config)
+   * Get current active policy (runtime override or config), resolved
    */
   getActivePolicy(): Policy {
-    return this.runtimePolicy || this.config.policy;
+    return this.resolve(this.runtimePolicy || this.config.policy);
+  }
+
+  /**
+   * Get the id of the primary policy
+   */
+  getDefaultPolicyId(): string {
+    return this.configService?.getConfigId() || DEFAULT_CONFIG_ID;
+  }
+
+  /**
+   * Get a loaded policy by id, resolved. The primary policy id resolves to the active policy.
+   */
+  getPolicyById(policyId: string): Policy | null {
+    const definition = this.getPolicyDefinition(policyId);
+    return definition ? this.resolve(definition) : null;
+  }
+
+  /**
+   * Get a loaded policy by id as stored, with its extends and library_rules
+   */
+  getPolicyDefinition(policyId: string): Policy | null {
+    if (policyId === this.getDefaultPolicyId()) {
+      return this.runtimePolicy || this.config.policy;
+    }
+    return this.policies.get(policyId) || null;
+  }
+
+  /**
+   * Resolve a policy's base policy and library rules (e.g. a policy provided with a request)
+   */
+  resolve(policy: Policy): Policy {
+    return resolvePolicy(policy, this.getPolicySources(), this.logger);
+  }
+
+  private getPolicySources(): PolicySources {
+    return {
+      getPolicy: policyId => this.getPolicyDefinition(policyId),
+      getLibraryRule: ruleId => this.library.get(ruleId) || null
+    };
+  }
+
+  /**
+   * List all loaded policies, primary first
+   */
+  listPolicies(): PolicySummary[] {
+    const entries: Array<[string, Policy]> = [
+      [this.getDefaultPolicyId(), this.runtimePolicy || this.config.policy],
+      ...this.policies.entries()
+    ];
+
+    return entries.map(([policyId, policy]) => ({
+      policyId,
+      name: policy.name,
+      version: policy.version,
+      rulesCount: this.resolve(policy).rules.length,
+      evaluation_strategy: policy.evaluation_strategy,
+      isDefault: policyId === this.getDefaultPolicyId(),
+      ...(policy.extends ? { extends: policy.extends } : {})
+    }));
+  }
+
+  /**
+   * Load all active named policies from MongoDB
+   */
+  private async loadPolicies(): Promise<void> {
+    if (!this.configService) {
+      return;
+    }
+
+    const summaries = await this.configService.listConfigs();
+    const loaded: Map<string, Policy> = new Map();
+
+    for (const summary of summaries) {
+      if (summary.configId === this.getDefaultPolicyId() || !summary.isActive) {
+        continue;
+      }
+      const config = await this.configService.getConfigById(summary.configId);
+      if (config) {
+        loaded.set(summary.configId, config.policy);
+      }
+    }
+
+    this.policies = loaded;
+
+    this.logger.info('[PolicyEngine] Named policies loaded', {
+      count: loaded.size,
+      policyIds: [...loaded.keys()]
+    });
+  }
+
+  /**
+   * Load the shared rule library from MongoDB
+   */
+  private async loadLibrary(): Promise<void> {
+    if (!this.ruleLibraryService) {
+      return;
+    }
+
+    const rules = await this.ruleLibraryService.listRules();
+    this.library = new Map(rules.map(rule => [rule.id, rule]));
+
+    this.logger.info('[PolicyEngine] Rule library loaded', { count: this.library.size });
+  }
+
+  /**
+   * Create a named policy (saved to MongoDB when available)
+   */
+  async createPolicyAsync(policyId: string, policy: Policy, author?: string): Promise<PolicyOperationResult> {
+    if (policyId === this.getDefaultPolicyId() || this.policies.has(policyId)) {
+      return {
+        success: false,
+        message: `Policy '${policyId}' already exists`
+      };
+    }
+
+    let created = policy;
+    if (this.configService) {
+      const result = await this.configService.createConfig(policyId, { policy }, author);
+      if (!result.success || !result.config) {
+        return { success: false, message: result.message };
+      }
+      created = result.config.policy;
+    }
+
+    this.policies.set(policyId, created);
+
+    this.logger.info('[PolicyEngine] Policy created', {
+      policyId,
+      policyName: created.name,
+      rulesCount: created.rules.length
+    });
+
+    this.emit('policy:created', { policyId, policyName: created.name });
+
+    return { success: true, policyId, policy: created };
+  }
+
+  /**
+   * Update a named policy. Updating the primary policy id updates the main config.
+   */
+  async updatePolicyAsync(policyId: string, updates: Partial<Policy>, author?: string): Promise<PolicyOperationResult> {
+    if (policyId === this.getDefaultPolicyId()) {
+      const config = await this.updateConfigAsync({ policy: updates } as Partial<Config>, author);
+      return { success: true, policyId, policy: config.policy };
+    }
+
+    const existing = this.policies.get(policyId);
+    if (!existing) {
+      return {
+        success: false,
+        message: `Policy '${policyId}' not found`
+      };
+    }
+
+    let updated: Policy = { ...existing, ...updates };
+    if (this.configService) {
+      const config = await this.configService.updateConfigById(policyId, { policy: updates }, author);
+      if (!config) {
+        return {
+          success: false,
+          message: `Policy '${policyId}' not found`
+        };
+      }
+      updated = config.policy;
+    }
+
+    this.policies.set(policyId, updated);
+    this.invalidateChangedRules(flattenRules(existing), flattenRules(updated));
+
+    this.logger.info('[PolicyEngine] Policy updated', {
+      policyId,
+      policyName: updated.name
+    });
+
+    this.emit('policy:updated', { policyId, policyName: updated.name });
+
+    return { success: true, policyId, policy: updated };
+  }
+
+  /**
+   * Delete a named policy. The primary policy cannot be deleted.
+   */
+  async deletePolicyAsync(policyId: string): Promise<PolicyOperationResult> {
+    if (policyId === this.getDefaultPolicyId()) {
+      return {
+        success: false,
+        message: `Policy '${policyId}' is the primary policy and cannot be deleted`
+      };
+    }
+
+    const existing = this.policies.get(policyId);
+    if (!existing) {
+      return {
+        success: false,
+        message: `Policy '${policyId}' not found`
+      };
+    }
+
+    const extendedBy = [...this.policies.entries()]
+      .filter(([, policy]) => policy.extends === policyId)
+      .map(([id]) => id);
+    if ((this.runtimePolicy || this.config.policy).extends === policyId) {
+      extendedBy.unshift(this.getDefaultPolicyId());
+    }
+    if (extendedBy.length > 0) {
+      return {
+        success: false,
+        message: `Policy '${policyId}' is extended by: ${extendedBy.join(', ')}`
+      };
+    }
+
+    if (this.configService) {
+      const result = await this.configService.deleteConfig(policyId);
+      if (!result.success) {
+        return { success: false, message: result.message };
+      }
+    }
+
+    this.policies.delete(policyId);
+    this.judgeService.clearCache(flattenRules(existing).map(r => r.id));
+
+    this.logger.info('[PolicyEngine] Policy deleted', { policyId });
+
+    this.emit('policy:deleted', { policyId });
+
+    return { success: true, policyId, policy: existing };
+  }
+
+  /**
+   * Roll a policy back to a past revision (requires MongoDB)
+   */
+  async rollbackPolicyAsync(policyId: string, revision: number, author?: string): Promise<PolicyOperationResult> {
+    if (!this.configService) {
+      return {
+        success: false,
+        message: 'Policy revisions require MongoDB configuration storage'
+      };
+    }
+
+    const previous = this.getPolicyById(policyId);
+    if (!previous) {
+      return {
+        success: false,
+        message: `Policy '${policyId}' not found`
+      };
+    }
+
+    const result = await this.configService.rollbackConfig(policyId, revision, author);
+    if (!result.success || !result.config) {
+      return { success: false, message: result.message };
+    }
+
+    const restored = result.config.policy;
+    if (policyId === this.getDefaultPolicyId()) {
+      this.config.policy = restored;
+    } else {
+      this.policies.set(policyId, restored);
+    }
+    this.invalidateChangedRules(flattenRules(previous), flattenRules(restored));
+
+    this.logger.info('[PolicyEngine] Policy rolled back', {
+      policyId,
+      toRevision: revision,
+      version: restored.version
+    });
+
+    this.emit('policy:rolled-back', {
+      policyId,
+      revision,
+      version: restored.version
+    });
+
+    return {
+      success: true,
+      policyId,
+      policy: restored,
+      revision: result.revision?.revision
+    };
+  }
+
+  /**
+   * List the shared rule library
+   */
+  listLibraryRules(): Rule[] {
+    return [...this.library.values()];
+  }
+
+  /**
+   * Get a rule from the shared rule library
+   */
+  getLibraryRule(ruleId: string): Rule | null {
+    return this.library.get(ruleId) || null;
+  }
+
+  /**
+   * Ids of the loaded policies that use a library rule, directly or through their bases
+   */
+  getLibraryRuleUsage(ruleId: string): string[] {
+    const sources = this.getPolicySources();
+    return [this.getDefaultPolicyId(), ...this.policies.keys()].filter(policyId => {
+      const definition = this.getPolicyDefinition(policyId);
+      return !!definition && usesLibraryRule(definition, ruleId, sources);
+    });
+  }
+
+  /**
+   * Add a rule to the shared rule library (saved to MongoDB when available)
+   */
+  async createLibraryRuleAsync(rule: RuleInput, author?: string): Promise<LibraryRuleOperationResult> {
+    if (this.library.has(rule.id)) {
+      return {
+        success: false,
+        message: `Library rule '${rule.id}' already exists`
+      };
+    }
+
+    const validation = this.validateLibraryRule(rule);
+    if (!validation.valid) {
+      return {
+        success: false,
+        message: 'Library rule is invalid',
+        errors: validation.errors
+      };
+    }
+
+    let created: Rule = {
+      ...rule,
+      description: rule.description || '',
+      on_fail: rule.on_fail || 'warn',
+      weight: rule.weight !== undefined ? rule.weight : 1.0
+    };
+    if (this.ruleLibraryService) {
+      created = await this.ruleLibraryService.createRule(created, author);
+    }
+
+    this.library.set(created.id, created);
+
+    this.logger.info('[PolicyEngine] Library rule created', { ruleId: created.id });
+
+    this.emit('library:rule-created', { rule: created });
+
+    return { success: true, rule: created, affected_policies: [] };
+  }
+
+  /**
+   * Update a library rule. The change applies to every policy using it, which
+   * are reported as affected_policies.
+   */
+  async updateLibraryRuleAsync(ruleId: string, updates: Partial<RuleInput>, author?: string): Promise<LibraryRuleOperationResult> {
+    const existing = this.library.get(ruleId);
+    if (!existing) {
+      return {
+        success: false,
+        message: `Library rule '${ruleId}' not found`
+      };
+    }
+
+    // Policies reference library rules by id, so the id cannot change
+    let updated: Rule = { ...existing, ...updates, id: ruleId };
+    const validation = this.validateLibraryRule(updated);
+    if (!validation.valid) {
+      return {
+        success: false,
+        message: 'Library rule is invalid',
+        errors: validation.errors
+      };
+    }
+
+    if (this.ruleLibraryService) {
+      const saved = await this.ruleLibraryService.updateRule(ruleId, updated, author);
+      if (!saved) {
+        return {
+          success: false,
+          message: `Library rule '${ruleId}' not found`
+        };
+      }
+      updated = saved;
+    }
+
+    this.library.set(ruleId, updated);
+    this.judgeService.clearCache([ruleId]);
+    const affected = this.getLibraryRuleUsage(ruleId);
+
+    this.logger.info('[PolicyEngine] Library rule updated', {
+      ruleId,
+      affectedPolicies: affected
+    });
+
+    this.emit('library:rule-updated', { rule: updated, affectedPolicies: affected });
+
+    return { success: true, rule: updated, affected_policies: affected };
+  }
+
+  /**
+   * Delete a library rule. Rules still used by a policy cannot be deleted.
+   */
+  async deleteLibraryRuleAsync(ruleId: string): Promise<LibraryRuleOperationResult> {
+    const existing = this.library.get(ruleId);
+    if (!existing) {
+      return {
+        success: false,
+        message: `Library rule '${ruleId}' not found`
+      };
+    }
+
+    const affected = this.getLibraryRuleUsage(ruleId);
+    if (affected.length > 0) {
+      return {
+        success: false,
+        message: `Library rule '${ruleId}' is used by: ${affected.join(', ')}`,
+        affected_policies: affected
+      };
+    }
+
+    if (this.ruleLibraryService) {
+      await this.ruleLibraryService.deleteRule(ruleId);
+    }
+
+    this.library.delete(ruleId);
+    this.judgeService.clearCache([ruleId]);
+
+    this.logger.info('[PolicyEngine] Library rule deleted', { ruleId });
+
+    this.emit('library:rule-deleted', { ruleId });
+
+    return { success: true, rule: existing, affected_policies: [] };
   }
 
   /**
@@ -144,15 +634,25 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
   /**
    * Evaluate content against the active policy
    */
-  async evaluate(content: string, options: EvaluateOptions = {}): Promise<PolicyVerdict> {
+  async evaluate(content: EvaluationContent, options: EvaluateOptions = {}): Promise<PolicyVerdict> {
     const startTime = Date.now();
+    const contentLength = getContentText(content).length;
     
-    // Use provided policy, runtime policy, or config policy
-    const policy = options.policy || this.getActivePolicy();
+    // Use provided policy, named policy, runtime policy, or config policy
+    const namedPolicy = !options.policy && options.policyId
+      ? this.getPolicyById(options.policyId)
+      : null;
+    
+    if (options.policyId && !options.policy && !namedPolicy) {
+      throw new Error(`Policy '${options.policyId}' not found`);
+    }
+    
+    const policy = options.policy ? this.resolve(options.policy) : namedPolicy || this.getActivePolicy();
     
     this.logger.info('[PolicyEngine] Starting evaluation', {
       policyName: policy.name,
-      contentLength: content.length,
+      contentLength,
+      ...(isTranscript(content) ? { messages: content.length } : {}),
       rulesCount: policy.rules.length,
       strategy: policy.evaluation_strategy
     });
@@ -160,22 +660,50 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
     // Emit evaluation start event
     this.emit('policy:evaluation-start', {
       policyName: policy.name,
-      contentLength: content.length,
+      contentLength,
       timestamp: startTime
     });
 
     try {
-      // Evaluate all rules
-      const ruleResults = await this.evaluateRules(policy.rules, content);
-      
-      // Aggregate results using the configured strategy
       const strategy = createStrategy(policy.evaluation_strategy, this.logger);
-      const aggregation = strategy.aggregate(ruleResults, policy);
+      const grouped = hasRuleGroups(policy);
+      // Group verdicts are only known once all their rules are, so grouped policies never short-circuit
+      const shortCircuit = !grouped && (options.shortCircuit ?? this.config.settings.shortCircuit ?? false);
+      const rules = flattenRules(policy);
+      const groupPaths = grouped ? getGroupPaths(policy) : undefined;
+
+      // Rules whose applies_when does not match the request, or whose scope selects no messages, are not evaluated
+      const notApplicable = this.findNotApplicableRules(rules, content, options.metadata || {}, groupPaths, options.onRuleResult);
+      const applicableRules = this.withMinConfidence(policy).filter(rule => !notApplicable.has(rule.id));
+      
+      // Evaluate the applicable rules (stopping early when short-circuiting)
+      const evaluated = await this.evaluateRules(
+        applicableRules,
+        content,
+        options.inputs,
+        shortCircuit ? { strategy, policy } : undefined,
+        options.onRuleResult,
+        groupPaths
+      );
+      const ruleResults = notApplicable.size === 0
+        ? evaluated
+        : rules.map(rule => notApplicable.get(rule.id) || evaluated.find(r => r.rule_id === rule.id)!);
+      
+      // Aggregate results using the configured strategy, group by group for grouped policies
+      const groupedAggregation = grouped ? aggregateRuleGroups(policy, ruleResults, this.logger) : null;
+      const aggregation = groupedAggregation?.aggregation || aggregateApplicable(strategy, ruleResults, policy);
+      this.recordSkippedRules(aggregation, ruleResults, rules);
+      this.recordDowngrades(aggregation, ruleResults);
+      
+      // Mask offending spans reported by failed redact rules, message by message for transcripts
+      const redactedContent = isTranscript(content) ? undefined : applyRedactions(content, ruleResults, rules);
+      const redactedMessages = isTranscript(content) ? redactTranscript(content, ruleResults, rules) : undefined;
       
       const totalLatency = Date.now() - startTime;
       
       // Build verdict object
       const verdict: PolicyVerdict = {
+        ...(namedPolicy ? { policy_id: options.policyId } : {}),
         policy_name: policy.name,
         policy_version: policy.version,
         final_verdict: aggregation.final_verdict,
@@ -188,12 +716,26 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
           reasoning: result.reasoning,
           action: result.action,
           weight: result.weight,
-          latency_ms: result.latency_ms
+          latency_ms: result.latency_ms,
+          ...(result.spans ? { spans: result.spans } : {}),
+          ...(result.usage ? { usage: result.usage } : {}),
+          ...(result.votes ? { votes: result.votes, agreement: result.agreement } : {}),
+          ...(result.downgraded_from ? { downgraded_from: result.downgraded_from } : {}),
+          ...(result.group_path ? { group_path: result.group_path } : {}),
+          ...(result.chunk_count ? { chunks: result.chunks, chunk_count: result.chunk_count } : {})
         })),
         summary: aggregation.summary,
+        ...(groupedAggregation ? { group_results: groupedAggregation.groups } : {}),
+        ...(redactedContent !== undefined ? { redacted_content: redactedContent } : {}),
+        ...(redactedMessages ? { redacted_messages: redactedMessages } : {}),
         total_latency_ms: totalLatency
       };
 
+      const usage = this.summarizeUsage(ruleResults);
+      if (usage) {
+        verdict.usage = usage;
+      }
+
       this.logger.info('[PolicyEngine] Evaluation complete', {
         policyName: policy.name,
         finalVerdict: verdict.final_verdict,
@@ -242,64 +784,484 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
     }
   }
 
+  /**
+   * Evaluate many items against one policy.
+   * Items share a global concurrency cap (settings.batchConcurrency) and
+   * pause while the judge is rate limited. Per-item failures are reported
+   * in the item result instead of failing the batch.
+   */
+  async evaluateBatch(items: BatchItem[], options: EvaluateBatchOptions = {}): Promise<BatchEvaluationResult> {
+    const startTime = Date.now();
+    const { concurrency: requested, onItemComplete, ...evaluateOptions } = options;
+
+    if (evaluateOptions.policyId && !evaluateOptions.policy && !this.getPolicyById(evaluateOptions.policyId)) {
+      throw new Error(`Policy '${evaluateOptions.policyId}' not found`);
+    }
+
+    this.batchLimiter.setLimit(this.config.settings.batchConcurrency || DEFAULT_BATCH_CONCURRENCY);
+    const concurrency = Math.max(1, Math.min(requested || this.batchLimiter.getLimit(), this.batchLimiter.getLimit(), items.length || 1));
+
+    this.logger.info('[PolicyEngine] Starting batch evaluation', {
+      items: items.length,
+      concurrency
+    });
+
+    this.emit('batch:start', { items: items.length, concurrency });
+
+    const results: BatchItemResult[] = new Array(items.length);
+    let rateLimitWaits = 0;
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        const item = items[index]!;
+
+        if (await this.waitForRateLimit()) {
+          rateLimitWaits++;
+        }
+
+        const result = await this.batchLimiter.run(async (): Promise<BatchItemResult> => {
+          try {
+            const metadata = item.metadata ? { ...evaluateOptions.metadata, ...item.metadata } : evaluateOptions.metadata;
+            const inputs = pickInputs(item);
+            const verdict = await this.evaluate(item.content ?? item.output ?? '', {
+              ...evaluateOptions,
+              metadata,
+              ...(inputs ? { inputs } : {})
+            });
+            return { id: item.id, status: 'completed', verdict };
+          } catch (error) {
+            return { id: item.id, status: 'error', error: (error as Error).message };
+          }
+        });
+
+        if (onItemComplete) {
+          try {
+            await onItemComplete(result);
+          } catch (error) {
+            this.logger.warn('[PolicyEngine] Batch item callback failed', {
+              id: item.id,
+              error: (error as Error).message
+            });
+          }
+        }
+
+        results[index] = result;
+        this.emit('batch:item-complete', { id: item.id, index, status: result.status });
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+    const verdicts: Record<FinalVerdict, number> = { ALLOW: 0, BLOCK: 0, WARN: 0, REDACT: 0, ERROR: 0 };
+    for (const result of results) {
+      if (result.verdict) {
+        verdicts[result.verdict.final_verdict]++;
+      }
+    }
+
+    const completed = results.filter(r => r.status === 'completed').length;
+    const summary = {
+      total: items.length,
+      completed,
+      errors: items.length - completed,
+      passed: results.filter(r => r.verdict?.passed).length,
+      verdicts,
+      concurrency,
+      rate_limit_waits: rateLimitWaits,
+      total_latency_ms: Date.now() - startTime
+    };
+
+    this.logger.info('[PolicyEngine] Batch evaluation complete', { ...summary });
+
+    this.emit('batch:complete', summary);
+
+    return { items: results, summary };
+  }
+
+  /**
+   * Wait out an active judge rate limit before starting more work
+   * @returns Whether a wait was needed
+   */
+  private async waitForRateLimit(): Promise<boolean> {
+    const state = this.judgeService.getRateLimitState();
+    if (!state.isLimited || state.lastRateLimitTime === null) {
+      return false;
+    }
+
+    const remainingMs = state.lastRateLimitTime + state.retryAfterMs - Date.now();
+    if (remainingMs <= 0) {
+      return false;
+    }
+
+    this.logger.warn('[PolicyEngine] Judge rate limited, pausing batch', { remainingMs });
+    this.emit('batch:rate-limited', { remainingMs });
+
+    await new Promise(resolve => setTimeout(resolve, remainingMs));
+    return true;
+  }
+
   /**
    * Evaluate all rules against content
    */
-  private async evaluateRules(rules: Rule[], content: string): Promise<RuleResult[]> {
+  private async evaluateRules(
+    rules: Rule[],
+    content: EvaluationContent,
+    inputs: EvaluationInputs | undefined,
+    shortCircuit?: ShortCircuitContext,
+    onRuleResult?: RuleResultCallback,
+    groupPaths?: Map<string, string[]>
+  ): Promise<RuleResult[]> {
     if (this.config.settings.parallelEvaluation) {
-      return this.evaluateRulesParallel(rules, content);
+      return this.evaluateRulesParallel(rules, content, inputs, shortCircuit, onRuleResult, groupPaths);
     }
-    return this.evaluateRulesSequential(rules, content);
+    return this.evaluateRulesSequential(rules, content, inputs, shortCircuit, onRuleResult, groupPaths);
   }
 
   /**
-   * Evaluate rules in parallel
+   * Evaluate rules in parallel. When short-circuiting, outstanding judge
+   * calls are aborted as soon as the strategy verdict is settled.
    */
-  private async evaluateRulesParallel(rules: Rule[], content: string): Promise<RuleResult[]> {
+  private async evaluateRulesParallel(
+    rules: Rule[],
+    content: EvaluationContent,
+    inputs: EvaluationInputs | undefined,
+    shortCircuit?: ShortCircuitContext,
+    onRuleResult?: RuleResultCallback,
+    groupPaths?: Map<string, string[]>
+  ): Promise<RuleResult[]> {
     this.logger.info('[PolicyEngine] Evaluating rules in parallel', {
-      rulesCount: rules.length
+      rulesCount: rules.length,
+      shortCircuit: !!shortCircuit
     });
 
-    const promises = rules.map(async (rule): Promise<RuleResult> => {
-      const result: JudgeEvaluationResult = await this.judgeService.evaluate(rule, content);
-      return {
-        rule_id: rule.id,
-        action: rule.on_fail,
-        weight: rule.weight || 1.0,
-        verdict: result.verdict,
-        confidence: result.confidence,
-        reasoning: result.reasoning,
-        latency_ms: result.latency_ms || 0
-      };
+    if (!shortCircuit) {
+      const promises = rules.map(async (rule): Promise<RuleResult> => {
+        const scoped = scopeContent(content, rule.scope);
+        const result: JudgeEvaluationResult = await this.evaluateRule(rule, scoped, inputs);
+        return this.reportRuleResult(this.toRuleResult(rule, result, scoped.text, groupPaths?.get(rule.id)), onRuleResult);
+      });
+
+      return Promise.all(promises);
+    }
+
+    const controller = new AbortController();
+    const results: Array<RuleResult | undefined> = new Array(rules.length);
+
+    await new Promise<void>((resolve, reject) => {
+      let remaining = rules.length;
+      if (remaining === 0) {
+        resolve();
+        return;
+      }
+
+      rules.forEach((rule, index) => {
+        const scoped = scopeContent(content, rule.scope);
+        this.evaluateRule(rule, scoped, inputs, controller.signal)
+          .then(result => {
+            if (controller.signal.aborted) return;
+
+            results[index] = this.reportRuleResult(this.toRuleResult(rule, result, scoped.text, groupPaths?.get(rule.id)), onRuleResult);
+            remaining--;
+
+            const completed = results.filter((r): r is RuleResult => r !== undefined);
+            const pending = rules.filter((_, i) => results[i] === undefined);
+
+            if (remaining === 0) {
+              resolve();
+            } else if (shortCircuit.strategy.isSettled(completed, pending, shortCircuit.policy)) {
+              controller.abort();
+              resolve();
+            }
+          })
+          .catch(reject);
+      });
     });
 
-    return Promise.all(promises);
+    return rules.map((rule, index) =>
+      results[index] ?? this.reportRuleResult(this.toSkippedResult(rule, groupPaths?.get(rule.id)), onRuleResult)
+    );
   }
 
   /**
-   * Evaluate rules sequentially
+   * Evaluate rules sequentially. When short-circuiting, remaining rules are
+   * not started once the strategy verdict is settled.
    */
-  private async evaluateRulesSequential(rules: Rule[], content: string): Promise<RuleResult[]> {
+  private async evaluateRulesSequential(
+    rules: Rule[],
+    content: EvaluationContent,
+    inputs: EvaluationInputs | undefined,
+    shortCircuit?: ShortCircuitContext,
+    onRuleResult?: RuleResultCallback,
+    groupPaths?: Map<string, string[]>
+  ): Promise<RuleResult[]> {
     this.logger.info('[PolicyEngine] Evaluating rules sequentially', {
-      rulesCount: rules.length
+      rulesCount: rules.length,
+      shortCircuit: !!shortCircuit
     });
 
     const results: RuleResult[] = [];
     
+    for (const [index, rule] of rules.entries()) {
+      const scoped = scopeContent(content, rule.scope);
+      const result: JudgeEvaluationResult = await this.evaluateRule(rule, scoped, inputs);
+      results.push(this.reportRuleResult(this.toRuleResult(rule, result, scoped.text, groupPaths?.get(rule.id)), onRuleResult));
+
+      const pending = rules.slice(index + 1);
+      if (shortCircuit && pending.length > 0
+        && shortCircuit.strategy.isSettled(results, pending, shortCircuit.policy)) {
+        results.push(...pending.map(r => this.reportRuleResult(this.toSkippedResult(r, groupPaths?.get(r.id)), onRuleResult)));
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Evaluate a single rule against the content its scope selects, locally
+   * for deterministic rule types and through the LLM judge otherwise.
+   * The judge fills the request's guardrail fields into the rule's prompt.
+   */
+  private async evaluateRule(
+    rule: Rule,
+    scoped: ScopedContent,
+    inputs?: EvaluationInputs,
+    signal?: AbortSignal
+  ): Promise<JudgeEvaluationResult> {
+    if (isLocalRule(rule)) {
+      const result = evaluateLocalRule(rule, scoped.text);
+      this.emit('rule:local', { ruleId: rule.id, type: rule.type, verdict: result.verdict });
+      return result;
+    }
+    return this.judgeService.evaluate(rule, scoped.text, {
+      signal,
+      subject: scoped.subject,
+      ...(scoped.context ? { context: scoped.context } : {}),
+      ...(inputs ? { inputs } : {})
+    });
+  }
+
+  /**
+   * Hand a finished rule result to the caller's callback (e.g. a stream)
+   * as soon as it is available. Callback failures never fail the evaluation.
+   */
+  private reportRuleResult(result: RuleResult, onRuleResult?: RuleResultCallback): RuleResult {
+    this.emit('rule:complete', { ruleId: result.rule_id, verdict: result.verdict });
+
+    if (onRuleResult) {
+      try {
+        onRuleResult(result);
+      } catch (error) {
+        this.logger.warn('[PolicyEngine] Rule result callback failed', {
+          ruleId: result.rule_id,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the result for a rule skipped by short-circuit evaluation
+   */
+  private toSkippedResult(rule: Rule, groupPath?: string[]): RuleResult {
+    return {
+      rule_id: rule.id,
+      ...(groupPath ? { group_path: groupPath } : {}),
+      action: rule.on_fail,
+      weight: rule.weight || 1.0,
+      verdict: 'SKIPPED',
+      confidence: 0,
+      reasoning: 'Skipped - policy verdict already settled',
+      latency_ms: 0
+    };
+  }
+
+  /**
+   * NOT_APPLICABLE results for the rules whose applies_when does not match
+   * the request metadata and content, or whose scope selects no transcript
+   * messages, keyed by rule id
+   */
+  private findNotApplicableRules(
+    rules: Rule[],
+    content: EvaluationContent,
+    metadata: EvaluationMetadata,
+    groupPaths?: Map<string, string[]>,
+    onRuleResult?: RuleResultCallback
+  ): Map<string, RuleResult> {
+    const results = new Map<string, RuleResult>();
+    if (!hasConditions(rules) && !isTranscript(content)) {
+      return results;
+    }
+
+    const context = { metadata, features: getContentFeatures(getContentText(content)) };
     for (const rule of rules) {
-      const result: JudgeEvaluationResult = await this.judgeService.evaluate(rule, content);
-      results.push({
+      const check = isTranscript(content) && scopeContent(content, rule.scope).indexes.length === 0
+        ? { applies: false, reason: `the transcript has no messages in scope '${rule.scope}'` }
+        : checkConditions(rule, context);
+      if (check.applies) continue;
+
+      const groupPath = groupPaths?.get(rule.id);
+      results.set(rule.id, this.reportRuleResult({
         rule_id: rule.id,
         action: rule.on_fail,
         weight: rule.weight || 1.0,
+        verdict: 'NOT_APPLICABLE',
+        confidence: 0,
+        reasoning: `Not applicable - ${check.reason}`,
+        latency_ms: 0,
+        ...(groupPath ? { group_path: groupPath } : {})
+      }, onRuleResult));
+    }
+
+    if (results.size > 0) {
+      this.logger.info('[PolicyEngine] Rules not applicable to request', {
+        rules: [...results.keys()],
+        features: context.features
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Report skipped rules and saved judge calls in the aggregation summary
+   */
+  private recordSkippedRules(aggregation: AggregationResult, ruleResults: RuleResult[], rules: Rule[]): void {
+    const skipped = ruleResults.filter(r => r.verdict === 'SKIPPED');
+    if (skipped.length === 0) {
+      return;
+    }
+
+    const callsSaved = skipped.filter(r => {
+      const rule = rules.find(rl => rl.id === r.rule_id);
+      return !!rule && !isLocalRule(rule);
+    }).length;
+
+    aggregation.summary = {
+      ...aggregation.summary,
+      skipped: skipped.length,
+      calls_saved: callsSaved,
+      reason: `${aggregation.summary.reason} (short-circuited, ${skipped.length} rule(s) skipped)`
+    };
+
+    this.emit('policy:short-circuit', { skipped: skipped.length, callsSaved });
+  }
+
+  /**
+   * Report verdicts downgraded by min_confidence in the aggregation summary
+   */
+  private recordDowngrades(aggregation: AggregationResult, ruleResults: RuleResult[]): void {
+    const downgraded = ruleResults.filter(r => r.downgraded_from);
+    if (downgraded.length === 0) {
+      return;
+    }
+
+    aggregation.summary = {
+      ...aggregation.summary,
+      downgraded: downgraded.length,
+      reason: `${aggregation.summary.reason} (${downgraded.length} low-confidence verdict(s) downgraded to UNCERTAIN: ${downgraded.map(r => r.rule_id).join(', ')})`
+    };
+  }
+
+  /**
+   * Rules of a policy (including grouped rules) with the policy min_confidence
+   * applied to rules without their own
+   */
+  private withMinConfidence(policy: Policy): Rule[] {
+    const rules = flattenRules(policy);
+    if (policy.min_confidence === undefined) {
+      return rules;
+    }
+    return rules.map(rule => rule.min_confidence !== undefined
+      ? rule
+      : { ...rule, min_confidence: policy.min_confidence });
+  }
+
+  /**
+   * Total token usage and cost of the rule results, or null when no judge call reported usage
+   */
+  private summarizeUsage(ruleResults: RuleResult[]): VerdictUsage | null {
+    const withUsage = ruleResults.filter(result => result.usage);
+    if (withUsage.length === 0) {
+      return null;
+    }
+
+    const usage = withUsage.reduce((total, result) => ({
+      input_tokens: total.input_tokens + result.usage!.input_tokens,
+      output_tokens: total.output_tokens + result.usage!.output_tokens,
+      total_tokens: total.total_tokens + result.usage!.input_tokens + result.usage!.output_tokens,
+      cost_usd: total.cost_usd + result.usage!.cost_usd
+    }), { input_tokens: 0, output_tokens: 0, total_tokens: 0, cost_usd: 0 });
+
+    return { ...usage, cost_usd: Math.round(usage.cost_usd * 1e8) / 1e8 };
+  }
+
+  /**
+   * Map a judge evaluation onto a rule result
+   */
+  private toRuleResult(rule: Rule, result: JudgeEvaluationResult, content: string, groupPath?: string[]): RuleResult {
+    const ruleResult: RuleResult = {
+      rule_id: rule.id,
+      action: rule.on_fail,
+      weight: rule.weight || 1.0,
+      verdict: result.verdict,
+      confidence: result.confidence,
+      reasoning: result.reasoning,
+      latency_ms: result.latency_ms || 0,
+      ...(groupPath ? { group_path: groupPath } : {}),
+      ...(result.chunk_count ? { chunks: result.chunks || [], chunk_count: result.chunk_count } : {})
+    };
+
+    // PASS and FAIL verdicts below the rule's min_confidence are not trusted
+    if (rule.min_confidence !== undefined && result.verdict !== 'UNCERTAIN' && result.confidence < rule.min_confidence) {
+      ruleResult.verdict = 'UNCERTAIN';
+      ruleResult.downgraded_from = result.verdict;
+      this.emit('rule:downgraded', {
+        ruleId: rule.id,
         verdict: result.verdict,
         confidence: result.confidence,
-        reasoning: result.reasoning,
-        latency_ms: result.latency_ms || 0
+        minConfidence: rule.min_confidence
       });
     }
 
-    return results;
+    // Attach verified character offsets for failed redact rules
+    if (rule.on_fail === 'redact' && ruleResult.verdict === 'FAIL' && result.spans) {
+      ruleResult.spans = resolveSpans(content, result.spans);
+    }
+
+    // Price the judge call from the model's per-token rates
+    if (result.usage && !result.votes) {
+      ruleResult.usage = {
+        input_tokens: result.usage.input_tokens,
+        output_tokens: result.usage.output_tokens,
+        provider: result.provider,
+        model: result.model,
+        cost_usd: calculateCost(result.model, result.usage)
+      };
+    }
+
+    // Ensemble rules keep every vote, each priced for its own model
+    if (result.votes) {
+      ruleResult.votes = result.votes.map(vote => vote.usage
+        ? { ...vote, cost_usd: calculateCost(vote.model, vote.usage) }
+        : vote);
+      ruleResult.agreement = result.agreement ?? 0;
+
+      if (result.usage) {
+        const cost = ruleResult.votes.reduce((total, vote) => total + (vote.cost_usd || 0), 0);
+        ruleResult.usage = {
+          input_tokens: result.usage.input_tokens,
+          output_tokens: result.usage.output_tokens,
+          cost_usd: Math.round(cost * 1e8) / 1e8
+        };
+      }
+    }
+
+    return ruleResult;
   }
 
   /**
@@ -329,7 +1291,11 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       this.configService.clearCache();
       this.config = await this.configService.getConfig();
       this.judgeService.updateConfig(this.config.judge);
+      this.judgeService.configureCache(this.getCacheOptions());
+      this.judgeService.clearCache();
+      await this.loadPolicies();
     }
+    await this.loadLibrary();
     
     this.logger.info('[PolicyEngine] Configuration reloaded from MongoDB', {
       policyName: this.config.policy.name,
@@ -348,9 +1314,12 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
    * Update and save configuration to MongoDB
    */
   updateConfig(newConfig: Partial<Config>): Config {
+    const previousRules = flattenRules(this.config.policy);
+
     // Merge with existing config in memory
     if (newConfig.policy) {
       this.config.policy = { ...this.config.policy, ...newConfig.policy };
+      this.invalidateChangedRules(previousRules, flattenRules(this.config.policy));
     }
     if (newConfig.judge) {
       this.config.judge = { ...this.config.judge, ...newConfig.judge };
@@ -358,6 +1327,7 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
     }
     if (newConfig.settings) {
       this.config.settings = { ...this.config.settings, ...newConfig.settings };
+      this.judgeService.configureCache(this.getCacheOptions());
     }
 
     // Save to MongoDB asynchronously
@@ -384,9 +1354,11 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
   /**
    * Update and save configuration to MongoDB (async version)
    */
-  async updateConfigAsync(newConfig: Partial<Config>): Promise<Config> {
+  async updateConfigAsync(newConfig: Partial<Config>, author?: string): Promise<Config> {
+    const previousRules = flattenRules(this.config.policy);
+
     if (this.configService) {
-      this.config = await this.configService.updateConfig(newConfig);
+      this.config = await this.configService.updateConfig(newConfig, author);
       if (newConfig.judge) {
         this.judgeService.updateConfig(this.config.judge);
       }
@@ -404,6 +1376,13 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       }
     }
 
+    if (newConfig.policy) {
+      this.invalidateChangedRules(previousRules, flattenRules(this.config.policy));
+    }
+    if (newConfig.settings) {
+      this.judgeService.configureCache(this.getCacheOptions());
+    }
+
     this.logger.info('[PolicyEngine] Configuration updated and saved to MongoDB', {
       policyName: this.config.policy.name
     });
@@ -427,6 +1406,33 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
     };
   }
 
+  /**
+   * Build verdict cache options from engine settings
+   */
+  private getCacheOptions(): Partial<VerdictCacheOptions> {
+    return {
+      enabled: this.config.settings.cacheResults,
+      ttlMs: this.config.settings.cacheTtlMs,
+      maxEntries: this.config.settings.cacheMaxEntries
+    };
+  }
+
+  /**
+   * Drop cached verdicts for rules that were changed or removed
+   */
+  private invalidateChangedRules(previousRules: Rule[], nextRules: Rule[]): void {
+    const changedRuleIds = previousRules
+      .filter(prev => {
+        const next = nextRules.find(r => r.id === prev.id);
+        return !next || JSON.stringify(next) !== JSON.stringify(prev);
+      })
+      .map(r => r.id);
+
+    if (changedRuleIds.length > 0) {
+      this.judgeService.clearCache(changedRuleIds);
+    }
+  }
+
   /**
    * Get available evaluation strategies
    */
@@ -462,11 +1468,27 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
 
   /**
    * Validate a policy configuration
+   * @param policyId - Id the policy is (or will be) stored under, to detect extends cycles through it
+   * @param fields - Guardrail fields the request supplies; judge_prompt placeholders for any other field are errors
    */
-  validatePolicy(policy: PolicyInput): ValidationResult {
+  validatePolicy(input: PolicyInput, policyId?: string, fields?: PromptField[]): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    // Every other check reads rule and group fields, so entries that are not objects end validation here
+    errors.push(...this.findMalformedEntries(input || {}));
+    if (errors.length > 0) {
+      return { valid: false, errors, warnings };
+    }
+
+    // Validate the base policy and library references, then the policy as resolved
+    // so that expressions and groups can refer to inherited rules
+    const inheritanceErrors = validateInheritance(input, policyId, this.getPolicySources());
+    errors.push(...inheritanceErrors);
+    const policy: PolicyInput = inheritanceErrors.length === 0 && usesInheritance(input) && Array.isArray(input.rules)
+      ? this.resolve(input as Policy)
+      : input;
+
     // Required fields
     if (!policy.name) {
       errors.push('Policy name is required');
@@ -476,15 +1498,16 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
     } else {
       // Validate each rule
       policy.rules.forEach((rule, index) => {
-        if (!rule.id) {
-          errors.push(`Rule ${index + 1}: id is required`);
-        }
-        if (!rule.judge_prompt) {
-          errors.push(`Rule ${index + 1}: judge_prompt is required`);
-        }
-        if (rule.weight !== undefined && (rule.weight < 0 || rule.weight > 1)) {
-          warnings.push(`Rule ${index + 1}: weight should be between 0 and 1`);
-        }
+        this.validateRule(rule, `Rule ${index + 1}`, errors, warnings);
+      });
+    }
+
+    // Validate rule groups and the rules inside them
+    const groupErrors = validateRuleGroups(policy);
+    errors.push(...groupErrors);
+    if (Array.isArray(policy.groups) && groupErrors.length === 0) {
+      flattenRules({ groups: policy.groups }).forEach(rule => {
+        this.validateRule(rule, `Rule '${rule.id}'`, errors, warnings);
       });
     }
 
@@ -493,6 +1516,38 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       errors.push(`Invalid evaluation_strategy: ${policy.evaluation_strategy}. Valid: ${getAvailableStrategies().join(', ')}`);
     }
 
+    // Validate the rule expression (top-level groups count as members by id)
+    if (policy.evaluation_strategy === 'expression') {
+      const ruleIds = [
+        ...(Array.isArray(policy.rules) ? policy.rules : []),
+        ...(Array.isArray(policy.groups) ? policy.groups : [])
+      ]
+        .map(member => member.id)
+        .filter((id): id is string => !!id);
+      errors.push(...validateExpression(policy.expression, ruleIds));
+
+      if (policy.expression) {
+        try {
+          const referenced = getExpressionRuleIds(parseExpression(policy.expression));
+          const unused = ruleIds.filter(id => !referenced.includes(id));
+          if (unused.length > 0) {
+            warnings.push(`Rules not in the expression do not affect the verdict: ${unused.join(', ')}`);
+          }
+        } catch {
+          // Reported by validateExpression
+        }
+      }
+    } else if (policy.expression) {
+      warnings.push('expression only applies to the expression strategy');
+    }
+
+    if (policy.min_confidence !== undefined && (typeof policy.min_confidence !== 'number' || policy.min_confidence < 0 || policy.min_confidence > 1)) {
+      errors.push('min_confidence must be between 0 and 1');
+    }
+    if (policy.confidence_weighted && policy.evaluation_strategy !== 'weighted_threshold') {
+      warnings.push('confidence_weighted only applies to the weighted_threshold strategy');
+    }
+
     // Validate threshold for weighted strategy
     if (policy.evaluation_strategy === 'weighted_threshold') {
       if (policy.threshold === undefined) {
@@ -502,6 +1557,30 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       }
     }
 
+    // Every placeholder a rule's judge_prompt uses must be supplied by the request
+    if (fields && Array.isArray(policy.rules)) {
+      const rules = flattenRules({
+        rules: policy.rules as Rule[],
+        ...(groupErrors.length === 0 ? { groups: policy.groups } : {})
+      });
+      errors.push(...findMissingPlaceholders(rules, fields));
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * Validate a rule added to or updated in the active policy
+   */
+  validatePolicyRule(rule: RulePartial): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    this.validateRule(rule, `Rule '${rule.id || '?'}'`, errors, warnings);
+
     return {
       valid: errors.length === 0,
       errors,
@@ -509,12 +1588,92 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
     };
   }
 
+  /**
+   * Validate a rule for the shared rule library
+   */
+  validateLibraryRule(rule: RulePartial): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    this.validateRule(rule, `Library rule '${rule.id || '?'}'`, errors, warnings);
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * Rules and groups (at any depth) that are not objects
+   */
+  private findMalformedEntries(container: { rules?: unknown; groups?: unknown }, label = ''): string[] {
+    const errors: string[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      !!value && typeof value === 'object' && !Array.isArray(value);
+
+    if (Array.isArray(container.rules)) {
+      container.rules.forEach((rule, index) => {
+        if (!isObject(rule)) {
+          errors.push(`${label}Rule ${index + 1}: must be an object`);
+        }
+      });
+    }
+    if (Array.isArray(container.groups)) {
+      container.groups.forEach((group, index) => {
+        if (!isObject(group)) {
+          errors.push(`${label}Group ${index + 1}: must be an object`);
+        } else {
+          errors.push(...this.findMalformedEntries(group, `${label}Group ${index + 1}: `));
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a single rule definition of a policy
+   */
+  private validateRule(rule: RulePartial, label: string, errors: string[], warnings: string[]): void {
+    if (!rule.id) {
+      errors.push(`${label}: id is required`);
+    }
+    validateRuleDefinition(rule).forEach(error => {
+      errors.push(`${label}: ${error}`);
+    });
+    if (rule.weight !== undefined && (rule.weight < 0 || rule.weight > 1)) {
+      warnings.push(`${label}: weight should be between 0 and 1`);
+    }
+    if (rule.redaction?.mask_style && !getAvailableMaskStyles().includes(rule.redaction.mask_style)) {
+      errors.push(`${label}: invalid redaction mask_style ${rule.redaction.mask_style}. Valid: ${getAvailableMaskStyles().join(', ')}`);
+    }
+    if (rule.redaction && rule.on_fail && rule.on_fail !== 'redact') {
+      warnings.push(`${label}: redaction settings only apply when on_fail is 'redact'`);
+    }
+    if (rule.provider && !getAvailableProviders().includes(rule.provider)) {
+      errors.push(`${label}: invalid provider ${rule.provider}. Valid: ${getAvailableProviders().join(', ')}`);
+    }
+    errors.push(...validateConditions(rule.applies_when, label));
+    errors.push(...validatePlaceholders(rule.judge_prompt, label));
+    if (rule.scope !== undefined && !RULE_SCOPES.includes(rule.scope)) {
+      errors.push(`${label}: invalid scope ${rule.scope}. Valid: ${RULE_SCOPES.join(', ')}`);
+    }
+    if (rule.ensemble) {
+      validateEnsemble(rule.ensemble).forEach(error => {
+        errors.push(`${label}: ${error}`);
+      });
+      if (isLocalRule(rule as Rule)) {
+        warnings.push(`${label}: ensemble only applies to llm rules`);
+      }
+    }
+  }
+
   /**
    * Add a new rule to the policy
    */
   addRule(rule: RuleInput): RuleOperationResult {
-    // Check if rule with same ID already exists
-    const existingRule = this.config.policy.rules.find(r => r.id === rule.id);
+    // Check if rule with same ID already exists, including rules inside groups
+    const existingRule = flattenRules(this.config.policy).find(r => r.id === rule.id);
     if (existingRule) {
       return {
         success: false,
@@ -528,7 +1687,20 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       description: rule.description || '',
       judge_prompt: rule.judge_prompt,
       on_fail: rule.on_fail || 'warn',
-      weight: rule.weight !== undefined ? rule.weight : 1.0
+      weight: rule.weight !== undefined ? rule.weight : 1.0,
+      provider: rule.provider,
+      model: rule.model,
+      redaction: rule.redaction,
+      type: rule.type,
+      pattern: rule.pattern,
+      flags: rule.flags,
+      keywords: rule.keywords,
+      case_sensitive: rule.case_sensitive,
+      pii_types: rule.pii_types,
+      ensemble: rule.ensemble,
+      min_confidence: rule.min_confidence,
+      applies_when: rule.applies_when,
+      scope: rule.scope
     };
 
     // Add to rules array
@@ -560,11 +1732,19 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
   /**
    * Add a new rule to the policy (async version)
    */
-  async addRuleAsync(rule: RuleInput): Promise<RuleOperationResult> {
+  async addRuleAsync(rule: RuleInput, author?: string): Promise<RuleOperationResult> {
+    if (flattenRules(this.config.policy).some(r => r.id === rule.id)) {
+      return {
+        success: false,
+        message: `Rule with id '${rule.id}' already exists`
+      };
+    }
+
     if (this.configService) {
-      const result = await this.configService.addRule(rule);
+      const result = await this.configService.addRule(rule, author);
       if (result.success && result.rule) {
         this.config.policy.rules.push(result.rule);
+        this.config.policy.version = result.version;
         this.emit('policy:rule-added', { rule: result.rule });
       }
       return result;
@@ -587,7 +1767,7 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
 
     // If updating the ID, check for conflicts
     if (updates.id && updates.id !== ruleId) {
-      const conflictRule = this.config.policy.rules.find(r => r.id === updates.id);
+      const conflictRule = flattenRules(this.config.policy).find(r => r.id === updates.id);
       if (conflictRule) {
         return {
           success: false,
@@ -605,16 +1785,18 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
       };
     }
 
-    const updatedRule: Rule = {
-      ...existingRule,
-      ...updates,
-      id: updates.id || existingRule.id,
-      judge_prompt: updates.judge_prompt || existingRule.judge_prompt,
-      on_fail: updates.on_fail || existingRule.on_fail,
-      weight: updates.weight !== undefined ? updates.weight : existingRule.weight
-    };
+    const updatedRule = mergeRuleUpdates(existingRule, updates);
+    const validation = this.validatePolicyRule(updatedRule);
+    if (!validation.valid) {
+      return {
+        success: false,
+        message: validation.errors.join('; '),
+        errors: validation.errors
+      };
+    }
 
     this.config.policy.rules[ruleIndex] = updatedRule;
+    this.judgeService.clearCache([ruleId]);
 
     // Save to MongoDB asynchronously
     if (this.configService) {
@@ -642,14 +1824,29 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
   /**
    * Update an existing rule (async version)
    */
-  async updateRuleAsync(ruleId: string, updates: Partial<RuleInput>): Promise<RuleOperationResult> {
+  async updateRuleAsync(ruleId: string, updates: Partial<RuleInput>, author?: string): Promise<RuleOperationResult> {
+    // The stored rule is validated again with the updates applied, as for new rules
+    const existingRule = this.config.policy.rules.find(r => r.id === ruleId);
+    if (existingRule) {
+      const validation = this.validatePolicyRule(mergeRuleUpdates(existingRule, updates));
+      if (!validation.valid) {
+        return {
+          success: false,
+          message: validation.errors.join('; '),
+          errors: validation.errors
+        };
+      }
+    }
+
     if (this.configService) {
-      const result = await this.configService.updateRule(ruleId, updates);
+      const result = await this.configService.updateRule(ruleId, updates, author);
       if (result.success && result.rule) {
         const ruleIndex = this.config.policy.rules.findIndex(r => r.id === ruleId);
         if (ruleIndex !== -1) {
           this.config.policy.rules[ruleIndex] = result.rule;
         }
+        this.config.policy.version = result.version;
+        this.judgeService.clearCache([ruleId]);
         this.emit('policy:rule-updated', { rule: result.rule });
       }
       return result;
@@ -672,6 +1869,7 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
 
     // Remove the rule
     const deletedRule = this.config.policy.rules.splice(ruleIndex, 1)[0];
+    this.judgeService.clearCache([ruleId]);
 
     // Save to MongoDB asynchronously
     if (this.configService) {
@@ -699,14 +1897,16 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
   /**
    * Delete a rule from the policy (async version)
    */
-  async deleteRuleAsync(ruleId: string): Promise<RuleOperationResult> {
+  async deleteRuleAsync(ruleId: string, author?: string): Promise<RuleOperationResult> {
     if (this.configService) {
-      const result = await this.configService.deleteRule(ruleId);
+      const result = await this.configService.deleteRule(ruleId, author);
       if (result.success) {
         const ruleIndex = this.config.policy.rules.findIndex(r => r.id === ruleId);
         if (ruleIndex !== -1) {
           this.config.policy.rules.splice(ruleIndex, 1);
         }
+        this.config.policy.version = result.version;
+        this.judgeService.clearCache([ruleId]);
         this.emit('policy:rule-deleted', { ruleId });
       }
       return result;
@@ -717,10 +1917,12 @@ export class PolicyEngine extends EventEmitter implements PolicyEngineInterface
   /**
    * Reset configuration to default
    */
-  async resetToDefault(): Promise<Config> {
+  async resetToDefault(author?: string): Promise<Config> {
     if (this.configService) {
-      this.config = await this.configService.resetToDefault();
+      this.config = await this.configService.resetToDefault(author);
       this.judgeService.updateConfig(this.config.judge);
+      this.judgeService.configureCache(this.getCacheOptions());
+      this.judgeService.clearCache();
       
       this.logger.info('[PolicyEngine] Configuration reset to default', {
         policyName: this.config.policy.name
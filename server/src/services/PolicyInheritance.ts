@@ -0,0 +1,190 @@
+/**
+ * PolicyInheritance - Resolve base policies and shared library rules
+ *
+ * A policy may `extends` a base policy (by policy id) and pull rules from the
+ * tenant's rule library through `library_rules`, overriding on_fail and weight
+ * locally. Resolution starts from the resolved base, then applies library
+ * rules, then the policy's own rules; a rule replaces an earlier rule with the
+ * same id in place. Groups are inherited the same way. The policy's own
+ * settings (strategy, default action, thresholds) always apply.
+ *
+ * A resolved policy has no `extends` or `library_rules`, so resolving it again
+ * returns it unchanged.
+ */
+
+import type {
+  Action,
+  Logger,
+  Policy,
+  PolicyInput,
+  Rule,
+  RuleGroup
+} from '../types';
+
+const ACTIONS: Action[] = ['allow', 'block', 'warn', 'redact'];
+
+export interface PolicySources {
+  getPolicy: (policyId: string) => Policy | null; // Stored (unresolved) policy
+  getLibraryRule: (ruleId: string) => Rule | null;
+}
+
+/**
+ * Whether a policy extends a base or references library rules
+ */
+export const usesInheritance = (policy: Pick<PolicyInput, 'extends' | 'library_rules'>): boolean => {
+  return !!policy.extends || (Array.isArray(policy.library_rules) && policy.library_rules.length > 0);
+};
+
+/**
+ * Add an item, replacing an earlier one with the same id in place
+ */
+const upsertById = <T extends { id: string }>(items: T[], item: T): void => {
+  const index = items.findIndex(existing => existing.id === item.id);
+  if (index === -1) {
+    items.push(item);
+  } else {
+    items[index] = item;
+  }
+};
+
+/**
+ * Resolve a policy's base and library rules into a self-contained policy.
+ * Unknown bases, unknown library rules and cycles are skipped with a warning;
+ * validatePolicy reports them as errors before a policy is saved.
+ */
+export const resolvePolicy = (
+  policy: Policy,
+  sources: PolicySources,
+  logger: Logger = console,
+  visited: string[] = []
+): Policy => {
+  if (!usesInheritance(policy)) {
+    return policy;
+  }
+
+  const { extends: baseId, library_rules: libraryRules, ...own } = policy;
+  const rules: Rule[] = [];
+  const groups: RuleGroup[] = [];
+
+  if (baseId) {
+    const base = visited.includes(baseId) ? null : sources.getPolicy(baseId);
+    if (base) {
+      const resolvedBase = resolvePolicy(base, sources, logger, [...visited, baseId]);
+      resolvedBase.rules.forEach(rule => upsertById(rules, rule));
+      (resolvedBase.groups || []).forEach(group => upsertById(groups, group));
+    } else {
+      logger.warn('[PolicyInheritance] Base policy not resolved', {
+        policyName: policy.name,
+        extends: baseId,
+        reason: visited.includes(baseId) ? 'cycle' : 'not found'
+      });
+    }
+  }
+
+  for (const ref of libraryRules || []) {
+    const libraryRule = sources.getLibraryRule(ref.id);
+    if (!libraryRule) {
+      logger.warn('[PolicyInheritance] Library rule not found', { policyName: policy.name, ruleId: ref.id });
+      continue;
+    }
+    upsertById(rules, {
+      ...libraryRule,
+      ...(ref.on_fail ? { on_fail: ref.on_fail } : {}),
+      ...(ref.weight !== undefined ? { weight: ref.weight } : {})
+    });
+  }
+
+  (own.rules || []).forEach(rule => upsertById(rules, rule));
+  (own.groups || []).forEach(group => upsertById(groups, group));
+
+  const { groups: _ownGroups, ...settings } = own;
+  return {
+    ...settings,
+    rules,
+    ...(groups.length > 0 ? { groups } : {})
+  };
+};
+
+/**
+ * Whether a policy uses a library rule, directly or through its bases
+ */
+export const usesLibraryRule = (policy: Policy, ruleId: string, sources: PolicySources): boolean => {
+  const visited: string[] = [];
+  let current: Policy | null = policy;
+
+  while (current) {
+    if ((current.library_rules || []).some(ref => ref.id === ruleId)) {
+      return true;
+    }
+    const baseId: string | undefined = current.extends;
+    if (!baseId || visited.includes(baseId)) {
+      return false;
+    }
+    visited.push(baseId);
+    current = sources.getPolicy(baseId);
+  }
+
+  return false;
+};
+
+/**
+ * Validate a policy's base chain and library rule references
+ * @param policyId - Id the policy is (or will be) stored under, to catch self-references
+ */
+export const validateInheritance = (policy: PolicyInput, policyId: string | undefined, sources: PolicySources): string[] => {
+  const errors: string[] = [];
+
+  if (policy.extends !== undefined) {
+    if (typeof policy.extends !== 'string' || !policy.extends) {
+      errors.push('extends must be a policy id');
+    } else {
+      const chain = policyId ? [policyId] : [];
+      let current: string | undefined = policy.extends;
+
+      while (current) {
+        if (chain.includes(current)) {
+          errors.push(`extends cycle: ${[...chain, current].join(' -> ')}`);
+          break;
+        }
+        chain.push(current);
+
+        const base = sources.getPolicy(current);
+        if (!base) {
+          errors.push(`extends unknown policy '${current}'`);
+          break;
+        }
+        current = base.extends;
+      }
+    }
+  }
+
+  if (policy.library_rules !== undefined) {
+    if (!Array.isArray(policy.library_rules)) {
+      errors.push('library_rules must be an array');
+    } else {
+      const seen = new Set<string>();
+      policy.library_rules.forEach((ref, index) => {
+        const label = `Library rule ${index + 1}`;
+        if (!ref?.id) {
+          errors.push(`${label}: id is required`);
+          return;
+        }
+        if (seen.has(ref.id)) {
+          errors.push(`${label}: '${ref.id}' is referenced more than once`);
+        }
+        seen.add(ref.id);
+        if (!sources.getLibraryRule(ref.id)) {
+          errors.push(`${label}: '${ref.id}' is not in the rule library`);
+        }
+        if (ref.on_fail && !ACTIONS.includes(ref.on_fail)) {
+          errors.push(`${label}: invalid on_fail ${ref.on_fail}. Valid: ${ACTIONS.join(', ')}`);
+        }
+        if (ref.weight !== undefined && (typeof ref.weight !== 'number' || ref.weight < 0 || ref.weight > 1)) {
+          errors.push(`${label}: weight must be between 0 and 1`);
+        }
+      });
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,447 @@
+/**
+ * PolicyRevisionService - Immutable policy revision history
+ *
+ * Records a revision for every policy mutation, answers point-in-time
+ * queries ("what was the policy on a given date") and diffs revisions
+ * rule by rule. Also owns the semver bump rules:
+ * - major: a rule was removed, or the evaluation strategy, expression,
+ *   group structure or base policy (extends) changed
+ * - minor: a rule was added or changed, or default_action, threshold,
+ *   min_confidence, confidence_weighted or library_rules changed
+ * - patch: anything else (names, descriptions)
+ * Each instance reads and writes a single tenant's revisions.
+ */
+
+import { PolicyRevision, IPolicyRevision } from '../models/PolicyRevision';
+import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
+import { flattenRules, getGroupPaths } from './RuleGroups';
+import type {
+  Logger,
+  Policy,
+  Rule,
+  RuleGroup,
+  RevisionChange,
+  VersionBump,
+  PolicyRevision as PolicyRevisionRecord,
+  PolicyFieldChange,
+  RuleChange,
+  PolicyChangeSet,
+  PolicyDiff
+} from '../types';
+
+export const DEFAULT_REVISION_AUTHOR = 'anonymous';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RecordRevisionInput {
+  configId: string;
+  policy: Policy;
+  change: RevisionChange;
+  author?: string;
+  message?: string;
+  createdAt?: Date;
+}
+
+export interface RevisionListOptions {
+  page?: number;
+  limit?: number;
+}
+
+export interface RevisionListResult {
+  items: PolicyRevisionRecord[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface PolicyRevisionServiceOptions {
+  logger?: Logger;
+  tenantId?: string;
+}
+
+// ============================================
+// Semver and Diff Helpers
+// ============================================
+
+const POLICY_FIELDS: Array<keyof Policy> = [
+  'name',
+  'default_action',
+  'evaluation_strategy',
+  'threshold',
+  'min_confidence',
+  'confidence_weighted',
+  'expression',
+  'groups',
+  'extends',
+  'library_rules'
+];
+
+// Policy fields that change verdicts without restructuring the policy
+const MINOR_POLICY_FIELDS: Array<keyof Policy> = [
+  'default_action',
+  'threshold',
+  'min_confidence',
+  'confidence_weighted',
+  'library_rules'
+];
+
+/**
+ * Parse a version string into [major, minor, patch]. Missing parts are 0,
+ * unparseable versions are treated as 0.0.0.
+ */
+export const parseVersion = (version?: string): [number, number, number] => {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec((version || '').trim());
+  if (!match) {
+    return [0, 0, 0];
+  }
+  return [Number(match[1]), Number(match[2] || 0), Number(match[3] || 0)];
+};
+
+/**
+ * Bump a version string by the given level
+ */
+export const bumpVersion = (version: string | undefined, bump: VersionBump): string => {
+  const [major, minor, patch] = parseVersion(version);
+
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    default:
+      return `${major}.${minor}.${patch + 1}`;
+  }
+};
+
+/**
+ * Normalize a value for comparison (drops undefined keys and key order)
+ */
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const source = value as Record<string, unknown>;
+    return Object.keys(source)
+      .filter(key => source[key] !== undefined && key !== '_id')
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = normalize(source[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+};
+
+/**
+ * Names of rule fields that differ between two versions of a rule
+ */
+const changedRuleFields = (before: Rule, after: Rule): string[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(field => field !== '_id')
+    .filter(field => !isEqual(
+      (before as unknown as Record<string, unknown>)[field],
+      (after as unknown as Record<string, unknown>)[field]
+    ))
+    .sort();
+};
+
+/**
+ * Group settings without their rules; changes to grouped rules, and rules
+ * moving between groups, are reported as rule changes
+ */
+const outlineGroups = (groups: RuleGroup[] | undefined): unknown => {
+  return groups?.map(({ rules: _rules, groups: children, ...group }) => ({
+    ...group,
+    groups: outlineGroups(children)
+  }));
+};
+
+const policyFieldValue = (policy: Policy, field: keyof Policy): unknown => {
+  return field === 'groups' ? outlineGroups(policy.groups) : policy[field];
+};
+
+/**
+ * Diff two policies field by field and rule by rule (rules matched by id,
+ * including the rules of nested groups)
+ */
+export const diffPolicies = (before: Policy, after: Policy): PolicyChangeSet => {
+  const policy_changes: PolicyFieldChange[] = POLICY_FIELDS
+    .filter(field => !isEqual(policyFieldValue(before, field), policyFieldValue(after, field)))
+    .map(field => ({ field, before: policyFieldValue(before, field), after: policyFieldValue(after, field) }));
+
+  const beforeRules = new Map(flattenRules(before).map(r => [r.id, r]));
+  const afterRules = new Map(flattenRules(after).map(r => [r.id, r]));
+  const beforePaths = getGroupPaths(before);
+  const afterPaths = getGroupPaths(after);
+  const rule_changes: RuleChange[] = [];
+
+  for (const [ruleId, rule] of beforeRules) {
+    const next = afterRules.get(ruleId);
+    if (!next) {
+      rule_changes.push({ rule_id: ruleId, change: 'removed', before: rule });
+      continue;
+    }
+    const fields = changedRuleFields(rule, next);
+    if (!isEqual(beforePaths.get(ruleId), afterPaths.get(ruleId))) {
+      fields.push('group_path');
+      fields.sort();
+    }
+    if (fields.length > 0) {
+      rule_changes.push({ rule_id: ruleId, change: 'modified', fields, before: rule, after: next });
+    }
+  }
+
+  for (const [ruleId, rule] of afterRules) {
+    if (!beforeRules.has(ruleId)) {
+      rule_changes.push({ rule_id: ruleId, change: 'added', after: rule });
+    }
+  }
+
+  return { policy_changes, rule_changes };
+};
+
+/**
+ * Semver bump implied by a change set (null when nothing changed)
+ */
+export const classifyChanges = (changes: PolicyChangeSet): VersionBump | null => {
+  const { policy_changes, rule_changes } = changes;
+
+  if (
+    rule_changes.some(c => c.change === 'removed') ||
+    policy_changes.some(c => c.field === 'evaluation_strategy' || c.field === 'expression' || c.field === 'groups' || c.field === 'extends')
+  ) {
+    return 'major';
+  }
+
+  if (
+    rule_changes.some(c => c.change === 'added') ||
+    rule_changes.some(c => c.fields?.some(field => field !== 'description')) ||
+    policy_changes.some(c => MINOR_POLICY_FIELDS.includes(c.field as keyof Policy))
+  ) {
+    return 'minor';
+  }
+
+  if (policy_changes.length > 0 || rule_changes.length > 0) {
+    return 'patch';
+  }
+
+  return null;
+};
+
+/**
+ * One-line description of a change set, used as the default revision message
+ */
+export const summarizeChanges = (changes: PolicyChangeSet): string => {
+  const parts = [
+    ...changes.rule_changes.map(c =>
+      c.change === 'modified'
+        ? `modified rule ${c.rule_id} (${(c.fields || []).join(', ')})`
+        : `${c.change} rule ${c.rule_id}`
+    ),
+    ...changes.policy_changes.map(c => `changed ${c.field}`)
+  ];
+  return parts.length > 0 ? parts.join('; ') : 'No policy changes';
+};
+
+// ============================================
+// Service Class
+// ============================================
+
+export class PolicyRevisionService {
+  private logger: Logger;
+  private tenantId: string;
+
+  constructor(options: PolicyRevisionServiceOptions = {}) {
+    this.logger = options.logger || console;
+    this.tenantId = options.tenantId || DEFAULT_TENANT_ID;
+  }
+
+  /**
+   * Append a revision for a configuration
+   */
+  async record(input: RecordRevisionInput): Promise<PolicyRevisionRecord> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const latest = await PolicyRevision.findOne({ tenantId: this.tenantId, configId: input.configId }).sort({ revision: -1 });
+    const revision = (latest?.revision || 0) + 1;
+
+    const doc = new PolicyRevision({
+      tenantId: this.tenantId,
+      configId: input.configId,
+      revision,
+      version: input.policy.version || '1.0.0',
+      change: input.change,
+      author: input.author || DEFAULT_REVISION_AUTHOR,
+      message: input.message,
+      policy: input.policy,
+      ...(input.createdAt ? { createdAt: input.createdAt } : {})
+    });
+    await doc.save();
+
+    this.logger.info('[PolicyRevisionService] Revision recorded', {
+      tenantId: this.tenantId,
+      configId: input.configId,
+      revision,
+      version: doc.version,
+      change: input.change,
+      author: doc.author
+    });
+
+    return this.toRevision(doc);
+  }
+
+  /**
+   * Record the pre-existing policy as revision 1 if a configuration has no
+   * revisions yet (configurations created before revisions were tracked)
+   */
+  async ensureBaseline(configId: string, policy: Policy, since: Date): Promise<void> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const existing = await PolicyRevision.countDocuments({ tenantId: this.tenantId, configId });
+    if (existing > 0) {
+      return;
+    }
+
+    await this.record({
+      configId,
+      policy,
+      change: 'baseline',
+      author: 'system',
+      message: 'Policy as it was before revision tracking',
+      createdAt: since
+    });
+  }
+
+  /**
+   * List revisions for a configuration, newest first
+   */
+  async list(configId: string, options: RevisionListOptions = {}): Promise<RevisionListResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const { page = 1, limit = 20 } = options;
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      PolicyRevision.find({ tenantId: this.tenantId, configId })
+        .sort({ revision: -1 })
+        .skip(skip)
+        .limit(limit),
+      PolicyRevision.countDocuments({ tenantId: this.tenantId, configId }),
+    ]);
+
+    return {
+      items: items.map(doc => this.toRevision(doc)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Get a single revision
+   */
+  async get(configId: string, revision: number): Promise<PolicyRevisionRecord | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await PolicyRevision.findOne({ tenantId: this.tenantId, configId, revision });
+    return doc ? this.toRevision(doc) : null;
+  }
+
+  /**
+   * Get the newest revision
+   */
+  async getLatest(configId: string): Promise<PolicyRevisionRecord | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await PolicyRevision.findOne({ tenantId: this.tenantId, configId }).sort({ revision: -1 });
+    return doc ? this.toRevision(doc) : null;
+  }
+
+  /**
+   * Get the revision that was in effect at a point in time
+   */
+  async getAt(configId: string, date: Date): Promise<PolicyRevisionRecord | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    this.logger.info('[PolicyRevisionService] Point-in-time lookup', {
+      configId,
+      date: date.toISOString()
+    });
+
+    const doc = await PolicyRevision.findOne({ tenantId: this.tenantId, configId, createdAt: { $lte: date } })
+      .sort({ createdAt: -1, revision: -1 });
+    return doc ? this.toRevision(doc) : null;
+  }
+
+  /**
+   * Diff two revisions rule by rule
+   * @returns Diff, or null if either revision does not exist
+   */
+  async diff(configId: string, from: number, to: number): Promise<PolicyDiff | null> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.get(configId, from),
+      this.get(configId, to),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      return null;
+    }
+
+    const changes = diffPolicies(fromRevision.policy, toRevision.policy);
+
+    return {
+      configId,
+      from: { revision: from, version: fromRevision.version, createdAt: fromRevision.createdAt },
+      to: { revision: to, version: toRevision.version, createdAt: toRevision.createdAt },
+      bump: classifyChanges(changes),
+      ...changes
+    };
+  }
+
+  /**
+   * Convert a revision document to a plain revision
+   */
+  private toRevision(doc: IPolicyRevision): PolicyRevisionRecord {
+    const policy = doc.toObject().policy as Policy;
+
+    return {
+      configId: doc.configId,
+      revision: doc.revision,
+      version: doc.version,
+      change: doc.change,
+      author: doc.author,
+      message: doc.message,
+      policy: {
+        ...policy,
+        rules: policy.rules.map(rule => normalize(rule) as Rule),
+        ...(policy.groups ? { groups: normalize(policy.groups) as RuleGroup[] } : {})
+      },
+      createdAt: doc.createdAt
+    };
+  }
+}
+
+export default PolicyRevisionService;
@@ -0,0 +1,115 @@
+/**
+ * PromptTemplate - Guardrail field placeholders in rule judge prompts
+ *
+ * When Trustwise guards an LLM app, a request can carry the app's input
+ * (prompt), output (response) and retrieved context next to the content.
+ * A rule's judge_prompt references them as {{input}}, {{output}} and
+ * {{context}}; JudgeService fills them in before calling the judge.
+ *
+ * Placeholders are validated twice: unknown names whenever a rule is
+ * validated, and fields the request does not supply before evaluation.
+ */
+
+import type { Rule, PromptField, EvaluationInputs } from '../types';
+
+export const PROMPT_FIELDS: PromptField[] = ['input', 'output', 'context'];
+
+// Filled in for a placeholder whose field the request did not supply
+const MISSING_FIELD_TEXT = '(not provided)';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isPromptField = (name: string): name is PromptField => {
+  return (PROMPT_FIELDS as string[]).includes(name);
+};
+
+/**
+ * Names of the placeholders a prompt uses, in order of first use
+ */
+export const getPlaceholders = (prompt: string | undefined): string[] => {
+  if (!prompt) {
+    return [];
+  }
+  const names = [...prompt.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]!);
+  return [...new Set(names)];
+};
+
+/**
+ * Replace the field placeholders of a prompt in a single pass, so field
+ * values that themselves contain placeholders are left as they are
+ */
+export const fillPlaceholders = (prompt: string, inputs: EvaluationInputs = {}): string => {
+  return prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!isPromptField(name)) {
+      return placeholder;
+    }
+    return inputs[name] ?? MISSING_FIELD_TEXT;
+  });
+};
+
+/**
+ * The rule with its judge_prompt placeholders filled in (the rule itself when it has none)
+ */
+export const fillRulePrompt = (rule: Rule, inputs?: EvaluationInputs): Rule => {
+  if (!rule.judge_prompt || getPlaceholders(rule.judge_prompt).length === 0) {
+    return rule;
+  }
+  return { ...rule, judge_prompt: fillPlaceholders(rule.judge_prompt, inputs) };
+};
+
+/**
+ * The guardrail fields of a request (only those it supplies)
+ */
+export const pickInputs = (source: EvaluationInputs): EvaluationInputs | undefined => {
+  const inputs: EvaluationInputs = {};
+  for (const field of PROMPT_FIELDS) {
+    if (typeof source[field] === 'string') {
+      inputs[field] = source[field];
+    }
+  }
+  return Object.keys(inputs).length > 0 ? inputs : undefined;
+};
+
+/**
+ * Validate the guardrail fields of a request: each must be a string when present
+ * @param label - Prefix for error messages, e.g. "items[2]: "
+ */
+export const validateInputs = (source: EvaluationInputs, label = ''): string[] => {
+  return PROMPT_FIELDS
+    .filter(field => source[field] !== undefined && typeof source[field] !== 'string')
+    .map(field => `${label}${field} must be a string`);
+};
+
+/**
+ * Validate the placeholders of a rule's judge_prompt
+ * @param label - Prefix for error messages, e.g. "Rule 2"
+ */
+export const validatePlaceholders = (prompt: string | undefined, label: string): string[] => {
+  const unknown = getPlaceholders(prompt).filter(name => !isPromptField(name));
+  if (unknown.length === 0) {
+    return [];
+  }
+  return [`${label}: unknown judge_prompt placeholder ${unknown.map(name => `{{${name}}}`).join(', ')}. Valid: ${PROMPT_FIELDS.map(field => `{{${field}}}`).join(', ')}`];
+};
+
+/**
+ * Errors for every rule whose judge_prompt uses a field the request does not supply
+ */
+export const findMissingPlaceholders = (rules: Rule[], fields: PromptField[]): string[] => {
+  const errors: string[] = [];
+  for (const rule of rules) {
+    const missing = getPlaceholders(rule.judge_prompt)
+      .filter((name): name is PromptField => isPromptField(name) && !fields.includes(name));
+    if (missing.length > 0) {
+      errors.push(`Rule '${rule.id}': judge_prompt uses ${missing.map(name => `{{${name}}}`).join(', ')}, which the request does not supply`);
+    }
+  }
+  return errors;
+};
+
+/**
+ * The guardrail fields a request supplies
+ */
+export const getPromptFields = (inputs: EvaluationInputs | undefined): PromptField[] => {
+  return PROMPT_FIELDS.filter(field => typeof inputs?.[field] === 'string');
+};
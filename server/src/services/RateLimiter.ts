@@ -0,0 +1,227 @@
+/**
+ * RateLimiter - Request and judge-token rate limits per tenant and per API key
+ *
+ * Design Principles:
+ * - Two dimensions: requests, and judge tokens estimated before the evaluation
+ *   runs, so a 50-rule policy on a large document costs more than a 1-rule check
+ * - Two scopes: the tenant, and the API key (or JWT subject) making the call
+ * - Fixed windows (RATE_LIMIT_WINDOW_MS) kept in a pluggable counter store:
+ *   in memory (per process) or MongoDB (shared by every replica)
+ * - A rejected request is not counted, so retrying after the reset succeeds
+ * - If the store fails the request is let through: limits must not take the API down
+ */
+
+import { RateLimitCounter } from '../models/RateLimitCounter';
+import { isDatabaseConnected } from '../config/database';
+import { RATE_LIMIT_WINDOW_MS } from '../config/tenants';
+import { isLocalRule } from './LocalRuleEvaluator';
+import { getEnsembleMembers } from './JudgeEnsemble';
+import { CHARS_PER_TOKEN } from './Chunker';
+import type {
+  Logger,
+  Rule,
+  RateLimitStoreType,
+  RateLimitDimension,
+  RateLimitScope,
+  RateLimitOutcome
+} from '../types';
+
+// ============================================
+// Token Estimation
+// ============================================
+
+// Judge system prompt and JSON instructions, excluding the rule text
+export const PROMPT_OVERHEAD_TOKENS = 250;
+
+// Typical verdict size; providers report the real figure afterwards
+export const ESTIMATED_OUTPUT_TOKENS = 100;
+
+/**
+ * Estimate the judge tokens an evaluation will use: one judge call per LLM rule
+ * (one per vote for ensemble rules), each sending the rule text and the full
+ * content. Local rules cost nothing.
+ */
+export const estimateJudgeTokens = (rules: Rule[], contentLength: number): number => {
+  return rules
+    .filter(rule => !isLocalRule(rule))
+    .reduce((total, rule) => {
+      const promptChars = (rule.description || '').length + (rule.judge_prompt || '').length + contentLength;
+      const calls = rule.ensemble ? getEnsembleMembers(rule).length : 1;
+      return total + calls * (PROMPT_OVERHEAD_TOKENS + Math.ceil(promptChars / CHARS_PER_TOKEN) + ESTIMATED_OUTPUT_TOKENS);
+    }, 0);
+};
+
+// ============================================
+// Counter Stores
+// ============================================
+
+export interface RateLimitStore {
+  /**
+   * Add amount to the key's counter for the window and return the new count
+   */
+  increment(key: string, amount: number, windowStart: number, windowMs: number): Promise<number>;
+
+  /**
+   * Take back an amount added by increment()
+   */
+  decrement(key: string, amount: number, windowStart: number): Promise<void>;
+}
+
+// Drop ended windows once the in-memory store holds this many keys
+const MEMORY_STORE_SWEEP_SIZE = 10000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, { windowStart: number; count: number }> = new Map();
+
+  async increment(key: string, amount: number, windowStart: number): Promise<number> {
+    let counter = this.counters.get(key);
+
+    if (!counter || counter.windowStart !== windowStart) {
+      if (this.counters.size >= MEMORY_STORE_SWEEP_SIZE) {
+        this.sweep(windowStart);
+      }
+      counter = { windowStart, count: 0 };
+      this.counters.set(key, counter);
+    }
+
+    counter.count += amount;
+    return counter.count;
+  }
+
+  async decrement(key: string, amount: number, windowStart: number): Promise<void> {
+    const counter = this.counters.get(key);
+    if (counter && counter.windowStart === windowStart) {
+      counter.count = Math.max(0, counter.count - amount);
+    }
+  }
+
+  private sweep(windowStart: number): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.windowStart < windowStart) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, amount: number, windowStart: number, windowMs: number): Promise<number> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const counter = await RateLimitCounter.findOneAndUpdate(
+      { key, windowStart: new Date(windowStart) },
+      {
+        $inc: { count: amount },
+        $setOnInsert: { expiresAt: new Date(windowStart + windowMs) }
+      },
+      { upsert: true, new: true }
+    );
+
+    return counter.count;
+  }
+
+  async decrement(key: string, amount: number, windowStart: number): Promise<void> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    await RateLimitCounter.updateOne(
+      { key, windowStart: new Date(windowStart) },
+      { $inc: { count: -amount } }
+    );
+  }
+}
+
+/**
+ * Create a counter store by type
+ */
+export const createRateLimitStore = (type: RateLimitStoreType): RateLimitStore => {
+  return type === 'mongo' ? new MongoRateLimitStore() : new MemoryRateLimitStore();
+};
+
+// ============================================
+// Rate Limiter Class
+// ============================================
+
+export interface RateLimitCheck {
+  dimension: RateLimitDimension;
+  scope: RateLimitScope;
+  id: string; // Tenant id or principal id
+  limit: number; // 0 = unlimited
+  cost: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  outcomes: RateLimitOutcome[];
+}
+
+export interface RateLimiterOptions {
+  store?: RateLimitStore;
+  windowMs?: number;
+  logger?: Logger;
+}
+
+export class RateLimiter {
+  private store: RateLimitStore;
+  private windowMs: number;
+  private logger: Logger;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.store = options.store || new MemoryRateLimitStore();
+    this.windowMs = Math.max(1, options.windowMs || RATE_LIMIT_WINDOW_MS);
+    this.logger = options.logger || console;
+  }
+
+  getWindowMs(): number {
+    return this.windowMs;
+  }
+
+  /**
+   * Count a request against every check. If any limit would be exceeded,
+   * nothing is counted and the result is not allowed.
+   */
+  async consume(checks: RateLimitCheck[], now: number = Date.now()): Promise<RateLimitResult> {
+    const windowStart = now - (now % this.windowMs);
+    const resetAt = new Date(windowStart + this.windowMs);
+    const counted: Array<{ key: string; cost: number }> = [];
+    const outcomes: RateLimitOutcome[] = [];
+
+    try {
+      for (const check of checks) {
+        if (check.limit <= 0 || check.cost <= 0) {
+          continue;
+        }
+
+        const key = `${check.dimension}:${check.scope}:${check.id}`;
+        const used = await this.store.increment(key, check.cost, windowStart, this.windowMs);
+        counted.push({ key, cost: check.cost });
+
+        outcomes.push({
+          dimension: check.dimension,
+          scope: check.scope,
+          limit: check.limit,
+          used,
+          remaining: Math.max(0, check.limit - used),
+          resetAt
+        });
+      }
+
+      const allowed = outcomes.every(outcome => outcome.used <= outcome.limit);
+      if (!allowed) {
+        await Promise.all(counted.map(({ key, cost }) => this.store.decrement(key, cost, windowStart)));
+      }
+
+      return { allowed, outcomes };
+    } catch (error) {
+      this.logger.warn('[RateLimiter] Counter store unavailable, request not limited', {
+        error: (error as Error).message
+      });
+      return { allowed: true, outcomes: [] };
+    }
+  }
+}
+
+export default RateLimiter;
@@ -0,0 +1,136 @@
+/**
+ * Redactor - Produces sanitized content for rules with on_fail: 'redact'
+ *
+ * Design Principles:
+ * - Judges report offending spans; offsets are verified against the content
+ * - Mask style is configurable per rule (placeholder, category tag, hash)
+ * - Overlapping spans are merged so every character is masked at most once
+ */
+
+import crypto from 'crypto';
+import type {
+  Rule,
+  RuleResult,
+  RedactionConfig,
+  RedactionMaskStyle,
+  RedactionSpan
+} from '../types';
+
+export const DEFAULT_REDACTION_PLACEHOLDER = '[REDACTED]';
+export const DEFAULT_REDACTION_CATEGORY = 'SENSITIVE';
+
+interface MaskedSpan extends RedactionSpan {
+  mask: string;
+}
+
+/**
+ * Get list of available mask styles
+ */
+export const getAvailableMaskStyles = (): RedactionMaskStyle[] => {
+  return ['placeholder', 'category', 'hash'];
+};
+
+/**
+ * Resolve judge-reported spans against the actual content.
+ * Reported offsets are trusted only when they match the reported text;
+ * otherwise every occurrence of the text is located in the content.
+ */
+export const resolveSpans = (
+  content: string,
+  reported: Array<Partial<RedactionSpan>> = []
+): RedactionSpan[] => {
+  const resolved: RedactionSpan[] = [];
+
+  for (const span of reported) {
+    const text = typeof span.text === 'string' ? span.text : '';
+    const start = Number(span.start);
+    const end = Number(span.end);
+    const hasOffsets = Number.isInteger(start) && Number.isInteger(end)
+      && start >= 0 && end > start && end <= content.length;
+
+    if (hasOffsets && (!text || content.slice(start, end) === text)) {
+      resolved.push({ start, end, text: content.slice(start, end), category: span.category });
+      continue;
+    }
+
+    if (!text) {
+      continue;
+    }
+
+    let index = content.indexOf(text);
+    while (index !== -1) {
+      resolved.push({ start: index, end: index + text.length, text, category: span.category });
+      index = content.indexOf(text, index + text.length);
+    }
+  }
+
+  return resolved.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Build the replacement string for a span
+ */
+export const buildMask = (span: RedactionSpan, config: RedactionConfig = {}): string => {
+  const category = (span.category || config.category || DEFAULT_REDACTION_CATEGORY).toUpperCase();
+
+  switch (config.mask_style) {
+    case 'category':
+      return `[${category}]`;
+    case 'hash': {
+      const digest = crypto.createHash('sha256').update(span.text).digest('hex').substring(0, 12);
+      return `[${category}:${digest}]`;
+    }
+    case 'placeholder':
+    default:
+      return config.placeholder || DEFAULT_REDACTION_PLACEHOLDER;
+  }
+};
+
+/**
+ * Apply masks for every failed redact rule. Returns undefined when nothing
+ * needs to be redacted.
+ */
+export const applyRedactions = (
+  content: string,
+  ruleResults: RuleResult[],
+  rules: Rule[]
+): string | undefined => {
+  const masked: MaskedSpan[] = [];
+
+  for (const result of ruleResults) {
+    if (result.verdict !== 'FAIL' || result.action !== 'redact' || !result.spans?.length) {
+      continue;
+    }
+
+    const rule = rules.find(r => r.id === result.rule_id);
+    for (const span of result.spans) {
+      masked.push({ ...span, mask: buildMask(span, rule?.redaction) });
+    }
+  }
+
+  if (masked.length === 0) {
+    return undefined;
+  }
+
+  // Merge overlapping spans; the earliest span's mask wins
+  masked.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: MaskedSpan[] = [];
+  for (const span of masked) {
+    const last = merged[merged.length - 1];
+    if (last && span.start < last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  let output = '';
+  let cursor = 0;
+  for (const span of merged) {
+    output += content.slice(cursor, span.start) + span.mask;
+    cursor = span.end;
+  }
+  output += content.slice(cursor);
+
+  return output;
+};
@@ -0,0 +1,524 @@
+/**
+ * ReviewService - Human review queue for WARN and UNCERTAIN verdicts
+ *
+ * Strategies recommend manual review when content only warrants a warning
+ * or the judge could not decide. HistoryService queues such evaluations here,
+ * and a reviewer then:
+ * - claims an item, so no one else works on it (or releases it again)
+ * - resolves it: approve keeps the engine verdict, override replaces it;
+ *   either way with a rationale (required to override)
+ *
+ * Every item is due REVIEW_SLA_MS after it was queued (24 hours by default).
+ * Items still open past their due date, or resolved after it, are overdue.
+ * Each instance is scoped to one tenant; every query filters by tenantId.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ReviewItem as ReviewItemModel, IReviewItem } from '../models/ReviewItem';
+import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
+import { getContentText } from './Transcript';
+import type {
+  Logger,
+  PolicyVerdict,
+  FinalVerdict,
+  EvaluationContent,
+  ReviewItem,
+  ReviewStatus,
+  ReviewTrigger,
+  ReviewDecision,
+  ReviewOperationResult
+} from '../types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface EnqueueReviewInput {
+  evaluationId: string;
+  content: EvaluationContent;
+  result: PolicyVerdict;
+}
+
+export interface ResolveReviewInput {
+  decision: ReviewDecision;
+  verdict?: FinalVerdict; // Required to override
+  rationale?: string;
+}
+
+export interface ReviewListOptions {
+  page?: number;
+  limit?: number;
+  status?: ReviewStatus;
+  trigger?: ReviewTrigger;
+  assignee?: string;
+  overdue?: boolean; // Only open items past their due date
+}
+
+export interface ReviewListResult {
+  items: ReviewItem[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface ReviewStats {
+  tenantId: string;
+  slaMs: number;
+  counts: Record<ReviewStatus, number>;
+  overdue: number; // Open items past their due date
+  resolved: {
+    total: number;
+    approved: number;
+    overridden: number;
+    breached: number; // Resolved after their due date
+    avgClaimMs: number; // Queued to claimed
+    avgResolveMs: number; // Queued to resolved
+  };
+}
+
+export interface ReviewServiceOptions {
+  logger?: Logger;
+  tenantId?: string;
+  slaMs?: number;
+}
+
+export const DEFAULT_REVIEW_SLA_MS = 24 * 60 * 60 * 1000;
+
+// Verdicts a reviewer can override to
+export const REVIEW_VERDICTS: FinalVerdict[] = ['ALLOW', 'BLOCK', 'WARN', 'REDACT'];
+
+const REVIEW_DECISIONS: ReviewDecision[] = ['approve', 'override'];
+
+const CONTENT_PREVIEW_LENGTH = 500;
+const MAX_RATIONALE_LENGTH = 2000;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Why a verdict needs human review: a WARN final verdict, or rules the
+ * judge was UNCERTAIN about. Empty when it does not.
+ */
+export const getReviewTriggers = (result: PolicyVerdict): ReviewTrigger[] => {
+  const triggers: ReviewTrigger[] = [];
+  if (result.final_verdict === 'WARN') {
+    triggers.push('warn');
+  }
+  if (result.rule_results.some(rule => rule.verdict === 'UNCERTAIN')) {
+    triggers.push('uncertain');
+  }
+  return triggers;
+};
+
+/**
+ * Whether an item missed its SLA: still open past dueAt, or resolved after it
+ */
+export const isOverdue = (
+  item: Pick<ReviewItem, 'status' | 'dueAt' | 'resolution'>,
+  now: Date = new Date()
+): boolean => {
+  const doneAt = item.status === 'resolved' && item.resolution ? item.resolution.resolvedAt : now;
+  return doneAt.getTime() > item.dueAt.getTime();
+};
+
+/**
+ * Validate a resolution request
+ * @param verdict - The engine verdict under review
+ */
+export const validateResolution = (input: Partial<ResolveReviewInput>, verdict?: FinalVerdict): string[] => {
+  const errors: string[] = [];
+  const { decision, verdict: newVerdict, rationale } = input;
+
+  if (!decision || !REVIEW_DECISIONS.includes(decision)) {
+    errors.push(`decision must be one of ${REVIEW_DECISIONS.join(', ')}`);
+  }
+
+  if (rationale !== undefined && typeof rationale !== 'string') {
+    errors.push('rationale must be a string');
+  } else if (rationale && rationale.length > MAX_RATIONALE_LENGTH) {
+    errors.push(`rationale must be at most ${MAX_RATIONALE_LENGTH} characters`);
+  }
+
+  if (decision === 'override') {
+    if (!newVerdict || !REVIEW_VERDICTS.includes(newVerdict)) {
+      errors.push(`verdict is required to override and must be one of ${REVIEW_VERDICTS.join(', ')}`);
+    } else if (verdict && newVerdict === verdict) {
+      errors.push(`verdict is already ${verdict}; approve it instead`);
+    }
+    if (typeof rationale !== 'string' || !rationale.trim()) {
+      errors.push('rationale is required to override');
+    }
+  } else if (decision === 'approve' && newVerdict !== undefined) {
+    errors.push('verdict can only be given to override');
+  }
+
+  return errors;
+};
+
+// ============================================
+// Service Class
+// ============================================
+
+export class ReviewService {
+  private logger: Logger;
+  private tenantId: string;
+  private slaMs: number;
+
+  constructor(options: ReviewServiceOptions = {}) {
+    this.logger = options.logger || console;
+    this.tenantId = options.tenantId || DEFAULT_TENANT_ID;
+    this.slaMs = options.slaMs || parseInt(process.env['REVIEW_SLA_MS'] ?? '', 10) || DEFAULT_REVIEW_SLA_MS;
+  }
+
+  /**
+   * Time allowed to resolve an item
+   */
+  getSlaMs(): number {
+    return this.slaMs;
+  }
+
+  /**
+   * Queue an evaluation for review if its verdict needs it.
+   * Returns null when it does not.
+   */
+  async enqueue(input: EnqueueReviewInput): Promise<ReviewItem | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const triggers = getReviewTriggers(input.result);
+    if (triggers.length === 0) {
+      return null;
+    }
+
+    const createdAt = new Date();
+    const doc = await ReviewItemModel.create({
+      reviewId: uuidv4(),
+      tenantId: this.tenantId,
+      evaluationId: input.evaluationId,
+      status: 'pending',
+      triggers,
+      policyName: input.result.policy_name,
+      policyVersion: input.result.policy_version,
+      verdict: input.result.final_verdict,
+      reason: input.result.summary?.reason,
+      uncertainRules: input.result.rule_results
+        .filter(rule => rule.verdict === 'UNCERTAIN')
+        .map(rule => rule.rule_id),
+      contentPreview: getContentText(input.content).slice(0, CONTENT_PREVIEW_LENGTH),
+      createdAt,
+      dueAt: new Date(createdAt.getTime() + this.slaMs),
+    });
+
+    this.logger.info('[ReviewService] Evaluation queued for review', {
+      tenantId: this.tenantId,
+      reviewId: doc.reviewId,
+      evaluationId: input.evaluationId,
+      triggers
+    });
+
+    return this.toItem(doc);
+  }
+
+  /**
+   * Get a review item by ID
+   */
+  async get(reviewId: string): Promise<ReviewItem | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await ReviewItemModel.findOne({ tenantId: this.tenantId, reviewId });
+    return doc ? this.toItem(doc) : null;
+  }
+
+  /**
+   * List the queue, oldest first, with filters
+   */
+  async list(options: ReviewListOptions = {}): Promise<ReviewListResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const { page = 1, limit = 20, status, trigger, assignee, overdue } = options;
+
+    const query: Record<string, unknown> = { tenantId: this.tenantId };
+
+    if (status) {
+      query['status'] = status;
+    }
+    if (trigger) {
+      query['triggers'] = trigger;
+    }
+    if (assignee) {
+      query['assignee'] = assignee;
+    }
+    if (overdue) {
+      query['status'] = status && status !== 'resolved' ? status : { $ne: 'resolved' };
+      query['dueAt'] = { $lt: new Date() };
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [docs, total] = await Promise.all([
+      ReviewItemModel.find(query)
+        .sort({ createdAt: 1 })
+        .skip(skip)
+        .limit(limit),
+      ReviewItemModel.countDocuments(query),
+    ]);
+
+    return {
+      items: docs.map(doc => this.toItem(doc)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Claim a pending item for a reviewer. Claiming an item the reviewer
+   * already holds succeeds again.
+   */
+  async claim(reviewId: string, reviewer: string): Promise<ReviewOperationResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await ReviewItemModel.findOneAndUpdate(
+      { tenantId: this.tenantId, reviewId, status: 'pending' },
+      { $set: { status: 'claimed', assignee: reviewer, claimedAt: new Date() } },
+      { new: true }
+    );
+
+    if (doc) {
+      this.logger.info('[ReviewService] Review claimed', { reviewId, reviewer });
+      return { success: true, item: this.toItem(doc) };
+    }
+
+    const current = await ReviewItemModel.findOne({ tenantId: this.tenantId, reviewId });
+    if (current?.status === 'claimed' && current.assignee === reviewer) {
+      return { success: true, item: this.toItem(current) };
+    }
+    return this.conflict(reviewId, current);
+  }
+
+  /**
+   * Return a claimed item to the queue. Only its assignee can release it.
+   */
+  async release(reviewId: string, reviewer: string): Promise<ReviewOperationResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await ReviewItemModel.findOneAndUpdate(
+      { tenantId: this.tenantId, reviewId, status: 'claimed', assignee: reviewer },
+      { $set: { status: 'pending' }, $unset: { assignee: 1, claimedAt: 1 } },
+      { new: true }
+    );
+
+    if (doc) {
+      this.logger.info('[ReviewService] Review released', { reviewId, reviewer });
+      return { success: true, item: this.toItem(doc) };
+    }
+
+    const current = await ReviewItemModel.findOne({ tenantId: this.tenantId, reviewId });
+    if (current?.status === 'pending') {
+      return { success: false, message: `Review '${reviewId}' is not claimed` };
+    }
+    return this.conflict(reviewId, current);
+  }
+
+  /**
+   * Approve or override an item. The reviewer must hold it, or it must be
+   * unclaimed, in which case resolving claims it.
+   */
+  async resolve(reviewId: string, reviewer: string, input: ResolveReviewInput): Promise<ReviewOperationResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const current = await ReviewItemModel.findOne({ tenantId: this.tenantId, reviewId });
+    if (!current) {
+      return this.conflict(reviewId, current);
+    }
+
+    const errors = validateResolution(input, current.verdict);
+    if (errors.length > 0) {
+      return { success: false, message: 'Invalid resolution', errors };
+    }
+
+    const now = new Date();
+    const resolution = {
+      decision: input.decision,
+      verdict: input.decision === 'override' ? input.verdict! : current.verdict,
+      ...(input.rationale?.trim() ? { rationale: input.rationale.trim() } : {}),
+      reviewer,
+      resolvedAt: now
+    };
+
+    // Matches only while the item is still unclaimed or held by the reviewer
+    const doc = await ReviewItemModel.findOneAndUpdate(
+      {
+        tenantId: this.tenantId,
+        reviewId,
+        $or: [{ status: 'pending' }, { status: 'claimed', assignee: reviewer }]
+      },
+      {
+        $set: {
+          status: 'resolved',
+          assignee: reviewer,
+          claimedAt: current.claimedAt || now,
+          resolution
+        }
+      },
+      { new: true }
+    );
+
+    if (!doc) {
+      return this.conflict(reviewId, await ReviewItemModel.findOne({ tenantId: this.tenantId, reviewId }));
+    }
+
+    this.logger.info('[ReviewService] Review resolved', {
+      reviewId,
+      reviewer,
+      decision: resolution.decision,
+      verdict: resolution.verdict,
+      overdue: now > doc.dueAt
+    });
+
+    return { success: true, item: this.toItem(doc) };
+  }
+
+  /**
+   * Remove the review items of deleted evaluations
+   */
+  async deleteForEvaluations(evaluationIds: string[]): Promise<number> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await ReviewItemModel.deleteMany({
+      tenantId: this.tenantId,
+      evaluationId: { $in: evaluationIds },
+    });
+    return result.deletedCount;
+  }
+
+  /**
+   * Queue sizes, SLA breaches and average time to claim and resolve
+   */
+  async getStats(): Promise<ReviewStats> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const now = new Date();
+
+    const [statusAgg, overdue, resolvedAgg] = await Promise.all([
+      ReviewItemModel.aggregate([
+        { $match: { tenantId: this.tenantId } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ]),
+      ReviewItemModel.countDocuments({
+        tenantId: this.tenantId,
+        status: { $ne: 'resolved' },
+        dueAt: { $lt: now },
+      }),
+      ReviewItemModel.aggregate([
+        { $match: { tenantId: this.tenantId, status: 'resolved' } },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: 1 },
+            approved: { $sum: { $cond: [{ $eq: ['$resolution.decision', 'approve'] }, 1, 0] } },
+            overridden: { $sum: { $cond: [{ $eq: ['$resolution.decision', 'override'] }, 1, 0] } },
+            breached: { $sum: { $cond: [{ $gt: ['$resolution.resolvedAt', '$dueAt'] }, 1, 0] } },
+            avgClaimMs: { $avg: { $subtract: ['$claimedAt', '$createdAt'] } },
+            avgResolveMs: { $avg: { $subtract: ['$resolution.resolvedAt', '$createdAt'] } },
+          },
+        },
+      ]),
+    ]);
+
+    const counts: Record<ReviewStatus, number> = {
+      pending: 0,
+      claimed: 0,
+      resolved: 0,
+    };
+    statusAgg.forEach((item: { _id: ReviewStatus; count: number }) => {
+      counts[item._id] = item.count;
+    });
+
+    const resolved = resolvedAgg[0] || {};
+
+    return {
+      tenantId: this.tenantId,
+      slaMs: this.slaMs,
+      counts,
+      overdue,
+      resolved: {
+        total: resolved.total || 0,
+        approved: resolved.approved || 0,
+        overridden: resolved.overridden || 0,
+        breached: resolved.breached || 0,
+        avgClaimMs: Math.round(resolved.avgClaimMs || 0),
+        avgResolveMs: Math.round(resolved.avgResolveMs || 0),
+      },
+    };
+  }
+
+  /**
+   * Failed result for an item that is missing or not in the state the action needs
+   */
+  private conflict(reviewId: string, current: IReviewItem | null): ReviewOperationResult {
+    if (!current) {
+      return { success: false, notFound: true, message: `Review '${reviewId}' not found` };
+    }
+    if (current.status === 'resolved') {
+      return { success: false, message: `Review '${reviewId}' is already resolved` };
+    }
+    return { success: false, message: `Review '${reviewId}' is claimed by ${current.assignee}` };
+  }
+
+  /**
+   * Plain review item of a stored document
+   */
+  private toItem(doc: IReviewItem): ReviewItem {
+    const resolution = doc.resolution;
+    const item: ReviewItem = {
+      reviewId: doc.reviewId,
+      evaluationId: doc.evaluationId,
+      status: doc.status,
+      triggers: [...doc.triggers],
+      policyName: doc.policyName,
+      policyVersion: doc.policyVersion,
+      verdict: doc.verdict,
+      reason: doc.reason,
+      uncertainRules: [...doc.uncertainRules],
+      contentPreview: doc.contentPreview,
+      assignee: doc.assignee,
+      createdAt: doc.createdAt,
+      claimedAt: doc.claimedAt,
+      dueAt: doc.dueAt,
+      overdue: false,
+      ...(resolution ? {
+        resolution: {
+          decision: resolution.decision,
+          verdict: resolution.verdict,
+          rationale: resolution.rationale,
+          reviewer: resolution.reviewer,
+          resolvedAt: resolution.resolvedAt
+        }
+      } : {})
+    };
+    item.overdue = isOverdue(item);
+    return item;
+  }
+}
+
+export default ReviewService;
@@ -0,0 +1,266 @@
+/**
+ * RuleConditions - applies_when conditions deciding which rules run on a request
+ *
+ * A rule with applies_when only runs when every condition it lists matches:
+ * - metadata: request metadata values (channel, locale, user tier, ...)
+ * - min_length / max_length: content length in characters
+ * - language: detected content language
+ * - content_type: detected content type (text, code, json, html, url)
+ *
+ * Rules that don't apply get a NOT_APPLICABLE result, which aggregation
+ * strategies ignore. Language and content type are detected with cheap
+ * local heuristics, never a judge call.
+ */
+
+import type {
+  Rule,
+  RuleConditions,
+  ContentType,
+  MetadataValue,
+  EvaluationMetadata
+} from '../types';
+
+export interface ContentFeatures {
+  length: number;
+  language: string; // ISO 639-1 code, or 'und' when undetermined
+  content_type: ContentType;
+}
+
+export interface ConditionContext {
+  metadata: EvaluationMetadata;
+  features: ContentFeatures;
+}
+
+export interface ConditionCheck {
+  applies: boolean;
+  reason?: string; // Why the rule does not apply
+}
+
+const CONTENT_TYPES: ContentType[] = ['text', 'code', 'json', 'html', 'url'];
+
+// Only the start of long content is sampled for language and type detection
+const DETECTION_SAMPLE_LENGTH = 2000;
+
+// Languages recognized by their script
+const SCRIPT_LANGUAGES: Array<[string, RegExp]> = [
+  ['ja', /[\u3040-\u30ff]/g],
+  ['ko', /[\uac00-\ud7af]/g],
+  ['zh', /[\u4e00-\u9fff]/g],
+  ['ru', /[\u0400-\u04ff]/g],
+  ['ar', /[\u0600-\u06ff]/g],
+  ['he', /[\u0590-\u05ff]/g],
+  ['hi', /[\u0900-\u097f]/g],
+  ['el', /[\u0370-\u03ff]/g],
+  ['th', /[\u0e00-\u0e7f]/g]
+];
+
+// Latin-script languages recognized by their most common words
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'to', 'of', 'in', 'that', 'it', 'you', 'for', 'with', 'this', 'was', 'have'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'por', 'para', 'con', 'una', 'del', 'está'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'que', 'une', 'pour', 'dans', 'pas', 'avec', 'vous', 'sur'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'ich', 'sie', 'auf', 'für'],
+  pt: ['o', 'os', 'as', 'de', 'que', 'e', 'não', 'um', 'uma', 'para', 'com', 'do', 'da', 'em', 'você'],
+  it: ['il', 'di', 'che', 'e', 'la', 'non', 'per', 'un', 'una', 'sono', 'con', 'del', 'della', 'gli', 'è'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'niet', 'dat', 'op', 'te', 'met', 'voor', 'zijn', 'ik', 'je']
+};
+
+const CODE_LINE_PATTERN = /^\s*(?:(?:import|export|from|const|let|var|function|class|def|return|public|private|package|#include|using)\b|[{}]\s*$|.*;\s*$|.*=>)/;
+
+/**
+ * Detect the language of content, or 'und' when no language stands out
+ */
+export const detectLanguage = (content: string): string => {
+  const sample = content.slice(0, DETECTION_SAMPLE_LENGTH);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters === 0) {
+    return 'und';
+  }
+
+  // Kana marks Japanese even when most characters are kanji
+  for (const [language, pattern] of SCRIPT_LANGUAGES) {
+    const count = (sample.match(pattern) || []).length;
+    if (count / letters >= (language === 'ja' ? 0.1 : 0.3)) {
+      return language;
+    }
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  let best = 'und';
+  let bestHits = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const hits = words.filter(word => stopwords.includes(word)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+
+  return bestHits >= Math.min(2, words.length) ? best : 'und';
+};
+
+/**
+ * Detect the type of content: JSON, a single URL, HTML markup, source code or plain text
+ */
+export const detectContentType = (content: string): ContentType => {
+  const trimmed = content.trim();
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON, keep looking
+    }
+  }
+
+  if (/^https?:\/\/\S+$/i.test(trimmed)) {
+    return 'url';
+  }
+
+  const sample = trimmed.slice(0, DETECTION_SAMPLE_LENGTH);
+  if (/<(?:!doctype html|html|body|div|p|span|a|ul|li|table|script|head)\b[^>]*>/i.test(sample)) {
+    return 'html';
+  }
+
+  if (/```/.test(sample)) {
+    return 'code';
+  }
+  const lines = sample.split('\n').filter(line => line.trim());
+  const codeLines = lines.filter(line => CODE_LINE_PATTERN.test(line)).length;
+  if (lines.length >= 2 && codeLines / lines.length >= 0.5) {
+    return 'code';
+  }
+
+  return 'text';
+};
+
+/**
+ * Features of content that rule conditions can test
+ */
+export const getContentFeatures = (content: string): ContentFeatures => ({
+  length: content.length,
+  language: detectLanguage(content),
+  content_type: detectContentType(content)
+});
+
+/**
+ * Whether any rule has an applies_when condition
+ */
+export const hasConditions = (rules: Rule[]): boolean => {
+  return rules.some(rule => rule.applies_when !== undefined);
+};
+
+/**
+ * Check a rule's applies_when against the request metadata and content features
+ */
+export const checkConditions = (rule: Rule, context: ConditionContext): ConditionCheck => {
+  const conditions = rule.applies_when;
+  if (!conditions) {
+    return { applies: true };
+  }
+
+  for (const [key, expected] of Object.entries(conditions.metadata || {})) {
+    const allowed: MetadataValue[] = Array.isArray(expected) ? expected : [expected];
+    const actual = context.metadata[key];
+    if (actual === undefined || !allowed.includes(actual)) {
+      return {
+        applies: false,
+        reason: `metadata.${key} is ${actual === undefined ? 'not set' : `'${actual}'`}, rule applies to ${allowed.map(v => `'${v}'`).join(', ')}`
+      };
+    }
+  }
+
+  const { length, language, content_type: contentType } = context.features;
+
+  if (conditions.min_length !== undefined && length < conditions.min_length) {
+    return { applies: false, reason: `content length ${length} is below min_length ${conditions.min_length}` };
+  }
+  if (conditions.max_length !== undefined && length > conditions.max_length) {
+    return { applies: false, reason: `content length ${length} is above max_length ${conditions.max_length}` };
+  }
+  if (conditions.language && !conditions.language.includes(language)) {
+    return { applies: false, reason: `content language '${language}' is not one of ${conditions.language.join(', ')}` };
+  }
+  if (conditions.content_type && !conditions.content_type.includes(contentType)) {
+    return { applies: false, reason: `content type '${contentType}' is not one of ${conditions.content_type.join(', ')}` };
+  }
+
+  return { applies: true };
+};
+
+const isMetadataValue = (value: unknown): value is MetadataValue => {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+};
+
+/**
+ * Validate request metadata: a flat object of string, number and boolean values
+ */
+export const validateMetadata = (metadata: unknown): string[] => {
+  if (metadata === undefined) {
+    return [];
+  }
+  if (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return ['metadata must be an object'];
+  }
+
+  return Object.entries(metadata)
+    .filter(([, value]) => !isMetadataValue(value))
+    .map(([key]) => `metadata.${key} must be a string, number or boolean`);
+};
+
+/**
+ * Validate a rule's applies_when
+ * @param label - Prefix for error messages, e.g. "Rule 2"
+ */
+export const validateConditions = (conditions: RuleConditions | undefined, label: string): string[] => {
+  if (conditions === undefined) {
+    return [];
+  }
+  if (conditions === null || typeof conditions !== 'object' || Array.isArray(conditions)) {
+    return [`${label}: applies_when must be an object`];
+  }
+
+  const errors: string[] = [];
+  const { metadata, min_length: minLength, max_length: maxLength, language, content_type: contentType } = conditions;
+
+  if (metadata !== undefined) {
+    if (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      errors.push(`${label}: applies_when.metadata must be an object`);
+    } else {
+      for (const [key, value] of Object.entries(metadata)) {
+        const values = Array.isArray(value) ? value : [value];
+        if (values.length === 0 || !values.every(isMetadataValue)) {
+          errors.push(`${label}: applies_when.metadata.${key} must be a string, number, boolean or a non-empty array of them`);
+        }
+      }
+    }
+  }
+
+  for (const [name, value] of [['min_length', minLength], ['max_length', maxLength]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      errors.push(`${label}: applies_when.${name} must be a non-negative integer`);
+    }
+  }
+  if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+    errors.push(`${label}: applies_when.min_length must not be above max_length`);
+  }
+
+  if (language !== undefined && (!Array.isArray(language) || language.length === 0
+    || !language.every(code => typeof code === 'string' && code.length > 0))) {
+    errors.push(`${label}: applies_when.language must be a non-empty array of language codes`);
+  }
+
+  if (contentType !== undefined) {
+    if (!Array.isArray(contentType) || contentType.length === 0) {
+      errors.push(`${label}: applies_when.content_type must be a non-empty array`);
+    } else {
+      const invalid = contentType.filter(type => !CONTENT_TYPES.includes(type));
+      if (invalid.length > 0) {
+        errors.push(`${label}: invalid applies_when.content_type ${invalid.join(', ')}. Valid: ${CONTENT_TYPES.join(', ')}`);
+      }
+    }
+  }
+
+  return errors;
+};
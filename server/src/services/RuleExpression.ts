@@ -0,0 +1,245 @@
+/**
+ * RuleExpression - Boolean expressions over rule ids for the expression strategy
+ *
+ * Grammar (AND binds tighter than OR; keywords are case-insensitive):
+ *   expression := term (OR term)*
+ *   term       := factor (AND factor)*
+ *   factor     := NOT factor | '(' expression ')' | rule_id
+ * `&&`, `||` and `!` are accepted as AND, OR and NOT.
+ *
+ * Expressions are evaluated with three-valued logic: a PASS rule is true, a
+ * FAIL rule is false, and an UNCERTAIN or skipped rule is unknown. Unknown only
+ * decides the result when the known rules cannot, e.g. `a OR b` is true as soon
+ * as either rule passes. Rules that don't apply to the content (applies_when)
+ * are left out of the AND / OR they appear in; an expression none of whose
+ * rules apply is true.
+ */
+
+import type { RuleVerdict } from '../types';
+
+export type ExpressionNode =
+  | { type: 'rule'; id: string }
+  | { type: 'not'; operand: ExpressionNode }
+  | { type: 'and' | 'or'; operands: ExpressionNode[] };
+
+// true = PASS, false = FAIL, null = unknown
+export type ExpressionValue = boolean | null;
+
+interface Token {
+  kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen' | 'id';
+  text: string;
+  position: number;
+}
+
+const RULE_ID_PATTERN = /[A-Za-z0-9_.:-]/;
+
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not'
+};
+
+/**
+ * Split an expression into tokens
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index]!;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', text: char, position: index });
+      index++;
+    } else if (source.startsWith('&&', index) || source.startsWith('||', index)) {
+      tokens.push({ kind: char === '&' ? 'and' : 'or', text: source.slice(index, index + 2), position: index });
+      index += 2;
+    } else if (char === '!') {
+      tokens.push({ kind: 'not', text: char, position: index });
+      index++;
+    } else if (RULE_ID_PATTERN.test(char)) {
+      const start = index;
+      while (index < source.length && RULE_ID_PATTERN.test(source[index]!)) {
+        index++;
+      }
+      const word = source.slice(start, index);
+      tokens.push({ kind: KEYWORDS[word.toUpperCase()] || 'id', text: word, position: start });
+    } else {
+      throw new Error(`Unexpected character '${char}' at position ${index}`);
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse an expression into a syntax tree
+ * @throws Error describing the first syntax error
+ */
+export const parseExpression = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const describe = (token: Token | undefined): string => {
+    return token ? `'${token.text}' at position ${token.position}` : 'end of expression';
+  };
+
+  const parseOr = (): ExpressionNode => {
+    const operands = [parseAnd()];
+    while (tokens[index]?.kind === 'or') {
+      index++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0]! : { type: 'or', operands };
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    const operands = [parseFactor()];
+    while (tokens[index]?.kind === 'and') {
+      index++;
+      operands.push(parseFactor());
+    }
+    return operands.length === 1 ? operands[0]! : { type: 'and', operands };
+  };
+
+  const parseFactor = (): ExpressionNode => {
+    const token = tokens[index];
+
+    if (token?.kind === 'not') {
+      index++;
+      return { type: 'not', operand: parseFactor() };
+    }
+
+    if (token?.kind === 'lparen') {
+      index++;
+      const node = parseOr();
+      if (tokens[index]?.kind !== 'rparen') {
+        throw new Error(`Expected ')' but found ${describe(tokens[index])}`);
+      }
+      index++;
+      return node;
+    }
+
+    if (token?.kind === 'id') {
+      index++;
+      return { type: 'rule', id: token.text };
+    }
+
+    throw new Error(`Expected a rule id, NOT or '(' but found ${describe(token)}`);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Expression is empty');
+  }
+
+  const tree = parseOr();
+  if (index < tokens.length) {
+    throw new Error(`Unexpected ${describe(tokens[index])}`);
+  }
+
+  return tree;
+};
+
+/**
+ * Rule ids referenced by an expression, in order of first appearance
+ */
+export const getExpressionRuleIds = (node: ExpressionNode): string[] => {
+  const ids: string[] = [];
+
+  const visit = (current: ExpressionNode): void => {
+    if (current.type === 'rule') {
+      if (!ids.includes(current.id)) ids.push(current.id);
+    } else if (current.type === 'not') {
+      visit(current.operand);
+    } else {
+      current.operands.forEach(visit);
+    }
+  };
+
+  visit(node);
+  return ids;
+};
+
+/**
+ * Value of a rule verdict in an expression
+ */
+export const toExpressionValue = (verdict: RuleVerdict | undefined): ExpressionValue => {
+  if (verdict === 'PASS') return true;
+  if (verdict === 'FAIL') return false;
+  return null;
+};
+
+/**
+ * Evaluate an expression with three-valued (Kleene) logic
+ * @param values - Value of each rule id; missing ids are unknown
+ * @param notApplicable - Rule ids left out of the expression
+ */
+export const evaluateExpression = (
+  node: ExpressionNode,
+  values: Map<string, ExpressionValue>,
+  notApplicable: Set<string> = new Set()
+): ExpressionValue => {
+  const value = evaluateApplicable(node, values, notApplicable);
+  return value === undefined ? true : value;
+};
+
+/**
+ * Evaluate a sub-expression; undefined when none of its rules apply
+ */
+const evaluateApplicable = (
+  node: ExpressionNode,
+  values: Map<string, ExpressionValue>,
+  notApplicable: Set<string>
+): ExpressionValue | undefined => {
+  switch (node.type) {
+    case 'rule':
+      return notApplicable.has(node.id) ? undefined : values.get(node.id) ?? null;
+
+    case 'not': {
+      const value = evaluateApplicable(node.operand, values, notApplicable);
+      return value === null || value === undefined ? value : !value;
+    }
+
+    case 'and': {
+      const results = node.operands
+        .map(operand => evaluateApplicable(operand, values, notApplicable))
+        .filter((value): value is ExpressionValue => value !== undefined);
+      if (results.length === 0) return undefined;
+      if (results.includes(false)) return false;
+      return results.includes(null) ? null : true;
+    }
+
+    case 'or': {
+      const results = node.operands
+        .map(operand => evaluateApplicable(operand, values, notApplicable))
+        .filter((value): value is ExpressionValue => value !== undefined);
+      if (results.length === 0) return undefined;
+      if (results.includes(true)) return true;
+      return results.includes(null) ? null : false;
+    }
+  }
+};
+
+/**
+ * Validate an expression against the rule ids of its policy
+ */
+export const validateExpression = (source: string | undefined, ruleIds: string[]): string[] => {
+  if (!source || !source.trim()) {
+    return ['expression is required for the expression strategy'];
+  }
+
+  let tree: ExpressionNode;
+  try {
+    tree = parseExpression(source);
+  } catch (error) {
+    return [`invalid expression: ${(error as Error).message}`];
+  }
+
+  const unknown = getExpressionRuleIds(tree).filter(id => !ruleIds.includes(id));
+  return unknown.length > 0
+    ? [`expression references unknown rule(s): ${unknown.join(', ')}`]
+    : [];
+};
@@ -0,0 +1,238 @@
+/**
+ * RuleGroups - Nested rule groups, each aggregated with its own strategy
+ *
+ * A policy may organize its rules into named groups (policy.groups), e.g. a
+ * "safety" group using `all` next to a "quality" group using `weighted_threshold`.
+ * Leaf rules are evaluated as usual; every group then aggregates its own rules
+ * and sub-groups with its strategy, and takes part in its parent's strategy
+ * as a single member with the group id:
+ * - ALLOW counts as PASS
+ * - WARN without a failed member counts as UNCERTAIN
+ * - anything else counts as FAIL, with the group's verdict as its action
+ * A group none of whose rules apply to the content is NOT_APPLICABLE itself,
+ * so its parent ignores it too.
+ *
+ * Within a group (and at the policy root) rules come before sub-groups, which
+ * is the order the priority strategy checks them in.
+ */
+
+import { createStrategy, getAvailableStrategies, aggregateApplicable } from './AggregationStrategy';
+import { validateExpression } from './RuleExpression';
+import type {
+  Logger,
+  Action,
+  Rule,
+  RuleGroup,
+  RuleResult,
+  RuleGroupResult,
+  Policy,
+  PolicyInput,
+  AggregationResult
+} from '../types';
+
+// Nesting limit, so a policy stays readable and its roll-up cheap
+export const MAX_GROUP_DEPTH = 5;
+
+export interface GroupedAggregation {
+  aggregation: AggregationResult;
+  groups: RuleGroupResult[];
+}
+
+type GroupContainer = Pick<Policy, 'groups'> & { rules?: Rule[] };
+
+/**
+ * Whether a policy organizes rules into groups
+ */
+export const hasRuleGroups = (policy: Pick<Policy, 'groups'>): boolean => {
+  return Array.isArray(policy.groups) && policy.groups.length > 0;
+};
+
+/**
+ * Visit every rule of a policy with the ids of the groups containing it.
+ * Root rules come first, then each group's rules depth-first.
+ */
+const visitRules = (container: GroupContainer, visit: (rule: Rule, path: string[]) => void, path: string[] = []): void => {
+  (container.rules || []).forEach(rule => visit(rule, path));
+  (container.groups || []).forEach(group => visitRules(group, visit, [...path, group.id]));
+};
+
+/**
+ * Every rule of a policy, including the rules of nested groups
+ */
+export const flattenRules = (policy: GroupContainer): Rule[] => {
+  const rules: Rule[] = [];
+  visitRules(policy, rule => rules.push(rule));
+  return rules;
+};
+
+/**
+ * Group path of every rule inside a group, keyed by rule id
+ */
+export const getGroupPaths = (policy: GroupContainer): Map<string, string[]> => {
+  const paths = new Map<string, string[]>();
+  visitRules(policy, (rule, path) => {
+    if (path.length > 0) paths.set(rule.id, path);
+  });
+  return paths;
+};
+
+/**
+ * Stand-in rule for a group in its parent's strategy
+ */
+const toGroupRule = (group: RuleGroup): Rule => ({
+  id: group.id,
+  description: group.description,
+  on_fail: group.default_action || 'block',
+  weight: group.weight
+});
+
+/**
+ * Count a group's aggregation as a member result of its parent
+ */
+const toGroupRuleResult = (group: RuleGroup, aggregation: AggregationResult, members: RuleResult[]): RuleResult => {
+  const { final_verdict: finalVerdict, summary } = aggregation;
+  const judged = members.filter(r => r.verdict !== 'SKIPPED' && r.verdict !== 'NOT_APPLICABLE');
+
+  let verdict: RuleResult['verdict'] = 'FAIL';
+  if (members.length > 0 && members.every(r => r.verdict === 'NOT_APPLICABLE')) {
+    verdict = 'NOT_APPLICABLE';
+  } else if (finalVerdict === 'ALLOW') {
+    verdict = 'PASS';
+  } else if (finalVerdict === 'WARN' && summary.failed === 0) {
+    verdict = 'UNCERTAIN';
+  }
+
+  return {
+    rule_id: group.id,
+    verdict,
+    confidence: judged.length > 0
+      ? Math.round(judged.reduce((sum, r) => sum + r.confidence, 0) / judged.length * 1000) / 1000
+      : 0,
+    reasoning: summary.reason,
+    action: finalVerdict === 'ERROR' ? 'block' : finalVerdict.toLowerCase() as Action,
+    weight: group.weight ?? 1.0,
+    latency_ms: Math.max(0, ...members.map(r => r.latency_ms))
+  };
+};
+
+/**
+ * Aggregate a grouped policy bottom-up: every group with its own strategy,
+ * then the policy strategy over the root rules and top-level groups
+ */
+export const aggregateRuleGroups = (policy: Policy, ruleResults: RuleResult[], logger?: Logger): GroupedAggregation => {
+  const groups: RuleGroupResult[] = [];
+  const resultsOf = (rules: Rule[] = []): RuleResult[] => {
+    return ruleResults.filter(result => rules.some(rule => rule.id === result.rule_id));
+  };
+
+  const aggregateGroup = (group: RuleGroup, path: string[], parentAction: Action): RuleResult => {
+    const position = groups.length;
+    const groupPolicy: Policy = {
+      name: group.id,
+      default_action: group.default_action || parentAction,
+      rules: [...(group.rules || []), ...(group.groups || []).map(toGroupRule)],
+      evaluation_strategy: group.evaluation_strategy,
+      threshold: group.threshold,
+      confidence_weighted: group.confidence_weighted,
+      expression: group.expression
+    };
+
+    const members = [
+      ...resultsOf(group.rules),
+      ...(group.groups || []).map(child => aggregateGroup(child, [...path, child.id], groupPolicy.default_action))
+    ];
+    const aggregation = aggregateApplicable(createStrategy(group.evaluation_strategy, logger), members, groupPolicy);
+    const result = toGroupRuleResult(group, aggregation, members);
+
+    // Parents are listed before their sub-groups
+    groups.splice(position, 0, {
+      group_id: group.id,
+      path,
+      verdict: result.verdict,
+      final_verdict: aggregation.final_verdict,
+      passed: aggregation.passed,
+      summary: aggregation.summary
+    });
+
+    return result;
+  };
+
+  const topLevel = policy.groups || [];
+  const members = [
+    ...resultsOf(policy.rules),
+    ...topLevel.map(group => aggregateGroup(group, [group.id], policy.default_action))
+  ];
+  const aggregation = aggregateApplicable(createStrategy(policy.evaluation_strategy, logger), members, {
+    ...policy,
+    rules: [...policy.rules, ...topLevel.map(toGroupRule)]
+  });
+
+  return { aggregation, groups };
+};
+
+/**
+ * Validate the groups of a policy: group settings, nesting depth and that
+ * rule and group ids are unique across the whole tree
+ */
+export const validateRuleGroups = (policy: PolicyInput): string[] => {
+  if (policy.groups === undefined) {
+    return [];
+  }
+  if (!Array.isArray(policy.groups)) {
+    return ['groups must be an array'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const claim = (id: string | undefined, label: string): void => {
+    if (!id) return;
+    if (seen.has(id)) {
+      errors.push(`${label}: id '${id}' is used more than once`);
+    }
+    seen.add(id);
+  };
+
+  (Array.isArray(policy.rules) ? policy.rules : []).forEach(rule => claim(rule.id, 'Rule'));
+
+  const visit = (group: RuleGroup, depth: number, label: string): void => {
+    const name = `${label} '${group.id || '?'}'`;
+
+    if (!group.id) {
+      errors.push(`${label}: id is required`);
+    }
+    claim(group.id, name);
+
+    if (depth > MAX_GROUP_DEPTH) {
+      errors.push(`${name}: groups may be nested at most ${MAX_GROUP_DEPTH} levels deep`);
+      return;
+    }
+    if (!getAvailableStrategies().includes(group.evaluation_strategy)) {
+      errors.push(`${name}: invalid evaluation_strategy ${group.evaluation_strategy}. Valid: ${getAvailableStrategies().join(', ')}`);
+    }
+    if (group.threshold !== undefined && (group.threshold < 0 || group.threshold > 1)) {
+      errors.push(`${name}: threshold must be between 0 and 1`);
+    }
+    if (group.weight !== undefined && group.weight < 0) {
+      errors.push(`${name}: weight must not be negative`);
+    }
+
+    const rules = Array.isArray(group.rules) ? group.rules : [];
+    const subGroups = Array.isArray(group.groups) ? group.groups : [];
+    if (rules.length === 0 && subGroups.length === 0) {
+      errors.push(`${name}: must contain at least one rule or group`);
+    }
+
+    if (group.evaluation_strategy === 'expression') {
+      const memberIds = [...rules, ...subGroups].map(member => member.id).filter((id): id is string => !!id);
+      validateExpression(group.expression, memberIds).forEach(error => {
+        errors.push(`${name}: ${error}`);
+      });
+    }
+
+    rules.forEach(rule => claim(rule.id, `${name} rule`));
+    subGroups.forEach(child => visit(child, depth + 1, 'Group'));
+  };
+
+  policy.groups.forEach(group => visit(group, 1, 'Group'));
+  return errors;
+};
@@ -0,0 +1,122 @@
+/**
+ * RuleLibraryService - MongoDB storage for the shared rule library
+ *
+ * Library rules are stored once per tenant and referenced by id from any
+ * policy's library_rules. Resolving those references, and working out which
+ * policies a library rule affects, is left to PolicyEngine, which keeps the
+ * library in memory.
+ * Each instance is scoped to one tenant; every query filters by tenantId.
+ */
+
+import { LibraryRule, ILibraryRule } from '../models/LibraryRule';
+import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
+import type { Logger, Rule } from '../types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RuleLibraryServiceOptions {
+  logger?: Logger;
+  tenantId?: string;
+}
+
+// ============================================
+// Service Class
+// ============================================
+
+export class RuleLibraryService {
+  private logger: Logger;
+  private tenantId: string;
+
+  constructor(options: RuleLibraryServiceOptions = {}) {
+    this.logger = options.logger || console;
+    this.tenantId = options.tenantId || DEFAULT_TENANT_ID;
+  }
+
+  /**
+   * List every rule in the tenant's library, by rule id
+   */
+  async listRules(): Promise<Rule[]> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const docs = await LibraryRule.find({ tenantId: this.tenantId }).sort({ 'rule.id': 1 });
+    return docs.map(doc => this.toRule(doc));
+  }
+
+  /**
+   * Add a rule to the library
+   */
+  async createRule(rule: Rule, author?: string): Promise<Rule> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await LibraryRule.create({ tenantId: this.tenantId, rule, author });
+
+    this.logger.info('[RuleLibraryService] Library rule created', {
+      tenantId: this.tenantId,
+      ruleId: rule.id
+    });
+
+    return this.toRule(doc);
+  }
+
+  /**
+   * Replace a library rule (null if it does not exist)
+   */
+  async updateRule(ruleId: string, rule: Rule, author?: string): Promise<Rule | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await LibraryRule.findOneAndUpdate(
+      { tenantId: this.tenantId, 'rule.id': ruleId },
+      { rule, author },
+      { new: true, runValidators: true }
+    );
+
+    if (!doc) {
+      return null;
+    }
+
+    this.logger.info('[RuleLibraryService] Library rule updated', {
+      tenantId: this.tenantId,
+      ruleId
+    });
+
+    return this.toRule(doc);
+  }
+
+  /**
+   * Remove a rule from the library (false if it does not exist)
+   */
+  async deleteRule(ruleId: string): Promise<boolean> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await LibraryRule.deleteOne({ tenantId: this.tenantId, 'rule.id': ruleId });
+
+    if (result.deletedCount > 0) {
+      this.logger.info('[RuleLibraryService] Library rule deleted', {
+        tenantId: this.tenantId,
+        ruleId
+      });
+    }
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Plain copy of a stored library rule
+   */
+  private toRule(doc: ILibraryRule): Rule {
+    return (doc.toObject() as ILibraryRule).rule;
+  }
+}
+
+export default RuleLibraryService;
@@ -0,0 +1,162 @@
+/**
+ * TenantRegistry - Per-tenant service instances
+ *
+ * Design Principles:
+ * - Each tenant gets its own PolicyEngine, ConfigService, RuleLibraryService, HistoryService,
+ *   review queue, test suites, revision history, job worker and routers, so no query can cross tenants
+ * - Tenants are created on first use; a new tenant starts from the default config.
+ *   With auth disabled only configured tenants are accepted (see config/tenants)
+ * - Job workers start when a tenant queues a job and stop when it has no pending work
+ * - Initialization runs once per tenant, concurrent first requests share it
+ */
+
+import { PolicyConfig } from '../models/PolicyConfig';
+import { PolicyRevision } from '../models/PolicyRevision';
+import { EvaluationHistory } from '../models/EvaluationHistory';
+import { EvaluationJob } from '../models/EvaluationJob';
+import { ApiKey } from '../models/ApiKey';
+import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
+import type { Router } from 'express';
+import type { ConfigService } from './ConfigService';
+import type { RuleLibraryService } from './RuleLibraryService';
+import type { HistoryService } from './HistoryService';
+import type { ReviewService } from './ReviewService';
+import type { TestSuiteService } from './TestSuiteService';
+import type { PolicyRevisionService } from './PolicyRevisionService';
+import type { JobService } from './JobService';
+import type { Logger, PolicyEngineInterface } from '../types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface TenantContext {
+  tenantId: string;
+  policyEngine: PolicyEngineInterface;
+  configService: ConfigService;
+  ruleLibraryService: RuleLibraryService;
+  historyService: HistoryService;
+  reviewService: ReviewService;
+  testSuiteService: TestSuiteService;
+  revisionService: PolicyRevisionService;
+  jobService: JobService;
+  routes: Router;
+  historyRoutes: Router;
+  policiesRoutes: Router;
+  libraryRoutes: Router;
+  reviewRoutes: Router;
+  testSuiteRoutes: Router;
+  jobRoutes: Router;
+  initialize: () => Promise<void>; // Loads config from MongoDB
+}
+
+export type TenantFactory = (tenantId: string) => TenantContext;
+
+export interface TenantRegistryOptions {
+  logger?: Logger;
+}
+
+// ============================================
+// Migration Helpers
+// ============================================
+
+/**
+ * Assign records written before tenants existed to the default tenant, and
+ * replace the old single-tenant unique indexes
+ */
+export const assignUntenantedRecords = async (logger: Logger = console): Promise<void> => {
+  if (!isDatabaseConnected()) {
+    throw new Error('Database not connected');
+  }
+
+  const filter = { tenantId: { $exists: false } };
+  const update = { $set: { tenantId: DEFAULT_TENANT_ID } };
+
+  const results = await Promise.all([
+    PolicyConfig.updateMany(filter, update),
+    PolicyRevision.updateMany(filter, update),
+    EvaluationHistory.updateMany(filter, update),
+    EvaluationJob.updateMany(filter, update),
+    ApiKey.updateMany(filter, update),
+  ]);
+
+  const migrated = results.reduce((sum, result) => sum + result.modifiedCount, 0);
+  if (migrated > 0) {
+    logger.info('[TenantRegistry] Assigned existing records to the default tenant', { count: migrated });
+  }
+
+  // configId used to be unique on its own; it is now unique per tenant
+  await Promise.all([
+    PolicyConfig.syncIndexes(),
+    PolicyRevision.syncIndexes(),
+  ]);
+};
+
+// ============================================
+// Registry Class
+// ============================================
+
+export class TenantRegistry {
+  private logger: Logger;
+  private factory: TenantFactory;
+  private contexts: Map<string, TenantContext> = new Map();
+  private ready: Map<string, Promise<TenantContext>> = new Map();
+
+  constructor(factory: TenantFactory, options: TenantRegistryOptions = {}) {
+    this.logger = options.logger || console;
+    this.factory = factory;
+  }
+
+  /**
+   * Get the tenant's services without initializing them
+   */
+  create(tenantId: string): TenantContext {
+    let context = this.contexts.get(tenantId);
+    if (!context) {
+      context = this.factory(tenantId);
+      this.contexts.set(tenantId, context);
+      this.logger.info('[TenantRegistry] Tenant created', { tenantId });
+    }
+    return context;
+  }
+
+  /**
+   * Get the tenant's services, initializing them on first use
+   */
+  async get(tenantId: string): Promise<TenantContext> {
+    let ready = this.ready.get(tenantId);
+
+    if (!ready) {
+      const context = this.create(tenantId);
+      ready = context.initialize().then(() => context);
+      this.ready.set(tenantId, ready);
+
+      // Let the next request retry if initialization failed (e.g. database down)
+      ready.catch((error: Error) => {
+        this.ready.delete(tenantId);
+        this.logger.error('[TenantRegistry] Tenant initialization failed', { tenantId, error: error.message });
+      });
+    }
+
+    return ready;
+  }
+
+  /**
+   * Ids of the tenants created so far
+   */
+  list(): string[] {
+    return Array.from(this.contexts.keys());
+  }
+
+  /**
+   * Stop every tenant's job worker
+   */
+  stop(): void {
+    for (const context of this.contexts.values()) {
+      context.jobService.stop();
+    }
+  }
+}
+
+export default TenantRegistry;
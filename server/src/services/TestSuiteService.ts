@@ -0,0 +1,656 @@
+/**
+ * TestSuiteService - Labeled test suites and regression runs for policies
+ *
+ * A suite is a named set of content samples, each labeled with the final
+ * verdict a policy should give it and, optionally, the verdicts of
+ * individual rules. Running a suite evaluates every case against the active
+ * policy, a named policy or a draft policy, and reports:
+ * - each case's pass/fail, with the rules that did not match
+ * - a confusion matrix of expected against actual final verdicts
+ * - a diff against the suite's previous run: cases fixed, regressed or
+ *   changing verdict
+ *
+ * Runs evaluate every rule (no short-circuiting) so per-rule expectations can
+ * be checked, and are not saved to evaluation history.
+ * Each instance is scoped to one tenant; every query filters by tenantId.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TestSuite as TestSuiteModel, ITestSuite } from '../models/TestSuite';
+import { TestRun as TestRunModel, ITestRun } from '../models/TestRun';
+import { isDatabaseConnected } from '../config/database';
+import { DEFAULT_TENANT_ID } from '../config/tenants';
+import { PolicyEngine } from './PolicyEngine';
+import { validateContent } from './Transcript';
+import { validateMetadata } from './RuleConditions';
+import { pickInputs, validateInputs } from './PromptTemplate';
+import type {
+  Logger,
+  Policy,
+  PolicyEngineInterface,
+  FinalVerdict,
+  BatchItem,
+  BatchItemResult,
+  RuleResult,
+  VerdictUsage,
+  ExpectedRuleVerdict,
+  TestCase,
+  TestSuite,
+  TestSuiteInput,
+  TestCaseResult,
+  RuleMismatch,
+  ConfusionMatrix,
+  TestRun,
+  TestRunDiff,
+  TestRunSummary,
+  TestSuiteOperationResult
+} from '../types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface TestSuiteListItem {
+  suiteId: string;
+  name: string;
+  description?: string;
+  caseCount: number;
+  updatedAt: Date;
+}
+
+export interface RunTestSuiteOptions {
+  policy?: Policy; // Draft policy, validated by the caller
+  policyId?: string;
+  concurrency?: number;
+  author?: string;
+}
+
+// A stored run without its per-case results
+export type TestRunListItem = Omit<TestRun, 'results'>;
+
+export interface TestSuiteServiceOptions {
+  logger?: Logger;
+  tenantId?: string;
+}
+
+export const MAX_SUITE_CASES = 1000;
+
+// Verdicts a case can expect (ERROR is never a correct outcome)
+export const EXPECTED_VERDICTS: FinalVerdict[] = ['ALLOW', 'BLOCK', 'WARN', 'REDACT'];
+
+const EXPECTED_RULE_VERDICTS: ExpectedRuleVerdict[] = ['PASS', 'FAIL', 'UNCERTAIN', 'NOT_APPLICABLE'];
+
+const FINAL_VERDICTS: FinalVerdict[] = ['ALLOW', 'BLOCK', 'WARN', 'REDACT', 'ERROR'];
+
+// ============================================
+// Helpers
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+};
+
+/**
+ * Validate one test case
+ * @param label - Prefix for error messages, e.g. "cases[2]: "
+ */
+export const validateTestCase = (value: unknown, label = ''): string[] => {
+  if (!isObject(value)) {
+    return [`${label}case must be an object`];
+  }
+
+  const testCase = value as Partial<TestCase>;
+  const errors: string[] = [];
+
+  if (typeof testCase.id !== 'string' || !testCase.id.trim()) {
+    errors.push(`${label}id is required`);
+  }
+
+  if (testCase.description !== undefined && typeof testCase.description !== 'string') {
+    errors.push(`${label}description must be a string`);
+  }
+
+  errors.push(...validateInputs(testCase, label));
+  errors.push(...validateContent(testCase.content ?? testCase.output).map(error => `${label}${error}`));
+  errors.push(...validateMetadata(testCase.metadata).map(error => `${label}${error}`));
+
+  if (!testCase.expected_verdict || !EXPECTED_VERDICTS.includes(testCase.expected_verdict)) {
+    errors.push(`${label}expected_verdict must be one of ${EXPECTED_VERDICTS.join(', ')}`);
+  }
+
+  if (testCase.expected_rules !== undefined) {
+    if (!isObject(testCase.expected_rules)) {
+      errors.push(`${label}expected_rules must be an object of rule id to verdict`);
+    } else {
+      for (const [ruleId, verdict] of Object.entries(testCase.expected_rules)) {
+        if (!EXPECTED_RULE_VERDICTS.includes(verdict)) {
+          errors.push(`${label}expected_rules.${ruleId} must be one of ${EXPECTED_RULE_VERDICTS.join(', ')}`);
+        }
+      }
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate a suite to create, or the fields of a suite to update
+ * @param partial - Fields may be omitted (update)
+ */
+export const validateTestSuite = (input: TestSuiteInput, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(input)) {
+    return ['Suite must be an object'];
+  }
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      errors.push('name is required');
+    }
+  }
+
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (input.cases !== undefined) {
+    if (!Array.isArray(input.cases)) {
+      errors.push('cases must be an array');
+    } else if (input.cases.length > MAX_SUITE_CASES) {
+      errors.push(`A suite may contain at most ${MAX_SUITE_CASES} cases`);
+    } else {
+      const seenIds = new Set<string>();
+      input.cases.forEach((testCase, index) => {
+        errors.push(...validateTestCase(testCase, `cases[${index}]: `));
+        if (typeof testCase?.id === 'string') {
+          if (seenIds.has(testCase.id)) {
+            errors.push(`Duplicate case id '${testCase.id}'`);
+          }
+          seenIds.add(testCase.id);
+        }
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Expected rule verdicts taken from an evaluation's rule results, leaving out
+ * SKIPPED rules (skipping depends on the order rules finished in)
+ */
+export const getExpectedRules = (
+  ruleResults: Array<Pick<RuleResult, 'rule_id' | 'verdict'>>
+): Record<string, ExpectedRuleVerdict> => {
+  const expected: Record<string, ExpectedRuleVerdict> = {};
+  for (const { rule_id, verdict } of ruleResults) {
+    if (EXPECTED_RULE_VERDICTS.includes(verdict as ExpectedRuleVerdict)) {
+      expected[rule_id] = verdict as ExpectedRuleVerdict;
+    }
+  }
+  return expected;
+};
+
+/**
+ * Compare a case's evaluation with its labels
+ */
+export const scoreTestCase = (testCase: TestCase, result: BatchItemResult): TestCaseResult => {
+  const verdict = result.verdict;
+  if (!verdict) {
+    return {
+      id: testCase.id,
+      passed: false,
+      expected_verdict: testCase.expected_verdict,
+      actual_verdict: 'ERROR',
+      rule_mismatches: [],
+      error: result.error || 'Evaluation failed'
+    };
+  }
+
+  const ruleMismatches: RuleMismatch[] = Object.entries(testCase.expected_rules || {})
+    .map(([ruleId, expected]) => ({
+      rule_id: ruleId,
+      expected,
+      actual: verdict.rule_results.find(rule => rule.rule_id === ruleId)?.verdict ?? null
+    }))
+    .filter(mismatch => mismatch.actual !== mismatch.expected);
+
+  return {
+    id: testCase.id,
+    passed: verdict.final_verdict === testCase.expected_verdict && ruleMismatches.length === 0,
+    expected_verdict: testCase.expected_verdict,
+    actual_verdict: verdict.final_verdict,
+    rule_mismatches: ruleMismatches,
+    ...(verdict.summary?.reason ? { reason: verdict.summary.reason } : {}),
+    ...(verdict.error ? { error: verdict.error } : {})
+  };
+};
+
+/**
+ * Pass/fail counts of a run. Errors are cases whose evaluation failed;
+ * failed counts the other cases that did not pass.
+ */
+export const summarizeResults = (results: TestCaseResult[]): TestRunSummary => {
+  const passed = results.filter(result => result.passed).length;
+  const errors = results.filter(result => result.actual_verdict === 'ERROR').length;
+  return {
+    total: results.length,
+    passed,
+    failed: results.length - passed - errors,
+    errors,
+    pass_rate: results.length > 0 ? Math.round((passed / results.length) * 10000) / 10000 : 0
+  };
+};
+
+/**
+ * Count cases by expected (rows) and actual (columns) final verdict
+ */
+export const buildConfusionMatrix = (results: TestCaseResult[]): ConfusionMatrix => {
+  const matrix = {} as ConfusionMatrix;
+  for (const expected of FINAL_VERDICTS) {
+    matrix[expected] = { ALLOW: 0, BLOCK: 0, WARN: 0, REDACT: 0, ERROR: 0 };
+  }
+  for (const result of results) {
+    matrix[result.expected_verdict][result.actual_verdict]++;
+  }
+  return matrix;
+};
+
+/**
+ * What changed since the previous run of the suite, matching cases by id
+ */
+export const diffTestRuns = (
+  previous: Pick<TestRun, 'runId' | 'createdAt' | 'policy' | 'summary' | 'results'>,
+  results: TestCaseResult[],
+  summary: TestRunSummary
+): TestRunDiff => {
+  const previousById = new Map(previous.results.map(result => [result.id, result]));
+  const currentIds = new Set(results.map(result => result.id));
+
+  const diff: TestRunDiff = {
+    previousRunId: previous.runId,
+    previousRunAt: previous.createdAt,
+    ...(previous.policy.version ? { previous_policy_version: previous.policy.version } : {}),
+    pass_rate_delta: Math.round((summary.pass_rate - previous.summary.pass_rate) * 10000) / 10000,
+    fixed: [],
+    regressed: [],
+    changed: [],
+    added: [],
+    removed: previous.results.filter(result => !currentIds.has(result.id)).map(result => result.id)
+  };
+
+  for (const result of results) {
+    const before = previousById.get(result.id);
+    if (!before) {
+      diff.added.push(result.id);
+      continue;
+    }
+    if (!before.passed && result.passed) {
+      diff.fixed.push(result.id);
+    } else if (before.passed && !result.passed) {
+      diff.regressed.push(result.id);
+    }
+    if (before.actual_verdict !== result.actual_verdict) {
+      diff.changed.push({ id: result.id, before: before.actual_verdict, after: result.actual_verdict });
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * Total judge usage of a run's evaluations, or undefined when none reported usage
+ */
+const sumUsage = (items: BatchItemResult[]): VerdictUsage | undefined => {
+  const usages = items.map(item => item.verdict?.usage).filter((usage): usage is VerdictUsage => !!usage);
+  if (usages.length === 0) {
+    return undefined;
+  }
+  const usage = usages.reduce((total, item) => ({
+    input_tokens: total.input_tokens + item.input_tokens,
+    output_tokens: total.output_tokens + item.output_tokens,
+    total_tokens: total.total_tokens + item.total_tokens,
+    cost_usd: total.cost_usd + item.cost_usd
+  }), { input_tokens: 0, output_tokens: 0, total_tokens: 0, cost_usd: 0 });
+  return { ...usage, cost_usd: Math.round(usage.cost_usd * 1e8) / 1e8 };
+};
+
+// ============================================
+// Service Class
+// ============================================
+
+export class TestSuiteService {
+  private logger: Logger;
+  private tenantId: string;
+  private policyEngine: PolicyEngineInterface;
+
+  constructor(policyEngine: PolicyEngineInterface, options: TestSuiteServiceOptions = {}) {
+    this.logger = options.logger || console;
+    this.tenantId = options.tenantId || DEFAULT_TENANT_ID;
+    this.policyEngine = policyEngine;
+  }
+
+  /**
+   * List the tenant's suites by name, without their cases
+   */
+  async list(): Promise<TestSuiteListItem[]> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const docs = await TestSuiteModel.find({ tenantId: this.tenantId }).sort({ name: 1 });
+    return docs.map(doc => ({
+      suiteId: doc.suiteId,
+      name: doc.name,
+      description: doc.description,
+      caseCount: doc.cases.length,
+      updatedAt: doc.updatedAt
+    }));
+  }
+
+  /**
+   * Get a suite by ID
+   */
+  async get(suiteId: string): Promise<TestSuite | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await TestSuiteModel.findOne({ tenantId: this.tenantId, suiteId });
+    return doc ? this.toSuite(doc) : null;
+  }
+
+  /**
+   * Create a suite
+   */
+  async create(input: TestSuiteInput, author?: string): Promise<TestSuiteOperationResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const errors = validateTestSuite(input);
+    if (errors.length > 0) {
+      return { success: false, message: 'Invalid test suite', errors };
+    }
+
+    const name = input.name!.trim();
+    const existing = await TestSuiteModel.findOne({ tenantId: this.tenantId, name });
+    if (existing) {
+      return { success: false, message: `Test suite '${name}' already exists` };
+    }
+
+    const doc = await TestSuiteModel.create({
+      suiteId: uuidv4(),
+      tenantId: this.tenantId,
+      name,
+      description: input.description,
+      cases: input.cases || [],
+      author
+    });
+
+    this.logger.info('[TestSuiteService] Test suite created', {
+      tenantId: this.tenantId,
+      suiteId: doc.suiteId,
+      cases: doc.cases.length
+    });
+
+    return { success: true, suite: this.toSuite(doc) };
+  }
+
+  /**
+   * Update a suite's name, description or cases (cases are replaced as a whole)
+   */
+  async update(suiteId: string, input: TestSuiteInput, author?: string): Promise<TestSuiteOperationResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const errors = validateTestSuite(input, true);
+    if (errors.length > 0) {
+      return { success: false, message: 'Invalid test suite', errors };
+    }
+
+    const doc = await TestSuiteModel.findOne({ tenantId: this.tenantId, suiteId });
+    if (!doc) {
+      return { success: false, notFound: true, message: `Test suite '${suiteId}' not found` };
+    }
+
+    const name = input.name?.trim();
+    if (name && name !== doc.name) {
+      const existing = await TestSuiteModel.findOne({ tenantId: this.tenantId, name });
+      if (existing) {
+        return { success: false, message: `Test suite '${name}' already exists` };
+      }
+      doc.name = name;
+    }
+    if (input.description !== undefined) {
+      doc.description = input.description;
+    }
+    if (input.cases !== undefined) {
+      doc.cases = input.cases;
+    }
+    doc.author = author ?? doc.author;
+    await doc.save();
+
+    this.logger.info('[TestSuiteService] Test suite updated', {
+      tenantId: this.tenantId,
+      suiteId,
+      cases: doc.cases.length
+    });
+
+    return { success: true, suite: this.toSuite(doc) };
+  }
+
+  /**
+   * Add one case to a suite (used to promote history records)
+   */
+  async addCase(suiteId: string, testCase: TestCase): Promise<TestSuiteOperationResult> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const errors = validateTestCase(testCase);
+    if (errors.length > 0) {
+      return { success: false, message: 'Invalid test case', errors };
+    }
+
+    const doc = await TestSuiteModel.findOne({ tenantId: this.tenantId, suiteId });
+    if (!doc) {
+      return { success: false, notFound: true, message: `Test suite '${suiteId}' not found` };
+    }
+    if (doc.cases.some(existing => existing.id === testCase.id)) {
+      return { success: false, message: `Case '${testCase.id}' already exists in test suite '${doc.name}'` };
+    }
+    if (doc.cases.length >= MAX_SUITE_CASES) {
+      return {
+        success: false,
+        message: 'Invalid test case',
+        errors: [`A suite may contain at most ${MAX_SUITE_CASES} cases`]
+      };
+    }
+
+    doc.cases.push(testCase);
+    await doc.save();
+
+    this.logger.info('[TestSuiteService] Test case added', {
+      tenantId: this.tenantId,
+      suiteId,
+      caseId: testCase.id,
+      evaluationId: testCase.evaluationId
+    });
+
+    return { success: true, suite: this.toSuite(doc) };
+  }
+
+  /**
+   * Delete a suite and its runs (false if it does not exist)
+   */
+  async delete(suiteId: string): Promise<boolean> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await TestSuiteModel.deleteOne({ tenantId: this.tenantId, suiteId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    const runs = await TestRunModel.deleteMany({ tenantId: this.tenantId, suiteId });
+
+    this.logger.info('[TestSuiteService] Test suite deleted', {
+      tenantId: this.tenantId,
+      suiteId,
+      runsDeleted: runs.deletedCount
+    });
+
+    return true;
+  }
+
+  /**
+   * Run a suite against the active policy, a named policy or a draft policy,
+   * save the run and diff it against the suite's previous run
+   */
+  async run(suite: TestSuite, options: RunTestSuiteOptions = {}): Promise<TestRun> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const { policy, policyId, concurrency, author } = options;
+    const startTime = Date.now();
+
+    const target = policy
+      ? this.policyEngine.resolve(policy)
+      : (policyId && this.policyEngine.getPolicyById(policyId)) || this.policyEngine.getActivePolicy();
+
+    this.logger.info('[TestSuiteService] Running test suite', {
+      tenantId: this.tenantId,
+      suiteId: suite.suiteId,
+      cases: suite.cases.length,
+      policyName: target.name,
+      draft: !!policy
+    });
+
+    const items: BatchItem[] = suite.cases.map(testCase => ({
+      id: testCase.id,
+      content: testCase.content,
+      metadata: testCase.metadata,
+      ...pickInputs(testCase)
+    }));
+
+    // Every rule is evaluated so per-rule expectations can be checked
+    const batch = await (this.policyEngine as PolicyEngine).evaluateBatch(items, {
+      policy,
+      policyId: policy ? undefined : policyId,
+      shortCircuit: false,
+      concurrency
+    });
+
+    const results = suite.cases.map((testCase, index) => scoreTestCase(testCase, batch.items[index]!));
+    const summary = summarizeResults(results);
+
+    const previous = await TestRunModel.findOne({ tenantId: this.tenantId, suiteId: suite.suiteId })
+      .sort({ createdAt: -1 });
+
+    const usage = sumUsage(batch.items);
+    const doc = await TestRunModel.create({
+      runId: uuidv4(),
+      tenantId: this.tenantId,
+      suiteId: suite.suiteId,
+      suiteName: suite.name,
+      policy: {
+        ...(policyId && !policy ? { id: policyId } : {}),
+        name: target.name,
+        version: target.version,
+        draft: !!policy
+      },
+      summary,
+      confusion_matrix: buildConfusionMatrix(results),
+      results,
+      ...(previous ? { diff: diffTestRuns(this.toRun(previous), results, summary) } : {}),
+      ...(usage ? { usage } : {}),
+      total_latency_ms: Date.now() - startTime,
+      author
+    });
+
+    this.logger.info('[TestSuiteService] Test suite run complete', {
+      tenantId: this.tenantId,
+      suiteId: suite.suiteId,
+      runId: doc.runId,
+      ...summary,
+      regressed: doc.diff?.regressed.length
+    });
+
+    return this.toRun(doc);
+  }
+
+  /**
+   * List a suite's runs, newest first, without per-case results
+   */
+  async listRuns(suiteId: string, limit: number = 20): Promise<TestRunListItem[]> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const docs = await TestRunModel.find({ tenantId: this.tenantId, suiteId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .select('-results');
+
+    return docs.map(doc => {
+      const { results: _results, ...run } = this.toRun(doc);
+      return run;
+    });
+  }
+
+  /**
+   * Get a run of a suite by ID
+   */
+  async getRun(suiteId: string, runId: string): Promise<TestRun | null> {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    const doc = await TestRunModel.findOne({ tenantId: this.tenantId, suiteId, runId });
+    return doc ? this.toRun(doc) : null;
+  }
+
+  /**
+   * Plain suite of a stored document
+   */
+  private toSuite(doc: ITestSuite): TestSuite {
+    const suite = doc.toObject() as ITestSuite;
+    return {
+      suiteId: suite.suiteId,
+      name: suite.name,
+      description: suite.description,
+      cases: suite.cases,
+      author: suite.author,
+      createdAt: suite.createdAt,
+      updatedAt: suite.updatedAt
+    };
+  }
+
+  /**
+   * Plain run of a stored document
+   */
+  private toRun(doc: ITestRun): TestRun {
+    const run = doc.toObject() as ITestRun;
+    return {
+      runId: run.runId,
+      suiteId: run.suiteId,
+      suiteName: run.suiteName,
+      policy: run.policy,
+      summary: run.summary,
+      confusion_matrix: run.confusion_matrix,
+      results: run.results || [],
+      ...(run.diff ? { diff: run.diff } : {}),
+      ...(run.usage ? { usage: run.usage } : {}),
+      total_latency_ms: run.total_latency_ms,
+      author: run.author,
+      createdAt: run.createdAt
+    };
+  }
+}
+
+export default TestSuiteService;
@@ -0,0 +1,87 @@
+/**
+ * TokenQuota - Per-tenant judge token budget
+ *
+ * Design Principles:
+ * - Counts the input and output tokens providers report for each judge call
+ * - Fixed windows (TOKEN_QUOTA_WINDOW_MS, one day by default) per tenant
+ * - A tenant over its quota is refused new evaluations until the window resets;
+ *   calls already in flight still count
+ * - In-memory, so usage is per process and resets on restart
+ */
+
+import { TOKEN_QUOTA_WINDOW_MS, getTenantLimits } from '../config/tenants';
+import type { TokenUsage, TokenQuotaStatus } from '../types';
+
+interface UsageWindow {
+  windowStart: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TokenQuotaOptions {
+  windowMs?: number;
+  getLimit?: (tenantId: string) => number; // 0 = unlimited
+}
+
+export class TokenQuota {
+  private windowMs: number;
+  private getLimit: (tenantId: string) => number;
+  private windows: Map<string, UsageWindow> = new Map();
+
+  constructor(options: TokenQuotaOptions = {}) {
+    this.windowMs = Math.max(1, options.windowMs || TOKEN_QUOTA_WINDOW_MS);
+    this.getLimit = options.getLimit || ((tenantId) => getTenantLimits(tenantId).tokenQuota);
+  }
+
+  /**
+   * Add a judge call's usage to the tenant's current window
+   */
+  record(tenantId: string, usage: TokenUsage, now: number = Date.now()): void {
+    const window = this.getWindow(tenantId, now);
+    window.inputTokens += usage.input_tokens;
+    window.outputTokens += usage.output_tokens;
+  }
+
+  /**
+   * Usage, limit and reset time for the tenant's current window
+   */
+  getStatus(tenantId: string, now: number = Date.now()): TokenQuotaStatus {
+    const window = this.getWindow(tenantId, now);
+    const limit = Math.max(0, this.getLimit(tenantId));
+    const totalTokens = window.inputTokens + window.outputTokens;
+
+    return {
+      tenantId,
+      input_tokens: window.inputTokens,
+      output_tokens: window.outputTokens,
+      total_tokens: totalTokens,
+      limit,
+      remaining: limit > 0 ? Math.max(0, limit - totalTokens) : null,
+      resetAt: new Date(window.windowStart + this.windowMs)
+    };
+  }
+
+  /**
+   * Whether the tenant has used up its quota for the current window
+   */
+  isExceeded(tenantId: string, now: number = Date.now()): boolean {
+    return this.getStatus(tenantId, now).remaining === 0;
+  }
+
+  /**
+   * Get the tenant's window, starting a new one if the current one has ended
+   */
+  private getWindow(tenantId: string, now: number): UsageWindow {
+    const windowStart = now - (now % this.windowMs);
+    let window = this.windows.get(tenantId);
+
+    if (!window || window.windowStart !== windowStart) {
+      window = { windowStart, inputTokens: 0, outputTokens: 0 };
+      this.windows.set(tenantId, window);
+    }
+
+    return window;
+  }
+}
+
+export default TokenQuota;
@@ -0,0 +1,162 @@
+/**
+ * Transcript - Chat transcript content and per-rule message scope
+ *
+ * Evaluation content is either a string or a transcript: an array of
+ * { role, content } messages. A rule's scope decides what it judges:
+ * - conversation: the whole transcript (default)
+ * - last_message: the last message, with the earlier turns as context
+ * - user_messages / assistant_messages: only the turns of that role
+ *
+ * Judges see transcripts as "role: content" turns. Redaction spans are
+ * mapped back onto the individual messages they were found in.
+ */
+
+import { resolveSpans, applyRedactions } from './Redactor';
+import type {
+  Rule,
+  RuleResult,
+  RuleScope,
+  ChatRole,
+  ChatMessage,
+  JudgeSubject,
+  EvaluationContent
+} from '../types';
+
+export interface ScopedContent {
+  text: string; // What the rule judges
+  subject: JudgeSubject;
+  context?: string; // Earlier turns shown to the judge but not judged
+  indexes: number[]; // Transcript messages the rule judges
+}
+
+export const CHAT_ROLES: ChatRole[] = ['system', 'user', 'assistant'];
+
+export const RULE_SCOPES: RuleScope[] = ['conversation', 'last_message', 'user_messages', 'assistant_messages'];
+
+/**
+ * Whether content is a chat transcript rather than a string
+ */
+export const isTranscript = (content: EvaluationContent): content is ChatMessage[] => {
+  return Array.isArray(content);
+};
+
+/**
+ * Render messages as "role: content" turns separated by blank lines
+ */
+export const formatTranscript = (messages: ChatMessage[]): string => {
+  return messages.map(message => `${message.role}: ${message.content}`).join('\n\n');
+};
+
+/**
+ * Plain text of content, used for length limits, content features and token estimates
+ */
+export const getContentText = (content: EvaluationContent): string => {
+  return isTranscript(content) ? content.map(message => message.content).join('\n\n') : content;
+};
+
+/**
+ * Select what a rule with the given scope judges. Scope only applies to
+ * transcripts; string content is always judged whole.
+ */
+export const scopeContent = (content: EvaluationContent, scope: RuleScope = 'conversation'): ScopedContent => {
+  if (!isTranscript(content)) {
+    return { text: content, subject: 'content', indexes: [] };
+  }
+
+  const allIndexes = content.map((_, index) => index);
+
+  switch (scope) {
+    case 'last_message': {
+      const last = content.length - 1;
+      const earlier = content.slice(0, last);
+      return {
+        text: content[last]?.content ?? '',
+        subject: 'message',
+        ...(earlier.length > 0 ? { context: formatTranscript(earlier) } : {}),
+        indexes: last >= 0 ? [last] : []
+      };
+    }
+    case 'user_messages':
+    case 'assistant_messages': {
+      const role: ChatRole = scope === 'user_messages' ? 'user' : 'assistant';
+      const indexes = allIndexes.filter(index => content[index]!.role === role);
+      return {
+        text: formatTranscript(indexes.map(index => content[index]!)),
+        subject: 'messages',
+        indexes
+      };
+    }
+    case 'conversation':
+    default:
+      return { text: formatTranscript(content), subject: 'conversation', indexes: allIndexes };
+  }
+};
+
+/**
+ * Validate evaluation content: a non-empty string or a non-empty array of messages
+ */
+export const validateContent = (content: unknown): string[] => {
+  if (typeof content === 'string') {
+    return content ? [] : ['Content is required and must be a string or an array of messages'];
+  }
+  if (!Array.isArray(content) || content.length === 0) {
+    return ['Content is required and must be a string or an array of messages'];
+  }
+
+  const errors: string[] = [];
+  content.forEach((message: unknown, index) => {
+    if (message === null || typeof message !== 'object' || Array.isArray(message)) {
+      errors.push(`content[${index}] must be an object with role and content`);
+      return;
+    }
+    const { role, content: text } = message as Partial<ChatMessage>;
+    if (!role || !CHAT_ROLES.includes(role)) {
+      errors.push(`content[${index}].role must be one of ${CHAT_ROLES.join(', ')}`);
+    }
+    if (typeof text !== 'string') {
+      errors.push(`content[${index}].content must be a string`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Mask the spans of failed redact rules in the transcript messages each rule
+ * judged. Returns undefined when nothing needs to be redacted.
+ */
+export const redactTranscript = (
+  messages: ChatMessage[],
+  ruleResults: RuleResult[],
+  rules: Rule[]
+): ChatMessage[] | undefined => {
+  const redactions = ruleResults.filter(result =>
+    result.verdict === 'FAIL' && result.action === 'redact' && result.spans?.length
+  );
+  if (redactions.length === 0) {
+    return undefined;
+  }
+
+  let changed = false;
+  const redacted = messages.map((message, index) => {
+    // Spans were found in the scoped text, so they are located again by text in each message
+    const messageResults = redactions
+      .filter(result => {
+        const rule = rules.find(r => r.id === result.rule_id);
+        return scopeContent(messages, rule?.scope).indexes.includes(index);
+      })
+      .map(result => ({
+        ...result,
+        spans: resolveSpans(message.content, result.spans!.map(span => ({ text: span.text, category: span.category })))
+      }));
+
+    const content = applyRedactions(message.content, messageResults, rules);
+    if (content === undefined || content === message.content) {
+      return message;
+    }
+    changed = true;
+    return { ...message, content };
+  });
+
+  return changed ? redacted : undefined;
+};
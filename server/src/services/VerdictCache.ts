@@ -0,0 +1,190 @@
+/**
+ * VerdictCache - In-memory cache for LLM judge verdicts
+ *
+ * Design Principles:
+ * - Keyed on (rule id, judge_prompt and description hashes, provider, model,
+ *   temperature, content hash), plus a flag for redact rules, whose judge
+ *   prompt asks for redaction spans
+ * - Entries expire after a configurable TTL
+ * - Bounded size with least-recently-used eviction
+ * - Per-rule invalidation when a rule definition changes
+ */
+
+import crypto from 'crypto';
+import type {
+  Rule,
+  JudgeEvaluationResult,
+  VerdictCacheOptions,
+  VerdictCacheStats
+} from '../types';
+
+interface CacheEntry {
+  ruleId: string;
+  result: JudgeEvaluationResult;
+  expiresAt: number;
+}
+
+export interface VerdictCacheKeyInput {
+  rule: Rule;
+  content: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  context?: string; // Earlier conversation turns the judge saw with the content
+}
+
+export const DEFAULT_CACHE_TTL_MS = 300000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Hash a string with SHA-256 (hex digest)
+ */
+const hash = (value: string): string => {
+  return crypto.createHash('sha256').update(value).digest('hex');
+};
+
+export class VerdictCache {
+  private enabled: boolean;
+  private ttlMs: number;
+  private maxEntries: number;
+  private hits: number = 0;
+  private misses: number = 0;
+  private evictions: number = 0;
+
+  // Map preserves insertion order, which we use for LRU eviction
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(options: Partial<VerdictCacheOptions> = {}) {
+    this.enabled = options.enabled ?? false;
+    this.ttlMs = options.ttlMs || DEFAULT_CACHE_TTL_MS;
+    this.maxEntries = options.maxEntries || DEFAULT_CACHE_MAX_ENTRIES;
+  }
+
+  /**
+   * Build the cache key for a rule/content/judge combination
+   */
+  static buildKey(input: VerdictCacheKeyInput): string {
+    return [
+      input.rule.id,
+      hash(input.rule.judge_prompt || ''),
+      hash(input.rule.description || ''),
+      input.provider,
+      input.model,
+      input.temperature,
+      hash(input.content),
+      ...(input.context ? [hash(input.context)] : []),
+      ...(input.rule.on_fail === 'redact' ? ['redact'] : [])
+    ].join(':');
+  }
+
+  /**
+   * Whether the cache is currently enabled
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Update cache options at runtime
+   */
+  configure(options: Partial<VerdictCacheOptions>): void {
+    if (options.enabled !== undefined) {
+      this.enabled = options.enabled;
+      if (!this.enabled) {
+        this.entries.clear();
+      }
+    }
+    if (options.ttlMs) this.ttlMs = options.ttlMs;
+    if (options.maxEntries) {
+      this.maxEntries = options.maxEntries;
+      this.evictOverflow();
+    }
+  }
+
+  /**
+   * Look up a cached verdict, counting hits and misses
+   */
+  get(key: string): JudgeEvaluationResult | null {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    return entry.result;
+  }
+
+  /**
+   * Store a verdict
+   */
+  set(key: string, ruleId: string, result: JudgeEvaluationResult): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      ruleId,
+      result,
+      expiresAt: Date.now() + this.ttlMs
+    });
+    this.evictOverflow();
+  }
+
+  /**
+   * Remove all entries, or only those belonging to the given rule ids
+   */
+  clear(ruleIds?: string[]): number {
+    if (!ruleIds) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (ruleIds.includes(entry.ruleId)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): VerdictCacheStats {
+    return {
+      enabled: this.enabled,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlMs: this.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions
+    };
+  }
+
+  /**
+   * Drop least-recently-used entries until within the size bound
+   */
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+}
+
+export default VerdictCache;
@@ -7,12 +7,89 @@
  * 3. A weighted policy that passes despite one failure
  * 4. Handling of an LLM timeout on one rule
  * 5. A rule that returns UNCERTAIN verdict
+ * 6. ANY strategy
+ * 7. Policy validation
+ * 8. Verdict cache hits, misses and invalidation
+ * 9. Per-rule judge provider and model selection
+ * 10. Redacted content for failed redact rules
+ * 11. Deterministic regex, keyword and PII rules
+ * 12. Short-circuit evaluation for all/any strategies
+ * 13. Named policies and per-request policy selection
+ * 14. Policy revision diff and semver bump
+ * 15. Batch evaluation with a global concurrency cap
+ * 16. Rule results reported as each rule finishes (streaming)
+ * 17. Job webhook signatures and retry backoff
+ * 18. Role checks and JWT authentication
+ * 19. Tenant resolution and per-tenant judge-token quota
+ * 20. Request and estimated-token rate limits per tenant and API key
+ * 21. Token usage and cost per rule and verdict
+ * 22. Judge ensembles and vote combination
+ * 23. min_confidence downgrades and confidence-weighted scores
+ * 24. Priority and boolean expression strategies
+ * 25. Rule groups rolled up through their own strategies
+ * 26. Policy inheritance and the shared rule library
+ * 27. Conditional rules (applies_when) and NOT_APPLICABLE results
+ * 28. Chat transcripts with per-rule message scope
+ * 29. Guardrail input/output/context placeholders in judge prompts
+ * 30. Long content judged in overlapping chunks
+ * 31. Review queue triggers, resolutions and SLA
+ * 32. Test suite scoring, confusion matrix and run diffs
  * 
  * Run with: npm test
  */
 
+import { createHmac } from 'crypto';
 import { PolicyEngine } from '../services/PolicyEngine';
-import type { Policy, MockResponses, PolicyVerdict, Logger } from '../types';
+import { JudgeService, calculateBackoffDelay } from '../services/JudgeService';
+import { signWebhookPayload, isPrivateAddress, checkCallbackTarget, parseAllowedHosts } from '../services/JobService';
+import { AuthService, hasRole, verifyJwt } from '../services/AuthService';
+import { createAuthorize } from '../middleware/auth';
+import { createQuotaGuard, createTenantResolver } from '../middleware/tenant';
+import { TokenQuota } from '../services/TokenQuota';
+import { RateLimiter, MemoryRateLimitStore, estimateJudgeTokens } from '../services/RateLimiter';
+import { createRequestRateLimiter, createTokenRateLimiter } from '../middleware/rateLimiter';
+import { parseTenantLimits, parseTenantIds, isConfiguredTenant } from '../config/tenants';
+import { calculateCost, getModelPrice, parseModelPricing } from '../config/pricing';
+import { combineVotes, validateEnsemble } from '../services/JudgeEnsemble';
+import { parseExpression, evaluateExpression, validateExpression } from '../services/RuleExpression';
+import { createStrategy } from '../services/AggregationStrategy';
+import { detectLanguage, detectContentType } from '../services/RuleConditions';
+import { scopeContent, validateContent } from '../services/Transcript';
+import { fillPlaceholders, getPlaceholders, findMissingPlaceholders } from '../services/PromptTemplate';
+import { splitIntoChunks } from '../services/Chunker';
+import { MAX_REGEX_CONTENT_LENGTH, REGEX_TIMEOUT_MS } from '../services/LocalRuleEvaluator';
+import { getReviewTriggers, validateResolution, isOverdue } from '../services/ReviewService';
+import {
+  validateTestSuite,
+  scoreTestCase,
+  summarizeResults,
+  buildConfusionMatrix,
+  diffTestRuns,
+  getExpectedRules
+} from '../services/TestSuiteService';
+import type { Request, Response, Router } from 'express';
+import { createPolicyRoutes } from '../routes/PolicyRoutes';
+import { createLibraryRoutes } from '../routes/LibraryRoutes';
+import { createAuthRoutes } from '../routes/AuthRoutes';
+import { diffPolicies, classifyChanges, bumpVersion } from '../services/PolicyRevisionService';
+import type {
+  Policy,
+  Rule,
+  RuleInput,
+  RuleScope,
+  RuleConditions,
+  MockResponses,
+  PolicyVerdict,
+  Logger,
+  Config,
+  JudgeProviderName,
+  JudgeProviderInterface,
+  JudgeCompletionRequest,
+  RateLimitState,
+  RateLimitScope,
+  RateLimitOutcome,
+  ChatMessage
+} from '../types';
 
 // Test utilities
 let testsPassed = 0;
@@ -37,6 +114,65 @@ const mockLogger: Logger = {
   log: () => {}
 };
 
+interface RouteResponse {
+  status: number;
+  body?: unknown;
+  events: Array<{ event: string; data: Record<string, unknown> }>;
+}
+
+/**
+ * Send a request through a router with mock req/res, collecting the JSON
+ * body or the server-sent events it writes
+ */
+const callRoute = (
+  router: Router,
+  method: string,
+  url: string,
+  input: { body?: unknown; query?: Record<string, string> } = {}
+): Promise<RouteResponse> => {
+  return new Promise((resolve, reject) => {
+    const response: RouteResponse = { status: 200, events: [] };
+    let stream = '';
+    const req = { method, url, headers: {}, body: input.body, query: input.query || {}, get: () => undefined } as unknown as Request;
+    const res = {
+      locals: {},
+      headersSent: false,
+      status(code: number) {
+        response.status = code;
+        return res;
+      },
+      set: () => res,
+      setHeader: () => {},
+      flushHeaders() {
+        res.headersSent = true;
+      },
+      on: () => res,
+      write(chunk: string) {
+        stream += chunk;
+        return true;
+      },
+      json(body: unknown) {
+        response.body = body;
+        resolve(response);
+      },
+      end() {
+        response.events = stream.split('\n\n').filter(Boolean).map(block => {
+          const [eventLine = '', dataLine = ''] = block.split('\n');
+          return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+        });
+        resolve(response);
+      }
+    };
+    router(req, res as unknown as Response, (error?: unknown) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ status: 404, events: [] });
+      }
+    });
+  });
+};
+
 // Test policy configuration
 const testPolicy: Policy = {
   name: 'test_content_policy',
@@ -312,6 +448,2071 @@ async function testPolicyValidation(): Promise<void> {
   console.log('Validation tests completed');
 }
 
+/**
+ * Test 8: Verdict cache
+ */
+async function testVerdictCache(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 8: Verdict cache hits and invalidation');
+  console.log('========================================');
+
+  let judgeCalls = 0;
+  const countingResponse = () => {
+    judgeCalls++;
+    return { verdict: 'PASS' as const, confidence: 0.9, reasoning: 'Counted' };
+  };
+
+  const config: Config = {
+    policy: { ...testPolicy, rules: testPolicy.rules.map(r => ({ ...r })) },
+    judge: {
+      model: 'gpt-4o-mini',
+      temperature: 0.1,
+      maxTokens: 500,
+      timeout: 30000,
+      maxRetries: 3,
+      retryDelay: 1000
+    },
+    settings: {
+      parallelEvaluation: true,
+      debugLog: false,
+      cacheResults: true,
+      cacheTtlMs: 60000,
+      cacheMaxEntries: 100
+    }
+  };
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    config,
+    mockMode: true,
+    mockResponses: {
+      rule_1: countingResponse,
+      rule_2: countingResponse,
+      rule_3: countingResponse
+    }
+  });
+
+  await engine.evaluate('Repeated content');
+  await engine.evaluate('Repeated content');
+  assert(judgeCalls === 3, 'Repeated content should only reach the judge once per rule');
+
+  await engine.evaluate('Different content');
+  assert(judgeCalls === 6, 'Different content should miss the cache');
+
+  engine.updateRule('rule_1', { judge_prompt: 'Is this content really safe?' });
+  await engine.evaluate('Repeated content');
+  assert(judgeCalls === 7, 'Updated rule should be re-evaluated, others served from cache');
+
+  const metrics = (await engine.healthCheck()).judge.metrics;
+  assert(metrics.cacheHits === 5, 'Metrics should report 5 cache hits');
+  assert(metrics.cacheMisses === 7, 'Metrics should report 7 cache misses');
+
+  console.log('Cache metrics:', JSON.stringify(metrics, null, 2));
+
+  const rule2 = testPolicy.rules[1]!;
+  await engine.evaluate('Repeated content', {
+    policy: { ...testPolicy, rules: [{ ...rule2, description: 'Reworded rule 2' }] }
+  });
+  assert(judgeCalls === 8, 'A reworded rule description should miss the cache');
+
+  await engine.evaluate('Repeated content', {
+    policy: { ...testPolicy, rules: [{ ...rule2, on_fail: 'redact' }] }
+  });
+  assert(judgeCalls === 9, 'A redact rule should not be served a verdict judged without redaction spans');
+}
+
+/**
+ * Test 9: Per-rule provider selection
+ */
+async function testRuleProviders(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 9: Per-rule judge provider and model');
+  console.log('========================================');
+
+  const calls: Array<{ provider: JudgeProviderName; model: string }> = [];
+  const fakeProvider = (name: JudgeProviderName): JudgeProviderInterface => ({
+    name,
+    isConfigured: () => true,
+    complete: async (request: JudgeCompletionRequest) => {
+      calls.push({ provider: name, model: request.model });
+      return { text: JSON.stringify({ verdict: 'PASS', confidence: 0.9, reasoning: `Judged by ${name}` }) };
+    },
+    healthCheck: async () => {}
+  });
+
+  const judgeService = new JudgeService({
+    logger: mockLogger,
+    config: { provider: 'openai', model: 'gpt-4o-mini' },
+    providers: {
+      openai: fakeProvider('openai'),
+      anthropic: fakeProvider('anthropic'),
+      openai_compatible: fakeProvider('openai_compatible')
+    }
+  });
+
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+
+  const providerPolicy: Policy = {
+    ...testPolicy,
+    rules: [
+      { ...testPolicy.rules[0]!, id: 'default_rule' },
+      { ...testPolicy.rules[1]!, id: 'anthropic_rule', provider: 'anthropic' },
+      { ...testPolicy.rules[2]!, id: 'local_rule', provider: 'openai_compatible', model: 'llama3.1:70b' }
+    ]
+  };
+
+  const verdict = await engine.evaluate('Route me to the right judge', { policy: providerPolicy });
+
+  assert(verdict.final_verdict === 'ALLOW', 'Final verdict should be ALLOW');
+  assert(calls.some(c => c.provider === 'openai' && c.model === 'gpt-4o-mini'), 'Default rule should use the judge default provider and model');
+  assert(calls.some(c => c.provider === 'anthropic' && c.model.startsWith('claude')), 'Anthropic rule should use the provider default model');
+  assert(calls.some(c => c.provider === 'openai_compatible' && c.model === 'llama3.1:70b'), 'Local rule should use its own model');
+
+  const invalid = engine.validatePolicy({
+    ...providerPolicy,
+    rules: [{ id: 'r1', judge_prompt: 'test', provider: 'unknown' as JudgeProviderName }]
+  });
+  assert(invalid.valid === false, 'Unknown provider should fail validation');
+
+  // Created adapters pick up a new timeout; injected ones are kept
+  const configurable = new JudgeService({
+    logger: mockLogger,
+    mockMode: true,
+    config: { timeout: 30000 },
+    providers: { anthropic: fakeProvider('anthropic') }
+  });
+  type ProviderAccess = { getProvider(name: JudgeProviderName): JudgeProviderInterface & { options?: { timeout: number } } };
+  const getProvider = (name: JudgeProviderName) => (configurable as unknown as ProviderAccess).getProvider(name);
+  const before = getProvider('openai');
+  const injected = getProvider('anthropic');
+  assert(getProvider('openai') === before, 'Unchanged options should reuse the adapter');
+  configurable.updateConfig({ timeout: 5000 });
+  assert(getProvider('openai') !== before && getProvider('openai').options?.timeout === 5000, 'A new timeout should rebuild the adapter');
+  assert(getProvider('anthropic') === injected, 'Injected adapters should be kept');
+
+  console.log('Provider calls:', JSON.stringify(calls, null, 2));
+}
+
+/**
+ * Test 10: Redaction output
+ */
+async function testRedaction(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 10: Redacted content for redact rules');
+  console.log('========================================');
+
+  const content = 'Mail jane@example.com or call 555-0100 today.';
+
+  const redactPolicy: Policy = {
+    ...testPolicy,
+    default_action: 'warn',
+    rules: [
+      { ...testPolicy.rules[0]! },
+      {
+        id: 'no_email',
+        judge_prompt: 'Does the content contain email addresses?',
+        on_fail: 'redact',
+        redaction: { mask_style: 'category' }
+      },
+      {
+        id: 'no_phone',
+        judge_prompt: 'Does the content contain phone numbers?',
+        on_fail: 'redact'
+      }
+    ]
+  };
+
+  const mockResponses: MockResponses = {
+    rule_1: { verdict: 'PASS', confidence: 0.95, reasoning: 'Content is safe' },
+    // Offsets deliberately wrong - the engine should locate the text itself
+    no_email: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Email found', spans: [{ text: 'jane@example.com', start: 0, end: 3, category: 'email' }] },
+    no_phone: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Phone found', spans: [{ text: '555-0100', start: 30, end: 38 }] }
+  };
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses
+  });
+
+  const verdict = await engine.evaluate(content, { policy: redactPolicy });
+
+  assert(verdict.final_verdict === 'REDACT', 'Final verdict should be REDACT');
+  assert(verdict.redacted_content === 'Mail [EMAIL] or call [REDACTED] today.', 'Content should be masked per rule mask style');
+
+  const emailResult = verdict.rule_results.find(r => r.rule_id === 'no_email');
+  assert(emailResult?.spans?.[0]?.start === 5 && emailResult.spans[0].end === 21, 'Email span offsets should be resolved against the content');
+
+  const invalid = engine.validatePolicy({
+    ...redactPolicy,
+    rules: [{ id: 'r1', judge_prompt: 'test', on_fail: 'redact', redaction: { mask_style: 'blur' as 'hash' } }]
+  });
+  assert(invalid.valid === false, 'Unknown mask style should fail validation');
+
+  console.log('Redacted content:', verdict.redacted_content);
+}
+
+/**
+ * Test 11: Local (non-LLM) rule types
+ */
+async function testLocalRules(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 11: Deterministic regex, keyword and PII rules');
+  console.log('========================================');
+
+  const content = 'Card 4111 1111 1111 1111, order 1234 5678 9012 3456, SSN 123-45-6789. Project Falcon is CONFIDENTIAL.';
+
+  const localPolicy: Policy = {
+    ...testPolicy,
+    default_action: 'warn',
+    rules: [
+      { ...testPolicy.rules[0]! },
+      { id: 'no_pii', type: 'pii', pii_types: ['credit_card', 'ssn'], on_fail: 'redact', redaction: { mask_style: 'category' } },
+      { id: 'no_codenames', type: 'regex', pattern: 'project\\s+falcon', flags: 'i', on_fail: 'warn' },
+      { id: 'no_secrets', type: 'keyword', keywords: ['confidential', 'fal'], on_fail: 'warn' }
+    ]
+  };
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: { rule_1: { verdict: 'PASS', confidence: 0.95, reasoning: 'Content is safe' } }
+  });
+
+  const verdict = await engine.evaluate(content, { policy: localPolicy });
+  const byId = (id: string) => verdict.rule_results.find(r => r.rule_id === id);
+
+  assert(byId('no_pii')?.verdict === 'FAIL' && byId('no_pii')?.confidence === 1, 'PII rule should fail with full confidence');
+  assert(byId('no_pii')?.spans?.length === 2, 'Only the Luhn-valid card and the SSN should be detected');
+  assert(byId('no_codenames')?.verdict === 'FAIL', 'Case-insensitive regex should match');
+  assert(byId('no_secrets')?.verdict === 'FAIL' && byId('no_secrets')!.reasoning.includes('CONFIDENTIAL'), 'Keyword should match whole words regardless of case');
+  assert(
+    verdict.redacted_content === 'Card [CREDIT_CARD], order 1234 5678 9012 3456, SSN [SSN]. Project Falcon is CONFIDENTIAL.',
+    'PII spans should feed redaction'
+  );
+
+  const clean = await engine.evaluate('Nothing sensitive here.', { policy: localPolicy });
+  assert(clean.final_verdict === 'ALLOW', 'Clean content should pass all local rules');
+
+  const invalid = engine.validatePolicy({
+    ...localPolicy,
+    rules: [
+      { id: 'r1', type: 'regex', pattern: '(unclosed' },
+      { id: 'r2', type: 'keyword', keywords: [] },
+      { id: 'r3', type: 'pii', pii_types: ['passport' as 'ssn'] },
+      { id: 'r4', type: 'regex', pattern: 'ok' }
+    ]
+  });
+  assert(invalid.errors.length === 3, 'Invalid regex, empty keywords and unknown PII type should fail validation');
+
+  const backtracking = engine.validatePolicy({
+    ...localPolicy,
+    rules: [
+      { id: 'r1', type: 'regex', pattern: '(a+)+$' },
+      { id: 'r2', type: 'regex', pattern: '^(?:\\w+\\s?)*$' },
+      { id: 'r3', type: 'regex', pattern: '(\\d{3}-)?\\d+[+*]' },
+      { id: 'r4', type: 'regex', pattern: '(foo|bar){2}\\s+' },
+      { id: 'r5', type: 'regex', pattern: '(a|a)*b' },
+      { id: 'r6', type: 'regex', pattern: '(?:a|ab)*c' },
+      { id: 'r7', type: 'regex', pattern: '(\\w|\\d)+$' },
+      { id: 'r8', type: 'regex', pattern: 'colou?r|gr[ae]y' }
+    ]
+  });
+  assert(
+    backtracking.errors.filter(e => e.includes('nested quantifier')).length === 2 &&
+      backtracking.errors.filter(e => e.includes('repeated alternation')).length === 3 &&
+      backtracking.errors.length === 5,
+    'Nested quantifiers and repeated alternation should fail validation; single quantifiers and bounded groups should not'
+  );
+
+  // Slow patterns the checks do not catch are stopped by the timeout
+  const slowStart = Date.now();
+  const slow = await engine.evaluate('x'.repeat(20000), {
+    policy: { ...localPolicy, rules: [{ id: 'slow', type: 'regex', pattern: '.*.*.*=', on_fail: 'warn' }] }
+  });
+  assert(
+    slow.rule_results[0]?.verdict === 'UNCERTAIN' && slow.rule_results[0].reasoning.includes('exceeded') &&
+      Date.now() - slowStart < REGEX_TIMEOUT_MS * 5,
+    'Regex matching should stop after the timeout'
+  );
+
+  // Rule updates are validated with the stored rule, like new rules
+  const ruleRoutes = createPolicyRoutes(engine, { logger: mockLogger });
+  engine.addRule({ id: 'codename', type: 'regex', pattern: 'falcon', on_fail: 'warn' });
+  const badUpdates: Array<Partial<RuleInput>> = [
+    { pattern: '(a+)+$' },
+    { type: 'llm' },
+    { min_confidence: 5 },
+    { scope: 'everything' as RuleScope },
+    { type: 'llm', judge_prompt: 'Is it safe?', ensemble: { samples: 0 } },
+    { applies_when: { metadata: 'not-an-object' } as unknown as RuleConditions },
+    { type: 'llm', judge_prompt: 'Is it about {{unknown_field}}?' }
+  ];
+  for (const updates of badUpdates) {
+    const rejected = await callRoute(ruleRoutes, 'PUT', '/rules/codename', { body: updates });
+    assert(rejected.status === 400, `Invalid rule update should get 400: ${JSON.stringify(updates)}`);
+  }
+  assert(
+    engine.getConfig().policy.rules.find(rule => rule.id === 'codename')?.pattern === 'falcon',
+    'Rejected updates should leave the rule unchanged'
+  );
+  const accepted = await callRoute(ruleRoutes, 'PUT', '/rules/codename', { body: { pattern: 'falcon|eagle' } });
+  assert(accepted.status === 200, 'Valid rule updates should be applied');
+  const missingRule = await callRoute(ruleRoutes, 'PUT', '/rules/unknown', { body: { pattern: 'x' } });
+  assert(missingRule.status === 404, 'Updating an unknown rule should get 404');
+
+  const longContent = await engine.evaluate('x'.repeat(MAX_REGEX_CONTENT_LENGTH + 1), {
+    policy: { ...localPolicy, rules: localPolicy.rules.filter(rule => rule.type === 'regex') }
+  });
+  assert(
+    longContent.rule_results.every(r => r.verdict === 'UNCERTAIN' && r.reasoning.includes('exceeds')),
+    'Regex rules should not run on content over the length cap'
+  );
+
+  console.log('Local rule results:', JSON.stringify(verdict.rule_results.map(r => [r.rule_id, r.verdict, r.reasoning])));
+}
+
+/**
+ * Test 12: Short-circuit evaluation
+ */
+async function testShortCircuit(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 12: Short-circuit evaluation');
+  console.log('========================================');
+
+  // Parallel: a block failure settles ALL; slow judge calls are abandoned
+  const parallelEngine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'FAIL', confidence: 0.95, reasoning: 'Unsafe content' },
+      rule_2: { timeout: 5000 },
+      rule_3: { timeout: 5000 }
+    }
+  });
+
+  const blocked = await parallelEngine.evaluate('Test content', { policy: testPolicy, shortCircuit: true });
+
+  assert(blocked.final_verdict === 'BLOCK', 'Final verdict should be BLOCK');
+  assert(blocked.total_latency_ms < 1000, 'Outstanding judge calls should be abandoned');
+  assert(
+    blocked.rule_results.filter(r => r.verdict === 'SKIPPED').map(r => r.rule_id).join(',') === 'rule_2,rule_3',
+    'Unfinished rules should be marked SKIPPED'
+  );
+  assert(blocked.summary?.skipped === 2 && blocked.summary.calls_saved === 2, 'Summary should report skipped rules and saved calls');
+
+  // Sequential: the first PASS settles ANY, later rules never start
+  let judgeCalls = 0;
+  const counted = (verdict: 'PASS' | 'FAIL') => () => {
+    judgeCalls++;
+    return { verdict, confidence: 0.9, reasoning: `Counted ${verdict}` };
+  };
+
+  const sequentialEngine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: { rule_1: counted('PASS'), rule_2: counted('FAIL'), rule_3: counted('FAIL') }
+  });
+  sequentialEngine.updateConfig({
+    settings: { parallelEvaluation: false, debugLog: false, cacheResults: false, shortCircuit: true }
+  });
+
+  const allowed = await sequentialEngine.evaluate('Test content', {
+    policy: { ...testPolicy, evaluation_strategy: 'any' }
+  });
+
+  assert(allowed.final_verdict === 'ALLOW', 'ANY should allow after the first pass');
+  assert(judgeCalls === 1, `Only one judge call should be made (made ${judgeCalls})`);
+
+  // A pending rule that could escalate the action must still run
+  judgeCalls = 0;
+  const escalating = await sequentialEngine.evaluate('Test content', {
+    policy: {
+      ...testPolicy,
+      default_action: 'warn',
+      rules: [testPolicy.rules[1]!, testPolicy.rules[2]!, { ...testPolicy.rules[0]!, on_fail: 'warn' }]
+    }
+  });
+  assert(judgeCalls === 2, 'Redact rule should run after a warn failure; the trailing warn rule is skipped');
+  assert(escalating.final_verdict === 'REDACT', 'Final verdict should be REDACT');
+
+  console.log('Short-circuit summary:', JSON.stringify(blocked.summary));
+}
+
+/**
+ * Test 13: Named policies and per-request policy selection
+ */
+async function testNamedPolicies(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 13: Named policies');
+  console.log('========================================');
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' },
+      strict_rule: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Too informal' }
+    }
+  });
+  engine.updateConfig({ policy: testPolicy });
+
+  const strictPolicy: Policy = {
+    name: 'strict_policy',
+    version: '1.0.0',
+    default_action: 'block',
+    rules: [
+      { id: 'strict_rule', description: 'Strict rule', judge_prompt: 'Is this formal?', on_fail: 'block', weight: 1 }
+    ],
+    evaluation_strategy: 'all'
+  };
+
+  const created = await engine.createPolicyAsync('strict', strictPolicy);
+  assert(created.success, 'Named policy should be created');
+
+  const duplicate = await engine.createPolicyAsync('strict', strictPolicy);
+  assert(!duplicate.success, 'Duplicate policy id should be rejected');
+
+  const policies = engine.listPolicies();
+  assert(
+    policies.length === 2 && policies.filter(p => p.isDefault).map(p => p.policyId).join() === 'default',
+    'listPolicies should include the primary and named policies'
+  );
+
+  const named = await engine.evaluate('Test content', { policyId: 'strict' });
+  assert(named.policy_name === 'strict_policy' && named.policy_id === 'strict', 'Evaluation should use the named policy');
+  assert(named.final_verdict === 'BLOCK', 'Named policy verdict should be BLOCK');
+
+  const primary = await engine.evaluate('Test content');
+  assert(primary.policy_name === testPolicy.name && primary.policy_id === undefined, 'Requests without policyId use the primary policy');
+
+  let unknownError = '';
+  try {
+    await engine.evaluate('Test content', { policyId: 'missing' });
+  } catch (error) {
+    unknownError = (error as Error).message;
+  }
+  assert(unknownError.includes('not found'), 'Unknown policyId should throw');
+
+  const updated = await engine.updatePolicyAsync('strict', { evaluation_strategy: 'any' });
+  assert(updated.success && engine.getPolicyById('strict')?.evaluation_strategy === 'any', 'Named policy should be updated');
+
+  const primaryDelete = await engine.deletePolicyAsync('default');
+  assert(!primaryDelete.success, 'Primary policy cannot be deleted');
+
+  const deleted = await engine.deletePolicyAsync('strict');
+  assert(deleted.success && engine.getPolicyById('strict') === null, 'Named policy should be deleted');
+}
+
+/**
+ * Test 14: Policy revision diff and semver bump
+ */
+async function testPolicyRevisions(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 14: Policy revision diff and semver bump');
+  console.log('========================================');
+
+  assert(bumpVersion('1.0', 'patch') === '1.0.1', 'Short versions should be padded before bumping');
+  assert(bumpVersion('1.4.2', 'minor') === '1.5.0', 'Minor bump should reset patch');
+  assert(bumpVersion('v2.3.1', 'major') === '3.0.0', 'Major bump should reset minor and patch');
+
+  const unchanged = diffPolicies(testPolicy, { ...testPolicy, rules: testPolicy.rules.map(r => ({ ...r })) });
+  assert(classifyChanges(unchanged) === null, 'Identical policies should need no bump');
+
+  const described = diffPolicies(testPolicy, {
+    ...testPolicy,
+    rules: testPolicy.rules.map(r => (r.id === 'rule_1' ? { ...r, description: 'Reworded' } : r))
+  });
+  assert(classifyChanges(described) === 'patch', 'Description-only change should be a patch');
+
+  const added = diffPolicies(testPolicy, {
+    ...testPolicy,
+    rules: [
+      ...testPolicy.rules.map(r => (r.id === 'rule_2' ? { ...r, on_fail: 'block' as const } : r)),
+      { id: 'rule_4', description: 'New rule', type: 'keyword', keywords: ['secret'], on_fail: 'block' }
+    ]
+  });
+  assert(classifyChanges(added) === 'minor', 'Added or changed rules should be a minor bump');
+  assert(
+    added.rule_changes.map(c => `${c.rule_id}:${c.change}`).join(',') === 'rule_2:modified,rule_4:added',
+    'Diff should list modified and added rules'
+  );
+  assert(added.rule_changes[0]?.fields?.join(',') === 'on_fail', 'Modified rule should list changed fields');
+
+  const removed = diffPolicies(testPolicy, {
+    ...testPolicy,
+    evaluation_strategy: 'any',
+    rules: testPolicy.rules.filter(r => r.id !== 'rule_3')
+  });
+  assert(classifyChanges(removed) === 'major', 'Removed rules or strategy change should be a major bump');
+  assert(
+    removed.policy_changes.length === 1 && removed.policy_changes[0]?.field === 'evaluation_strategy',
+    'Diff should list policy field changes'
+  );
+
+  // Without MongoDB, rollback reports that revisions are unavailable
+  const engine = new PolicyEngine({ logger: mockLogger, mockMode: true });
+  const rollback = await engine.rollbackPolicyAsync('default', 1);
+  assert(!rollback.success, 'Rollback should fail without revision storage');
+}
+
+/**
+ * Test 15: Batch evaluation with a global concurrency cap
+ */
+async function testBatchEvaluation(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 15: Batch evaluation');
+  console.log('========================================');
+
+  let active = 0;
+  let maxActive = 0;
+  const slowProvider: JudgeProviderInterface = {
+    name: 'openai',
+    isConfigured: () => true,
+    complete: async (request: JudgeCompletionRequest) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+      const verdict = request.userPrompt.includes('bad') ? 'FAIL' : 'PASS';
+      return { text: JSON.stringify({ verdict, confidence: 0.9, reasoning: `Judged ${verdict}` }) };
+    },
+    healthCheck: async () => {}
+  };
+
+  // Reports a short rate limit the first time it is asked
+  class RateLimitedJudge extends JudgeService {
+    private reported = false;
+
+    override getRateLimitState(): RateLimitState {
+      if (this.reported) {
+        return super.getRateLimitState();
+      }
+      this.reported = true;
+      return { isLimited: true, retryAfterMs: 30, lastRateLimitTime: Date.now() };
+    }
+  }
+
+  const judgeService = new RateLimitedJudge({
+    logger: mockLogger,
+    config: { provider: 'openai', model: 'gpt-4o-mini' },
+    providers: { openai: slowProvider }
+  });
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+  engine.updateConfig({
+    policy: { ...testPolicy, rules: [testPolicy.rules[0]!] },
+    settings: { parallelEvaluation: true, debugLog: false, cacheResults: false, batchConcurrency: 2 }
+  });
+
+  const items = Array.from({ length: 6 }, (_, i) => ({
+    id: `msg_${i}`,
+    content: i % 3 === 0 ? `bad message ${i}` : `fine message ${i}`
+  }));
+
+  const completed: string[] = [];
+  const batch = await engine.evaluateBatch(items, {
+    concurrency: 10,
+    onItemComplete: result => {
+      completed.push(result.id);
+    }
+  });
+
+  assert(maxActive === 2, `Concurrency should be capped by settings.batchConcurrency (max ${maxActive})`);
+  assert(batch.summary.concurrency === 2, 'Requested concurrency should not exceed the global cap');
+  assert(batch.items.map(r => r.id).join() === items.map(i => i.id).join(), 'Results should keep item order');
+  assert(
+    batch.summary.verdicts.BLOCK === 2 && batch.summary.verdicts.ALLOW === 4,
+    'Summary should count verdicts per item'
+  );
+  assert(batch.summary.completed === 6 && batch.summary.errors === 0, 'All items should complete');
+  assert(batch.summary.rate_limit_waits === 1, 'Batch should pause while the judge is rate limited');
+  assert(completed.length === 6, 'onItemComplete should run for every item');
+
+  let unknownError = '';
+  try {
+    await engine.evaluateBatch(items, { policyId: 'missing' });
+  } catch (error) {
+    unknownError = (error as Error).message;
+  }
+  assert(unknownError.includes('not found'), 'Unknown policyId should fail the batch');
+
+  console.log('Batch summary:', JSON.stringify(batch.summary));
+}
+
+/**
+ * Test 16: Rule results are reported as each rule finishes (streaming)
+ */
+async function testRuleResultStreaming(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 16: Streaming rule results');
+  console.log('========================================');
+
+  // rule_2 answers first, then rule_3, then rule_1
+  const delays: Record<string, number> = { safe: 150, professional: 10, appropriate: 80 };
+  const delayedProvider: JudgeProviderInterface = {
+    name: 'openai',
+    isConfigured: () => true,
+    complete: async (request: JudgeCompletionRequest) => {
+      const prompt = `${request.systemPrompt}\n${request.userPrompt}`;
+      const key = Object.keys(delays).find(word => prompt.includes(`${word}?`)) || 'safe';
+      await new Promise(resolve => setTimeout(resolve, delays[key]));
+      return { text: JSON.stringify({ verdict: 'PASS', confidence: 0.9, reasoning: `Judged ${key}` }) };
+    },
+    healthCheck: async () => {}
+  };
+
+  const judgeService = new JudgeService({
+    logger: mockLogger,
+    config: { provider: 'openai', model: 'gpt-4o-mini' },
+    providers: { openai: delayedProvider }
+  });
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+  engine.updateConfig({
+    settings: { parallelEvaluation: true, debugLog: false, cacheResults: false }
+  });
+
+  const streamed: string[] = [];
+  const verdict = await engine.evaluate('Test content', {
+    policy: testPolicy,
+    onRuleResult: result => {
+      streamed.push(result.rule_id);
+    }
+  });
+
+  assert(streamed.join(',') === 'rule_2,rule_3,rule_1', `Rules should be reported in completion order (got ${streamed.join(',')})`);
+  assert(verdict.rule_results.map(r => r.rule_id).join(',') === 'rule_1,rule_2,rule_3', 'Final verdict should keep policy rule order');
+
+  // A failing callback must not fail the evaluation
+  const guarded = await engine.evaluate('Test content', {
+    policy: testPolicy,
+    onRuleResult: () => {
+      throw new Error('client went away');
+    }
+  });
+  assert(guarded.final_verdict === 'ALLOW', 'Callback errors should not affect the verdict');
+
+  // Rules skipped by short-circuit evaluation are reported after the rules that settled the verdict
+  const shortCircuitEngine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'FAIL', confidence: 0.95, reasoning: 'Unsafe content' },
+      rule_2: { timeout: 5000 },
+      rule_3: { timeout: 5000 }
+    }
+  });
+  const reported: string[] = [];
+  const blocked = await shortCircuitEngine.evaluate('Test content', {
+    policy: testPolicy,
+    shortCircuit: true,
+    onRuleResult: result => {
+      reported.push(result.rule_id);
+    }
+  });
+  assert(reported.join(',') === 'rule_1,rule_2,rule_3', 'Skipped rules should be reported too, once per rule');
+  assert(blocked.rule_results.length === 3, 'Skipped rules should still appear in the final verdict');
+  assert(
+    blocked.rule_results.filter(r => r.verdict === 'SKIPPED').length === 2,
+    'Reported rules should match the final verdict'
+  );
+
+  const sequentialReported: string[] = [];
+  shortCircuitEngine.updateConfig({
+    settings: { parallelEvaluation: false, debugLog: false, cacheResults: false }
+  });
+  await shortCircuitEngine.evaluate('Test content', {
+    policy: testPolicy,
+    shortCircuit: true,
+    onRuleResult: result => {
+      sequentialReported.push(`${result.rule_id}:${result.verdict}`);
+    }
+  });
+  assert(
+    sequentialReported.join(',') === 'rule_1:FAIL,rule_2:SKIPPED,rule_3:SKIPPED',
+    'Sequential short-circuiting should report the rules it never started'
+  );
+
+  // The stream sends one rule event per rule in the final verdict
+  const streamRoutes = createPolicyRoutes(shortCircuitEngine, { logger: mockLogger });
+  const sse = await callRoute(streamRoutes, 'POST', '/evaluate/stream', {
+    body: { content: 'Test content', policy: testPolicy, short_circuit: true }
+  });
+  const ruleEvents = sse.events.filter(e => e.event === 'rule');
+  const resultEvent = sse.events.find(e => e.event === 'result');
+  const finalRules = (resultEvent?.data['rule_results'] as Array<{ rule_id: string; verdict: string }> | undefined) || [];
+  assert(
+    ruleEvents.length === finalRules.length &&
+      finalRules.every(r => ruleEvents.some(e => e.data['rule_id'] === r.rule_id && e.data['verdict'] === r.verdict)),
+    'The stream should send one rule event per rule, matching the final verdict'
+  );
+  assert(ruleEvents[ruleEvents.length - 1]?.data['completed'] === 3, 'Skipped rules should count towards completed');
+
+  console.log('Streamed order:', streamed.join(', '));
+}
+
+/**
+ * Test 17: Job webhook signatures and retry backoff
+ */
+async function testJobWebhookHelpers(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 17: Job webhook signatures and backoff');
+  console.log('========================================');
+
+  const body = JSON.stringify({ event: 'job.completed', jobId: 'job_1' });
+  const signature = signWebhookPayload('secret', '1700000000', body);
+  const expected = createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+  assert(signature === `sha256=${expected}`, 'Signature should be an HMAC of "<timestamp>.<body>"');
+  assert(
+    signWebhookPayload('other-secret', '1700000000', body) !== signature,
+    'Signature should depend on the secret'
+  );
+
+  const retry = { maxRetries: 5, initialDelayMs: 1000, maxDelayMs: 5000, backoffMultiplier: 2, jitterFactor: 0 };
+  const delays = [1, 2, 3, 4].map(attempt => calculateBackoffDelay(attempt, retry));
+
+  assert(delays.join(',') === '1000,2000,4000,5000', `Backoff should double and cap (got ${delays.join(',')})`);
+  assert(calculateBackoffDelay(1, retry, 3000) === 3000, 'Retry-After should raise the delay');
+
+  // Callbacks must not reach internal services
+  const blocked = ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe'];
+  assert(blocked.every(isPrivateAddress), 'Private, loopback and link-local addresses should be blocked');
+  assert(!['93.184.216.34', '8.8.8.8', '2606:4700::1111'].some(isPrivateAddress), 'Public addresses should be allowed');
+  assert(
+    ((await checkCallbackTarget('http://169.254.169.254/latest/meta-data')) || '').includes('private'),
+    'Callbacks to the metadata service should be refused'
+  );
+  assert(
+    ((await checkCallbackTarget('http://[::ffff:7f00:1]:8080/hook')) || '').includes('private'),
+    'IPv4-mapped loopback should be refused'
+  );
+  assert(await checkCallbackTarget('https://8.8.8.8/hook') === null, 'Public callback targets should be accepted');
+  const allowedHosts = parseAllowedHosts(' Hooks.example.com, localhost ');
+  assert(await checkCallbackTarget('http://localhost:4000/hook', allowedHosts) === null, 'Allowlisted hosts should be accepted even when private');
+  assert(await checkCallbackTarget('https://api.hooks.example.com/x', allowedHosts) === null, 'Subdomains of allowlisted hosts should be accepted');
+  assert(
+    ((await checkCallbackTarget('https://8.8.8.8/hook', allowedHosts)) || '').includes('not in JOB_CALLBACK_ALLOWED_HOSTS'),
+    'With an allowlist, other hosts should be refused'
+  );
+
+  console.log('Backoff delays:', delays.join(', '));
+}
+
+/**
+ * Test 18: Role checks and JWT authentication
+ */
+async function testAuthorization(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 18: Role checks and JWT authentication');
+  console.log('========================================');
+
+  const secret = 'test-secret';
+  const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signToken = (claims: object, alg: string = 'HS256'): string => {
+    const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+    return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+  };
+  const now = Math.floor(Date.now() / 1000);
+
+  assert(hasRole('admin', 'editor') && hasRole('editor', 'evaluator'), 'Higher roles should include lower roles');
+  assert(!hasRole('evaluator', 'editor'), 'Evaluator should not have editor access');
+
+  const editorToken = signToken({ sub: 'user_1', name: 'Dana', role: 'editor', exp: now + 60 });
+  assert(verifyJwt(editorToken, secret)?.['sub'] === 'user_1', 'Valid token should verify');
+  assert(verifyJwt(editorToken, 'wrong-secret') === null, 'Wrong secret should be rejected');
+  assert(verifyJwt(signToken({ sub: 'user_1', role: 'editor', exp: now - 1 }), secret) === null, 'Expired token should be rejected');
+  assert(verifyJwt(signToken({ sub: 'user_1', role: 'editor' }, 'none'), secret) === null, 'Only HS256 should be accepted');
+
+  const authService = new AuthService({ logger: mockLogger, jwtSecret: secret });
+  assert(
+    authService.authenticateJwt(signToken({ sub: 'user_2', role: 'superuser' })) === null,
+    'Unknown roles should be rejected'
+  );
+
+  // Run the middleware against a minimal request/response
+  const authorize = createAuthorize(authService, { logger: mockLogger });
+  const call = async (role: 'evaluator' | 'editor' | 'admin', authorization?: string) => {
+    const outcome = { status: 200, nextCalled: false, locals: {} as Record<string, unknown> };
+    const req = {
+      get: (name: string) => (name.toLowerCase() === 'authorization' ? authorization : undefined),
+      originalUrl: '/api/policy/rules'
+    } as unknown as Request;
+    const res = {
+      locals: outcome.locals,
+      status(code: number) {
+        outcome.status = code;
+        return this;
+      },
+      json() {
+        return this;
+      }
+    } as unknown as Response;
+    await authorize(role)(req, res, () => {
+      outcome.nextCalled = true;
+    });
+    return outcome;
+  };
+
+  const missing = await call('evaluator');
+  assert(missing.status === 401 && !missing.nextCalled, 'Missing credentials should get 401');
+
+  const forbidden = await call('admin', `Bearer ${editorToken}`);
+  assert(forbidden.status === 403 && !forbidden.nextCalled, 'Editor should get 403 on admin routes');
+
+  const allowed = await call('editor', `Bearer ${editorToken}`);
+  assert(allowed.nextCalled, 'Editor should reach editor routes');
+  assert(
+    (allowed.locals['principal'] as { name?: string } | undefined)?.name === 'Dana',
+    'Principal should be stored on res.locals'
+  );
+
+  // With auth disabled, API keys cannot be managed at all
+  const openAuthRoutes = createAuthRoutes(authService, { logger: mockLogger });
+  const createWithoutAuth = await callRoute(openAuthRoutes, 'POST', '/keys', { body: { name: 'sneaky', role: 'admin' } });
+  assert(createWithoutAuth.status === 403, 'Creating keys should be refused while auth is disabled');
+  assert((await callRoute(openAuthRoutes, 'GET', '/keys')).status === 403, 'Listing keys should be refused while auth is disabled');
+  assert((await callRoute(openAuthRoutes, 'DELETE', '/keys/key_1')).status === 403, 'Revoking keys should be refused while auth is disabled');
+  assert((await callRoute(openAuthRoutes, 'GET', '/me')).status === 200, 'GET /me should still work while auth is disabled');
+
+  const enabledAuthRoutes = createAuthRoutes(authService, { logger: mockLogger, authEnabled: true });
+  const createWithAuth = await callRoute(enabledAuthRoutes, 'POST', '/keys', { body: { role: 'admin' } });
+  assert(createWithAuth.status === 400, 'Key routes should be reachable once auth is enabled');
+}
+
+/**
+ * Test 19: Tenants and token quotas
+ */
+async function testTenantQuotas(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 19: Tenant resolution and token quota');
+  console.log('========================================');
+
+  const secret = 'test-secret';
+  const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signToken = (claims: object): string => {
+    const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+    return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+  };
+
+  const authService = new AuthService({ logger: mockLogger, jwtSecret: secret });
+  assert(
+    authService.authenticateJwt(signToken({ sub: 'user_1', role: 'evaluator', tenant: 'search' }))?.tenantId === 'search',
+    'JWT tenant claim should set the tenant'
+  );
+  assert(
+    authService.authenticateJwt(signToken({ sub: 'user_1', role: 'evaluator' }))?.tenantId === 'default',
+    'Tokens without a tenant claim should use the default tenant'
+  );
+  assert(
+    authService.authenticateJwt(signToken({ sub: 'user_1', role: 'evaluator', tenant: '../other' })) === null,
+    'Invalid tenant claims should be rejected'
+  );
+
+  const limits = parseTenantLimits('{"search":{"rateLimit":120,"tokenQuota":1000},"ads":{"tokenQuota":"lots"}}');
+  assert(limits['search']?.rateLimit === 120 && limits['search']?.tokenQuota === 1000, 'TENANT_LIMITS should be parsed per tenant');
+  assert(limits['ads']?.tokenQuota === undefined, 'Non-numeric limits should be ignored');
+
+  // Without auth, X-Tenant-Id only accepts configured tenants
+  const tenantIds = parseTenantIds(' search, ads ,../other,');
+  assert(tenantIds.join(',') === 'search,ads', 'TENANT_IDS should be parsed and invalid ids dropped');
+  assert(isConfiguredTenant('default'), 'The default tenant should always be configured');
+
+  const resolver = createTenantResolver({ logger: mockLogger, isKnownTenant: tenantId => tenantIds.includes(tenantId) });
+  const resolve = async (tenantId?: string) => {
+    const outcome = { status: 200, nextCalled: false, locals: {} as Record<string, unknown> };
+    const req = { get: (name: string) => (name === 'X-Tenant-Id' ? tenantId : undefined) } as unknown as Request;
+    const res = {
+      locals: outcome.locals,
+      status(code: number) {
+        outcome.status = code;
+        return this;
+      },
+      json() {
+        return this;
+      }
+    } as unknown as Response;
+    await resolver(req, res, () => {
+      outcome.nextCalled = true;
+    });
+    return outcome;
+  };
+
+  const known = await resolve('search');
+  assert(known.nextCalled && known.locals['tenantId'] === 'search', 'Configured tenants should be resolved from X-Tenant-Id');
+  const unknown = await resolve('random-1234');
+  assert(unknown.status === 400 && !unknown.nextCalled, 'Unconfigured tenants should get 400');
+  assert((await resolve()).locals['tenantId'] === 'default', 'Requests without X-Tenant-Id should use the default tenant');
+
+  // Judge calls report provider token usage
+  const judgeService = new JudgeService({
+    logger: mockLogger,
+    providers: {
+      openai: {
+        name: 'openai',
+        isConfigured: () => true,
+        complete: async () => ({
+          text: JSON.stringify({ verdict: 'PASS', confidence: 0.9, reasoning: 'Fine' }),
+          usage: { input_tokens: 600, output_tokens: 100 }
+        }),
+        healthCheck: async () => {}
+      }
+    }
+  });
+
+  const quotas: Record<string, number> = { search: 1000, ads: 0 };
+  const tokenQuota = new TokenQuota({ windowMs: 60000, getLimit: tenantId => quotas[tenantId] ?? 0 });
+  judgeService.on('judge:usage', (event: { usage: { input_tokens: number; output_tokens: number } }) => {
+    tokenQuota.record('search', event.usage);
+  });
+
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+  await engine.evaluate('Count my tokens', { policy: { ...testPolicy, rules: [testPolicy.rules[0]!] } });
+
+  const status = tokenQuota.getStatus('search');
+  assert(status.total_tokens === 700 && status.remaining === 300, 'Usage should be counted against the tenant');
+  assert(tokenQuota.getStatus('ads').total_tokens === 0, 'Other tenants should not see the usage');
+  assert(judgeService.getMetrics().inputTokens === 600, 'Judge metrics should include token usage');
+
+  // The guard refuses evaluations once the quota is spent
+  const guard = createQuotaGuard(tokenQuota, { logger: mockLogger });
+  const callGuard = (tenantId: string) => {
+    const outcome = { status: 200, nextCalled: false, headers: {} as Record<string, string> };
+    const res = {
+      locals: { tenantId },
+      set(name: string, value: string) {
+        outcome.headers[name] = value;
+        return this;
+      },
+      status(code: number) {
+        outcome.status = code;
+        return this;
+      },
+      json() {
+        return this;
+      }
+    } as unknown as Response;
+    guard({} as Request, res, () => {
+      outcome.nextCalled = true;
+    });
+    return outcome;
+  };
+
+  assert(callGuard('search').nextCalled, 'Tenant under its quota should be let through');
+
+  tokenQuota.record('search', { input_tokens: 300, output_tokens: 0 });
+  const exceeded = callGuard('search');
+  assert(exceeded.status === 429 && !exceeded.nextCalled, 'Tenant over its quota should get 429');
+  assert(!!exceeded.headers['Retry-After'], 'Quota rejection should set Retry-After');
+
+  tokenQuota.record('ads', { input_tokens: 1000000, output_tokens: 0 });
+  assert(callGuard('ads').nextCalled, 'Tenants without a quota should be unlimited');
+
+  assert(tokenQuota.getStatus('search', Date.now() + 60000).total_tokens === 0, 'Usage should reset with the window');
+}
+
+/**
+ * Test 20: Rate limits by requests and estimated judge tokens
+ */
+async function testRateLimits(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 20: Request and token rate limits');
+  console.log('========================================');
+
+  // Token estimates grow with rule count and content length
+  const llmRule = testPolicy.rules[0]!;
+  const smallCheck = estimateJudgeTokens([llmRule], 200);
+  const largeCheck = estimateJudgeTokens(Array.from({ length: 50 }, (_, i) => ({ ...llmRule, id: `rule_${i}` })), 10240);
+  assert(smallCheck > 0 && largeCheck > smallCheck * 100, 'A 50-rule policy on 10 KB should cost far more than a 1-rule check');
+  assert(
+    estimateJudgeTokens([{ id: 'no_email', type: 'pii', pii_types: ['email'], on_fail: 'block' }], 10240) === 0,
+    'Local rules should not count judge tokens'
+  );
+
+  // Counters are per key and window; rejected requests are not counted
+  const limiter = new RateLimiter({ store: new MemoryRateLimitStore(), windowMs: 60000, logger: mockLogger });
+  const now = Date.now();
+  const check = (id: string) => [{ dimension: 'requests' as const, scope: 'tenant' as const, id, limit: 2, cost: 1 }];
+
+  assert((await limiter.consume(check('search'), now)).allowed, 'First request should be allowed');
+  assert((await limiter.consume(check('search'), now)).allowed, 'Second request should be allowed');
+  const third = await limiter.consume(check('search'), now);
+  assert(!third.allowed && third.outcomes[0]?.remaining === 0, 'Third request should exceed the limit');
+  assert((await limiter.consume(check('ads'), now)).allowed, 'Other tenants should have their own counter');
+  assert((await limiter.consume(check('search'), now + 60000)).allowed, 'Counters should reset with the window');
+
+  const rolledBack = await limiter.consume([
+    { dimension: 'tokens', scope: 'tenant', id: 'rollback', limit: 1000, cost: 400 },
+    { dimension: 'tokens', scope: 'key', id: 'rollback:key_1', limit: 300, cost: 400 }
+  ], now);
+  const afterRollback = await limiter.consume([{ dimension: 'tokens', scope: 'tenant', id: 'rollback', limit: 1000, cost: 1 }], now);
+  assert(!rolledBack.allowed && afterRollback.outcomes[0]?.used === 1, 'A rejected request should not count against any limit');
+
+  // Middleware: tenant and per-key limits, standard headers and 429
+  const callMiddleware = async (
+    middleware: (req: Request, res: Response, next: () => void) => unknown,
+    locals: Record<string, unknown>,
+    body: unknown = {},
+    ip: string = '127.0.0.1'
+  ) => {
+    const outcome = { status: 200, nextCalled: false, headers: {} as Record<string, string>, body: undefined as unknown };
+    const res = {
+      locals,
+      set(name: string, value: string) {
+        outcome.headers[name] = value;
+        return this;
+      },
+      status(code: number) {
+        outcome.status = code;
+        return this;
+      },
+      json(payload: unknown) {
+        outcome.body = payload;
+        return this;
+      }
+    } as unknown as Response;
+    await middleware({ method: 'POST', body, ip } as Request, res, () => {
+      outcome.nextCalled = true;
+    });
+    return outcome;
+  };
+
+  const getLimits = (_tenantId: string, scope: RateLimitScope) =>
+    scope === 'tenant' ? { rateLimit: 3, tokenRateLimit: 2000 } : { rateLimit: scope === 'key' ? 1 : 2, tokenRateLimit: 0 };
+  const requestLimiter = createRequestRateLimiter(
+    new RateLimiter({ windowMs: 60000, logger: mockLogger }),
+    { logger: mockLogger, getLimits }
+  );
+  const principal = (id: string) => ({ id, role: 'evaluator', method: 'api_key', tenantId: 'search' });
+
+  const first = await callMiddleware(requestLimiter, { tenantId: 'search', principal: principal('key_a') });
+  assert(first.nextCalled && first.headers['RateLimit-Limit'] === '1', 'Headers should describe the limit closest to being reached');
+  assert((first.headers['RateLimit-Policy'] || '').includes('comment="tenant requests"'), 'RateLimit-Policy should list every limit');
+
+  const keyExceeded = await callMiddleware(requestLimiter, { tenantId: 'search', principal: principal('key_a') });
+  assert(keyExceeded.status === 429 && !!keyExceeded.headers['Retry-After'], 'A key over its own limit should get 429');
+  assert((await callMiddleware(requestLimiter, { tenantId: 'search', principal: principal('key_b') })).nextCalled, 'Other keys should keep their own counter');
+
+  // With auth enabled, calls without valid credentials are limited per client IP only
+  const authedLimiter = createRequestRateLimiter(
+    new RateLimiter({ windowMs: 60000, logger: mockLogger }),
+    { logger: mockLogger, getLimits, authEnabled: true }
+  );
+  for (let i = 0; i < 2; i++) {
+    await callMiddleware(authedLimiter, { tenantId: 'default' }, {}, '203.0.113.9');
+  }
+  const anonymousExceeded = await callMiddleware(authedLimiter, { tenantId: 'default' }, {}, '203.0.113.9');
+  assert(
+    anonymousExceeded.status === 429 && /this client/.test((anonymousExceeded.body as { message?: string } | undefined)?.message || ''),
+    'Anonymous calls over the client limit should get 429'
+  );
+  assert((await callMiddleware(authedLimiter, { tenantId: 'default' }, {}, '203.0.113.10')).nextCalled, 'Other clients should keep their own counter');
+  const tenantLocals: Record<string, unknown> = { tenantId: 'default', principal: { ...principal('key_c'), tenantId: 'default' } };
+  await callMiddleware(authedLimiter, tenantLocals);
+  const tenantOutcome = (tenantLocals['rateLimit'] as RateLimitOutcome[]).find(outcome => outcome.scope === 'tenant');
+  assert(tenantOutcome?.used === 1, 'Anonymous calls should not use up the default tenant budget');
+
+  // With auth disabled, calls count against the tenant and the client IP
+  const openLimiter = createRequestRateLimiter(new RateLimiter({ windowMs: 60000, logger: mockLogger }), { logger: mockLogger, getLimits });
+  await callMiddleware(openLimiter, { tenantId: 'default' }, {}, '198.51.100.1');
+  await callMiddleware(openLimiter, { tenantId: 'default' }, {}, '198.51.100.1');
+  assert((await callMiddleware(openLimiter, { tenantId: 'default' }, {}, '198.51.100.1')).status === 429, 'Each client should have its own limit without auth');
+  assert((await callMiddleware(openLimiter, { tenantId: 'default' }, {}, '198.51.100.2')).nextCalled, 'Another client should be let through');
+  assert((await callMiddleware(openLimiter, { tenantId: 'default' }, {}, '198.51.100.3')).status === 429, 'The tenant limit should still apply without auth');
+
+  const engine = new PolicyEngine({ logger: mockLogger, mockMode: true });
+  const tokenLimiter = createTokenRateLimiter(
+    new RateLimiter({ windowMs: 60000, logger: mockLogger }),
+    engine,
+    { logger: mockLogger, getLimits }
+  );
+  const singleRule = { ...testPolicy, rules: [llmRule] };
+
+  const small = await callMiddleware(tokenLimiter, { tenantId: 'search' }, { content: 'Short text', policy: singleRule });
+  assert(small.nextCalled && Number(small.headers['RateLimit-Remaining']) < 2000, 'Estimated tokens should be counted');
+
+  const large = await callMiddleware(tokenLimiter, { tenantId: 'search' }, { content: 'x'.repeat(10240), policy: testPolicy });
+  assert(large.status === 429, 'A request over the token budget should get 429');
+  assert(
+    /estimated tokens/.test((large.body as { message?: string } | undefined)?.message || ''),
+    'Token rejections should explain the token limit'
+  );
+
+  // The estimate runs before validation, so malformed policies must not throw
+  const malformed = { content: 'x', policy: { rules: [null] } };
+  const estimated = await callMiddleware(tokenLimiter, { tenantId: 'malformed' }, malformed);
+  assert(estimated.nextCalled, 'A malformed policy should be estimated as 0 tokens and passed on');
+  const validated = await callRoute(createPolicyRoutes(engine, { logger: mockLogger, tokenRateLimiter: tokenLimiter }), 'POST', '/evaluate', {
+    body: malformed
+  });
+  assert(validated.status === 400, `The route should reject the malformed policy with 400 (got ${validated.status})`);
+}
+
+/**
+ * Test 21: Token usage and cost accounting
+ */
+async function testUsageAndCost(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 21: Token usage and cost accounting');
+  console.log('========================================');
+
+  const prices = parseModelPricing('{"gpt-4o-mini":{"input":0.15,"output":0.6},"custom":{"input":"free"}}');
+  assert(prices['gpt-4o-mini']?.output === 0.6 && !prices['custom'], 'MODEL_PRICING should keep only complete prices');
+  assert(getModelPrice('gpt-4o-mini-2024-07-18', prices)?.input === 0.15, 'Dated models should use the longest matching prefix');
+  assert(calculateCost('unknown-model', { input_tokens: 1000, output_tokens: 1000 }, prices) === 0, 'Unpriced models should cost 0');
+  assert(
+    calculateCost('gpt-4o-mini', { input_tokens: 600, output_tokens: 100 }, prices) === 0.00015,
+    'Cost should use the per-million input and output prices'
+  );
+
+  const judgeService = new JudgeService({
+    logger: mockLogger,
+    config: { model: 'gpt-4o-mini' },
+    cache: { enabled: true },
+    providers: {
+      openai: {
+        name: 'openai',
+        isConfigured: () => true,
+        complete: async () => ({
+          text: JSON.stringify({ verdict: 'PASS', confidence: 0.9, reasoning: 'Fine' }),
+          usage: { input_tokens: 600, output_tokens: 100 }
+        }),
+        healthCheck: async () => {}
+      }
+    }
+  });
+
+  const llmRules = testPolicy.rules.slice(0, 2);
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+  const verdict = await engine.evaluate('Price this evaluation', {
+    policy: {
+      ...testPolicy,
+      rules: [...llmRules, { id: 'no_secrets', type: 'keyword', keywords: ['password'], on_fail: 'block' }]
+    }
+  });
+
+  const firstRule = verdict.rule_results.find(r => r.rule_id === llmRules[0]!.id);
+  const localRule = verdict.rule_results.find(r => r.rule_id === 'no_secrets');
+  assert(
+    firstRule?.usage?.input_tokens === 600 && firstRule.usage.model === 'gpt-4o-mini',
+    'Rule results should carry the judge call usage and model'
+  );
+  assert(firstRule?.usage?.cost_usd === 0.00015, 'Rule results should carry the judge call cost');
+  assert(!localRule?.usage, 'Local rules should have no usage');
+  assert(
+    verdict.usage?.total_tokens === 1400 && verdict.usage.cost_usd === 0.0003,
+    'Verdict usage should sum the rule results'
+  );
+
+  const cached = await judgeService.evaluate(llmRules[0]!, 'Price this evaluation');
+  assert(cached.cached === true && !cached.usage, 'Cached verdicts should carry no usage');
+}
+
+async function testJudgeEnsembles(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 22: Judge ensembles and vote combination');
+  console.log('========================================');
+
+  const vote = (verdict: 'PASS' | 'FAIL' | 'UNCERTAIN', confidence: number) =>
+    ({ verdict, confidence, reasoning: verdict, latency_ms: 0 });
+
+  const majority = combineVotes([vote('PASS', 0.8), vote('PASS', 0.6), vote('FAIL', 0.9)], 'majority');
+  assert(majority.verdict === 'PASS' && majority.confidence === 0.7, 'Majority should take the verdict of most votes');
+  assert(majority.agreement === 0.667, 'Agreement should be the share of votes matching the verdict');
+  assert(
+    combineVotes([vote('PASS', 0.8), vote('FAIL', 0.9)], 'majority').verdict === 'UNCERTAIN',
+    'A tie should be UNCERTAIN'
+  );
+  assert(
+    combineVotes([vote('FAIL', 0.8), vote('FAIL', 0.6)], 'unanimous').confidence === 0.6,
+    'Unanimous verdicts should keep the lowest confidence'
+  );
+  assert(
+    combineVotes([vote('PASS', 0.9), vote('PASS', 0.9), vote('FAIL', 0.6)], 'weighted_mean').verdict === 'UNCERTAIN',
+    'A weighted score within the threshold should be UNCERTAIN'
+  );
+  assert(
+    combineVotes([vote('PASS', 0.9), vote('PASS', 0.8), vote('UNCERTAIN', 0.5)], 'weighted_mean', 0.5).verdict === 'PASS',
+    'A weighted score past the threshold should decide the verdict'
+  );
+
+  assert(validateEnsemble({ voting: 'plurality' as never, samples: 0 }).length === 2, 'Invalid voting and samples should be rejected');
+  assert(validateEnsemble({ judges: [{}, {}, {}, {}], samples: 4 }).length === 1, 'Ensembles over the vote cap should be rejected');
+
+  let calls = 0;
+  const judgeService = new JudgeService({
+    logger: mockLogger,
+    config: { model: 'gpt-4o-mini' },
+    cache: { enabled: true },
+    providers: {
+      openai: {
+        name: 'openai',
+        isConfigured: () => true,
+        complete: async (request: JudgeCompletionRequest) => {
+          calls++;
+          const verdict = request.model === 'gpt-4o' ? 'PASS' : 'FAIL';
+          return {
+            text: JSON.stringify({ verdict, confidence: 0.8, reasoning: `${request.model} says ${verdict}` }),
+            usage: { input_tokens: 1000, output_tokens: 0 }
+          };
+        },
+        healthCheck: async () => {}
+      }
+    }
+  });
+
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+  const ensembleRule = {
+    id: 'ensemble_rule',
+    judge_prompt: 'Check the content',
+    on_fail: 'block' as const,
+    ensemble: { judges: [{ model: 'gpt-4o-mini' }, { model: 'gpt-4o' }, { model: 'gpt-4.1-mini' }] }
+  };
+  const policy: Policy = { ...testPolicy, rules: [ensembleRule] };
+
+  const majorityVerdict = await engine.evaluate('Ensemble content', { policy });
+  const result = majorityVerdict.rule_results[0];
+  assert(result?.verdict === 'FAIL' && majorityVerdict.final_verdict === 'BLOCK', 'Majority of judges should fail the rule');
+  assert(result?.votes?.length === 3 && result.votes[1]?.model === 'gpt-4o', 'Rule results should keep every vote');
+  assert(
+    result?.usage?.input_tokens === 3000 && result.usage.cost_usd === 0.00305,
+    'Ensemble usage should add up the cost of each vote at its model price'
+  );
+
+  const unanimousVerdict = await engine.evaluate('Ensemble content', {
+    policy: { ...policy, rules: [{ ...ensembleRule, ensemble: { ...ensembleRule.ensemble, voting: 'unanimous' } }] }
+  });
+  assert(unanimousVerdict.rule_results[0]?.verdict === 'UNCERTAIN', 'Disagreeing judges should be UNCERTAIN under unanimity');
+
+  calls = 0;
+  const sampled = { ...ensembleRule, ensemble: { samples: 3 } };
+  await judgeService.evaluate(sampled, 'Sampled content');
+  await judgeService.evaluate(sampled, 'Sampled content');
+  assert(calls === 6, 'Repeated samples should skip the verdict cache');
+
+  assert(
+    estimateJudgeTokens([sampled], 400) === 3 * estimateJudgeTokens([{ ...ensembleRule, ensemble: undefined }], 400),
+    'Token estimates should count every ensemble vote'
+  );
+}
+
+async function testConfidenceThresholds(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 23: Confidence thresholds');
+  console.log('========================================');
+
+  const weakFail: MockResponses = {
+    rule_1: { verdict: 'FAIL', confidence: 0.51, reasoning: 'Might be unsafe' },
+    rule_2: { verdict: 'PASS', confidence: 0.9, reasoning: 'Professional' },
+    rule_3: { verdict: 'PASS', confidence: 0.6, reasoning: 'Appropriate' }
+  };
+  const engine = new PolicyEngine({ logger: mockLogger, mockMode: true, mockResponses: weakFail });
+
+  const baseline = await engine.evaluate('Borderline content', { policy: testPolicy });
+  assert(baseline.final_verdict === 'BLOCK', 'Without min_confidence a weak FAIL should still block');
+
+  const policy: Policy = {
+    ...testPolicy,
+    min_confidence: 0.7,
+    rules: testPolicy.rules.map(rule => rule.id === 'rule_3' ? { ...rule, min_confidence: 0.5 } : rule)
+  };
+  const verdict = await engine.evaluate('Borderline content', { policy });
+  const rule1 = verdict.rule_results.find(r => r.rule_id === 'rule_1');
+  const rule3 = verdict.rule_results.find(r => r.rule_id === 'rule_3');
+
+  assert(rule1?.verdict === 'UNCERTAIN' && rule1.downgraded_from === 'FAIL', 'A FAIL below min_confidence should become UNCERTAIN');
+  assert(rule1?.confidence === 0.51, 'Downgraded results should keep the judge confidence');
+  assert(rule3?.verdict === 'PASS', 'Rule min_confidence should override the policy setting');
+  assert(verdict.final_verdict === 'WARN', 'Downgraded verdicts should aggregate as UNCERTAIN');
+  assert(
+    verdict.summary?.downgraded === 1 && verdict.summary.reason.includes('downgraded to UNCERTAIN: rule_1'),
+    'The summary should record the downgrade'
+  );
+
+  const validation = engine.validatePolicy({ ...policy, min_confidence: 1.5, confidence_weighted: true });
+  assert(!validation.valid && validation.warnings.some(w => w.includes('confidence_weighted')), 'Invalid thresholds should be reported');
+
+  const weighted = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'FAIL', confidence: 0.2, reasoning: 'Unsure' },
+      rule_2: { verdict: 'PASS', confidence: 0.95, reasoning: 'Professional' },
+      rule_3: { verdict: 'PASS', confidence: 0.95, reasoning: 'Appropriate' }
+    }
+  });
+  const weightedPolicy: Policy = { ...testPolicy, evaluation_strategy: 'weighted_threshold', threshold: 0.7 };
+
+  const plain = await weighted.evaluate('Weighted content', { policy: weightedPolicy });
+  const byConfidence = await weighted.evaluate('Weighted content', { policy: { ...weightedPolicy, confidence_weighted: true } });
+  assert(plain.final_verdict === 'BLOCK', 'Plain weights should fall below the threshold');
+  assert(
+    byConfidence.final_verdict === 'ALLOW' && byConfidence.summary?.score === 0.861 && byConfidence.summary?.confidence_weighted === true,
+    'Confidence weighting should discount the hesitant failure'
+  );
+}
+
+async function testPriorityAndExpressionStrategies(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 24: Priority and expression strategies');
+  console.log('========================================');
+
+  const tree = parseExpression('a OR b and NOT c');
+  assert(
+    JSON.stringify(tree) === JSON.stringify({
+      type: 'or',
+      operands: [{ type: 'rule', id: 'a' }, { type: 'and', operands: [{ type: 'rule', id: 'b' }, { type: 'not', operand: { type: 'rule', id: 'c' } }] }]
+    }),
+    'AND should bind tighter than OR'
+  );
+  assert(
+    evaluateExpression(parseExpression('a || b'), new Map([['a', null], ['b', true]])) === true &&
+    evaluateExpression(parseExpression('a && b'), new Map([['a', null], ['b', true]])) === null,
+    'Unknown rules should only decide when the others cannot'
+  );
+  assert(validateExpression('(a AND b', ['a', 'b'])[0]?.includes("Expected ')'") === true, 'Unbalanced parentheses should be rejected');
+  assert(validateExpression('a AND z', ['a', 'b'])[0]?.includes('unknown rule(s): z') === true, 'Unknown rule ids should be rejected');
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' },
+      rule_2: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Unprofessional' },
+      rule_3: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Inappropriate' }
+    }
+  });
+
+  const priority = await engine.evaluate('Priority content', {
+    policy: { ...testPolicy, evaluation_strategy: 'priority' }
+  });
+  assert(priority.final_verdict === 'WARN', 'The first failing rule should decide the action');
+  assert(
+    priority.summary?.decided_by === 'rule_2' && priority.summary.reason.includes('priority 2 of 3'),
+    'The summary should name the deciding rule'
+  );
+
+  const priorityStrategy = createStrategy('priority', mockLogger);
+  const failFirst = [{ rule_id: 'rule_1', verdict: 'FAIL' as const, confidence: 1, reasoning: '', action: 'block' as const, weight: 1, latency_ms: 0 }];
+  assert(
+    priorityStrategy.isSettled(failFirst, testPolicy.rules.slice(1), testPolicy) &&
+    !priorityStrategy.isSettled(failFirst.map(r => ({ ...r, rule_id: 'rule_2' })), [testPolicy.rules[0]!], testPolicy),
+    'Priority should settle only when no earlier rule is pending'
+  );
+
+  const expressionPolicy: Policy = {
+    ...testPolicy,
+    evaluation_strategy: 'expression',
+    expression: '(rule_1 AND rule_2) OR rule_3'
+  };
+  const falseExpression = await engine.evaluate('Expression content', { policy: expressionPolicy });
+  assert(falseExpression.final_verdict === 'BLOCK' && !falseExpression.passed, 'A false expression should take the failed rules\' action');
+  assert(
+    falseExpression.summary?.reason === 'Expression is false (rule_1=PASS, rule_2=FAIL, rule_3=FAIL)',
+    'The summary should explain the expression value'
+  );
+
+  const allowed = await engine.evaluate('Expression content', {
+    policy: { ...expressionPolicy, expression: 'rule_1 OR rule_2' }
+  });
+  assert(allowed.final_verdict === 'ALLOW' && allowed.summary?.expression === 'rule_1 OR rule_2', 'A true expression should allow');
+
+  const invalid = engine.validatePolicy({ ...expressionPolicy, expression: 'rule_1 AND' });
+  const partial = engine.validatePolicy({ ...expressionPolicy, expression: 'rule_1 AND rule_2' });
+  assert(!invalid.valid && invalid.errors.some(e => e.startsWith('invalid expression')), 'Invalid expressions should fail validation');
+  assert(partial.valid && partial.warnings.some(w => w.includes('rule_3')), 'Rules outside the expression should be reported');
+}
+
+/**
+ * Test 25: Rule groups rolled up through their own strategies
+ */
+async function testRuleGroups(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 25: Rule groups');
+  console.log('========================================');
+
+  const [rule1, rule2, rule3] = testPolicy.rules as [Rule, Rule, Rule];
+  const tone: Rule = { id: 'tone', judge_prompt: 'Is the tone friendly?', on_fail: 'warn', weight: 1 };
+  const groupedPolicy: Policy = {
+    ...testPolicy,
+    default_action: 'warn',
+    rules: [],
+    evaluation_strategy: 'all',
+    groups: [
+      { id: 'safety', evaluation_strategy: 'all', rules: [rule1, rule3] },
+      {
+        id: 'quality',
+        evaluation_strategy: 'weighted_threshold',
+        threshold: 0.6,
+        rules: [rule2],
+        groups: [{ id: 'style', evaluation_strategy: 'any', weight: 0.2, rules: [tone] }]
+      }
+    ]
+  };
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' },
+      rule_2: { verdict: 'PASS', confidence: 0.9, reasoning: 'Professional' },
+      rule_3: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Inappropriate' },
+      tone: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Curt' }
+    }
+  });
+
+  const verdict = await engine.evaluate('Grouped content', { policy: groupedPolicy, shortCircuit: true });
+  const groups = verdict.group_results || [];
+  assert(verdict.rule_results.length === 4, 'Every grouped rule should be evaluated, even when short-circuiting');
+  assert(verdict.final_verdict === 'REDACT' && !verdict.passed, 'A failed group should decide the policy verdict with its action');
+  assert(
+    groups.map(g => `${g.path.join('/')}=${g.verdict}`).join(', ') === 'safety=FAIL, quality=PASS, quality/style=FAIL',
+    'Group results should list parents before sub-groups'
+  );
+  assert(
+    groups.find(g => g.group_id === 'quality')?.summary.reason === 'Weighted score 71.4% >= threshold 60.0%',
+    'A group should aggregate its sub-groups with their weight'
+  );
+  assert(
+    JSON.stringify(verdict.rule_results.find(r => r.rule_id === 'tone')?.group_path) === '["quality","style"]',
+    'Rule results should carry their group path'
+  );
+  assert(verdict.summary?.total_rules === 2 && verdict.summary.failed === 1, 'The policy summary should count top-level groups');
+
+  const duplicate = engine.validatePolicy({
+    ...groupedPolicy,
+    groups: [...groupedPolicy.groups!, { id: 'extra', evaluation_strategy: 'expression', expression: 'rule_1 AND nope', rules: [rule1] }]
+  });
+  assert(
+    !duplicate.valid &&
+    duplicate.errors.some(e => e.includes("id 'rule_1' is used more than once")) &&
+    duplicate.errors.some(e => e.includes("Group 'extra': expression references unknown rule(s): nope")),
+    'Duplicate ids and invalid group expressions should fail validation'
+  );
+
+  const moved: Policy = {
+    ...groupedPolicy,
+    groups: [
+      { id: 'safety', evaluation_strategy: 'all', rules: [rule1, rule3, rule2] },
+      { ...groupedPolicy.groups![1]!, rules: [] }
+    ]
+  };
+  const moveChanges = diffPolicies(groupedPolicy, moved);
+  assert(
+    classifyChanges(moveChanges) === 'minor' && moveChanges.rule_changes[0]?.fields?.includes('group_path') === true,
+    'Moving a rule between groups should be a minor rule change'
+  );
+  const restructured: Policy = {
+    ...groupedPolicy,
+    groups: [{ ...groupedPolicy.groups![0]!, evaluation_strategy: 'any' }, groupedPolicy.groups![1]!]
+  };
+  assert(classifyChanges(diffPolicies(groupedPolicy, restructured)) === 'major', 'Changing a group strategy should be a major change');
+
+  // Rule ids must be unique across groups, since results and cache entries are keyed by id
+  engine.updateConfig({ policy: groupedPolicy });
+  const duplicateRule = { id: 'tone', judge_prompt: 'Is the tone friendly?', on_fail: 'warn' as const };
+  assert(!engine.addRule(duplicateRule).success, 'Adding a rule with the id of a grouped rule should fail');
+  assert(!(await engine.addRuleAsync(duplicateRule)).success, 'Adding a rule with the id of a grouped rule should fail (async)');
+  assert(engine.addRule({ ...duplicateRule, id: 'friendly' }).success, 'Rules with new ids should still be added');
+  assert(!engine.updateRule('friendly', { id: 'rule_3' }).success, 'Renaming a rule to the id of a grouped rule should fail');
+}
+
+/**
+ * Test 26: Policy inheritance and the shared rule library
+ */
+async function testPolicyInheritance(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 26: Policy inheritance and rule library');
+  console.log('========================================');
+
+  const [rule1, rule2, rule3] = testPolicy.rules as [Rule, Rule, Rule];
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' },
+      rule_2: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Casual' },
+      rule_3: { verdict: 'PASS', confidence: 0.9, reasoning: 'Appropriate' }
+    }
+  });
+
+  const created = await engine.createLibraryRuleAsync({ id: 'no_pii', type: 'pii', on_fail: 'block' });
+  assert(created.success && created.rule?.weight === 1, 'A library rule should be created with rule defaults');
+  await engine.createPolicyAsync('safety_base', { ...testPolicy, name: 'safety_base', rules: [rule1, rule2] });
+  await engine.createPolicyAsync('support', {
+    name: 'support',
+    version: '1.0.0',
+    default_action: 'warn',
+    evaluation_strategy: 'all',
+    extends: 'safety_base',
+    library_rules: [{ id: 'no_pii', on_fail: 'redact' }],
+    rules: [{ ...rule2, on_fail: 'allow' }, rule3]
+  });
+
+  const resolved = engine.getPolicyById('support');
+  assert(
+    resolved?.rules.map(r => `${r.id}:${r.on_fail}`).join(', ') === 'rule_1:block, rule_2:allow, no_pii:redact, rule_3:redact',
+    'Base rules, then library rules, then local rules should resolve, with local overrides in place'
+  );
+  assert(!resolved?.extends && engine.getPolicyDefinition('support')?.extends === 'safety_base', 'Only the definition should keep extends');
+  assert(engine.listPolicies().find(p => p.policyId === 'support')?.rulesCount === 4, 'Policy summaries should count resolved rules');
+
+  const verdict = await engine.evaluate('Mail me at jane@example.com', { policyId: 'support' });
+  assert(verdict.rule_results.length === 4, 'Evaluation should use the resolved policy');
+  assert(verdict.rule_results.find(r => r.rule_id === 'no_pii')?.action === 'redact', 'Library rules should apply the local on_fail override');
+
+  const cycle = engine.validatePolicy({ ...engine.getPolicyDefinition('safety_base')!, extends: 'support' }, 'safety_base');
+  assert(
+    !cycle.valid && cycle.errors.includes('extends cycle: safety_base -> support -> safety_base'),
+    'An extends cycle should fail validation'
+  );
+  const unknown = engine.validatePolicy({ name: 'x', rules: [], library_rules: [{ id: 'missing' }] });
+  assert(
+    !unknown.valid && unknown.errors.some(e => e.includes("'missing' is not in the rule library")),
+    'Unknown library rules should fail validation'
+  );
+  const inheritedExpression = engine.validatePolicy({
+    name: 'x',
+    rules: [],
+    extends: 'safety_base',
+    evaluation_strategy: 'expression',
+    expression: 'rule_1 AND rule_2'
+  });
+  assert(inheritedExpression.valid, 'Expressions should be able to refer to inherited rules');
+
+  await engine.createPolicyAsync('support_eu', { ...engine.getPolicyDefinition('support')!, name: 'support_eu', extends: 'support', library_rules: [] });
+  const updated = await engine.updateLibraryRuleAsync('no_pii', { pii_types: ['email'] });
+  assert(
+    updated.success && updated.affected_policies?.join(', ') === 'support, support_eu',
+    'Updating a library rule should report the policies using it, directly or through a base'
+  );
+  assert(engine.getPolicyById('support_eu')?.rules.find(r => r.id === 'no_pii')?.pii_types?.[0] === 'email', 'Library updates should apply to inheriting policies');
+
+  const libraryRoutes = createLibraryRoutes(engine, { logger: mockLogger });
+  for (const updates of [{ pii_types: 'email' }, { type: 'regex', pattern: '(a+)+$' }, { type: 'keyword', keywords: 'secret' }, { min_confidence: 5 }]) {
+    const rejected = await callRoute(libraryRoutes, 'PUT', '/rules/no_pii', { body: updates });
+    assert(rejected.status === 400, `Invalid library rule update should get 400: ${JSON.stringify(updates)}`);
+  }
+  assert(engine.getLibraryRule('no_pii')?.type === 'pii', 'Rejected library updates should leave the rule unchanged');
+
+  const deleteRule = await engine.deleteLibraryRuleAsync('no_pii');
+  assert(!deleteRule.success && deleteRule.affected_policies?.length === 2, 'A library rule in use should not be deletable');
+  const deleteBase = await engine.deletePolicyAsync('safety_base');
+  assert(!deleteBase.success && deleteBase.message?.includes('extended by: support') === true, 'A base policy should not be deletable');
+}
+
+/**
+ * Test 27: Conditional rules (applies_when) and NOT_APPLICABLE results
+ */
+async function testConditionalRules(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 27: Conditional rules');
+  console.log('========================================');
+
+  assert(detectLanguage('The cat is on the mat and it is happy') === 'en', 'English text should be detected');
+  assert(detectLanguage('Le chat est sur le tapis et il dort dans la maison') === 'fr', 'French text should be detected');
+  assert(detectLanguage('これは日本語の文章です') === 'ja', 'Japanese text should be detected by its script');
+  assert(detectContentType('{"a": 1}') === 'json' && detectContentType('https://example.com/x') === 'url', 'JSON and URLs should be detected');
+  assert(detectContentType('const a = 1;\nfunction f() {\n  return a;\n}') === 'code', 'Source code should be detected');
+  assert(detectContentType('<div><p>Hello</p></div>') === 'html', 'HTML should be detected');
+
+  const [rule1, rule2, rule3] = testPolicy.rules as [Rule, Rule, Rule];
+  const conditionalPolicy: Policy = {
+    ...testPolicy,
+    rules: [
+      rule1,
+      { ...rule2, applies_when: { metadata: { user_tier: 'free', channel: ['web', 'mobile'] } } },
+      { ...rule3, applies_when: { language: ['fr'], max_length: 100 } }
+    ]
+  };
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' },
+      rule_2: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Casual' },
+      rule_3: { verdict: 'FAIL', confidence: 0.9, reasoning: 'Inappropriate' }
+    }
+  });
+
+  const streamed: string[] = [];
+  const proTier = await engine.evaluate('The weather is nice and the sun is out', {
+    policy: conditionalPolicy,
+    metadata: { user_tier: 'pro', channel: 'web' },
+    onRuleResult: result => streamed.push(`${result.rule_id}=${result.verdict}`)
+  });
+  assert(proTier.final_verdict === 'ALLOW', 'Rules that do not apply should not affect the verdict');
+  assert(
+    proTier.rule_results.map(r => r.verdict).join(', ') === 'PASS, NOT_APPLICABLE, NOT_APPLICABLE',
+    'Rule results should stay in policy order with NOT_APPLICABLE for non-matching rules'
+  );
+  assert(
+    proTier.rule_results[1]?.reasoning === "Not applicable - metadata.user_tier is 'pro', rule applies to 'free'",
+    'NOT_APPLICABLE results should explain the mismatch'
+  );
+  assert(proTier.summary?.total_rules === 1 && proTier.summary.not_applicable === 2, 'The summary should count only applicable rules');
+  assert(streamed.length === 3 && streamed.includes('rule_3=NOT_APPLICABLE'), 'NOT_APPLICABLE results should be reported to the callback');
+
+  const freeTier = await engine.evaluate('Le chat est sur le tapis et il dort', {
+    policy: conditionalPolicy,
+    metadata: { user_tier: 'free', channel: 'mobile' }
+  });
+  assert(
+    freeTier.rule_results.every(r => r.verdict === 'PASS' || r.verdict === 'FAIL') && freeTier.summary?.not_applicable === undefined,
+    'Matching rules should be evaluated as usual'
+  );
+
+  const none = await engine.evaluate('Hello', {
+    policy: { ...conditionalPolicy, evaluation_strategy: 'any', rules: conditionalPolicy.rules.slice(1) }
+  });
+  assert(none.final_verdict === 'ALLOW' && none.summary?.reason === 'No rule applies to this content', 'A policy with no applicable rule should allow');
+
+  const expression = await engine.evaluate('Hello there', {
+    policy: { ...conditionalPolicy, evaluation_strategy: 'expression', expression: 'rule_1 AND (rule_2 OR rule_3)' }
+  });
+  assert(expression.final_verdict === 'ALLOW', 'Expressions should drop rules that do not apply');
+
+  const grouped = await engine.evaluate('Hello there', {
+    policy: {
+      ...testPolicy,
+      rules: [rule1],
+      groups: [{ id: 'tiered', evaluation_strategy: 'any', rules: conditionalPolicy.rules.slice(1) }]
+    },
+    metadata: { user_tier: 'pro' }
+  });
+  assert(
+    grouped.final_verdict === 'ALLOW' && grouped.group_results?.[0]?.verdict === 'NOT_APPLICABLE',
+    'A group with no applicable rule should be NOT_APPLICABLE and ignored by its parent'
+  );
+
+  const invalid = engine.validatePolicy({
+    ...testPolicy,
+    rules: [{ ...rule1, applies_when: { min_length: 10, max_length: 5, content_type: ['pdf' as 'text'] } }]
+  });
+  assert(
+    !invalid.valid &&
+    invalid.errors.some(e => e.includes('min_length must not be above max_length')) &&
+    invalid.errors.some(e => e.includes('invalid applies_when.content_type pdf')),
+    'Invalid applies_when conditions should fail validation'
+  );
+}
+
+// Test 28: Chat transcripts with per-rule message scope
+async function testTranscripts(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 28: Chat transcripts');
+  console.log('========================================');
+
+  const transcript: ChatMessage[] = [
+    { role: 'system', content: 'You are a helpful assistant.' },
+    { role: 'user', content: 'My email is jane@example.com, can you remember it?' },
+    { role: 'assistant', content: 'Sure, I will write to jane@example.com.' }
+  ];
+
+  const lastMessage = scopeContent(transcript, 'last_message');
+  assert(
+    lastMessage.subject === 'message' && lastMessage.text === 'Sure, I will write to jane@example.com.',
+    'last_message should judge only the last message'
+  );
+  assert(lastMessage.context?.startsWith('system: You are a helpful assistant.') === true, 'Earlier turns should be passed as context');
+  assert(
+    scopeContent(transcript, 'user_messages').text === 'user: My email is jane@example.com, can you remember it?',
+    'user_messages should judge only user turns'
+  );
+  assert(scopeContent('plain text', 'last_message').subject === 'content', 'Scope should not apply to string content');
+
+  assert(validateContent(transcript).length === 0, 'A well-formed transcript should be valid');
+  assert(
+    validateContent([{ role: 'bot', content: 'hi' }]).some(e => e.includes('content[0].role')) && validateContent([]).length === 1,
+    'Messages with unknown roles and empty transcripts should be rejected'
+  );
+
+  const judged: Record<string, string> = {};
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      conversation_safe: content => {
+        judged['conversation_safe'] = content;
+        return { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' };
+      },
+      reply_no_email: content => {
+        judged['reply_no_email'] = content;
+        return { verdict: 'FAIL', confidence: 0.9, reasoning: 'Email found', spans: [{ text: 'jane@example.com', category: 'email' }] };
+      }
+    }
+  });
+
+  const transcriptPolicy: Policy = {
+    ...testPolicy,
+    default_action: 'allow',
+    rules: [
+      { id: 'conversation_safe', judge_prompt: 'Is the conversation safe?', on_fail: 'block' },
+      { id: 'reply_no_email', judge_prompt: 'Does the reply repeat an email?', on_fail: 'redact', scope: 'assistant_messages', redaction: { mask_style: 'category' } },
+      { id: 'no_ssn', type: 'pii', pii_types: ['ssn'], on_fail: 'block', scope: 'user_messages' }
+    ]
+  };
+
+  const verdict = await engine.evaluate(transcript, { policy: transcriptPolicy });
+  assert(verdict.final_verdict === 'REDACT', 'Transcript rules should aggregate as usual');
+  assert(
+    judged['conversation_safe']?.includes('user: My email') === true && judged['reply_no_email'] === 'assistant: Sure, I will write to jane@example.com.',
+    'Each rule should be judged on the messages its scope selects'
+  );
+  assert(verdict.redacted_content === undefined, 'Transcripts should not produce redacted_content');
+  assert(
+    verdict.redacted_messages?.[2]?.content === 'Sure, I will write to [EMAIL].' &&
+    verdict.redacted_messages[1]?.content === transcript[1]!.content,
+    'Redaction should only mask the messages the rule judged'
+  );
+
+  const userOnly = await engine.evaluate([{ role: 'user', content: 'Hello there' }], { policy: transcriptPolicy });
+  assert(
+    userOnly.rule_results.find(r => r.rule_id === 'reply_no_email')?.verdict === 'NOT_APPLICABLE',
+    'A rule whose scope selects no messages should be NOT_APPLICABLE'
+  );
+
+  const invalid = engine.validatePolicy({
+    ...testPolicy,
+    rules: [{ id: 'r1', judge_prompt: 'test', on_fail: 'block', scope: 'first_message' as 'last_message' }]
+  });
+  assert(!invalid.valid && invalid.errors.some(e => e.includes('invalid scope first_message')), 'Unknown scopes should fail validation');
+}
+
+// Test 29: Guardrail input/output/context placeholders in judge prompts
+async function testGuardrailFields(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 29: Guardrail fields');
+  console.log('========================================');
+
+  assert(
+    getPlaceholders('Is {{ output }} grounded in {{context}}? Compare with {{context}}.').join(',') === 'output,context',
+    'Placeholders should be listed once each, tolerating spaces'
+  );
+  assert(
+    fillPlaceholders('Q: {{input}} / C: {{context}}', { input: 'Say {{context}}' }) === 'Q: Say {{context}} / C: (not provided)',
+    'Placeholders should be filled in one pass, with missing fields marked'
+  );
+
+  const prompts: string[] = [];
+  const provider: JudgeProviderInterface = {
+    name: 'openai',
+    isConfigured: () => true,
+    complete: async (request: JudgeCompletionRequest) => {
+      prompts.push(`${request.systemPrompt}\n${request.userPrompt}`);
+      return { text: JSON.stringify({ verdict: 'PASS', confidence: 0.9, reasoning: 'Grounded' }) };
+    },
+    healthCheck: async () => {}
+  };
+  const judgeService = new JudgeService({ logger: mockLogger, providers: { openai: provider } });
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+
+  const guardrailPolicy: Policy = {
+    ...testPolicy,
+    rules: [
+      { id: 'grounded', judge_prompt: 'FAIL if the response is not supported by: {{context}}', on_fail: 'block' },
+      { id: 'on_topic', judge_prompt: 'FAIL if the response does not answer: {{input}}', on_fail: 'warn' }
+    ]
+  };
+
+  const verdict = await engine.evaluate('Annual plans can be refunded within 30 days.', {
+    policy: guardrailPolicy,
+    inputs: {
+      input: 'What is the refund window for annual plans?',
+      output: 'Annual plans can be refunded within 30 days.',
+      context: 'Annual plans: refunds within 30 days.'
+    }
+  });
+  assert(verdict.final_verdict === 'ALLOW', 'Guardrail rules should be judged as usual');
+  assert(
+    prompts.some(p => p.includes('not supported by: Annual plans: refunds within 30 days.')) &&
+    prompts.some(p => p.includes('does not answer: What is the refund window for annual plans?')),
+    'The judge prompt should have the request fields filled in'
+  );
+  assert(prompts.every(p => !p.includes('{{')), 'No placeholder should reach the judge');
+
+  assert(
+    findMissingPlaceholders(guardrailPolicy.rules, ['output', 'context']).join() ===
+      "Rule 'on_topic': judge_prompt uses {{input}}, which the request does not supply",
+    'Rules using a field the request does not supply should be reported'
+  );
+  const missing = engine.validatePolicy(guardrailPolicy, undefined, ['input']);
+  assert(!missing.valid && missing.errors.some(e => e.includes("Rule 'grounded'")), 'validatePolicy should check placeholders against the supplied fields');
+  assert(engine.validatePolicy(guardrailPolicy).valid, 'Without fields, placeholders for known fields should be valid');
+
+  const unknown = engine.validatePolicy({
+    ...testPolicy,
+    rules: [{ id: 'r1', judge_prompt: 'Is {{answer}} correct?', on_fail: 'block' }]
+  });
+  assert(!unknown.valid && unknown.errors.some(e => e.includes('unknown judge_prompt placeholder {{answer}}')), 'Unknown placeholders should fail validation');
+
+  // Output-only requests judge the output on every evaluate route
+  const judged: string[] = [];
+  const outputEngine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    config: {
+      policy: { ...testPolicy, rules: [testPolicy.rules[0]!] },
+      judge: { model: 'gpt-4o-mini', temperature: 0.1, maxTokens: 500, timeout: 30000, maxRetries: 3, retryDelay: 1000 },
+      settings: { parallelEvaluation: true, debugLog: false, cacheResults: false }
+    },
+    mockResponses: {
+      rule_1: content => {
+        judged.push(content);
+        return { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' };
+      }
+    }
+  });
+  const routes = createPolicyRoutes(outputEngine, { logger: mockLogger });
+  await callRoute(routes, 'POST', '/evaluate', { body: { output: 'Annual plans can be refunded within 30 days.' } });
+  const streamed = await callRoute(routes, 'GET', '/evaluate/stream', {
+    query: { output: 'Annual plans can be refunded within 30 days.' }
+  });
+  assert(streamed.events.some(e => e.event === 'result'), 'An output-only GET stream should be evaluated');
+  assert(
+    judged.length === 2 && judged.every(c => c === 'Annual plans can be refunded within 30 days.'),
+    'Output-only requests should judge the output over POST and the GET stream'
+  );
+}
+
+/**
+ * Test 30: Long content is judged in chunks and any failing chunk fails the rule
+ */
+async function testChunking(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 30: Long content chunking');
+  console.log('========================================');
+
+  const paragraphs = Array.from({ length: 12 }, (_, i) => `Paragraph ${i} talks about the weather in plain words.`);
+  const document = paragraphs.join('\n\n');
+
+  assert(splitIntoChunks('short', 25, 5).length === 1, 'Content within the limit should be a single chunk');
+
+  const chunks = splitIntoChunks(document, 25, 5);
+  assert(chunks.length > 1 && chunks.every(chunk => chunk.text.length <= 100), 'Chunks should respect the token limit');
+  assert(
+    chunks.every(chunk => document.slice(chunk.start, chunk.end) === chunk.text) && chunks[chunks.length - 1]!.end === document.length,
+    'Chunk offsets should cover the whole content'
+  );
+  assert(
+    chunks.slice(1).every((chunk, i) => chunk.start < chunks[i]!.end && chunk.start > chunks[i]!.start),
+    'Consecutive chunks should overlap and move forward'
+  );
+  assert(chunks.slice(0, -1).every(chunk => /\s$/.test(chunk.text)), 'Chunks should end at a break');
+
+  let calls = 0;
+  const provider: JudgeProviderInterface = {
+    name: 'openai',
+    isConfigured: () => true,
+    complete: async (request: JudgeCompletionRequest) => {
+      calls++;
+      const leaked = request.userPrompt.match(/key-\d+/);
+      return {
+        text: JSON.stringify(leaked
+          ? { verdict: 'FAIL', confidence: 0.9, reasoning: 'Contains an access key', spans: [{ text: leaked[0], category: 'SECRET' }] }
+          : { verdict: 'PASS', confidence: 0.8, reasoning: 'Nothing sensitive' }),
+        usage: { input_tokens: 50, output_tokens: 10 }
+      };
+    },
+    healthCheck: async () => {}
+  };
+  const judgeService = new JudgeService({
+    logger: mockLogger,
+    config: { chunkTokens: 25, chunkOverlapTokens: 5 },
+    providers: { openai: provider }
+  });
+  const engine = new PolicyEngine({ logger: mockLogger, judgeService });
+  const chunkPolicy: Policy = {
+    ...testPolicy,
+    rules: [{ id: 'no_keys', judge_prompt: 'FAIL if the content contains an access key', on_fail: 'redact' }]
+  };
+
+  const clean = await engine.evaluate(document, { policy: chunkPolicy });
+  const cleanResult = clean.rule_results[0]!;
+  assert(clean.final_verdict === 'ALLOW' && cleanResult.verdict === 'PASS', 'Content should pass when every chunk passes');
+  assert(cleanResult.chunk_count === chunks.length && cleanResult.chunks?.length === 0, 'Passing chunks should not be reported');
+  assert(calls === chunks.length, 'Each chunk should be one judge call');
+  assert(cleanResult.usage?.input_tokens === 50 * chunks.length, 'Usage should sum the chunk calls');
+
+  const leaked = document.replace('Paragraph 9 talks', 'Paragraph 9 key-4242 talks');
+  const offset = leaked.indexOf('key-4242');
+  const failed = await engine.evaluate(leaked, { policy: chunkPolicy });
+  const failedResult = failed.rule_results[0]!;
+  assert(!failed.passed && failedResult.verdict === 'FAIL', 'One failing chunk should fail the rule');
+  assert(
+    (failedResult.chunks?.length || 0) > 0 &&
+    failedResult.chunks!.every(chunk => chunk.verdict === 'FAIL' && chunk.start <= offset && chunk.end >= offset + 8),
+    'Failing chunks should be reported with offsets containing the violation'
+  );
+  assert(failedResult.reasoning.includes(`of ${failedResult.chunk_count} chunks failed`), 'Reasoning should name the failing chunks');
+  assert(
+    failedResult.spans?.length === 1 && failedResult.spans[0]!.start === offset,
+    'Spans should be mapped onto the whole content once'
+  );
+  assert(failed.redacted_content?.includes('Paragraph 9 [REDACTED] talks') === true, 'Redaction should apply to the whole content');
+}
+
+/**
+ * Test 31: WARN and UNCERTAIN verdicts are queued for review; resolutions and SLA are checked
+ */
+async function testReviewQueue(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 31: Review queue');
+  console.log('========================================');
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' },
+      rule_2: { verdict: 'FAIL', confidence: 0.8, reasoning: 'Too casual' },
+      rule_3: { verdict: 'UNCERTAIN', confidence: 0.4, reasoning: 'Unclear' }
+    }
+  });
+  const reviewPolicy = (ruleIds: string[]): Policy => ({
+    ...testPolicy,
+    default_action: 'allow',
+    rules: testPolicy.rules.filter(rule => ruleIds.includes(rule.id))
+  });
+
+  const uncertain = await engine.evaluate('Maybe a phone number', { policy: reviewPolicy(['rule_1', 'rule_3']) });
+  assert(getReviewTriggers(uncertain).includes('uncertain'), 'UNCERTAIN rules should queue the evaluation');
+
+  const warned = await engine.evaluate('hey whats up', { policy: reviewPolicy(['rule_1', 'rule_2']) });
+  assert(warned.final_verdict === 'WARN' && getReviewTriggers(warned).join() === 'warn', 'WARN verdicts should queue the evaluation');
+
+  const allowed = await engine.evaluate('Hello', { policy: reviewPolicy(['rule_1']) });
+  assert(getReviewTriggers(allowed).length === 0, 'Clear verdicts should not be queued');
+
+  assert(validateResolution({ decision: 'approve' }, 'WARN').length === 0, 'Approving needs no rationale');
+  assert(
+    validateResolution({ decision: 'override', verdict: 'BLOCK', rationale: 'Harassment' }, 'WARN').length === 0,
+    'Override with a verdict and rationale should be valid'
+  );
+  assert(
+    validateResolution({ decision: 'override', verdict: 'BLOCK' }).some(e => e.includes('rationale is required')),
+    'Override should require a rationale'
+  );
+  assert(
+    validateResolution({ decision: 'override', verdict: 'WARN', rationale: 'Same' }, 'WARN').some(e => e.includes('approve it instead')),
+    'Override should change the verdict'
+  );
+  assert(
+    validateResolution({ decision: 'override', verdict: 'ERROR', rationale: 'x' }).some(e => e.includes('verdict is required')),
+    'Override should only accept reviewable verdicts'
+  );
+  assert(validateResolution({ decision: 'approve', verdict: 'ALLOW' }).length === 1, 'Approve should not take a verdict');
+  assert(validateResolution({}).some(e => e.includes('decision must be one of')), 'A decision is required');
+
+  const dueAt = new Date('2026-01-02T00:00:00Z');
+  assert(!isOverdue({ status: 'pending', dueAt }, new Date('2026-01-01T12:00:00Z')), 'Open items before their due date are on time');
+  assert(isOverdue({ status: 'claimed', dueAt }, new Date('2026-01-03T00:00:00Z')), 'Open items past their due date are overdue');
+  const resolution = { decision: 'approve' as const, verdict: 'WARN' as const, reviewer: 'ana', resolvedAt: new Date('2026-01-01T18:00:00Z') };
+  assert(!isOverdue({ status: 'resolved', dueAt, resolution }, new Date('2026-02-01T00:00:00Z')), 'Items resolved in time stay on time');
+  assert(
+    isOverdue({ status: 'resolved', dueAt, resolution: { ...resolution, resolvedAt: new Date('2026-01-02T06:00:00Z') } }),
+    'Items resolved after their due date breached the SLA'
+  );
+}
+
+/**
+ * Test 32: Test suite cases are validated, scored, and runs summarized and diffed
+ */
+async function testTestSuites(): Promise<void> {
+  console.log('\n========================================');
+  console.log('Test 32: Policy test suites');
+  console.log('========================================');
+
+  const engine = new PolicyEngine({
+    logger: mockLogger,
+    mockMode: true,
+    mockResponses: {
+      rule_1: { verdict: 'PASS', confidence: 0.9, reasoning: 'Safe' },
+      rule_2: { verdict: 'FAIL', confidence: 0.8, reasoning: 'Too casual' },
+      rule_3: { verdict: 'PASS', confidence: 0.9, reasoning: 'Appropriate' }
+    }
+  });
+
+  assert(
+    validateTestSuite({ name: 'regressions', cases: [{ id: 'a', content: 'Hi', expected_verdict: 'ALLOW' }] }).length === 0,
+    'A named suite with labeled cases should be valid'
+  );
+  assert(validateTestSuite({}).includes('name is required'), 'Creating a suite should require a name');
+  assert(validateTestSuite({ description: 'Updated' }, true).length === 0, 'Updates may omit the name');
+  const invalid = validateTestSuite({
+    name: 'regressions',
+    cases: [
+      { id: 'a', content: 'Hi', expected_verdict: 'ERROR' },
+      { id: 'a', content: 'Hi', expected_verdict: 'ALLOW', expected_rules: { rule_1: 'SKIPPED' as 'PASS' } }
+    ]
+  });
+  assert(invalid.some(e => e.startsWith('cases[0]: expected_verdict')), 'ERROR should not be an expected verdict');
+  assert(invalid.some(e => e.includes('expected_rules.rule_1')), 'Expected rule verdicts should be checked');
+  assert(invalid.includes("Duplicate case id 'a'"), 'Case ids should be unique within a suite');
+
+  const verdict = await engine.evaluate('hey whats up', { policy: { ...testPolicy, default_action: 'allow' }, shortCircuit: false });
+  assert(verdict.final_verdict === 'WARN', 'Casual content should warn');
+
+  const passed = scoreTestCase(
+    { id: 'casual', content: 'hey whats up', expected_verdict: 'WARN', expected_rules: { rule_2: 'FAIL' } },
+    { id: 'casual', status: 'completed', verdict }
+  );
+  assert(passed.passed && passed.rule_mismatches.length === 0, 'Matching verdicts should pass');
+
+  const mismatched = scoreTestCase(
+    { id: 'casual', content: 'hey whats up', expected_verdict: 'WARN', expected_rules: { rule_2: 'PASS', rule_9: 'PASS' } },
+    { id: 'casual', status: 'completed', verdict }
+  );
+  assert(!mismatched.passed && mismatched.actual_verdict === 'WARN', 'A rule mismatch should fail the case');
+  assert(
+    mismatched.rule_mismatches.some(m => m.rule_id === 'rule_2' && m.actual === 'FAIL') &&
+      mismatched.rule_mismatches.some(m => m.rule_id === 'rule_9' && m.actual === null),
+    'Mismatches should report the actual verdict, or null for unknown rules'
+  );
+
+  const errored = scoreTestCase(
+    { id: 'broken', content: 'x', expected_verdict: 'BLOCK' },
+    { id: 'broken', status: 'error', error: 'Judge unavailable' }
+  );
+  assert(errored.actual_verdict === 'ERROR' && errored.error === 'Judge unavailable', 'Failed evaluations should score as ERROR');
+
+  const expectedRules = getExpectedRules([
+    { rule_id: 'rule_1', verdict: 'PASS' },
+    { rule_id: 'rule_2', verdict: 'SKIPPED' }
+  ]);
+  assert(JSON.stringify(expectedRules) === '{"rule_1":"PASS"}', 'Promoted rule expectations should leave out SKIPPED rules');
+
+  const results = [passed, mismatched, errored];
+  const summary = summarizeResults(results);
+  assert(
+    summary.total === 3 && summary.passed === 1 && summary.failed === 1 && summary.errors === 1 && summary.pass_rate === 0.3333,
+    'Summary should count passes, failures and errors'
+  );
+
+  const matrix = buildConfusionMatrix(results);
+  assert(matrix.WARN.WARN === 2 && matrix.BLOCK.ERROR === 1 && matrix.ALLOW.ALLOW === 0, 'Confusion matrix should count expected against actual');
+
+  const previous = {
+    runId: 'run-1',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    policy: { name: 'test_content_policy', version: '1.0', draft: false },
+    summary: { total: 3, passed: 2, failed: 1, errors: 0, pass_rate: 0.6667 },
+    results: [
+      { ...passed, passed: false, actual_verdict: 'BLOCK' as const },
+      { ...mismatched, id: 'casual-2', passed: true, rule_mismatches: [] },
+      { ...passed, id: 'retired' }
+    ]
+  };
+  const diff = diffTestRuns(previous, [passed, { ...mismatched, id: 'casual-2' }, errored], summary);
+  assert(diff.fixed.join() === 'casual' && diff.regressed.join() === 'casual-2', 'Diff should list fixed and regressed cases');
+  assert(
+    diff.changed.length === 1 && diff.changed[0]?.before === 'BLOCK' && diff.changed[0]?.after === 'WARN',
+    'Diff should list cases whose verdict changed'
+  );
+  assert(diff.added.join() === 'broken' && diff.removed.join() === 'retired', 'Diff should list added and removed cases');
+  assert(diff.pass_rate_delta === -0.3334 && diff.previous_policy_version === '1.0', 'Diff should report the pass rate change');
+}
+
 // Run all tests
 async function runAllTests(): Promise<void> {
   console.log('\n╔════════════════════════════════════════════╗');
@@ -326,6 +2527,31 @@ async function runAllTests(): Promise<void> {
     await testUncertainVerdict();
     await testAnyStrategy();
     await testPolicyValidation();
+    await testVerdictCache();
+    await testRuleProviders();
+    await testRedaction();
+    await testLocalRules();
+    await testShortCircuit();
+    await testNamedPolicies();
+    await testPolicyRevisions();
+    await testBatchEvaluation();
+    await testRuleResultStreaming();
+    await testJobWebhookHelpers();
+    await testAuthorization();
+    await testTenantQuotas();
+    await testRateLimits();
+    await testUsageAndCost();
+    await testJudgeEnsembles();
+    await testConfidenceThresholds();
+    await testPriorityAndExpressionStrategies();
+    await testRuleGroups();
+    await testPolicyInheritance();
+    await testConditionalRules();
+    await testTranscripts();
+    await testGuardrailFields();
+    await testChunking();
+    await testReviewQueue();
+    await testTestSuites();
 
   } catch (error) {
     console.error('\n✗ Test suite error:', error);
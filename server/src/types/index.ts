@@ -9,36 +9,139 @@
 // ============================================
 
 export type Verdict = 'PASS' | 'FAIL' | 'UNCERTAIN';
+export type RuleVerdict = Verdict | 'SKIPPED' | 'NOT_APPLICABLE';
 export type FinalVerdict = 'ALLOW' | 'BLOCK' | 'WARN' | 'REDACT' | 'ERROR';
 export type Action = 'allow' | 'block' | 'warn' | 'redact';
-export type EvaluationStrategy = 'all' | 'any' | 'weighted_threshold';
+export type EvaluationStrategy = 'all' | 'any' | 'weighted_threshold' | 'priority' | 'expression';
+export type RedactionMaskStyle = 'placeholder' | 'category' | 'hash';
+export type JudgeProviderName = 'openai' | 'anthropic' | 'azure_openai' | 'openai_compatible';
+export type RuleType = 'llm' | 'regex' | 'keyword' | 'pii';
+export type PiiType = 'email' | 'phone' | 'credit_card' | 'ssn' | 'api_key';
+export type EnsembleVoting = 'majority' | 'unanimous' | 'weighted_mean';
+export type ContentType = 'text' | 'code' | 'json' | 'html' | 'url';
+export type ChatRole = 'system' | 'user' | 'assistant';
+export type RuleScope = 'conversation' | 'last_message' | 'user_messages' | 'assistant_messages';
+export type JudgeSubject = 'content' | 'conversation' | 'messages' | 'message';
 
 // ============================================
 // Rule Types
 // ============================================
 
+export interface RedactionConfig {
+  mask_style?: RedactionMaskStyle;
+  placeholder?: string;
+  category?: string;
+}
+
+export interface EnsembleJudge {
+  provider?: JudgeProviderName;
+  model?: string;
+}
+
+export interface EnsembleConfig {
+  judges?: EnsembleJudge[]; // Defaults to the rule's own provider and model
+  samples?: number; // Votes per judge (default 1); repeated samples skip the verdict cache
+  voting?: EnsembleVoting; // Default 'majority'
+  threshold?: number; // weighted_mean only: minimum |score| for PASS or FAIL (default 0.5)
+  temperature?: number; // Sampling temperature for repeated samples
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Plain text, or a chat transcript in turn order
+export type EvaluationContent = string | ChatMessage[];
+
+// Guardrail fields a judge_prompt can reference as {{input}}, {{output}} and {{context}}
+export type PromptField = 'input' | 'output' | 'context';
+
+export interface EvaluationInputs {
+  input?: string; // Prompt sent to the guarded LLM
+  output?: string; // The LLM's response
+  context?: string; // Retrieved context the response should be grounded in
+}
+
+export type MetadataValue = string | number | boolean;
+export type EvaluationMetadata = Record<string, MetadataValue>; // e.g. channel, locale, user tier
+
+export interface RuleConditions {
+  metadata?: Record<string, MetadataValue | MetadataValue[]>; // Every key must equal (or be one of) the request value
+  min_length?: number; // Content length in characters
+  max_length?: number;
+  language?: string[]; // Detected language codes, e.g. 'en', 'fr', 'ja'
+  content_type?: ContentType[]; // Detected content type
+}
+
+export interface RedactionSpan {
+  start: number;
+  end: number;
+  text: string;
+  category?: string;
+}
+
 export interface Rule {
   id: string;
   description?: string;
-  judge_prompt: string;
+  type?: RuleType;
+  judge_prompt?: string; // Required for llm rules
   on_fail: Action;
   weight?: number;
+  provider?: JudgeProviderName;
+  model?: string;
+  redaction?: RedactionConfig;
+  pattern?: string;
+  flags?: string;
+  keywords?: string[];
+  case_sensitive?: boolean;
+  pii_types?: PiiType[];
+  ensemble?: EnsembleConfig;
+  min_confidence?: number; // Overrides the policy min_confidence
+  applies_when?: RuleConditions; // Rules that don't apply are NOT_APPLICABLE
+  scope?: RuleScope; // Transcripts only: which messages the rule judges (default 'conversation')
 }
 
 export interface RuleInput {
   id: string;
   description?: string;
-  judge_prompt: string;
+  type?: RuleType;
+  judge_prompt?: string; // Required for llm rules
   on_fail?: Action;
   weight?: number;
+  provider?: JudgeProviderName;
+  model?: string;
+  redaction?: RedactionConfig;
+  pattern?: string;
+  flags?: string;
+  keywords?: string[];
+  case_sensitive?: boolean;
+  pii_types?: PiiType[];
+  ensemble?: EnsembleConfig;
+  min_confidence?: number; // Overrides the policy min_confidence
+  applies_when?: RuleConditions; // Rules that don't apply are NOT_APPLICABLE
+  scope?: RuleScope; // Transcripts only: which messages the rule judges (default 'conversation')
 }
 
 export interface RulePartial {
   id?: string;
   description?: string;
+  type?: RuleType;
   judge_prompt?: string;
   on_fail?: Action;
   weight?: number;
+  provider?: JudgeProviderName;
+  model?: string;
+  redaction?: RedactionConfig;
+  pattern?: string;
+  flags?: string;
+  keywords?: string[];
+  case_sensitive?: boolean;
+  pii_types?: PiiType[];
+  ensemble?: EnsembleConfig;
+  min_confidence?: number; // Overrides the policy min_confidence
+  applies_when?: RuleConditions; // Rules that don't apply are NOT_APPLICABLE
+  scope?: RuleScope; // Transcripts only: which messages the rule judges (default 'conversation')
 }
 
 // ============================================
@@ -52,6 +155,31 @@ export interface Policy {
   rules: Rule[];
   evaluation_strategy: EvaluationStrategy;
   threshold?: number;
+  min_confidence?: number; // PASS/FAIL verdicts below it become UNCERTAIN
+  confidence_weighted?: boolean; // weighted_threshold: scale rule weights by confidence
+  expression?: string; // expression strategy, e.g. "(no_pii AND no_toxicity) OR approved_domain"
+  groups?: RuleGroup[]; // Nested rule groups whose verdicts roll up into evaluation_strategy
+  extends?: string; // Id of a base policy whose rules and groups are inherited
+  library_rules?: LibraryRuleRef[]; // Shared rules from the tenant's rule library
+}
+
+export interface LibraryRuleRef {
+  id: string; // Rule id in the rule library
+  on_fail?: Action; // Local override
+  weight?: number; // Local override
+}
+
+export interface RuleGroup {
+  id: string;
+  description?: string;
+  evaluation_strategy: EvaluationStrategy;
+  threshold?: number;
+  confidence_weighted?: boolean;
+  expression?: string; // Over the ids of the group's own rules and sub-groups
+  default_action?: Action; // Defaults to the parent's
+  weight?: number; // Weight of the group in its parent's strategy (default 1)
+  rules?: Rule[];
+  groups?: RuleGroup[];
 }
 
 export interface PolicyInput {
@@ -61,6 +189,12 @@ export interface PolicyInput {
   rules?: RulePartial[];
   evaluation_strategy?: EvaluationStrategy;
   threshold?: number;
+  min_confidence?: number;
+  confidence_weighted?: boolean;
+  expression?: string;
+  groups?: RuleGroup[];
+  extends?: string;
+  library_rules?: LibraryRuleRef[];
 }
 
 // ============================================
@@ -68,6 +202,7 @@ export interface PolicyInput {
 // ============================================
 
 export interface JudgeConfig {
+  provider?: JudgeProviderName;
   model: string;
   temperature: number;
   maxTokens: number;
@@ -78,12 +213,18 @@ export interface JudgeConfig {
   backoffMultiplier?: number;
   circuitBreakerThreshold?: number;
   circuitBreakerResetMs?: number;
+  chunkTokens?: number; // Content tokens per judge call; longer content is judged in chunks
+  chunkOverlapTokens?: number; // Tokens shared by consecutive chunks
 }
 
 export interface EngineSettings {
   parallelEvaluation: boolean;
+  shortCircuit?: boolean;
   debugLog: boolean;
   cacheResults: boolean;
+  cacheTtlMs?: number;
+  cacheMaxEntries?: number;
+  batchConcurrency?: number; // Global cap on concurrently evaluated batch items
 }
 
 export interface Config {
@@ -110,11 +251,43 @@ export interface JudgeEvaluationResult {
   latency_ms?: number;
   error?: string;
   errorType?: ErrorType;
+  cached?: boolean;
+  provider?: JudgeProviderName;
+  model?: string;
+  spans?: Array<Partial<RedactionSpan>>;
+  usage?: TokenUsage; // Reported by the provider; absent for cached, mock and local results
+  votes?: JudgeVote[]; // Individual judge votes of an ensemble rule
+  agreement?: number; // Share of votes matching the combined verdict
+  chunks?: ChunkResult[]; // Chunks of long content that did not pass
+  chunk_count?: number; // Chunks the content was split into
+}
+
+export interface ChunkResult {
+  index: number;
+  start: number; // Character offsets of the chunk in the judged content
+  end: number;
+  verdict: Verdict;
+  confidence: number;
+  reasoning: string;
+  error?: string;
+}
+
+export interface JudgeVote {
+  provider?: JudgeProviderName;
+  model?: string;
+  verdict: Verdict;
+  confidence: number;
+  reasoning: string;
+  latency_ms: number;
+  error?: string;
+  cached?: boolean;
+  usage?: TokenUsage;
+  cost_usd?: number; // Set on rule results
 }
 
 export interface RuleResult {
   rule_id: string;
-  verdict: Verdict;
+  verdict: RuleVerdict;
   confidence: number;
   reasoning: string;
   action: Action;
@@ -122,6 +295,14 @@ export interface RuleResult {
   latency_ms: number;
   error?: string;
   errorType?: ErrorType;
+  spans?: RedactionSpan[];
+  usage?: RuleUsage;
+  votes?: JudgeVote[];
+  agreement?: number;
+  downgraded_from?: Verdict; // Verdict before min_confidence turned it UNCERTAIN
+  group_path?: string[]; // Ids of the groups containing the rule, outermost first
+  chunks?: ChunkResult[];
+  chunk_count?: number;
 }
 
 export interface AggregationSummary {
@@ -133,6 +314,13 @@ export interface AggregationSummary {
   reason: string;
   score?: number;
   threshold?: number;
+  skipped?: number;
+  calls_saved?: number;
+  downgraded?: number;
+  confidence_weighted?: boolean;
+  decided_by?: string; // priority: the rule whose failure decided the verdict
+  expression?: string;
+  not_applicable?: number; // Rules left out because their applies_when did not match
 }
 
 export interface AggregationResult {
@@ -141,7 +329,17 @@ export interface AggregationResult {
   summary: AggregationSummary;
 }
 
+export interface RuleGroupResult {
+  group_id: string;
+  path: string[]; // Ids from the top-level group down to this one
+  verdict: RuleVerdict; // How the parent strategy counted the group
+  final_verdict: FinalVerdict;
+  passed: boolean;
+  summary: AggregationSummary;
+}
+
 export interface PolicyVerdict {
+  policy_id?: string;
   policy_name: string;
   policy_version?: string;
   final_verdict: FinalVerdict;
@@ -149,10 +347,328 @@ export interface PolicyVerdict {
   evaluated_at: string;
   rule_results: RuleResult[];
   summary?: AggregationSummary;
+  group_results?: RuleGroupResult[]; // Grouped policies: every group, outermost first
+  redacted_content?: string;
+  redacted_messages?: ChatMessage[]; // Transcripts: the messages with redactions applied
+  error?: string;
+  total_latency_ms: number;
+  usage?: VerdictUsage; // Sum of the rule results' usage
+}
+
+// ============================================
+// Batch Types
+// ============================================
+
+export interface BatchItem extends EvaluationInputs {
+  id: string;
+  content?: EvaluationContent; // Defaults to output
+  metadata?: EvaluationMetadata;
+}
+
+export interface BatchItemResult {
+  id: string;
+  status: 'completed' | 'error';
+  verdict?: PolicyVerdict;
   error?: string;
+  evaluationId?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  completed: number;
+  errors: number;
+  passed: number;
+  verdicts: Record<FinalVerdict, number>;
+  concurrency: number;
+  rate_limit_waits: number;
   total_latency_ms: number;
 }
 
+export interface BatchEvaluationResult {
+  items: BatchItemResult[];
+  summary: BatchSummary;
+}
+
+// ============================================
+// Job Types
+// ============================================
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type CallbackStatus = 'pending' | 'delivered' | 'failed';
+
+export interface JobCallback {
+  url: string;
+  status: CallbackStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  lastStatusCode?: number;
+  deliveredAt?: Date;
+}
+
+export interface EvaluationJob {
+  jobId: string;
+  status: JobStatus;
+  policyId?: string;
+  policyName?: string;
+  shortCircuit?: boolean;
+  result?: PolicyVerdict;
+  evaluationId?: string;
+  error?: string;
+  callback?: JobCallback;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+// ============================================
+// Review Queue Types
+// ============================================
+
+export type ReviewStatus = 'pending' | 'claimed' | 'resolved';
+
+// Why an evaluation was queued: a WARN verdict, or rules the judge was UNCERTAIN about
+export type ReviewTrigger = 'warn' | 'uncertain';
+
+// approve keeps the engine's verdict, override replaces it
+export type ReviewDecision = 'approve' | 'override';
+
+export interface ReviewResolution {
+  decision: ReviewDecision;
+  verdict: FinalVerdict; // Final verdict after review
+  rationale?: string;
+  reviewer: string;
+  resolvedAt: Date;
+}
+
+export interface ReviewItem {
+  reviewId: string;
+  evaluationId: string;
+  status: ReviewStatus;
+  triggers: ReviewTrigger[];
+  policyName: string;
+  policyVersion: string;
+  verdict: FinalVerdict; // Engine verdict
+  reason?: string; // Aggregation reason of the engine verdict
+  uncertainRules: string[];
+  contentPreview: string;
+  assignee?: string;
+  createdAt: Date;
+  claimedAt?: Date;
+  dueAt: Date; // SLA deadline for resolution
+  overdue: boolean; // Unresolved past dueAt, or resolved after it
+  resolution?: ReviewResolution;
+}
+
+export interface ReviewOperationResult {
+  success: boolean;
+  message?: string;
+  errors?: string[]; // Invalid resolution
+  notFound?: boolean;
+  item?: ReviewItem;
+}
+
+// ============================================
+// Test Suite Types
+// ============================================
+
+// Rule verdicts a test case can expect (SKIPPED depends on short-circuiting)
+export type ExpectedRuleVerdict = Verdict | 'NOT_APPLICABLE';
+
+export interface TestCase extends EvaluationInputs {
+  id: string; // Unique within the suite; runs are diffed by case id
+  description?: string;
+  content?: EvaluationContent; // Defaults to output
+  metadata?: EvaluationMetadata;
+  expected_verdict: FinalVerdict;
+  expected_rules?: Record<string, ExpectedRuleVerdict>; // Rule id -> expected verdict
+  evaluationId?: string; // History record the case was promoted from
+}
+
+export interface TestSuite {
+  suiteId: string;
+  name: string; // Unique per tenant
+  description?: string;
+  cases: TestCase[];
+  author?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TestSuiteInput {
+  name?: string;
+  description?: string;
+  cases?: TestCase[];
+}
+
+export interface RuleMismatch {
+  rule_id: string;
+  expected: ExpectedRuleVerdict;
+  actual: RuleVerdict | null; // null when the policy has no such rule
+}
+
+export interface TestCaseResult {
+  id: string;
+  passed: boolean;
+  expected_verdict: FinalVerdict;
+  actual_verdict: FinalVerdict; // ERROR when the evaluation failed
+  rule_mismatches: RuleMismatch[];
+  reason?: string; // Summary reason of the actual verdict
+  error?: string;
+}
+
+// Expected final verdict -> actual final verdict -> number of cases
+export type ConfusionMatrix = Record<FinalVerdict, Record<FinalVerdict, number>>;
+
+export interface TestCaseChange {
+  id: string;
+  before: FinalVerdict;
+  after: FinalVerdict;
+}
+
+export interface TestRunDiff {
+  previousRunId: string;
+  previousRunAt: Date;
+  previous_policy_version?: string;
+  pass_rate_delta: number;
+  fixed: string[]; // Failed in the previous run, pass now
+  regressed: string[]; // Passed in the previous run, fail now
+  changed: TestCaseChange[]; // Actual verdict differs from the previous run
+  added: string[]; // Cases the previous run did not have
+  removed: string[]; // Cases no longer in the suite
+}
+
+export interface TestRunSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  pass_rate: number; // 0-1
+}
+
+export interface TestRun {
+  runId: string;
+  suiteId: string;
+  suiteName: string;
+  policy: {
+    id?: string; // Named policy the suite ran against
+    name: string;
+    version?: string;
+    draft: boolean; // Ran against a policy supplied with the request
+  };
+  summary: TestRunSummary;
+  confusion_matrix: ConfusionMatrix;
+  results: TestCaseResult[];
+  diff?: TestRunDiff; // Absent for a suite's first run
+  usage?: VerdictUsage;
+  total_latency_ms: number;
+  author?: string;
+  createdAt: Date;
+}
+
+export interface TestSuiteOperationResult {
+  success: boolean;
+  message?: string;
+  errors?: string[]; // Invalid suite or case
+  notFound?: boolean;
+  suite?: TestSuite;
+}
+
+// ============================================
+// Auth Types
+// ============================================
+
+// Each role includes the permissions of the roles before it
+export type Role = 'evaluator' | 'editor' | 'admin';
+
+export type AuthMethod = 'api_key' | 'jwt';
+
+export interface AuthPrincipal {
+  id: string;
+  name?: string;
+  role: Role;
+  method: AuthMethod;
+  tenantId: string;
+}
+
+export interface ApiKeyInfo {
+  keyId: string;
+  name: string;
+  role: Role;
+  tenantId: string;
+  prefix: string;
+  createdBy?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Returns middleware that only lets principals with at least the given role through
+ */
+export type Authorize = (role: Role) => import('express').RequestHandler;
+
+// ============================================
+// Tenant Types
+// ============================================
+
+export interface TenantLimits {
+  rateLimit: number; // Requests per rate limit window
+  tokenRateLimit: number; // Estimated judge tokens per rate limit window (0 = unlimited)
+  tokenQuota: number; // Judge tokens per quota window (0 = unlimited)
+}
+
+export type RateLimitStoreType = 'memory' | 'mongo';
+
+export type RateLimitDimension = 'requests' | 'tokens';
+
+export type RateLimitScope = 'tenant' | 'key' | 'client'; // client = IP address of unauthenticated calls
+
+export interface RateLimitOutcome {
+  dimension: RateLimitDimension;
+  scope: RateLimitScope;
+  limit: number;
+  used: number; // Including this request
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface TokenQuotaStatus {
+  tenantId: string;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  limit: number; // 0 = unlimited
+  remaining: number | null; // null when unlimited
+  resetAt: Date;
+}
+
+// ============================================
+// Usage & Cost Types
+// ============================================
+
+export interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+export interface RuleUsage extends TokenUsage {
+  provider?: JudgeProviderName;
+  model?: string;
+  cost_usd: number;
+}
+
+export interface VerdictUsage extends TokenUsage {
+  total_tokens: number;
+  cost_usd: number;
+}
+
 // ============================================
 // Validation Types
 // ============================================
@@ -166,8 +682,89 @@ export interface ValidationResult {
 export interface RuleOperationResult {
   success: boolean;
   message?: string;
+  errors?: string[]; // Validation errors of the rule
   rule?: Rule;
   deletedRule?: Rule;
+  version?: string; // Policy version after the change
+}
+
+export interface LibraryRuleOperationResult {
+  success: boolean;
+  message?: string;
+  errors?: string[];
+  rule?: Rule;
+  affected_policies?: string[]; // Policies that resolve the library rule
+}
+
+export interface PolicyOperationResult {
+  success: boolean;
+  message?: string;
+  policyId?: string;
+  policy?: Policy;
+  revision?: number; // Revision recorded by the operation
+}
+
+export interface PolicySummary {
+  policyId: string;
+  name: string;
+  version?: string;
+  rulesCount: number;
+  evaluation_strategy: EvaluationStrategy;
+  isDefault: boolean;
+  extends?: string;
+}
+
+// ============================================
+// Revision Types
+// ============================================
+
+export type RevisionChange =
+  | 'create'
+  | 'baseline'
+  | 'update_config'
+  | 'add_rule'
+  | 'update_rule'
+  | 'delete_rule'
+  | 'reset'
+  | 'rollback';
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface PolicyRevision {
+  configId: string;
+  revision: number;
+  version: string;
+  change: RevisionChange;
+  author: string;
+  message?: string;
+  policy: Policy;
+  createdAt: Date;
+}
+
+export interface PolicyFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RuleChange {
+  rule_id: string;
+  change: 'added' | 'removed' | 'modified';
+  fields?: string[];
+  before?: Rule;
+  after?: Rule;
+}
+
+export interface PolicyChangeSet {
+  policy_changes: PolicyFieldChange[];
+  rule_changes: RuleChange[];
+}
+
+export interface PolicyDiff extends PolicyChangeSet {
+  configId: string;
+  from: { revision: number; version: string; createdAt: Date };
+  to: { revision: number; version: string; createdAt: Date };
+  bump: VersionBump | null;
 }
 
 // ============================================
@@ -218,6 +815,52 @@ export interface RateLimitState {
   lastRateLimitTime: number | null;
 }
 
+export interface VerdictCacheOptions {
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+export interface VerdictCacheStats {
+  enabled: boolean;
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+export interface JudgeCompletionRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface JudgeCompletionResponse {
+  text: string;
+  usage?: TokenUsage; // Reported by the provider, when available
+}
+
+export interface JudgeProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  endpoint?: string;
+  apiVersion?: string;
+  deployment?: string;
+  timeout: number;
+}
+
+export interface JudgeProviderInterface {
+  readonly name: JudgeProviderName;
+  isConfigured(): boolean;
+  complete(request: JudgeCompletionRequest): Promise<JudgeCompletionResponse>;
+  healthCheck(): Promise<void>;
+}
+
 export interface JudgeMetrics {
   requests: number;
   successes: number;
@@ -227,6 +870,8 @@ export interface JudgeMetrics {
   rateLimits: number;
   circuitBreakerTrips: number;
   totalLatency: number;
+  inputTokens: number;
+  outputTokens: number;
 }
 
 export interface JudgeMetricsReport extends JudgeMetrics {
@@ -235,11 +880,16 @@ export interface JudgeMetricsReport extends JudgeMetrics {
   circuitState: CircuitState;
   circuitFailureCount: number;
   isRateLimited: boolean;
+  cacheHits: number;
+  cacheMisses: number;
+  cacheHitRate: string;
+  cacheSize: number;
 }
 
 export interface HealthCheckResult {
   healthy: boolean;
   mode?: 'mock' | 'live';
+  provider?: JudgeProviderName;
   model?: string;
   error?: string;
   circuitState: CircuitState;
@@ -269,6 +919,7 @@ export interface MockResponse {
   timeout?: number;
   rateLimit?: boolean;
   circuitBreaker?: boolean;
+  spans?: Array<Partial<RedactionSpan>>;
 }
 
 export type MockResponseFunction = (content: string) => JudgeEvaluationResult;
@@ -285,6 +936,8 @@ export interface JudgeServiceOptions {
   apiKey?: string;
   mockMode?: boolean;
   mockResponses?: MockResponses;
+  cache?: Partial<VerdictCacheOptions>;
+  providers?: Partial<Record<JudgeProviderName, JudgeProviderInterface>>;
 }
 
 export interface PolicyEngineOptions {
@@ -295,18 +948,43 @@ export interface PolicyEngineOptions {
   mockResponses?: MockResponses;
 }
 
+export type RuleResultCallback = (result: RuleResult) => void;
+
 export interface EvaluateOptions {
   policy?: Policy;
+  policyId?: string;
+  shortCircuit?: boolean;
+  metadata?: EvaluationMetadata; // Request metadata for rule applies_when conditions
+  inputs?: EvaluationInputs; // Guardrail fields filled into judge_prompt placeholders
+  onRuleResult?: RuleResultCallback; // Called as each rule finishes (used for streaming)
+}
+
+export interface EvaluateBatchOptions extends EvaluateOptions {
+  concurrency?: number; // Per-batch cap (never above settings.batchConcurrency)
+  onItemComplete?: (result: BatchItemResult) => Promise<void> | void;
+}
+
+export interface JudgeEvaluateOptions {
+  signal?: AbortSignal;
+  temperature?: number; // Overrides the judge temperature for this call
+  skipCache?: boolean;
+  subject?: JudgeSubject; // What the judge is told it evaluates (default 'content')
+  context?: string; // Earlier conversation turns shown to the judge but not judged
+  inputs?: EvaluationInputs; // Values for the {{input}}, {{output}} and {{context}} placeholders
 }
 
 export interface InitializeOptions {
   logger?: Logger;
   mockMode?: boolean;
   mockResponses?: MockResponses;
+  authEnabled?: boolean;
 }
 
 export interface PolicyRoutesOptions {
   logger?: Logger;
+  authorize?: Authorize;
+  quotaGuard?: import('express').RequestHandler; // Rejects evaluations once the tenant's token quota is spent
+  tokenRateLimiter?: import('express').RequestHandler; // Counts estimated judge tokens against the rate limits
 }
 
 // ============================================
@@ -326,17 +1004,24 @@ export interface Logger {
 // ============================================
 
 export interface JudgeServiceInterface {
-  evaluate(rule: Rule, content: string): Promise<JudgeEvaluationResult>;
+  evaluate(rule: Rule, content: string, options?: JudgeEvaluateOptions): Promise<JudgeEvaluationResult>;
   updateConfig(newConfig: Partial<JudgeConfig>): void;
   setMockMode(enabled: boolean, responses?: MockResponses): void;
   healthCheck(): Promise<HealthCheckResult>;
   getMetrics(): JudgeMetricsReport;
   resetCircuitBreaker(): void;
+  configureCache(options: Partial<VerdictCacheOptions>): void;
+  clearCache(ruleIds?: string[]): void;
+  getRateLimitState(): RateLimitState;
 }
 
 export interface PolicyEngineInterface {
-  evaluate(content: string, options?: EvaluateOptions): Promise<PolicyVerdict>;
+  evaluate(content: EvaluationContent, options?: EvaluateOptions): Promise<PolicyVerdict>;
   getActivePolicy(): Policy;
+  getPolicyById(policyId: string): Policy | null;
+  getPolicyDefinition(policyId: string): Policy | null;
+  resolve(policy: Policy): Policy;
+  listPolicies(): PolicySummary[];
   setRuntimePolicy(policy: Policy): void;
   clearRuntimePolicy(): void;
   reloadConfig(): Config;
@@ -345,7 +1030,7 @@ export interface PolicyEngineInterface {
   getAvailableStrategies(): EvaluationStrategy[];
   setMockMode(enabled: boolean, responses?: MockResponses): void;
   healthCheck(): Promise<PolicyEngineHealthCheck>;
-  validatePolicy(policy: PolicyInput): ValidationResult;
+  validatePolicy(policy: PolicyInput, policyId?: string, fields?: PromptField[]): ValidationResult;
   addRule(rule: RuleInput): RuleOperationResult;
   updateRule(ruleId: string, updates: Partial<RuleInput>): RuleOperationResult;
   deleteRule(ruleId: string): RuleOperationResult;
@@ -357,15 +1042,38 @@ export interface PolicyEngineInterface {
 
 export interface AggregationStrategyInterface {
   aggregate(ruleResults: RuleResult[], policy: Policy): AggregationResult;
+  isSettled(ruleResults: RuleResult[], pendingRules: Rule[], policy: Policy): boolean;
 }
 
 // ============================================
 // API Request/Response Types
 // ============================================
 
-export interface EvaluateRequest {
-  content: string;
+export interface EvaluateRequest extends EvaluationInputs {
+  content?: EvaluationContent; // Defaults to output
+  policy?: Policy;
+  policyId?: string;
+  short_circuit?: boolean;
+  metadata?: EvaluationMetadata;
+}
+
+export interface CreateJobRequest extends EvaluationInputs {
+  content?: EvaluationContent; // Defaults to output
+  policy?: Policy;
+  policyId?: string;
+  short_circuit?: boolean;
+  metadata?: EvaluationMetadata;
+  callback_url?: string;
+}
+
+export interface EvaluateBatchRequest {
+  items: BatchItem[];
   policy?: Policy;
+  policyId?: string;
+  short_circuit?: boolean;
+  metadata?: EvaluationMetadata; // Shared by every item; an item's own metadata keys take precedence
+  concurrency?: number;
+  save_history?: boolean;
 }
 
 export interface ConfigUpdateRequest {
@@ -376,6 +1084,7 @@ export interface ConfigUpdateRequest {
 
 export interface ValidateRequest {
   policy: PolicyInput;
+  fields?: PromptField[]; // Guardrail fields requests will supply; placeholders for others are errors
 }
 
 export interface ApiErrorResponse {